@@ -1,14 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { AppState, ExamSettings, ExamType } from './types';
+import { AppState, Difficulty, ExamSettings, ExamType, Language, LearnerProfile, SavedExam, TestQuestion, ClozeCard, OpenQuestion } from './types';
 import { generateTestQuestions, generateClozeCards, generateOpenQuestions, generateThematicBackground, generateExamTitle } from './services/geminiService';
 import FileUpload from './components/FileUpload';
 import { Settings } from './components/Settings';
 import ExamTestMode from './components/ExamTestMode';
 import ExamClozeMode from './components/ExamClozeMode';
 import ExamOpenMode from './components/ExamOpenMode';
-import { Loader2, Moon, Sun, Maximize, Minimize, ZoomIn, ZoomOut } from 'lucide-react';
+import OralExamMode from './components/OralExamMode';
+import ExamLibrary from './components/ExamLibrary';
+import ReviewMode from './components/ReviewMode';
+import QuestionBankImport from './components/QuestionBankImport';
+import ExamReview, { ReviewedItems } from './components/ExamReview';
+import ProgressDashboard from './components/ProgressDashboard';
+import PracticeMode from './components/PracticeMode';
+import { saveExam, updateExam } from './services/examLibrary';
+import { ImportedBank, getImportedSettings } from './services/importService';
+import { AttemptResult, NewExamAttempt, getActiveProfile, recordAttempt } from './services/learnerService';
+import { PracticePlan } from './services/adaptiveService';
+import { LANGUAGES, useTranslation } from './i18n';
+import { Loader2, Moon, Sun, Maximize, Minimize, ZoomIn, ZoomOut, Languages, ChartColumn } from 'lucide-react';
 
 const App: React.FC = () => {
+  const { t, language, setLanguage } = useTranslation();
   const [state, setState] = useState<AppState>({
     step: 'UPLOAD',
     pdfText: '',
@@ -24,6 +37,14 @@ const App: React.FC = () => {
   const [zoomLevel, setZoomLevel] = useState(1);
   const [backgroundImage, setBackgroundImage] = useState<string | null>(null);
   const [examTitle, setExamTitle] = useState<string>('');
+  const [profile, setProfile] = useState<LearnerProfile | null>(null);
+  const [practicePlan, setPracticePlan] = useState<PracticePlan | null>(null);
+
+  useEffect(() => {
+    getActiveProfile(t.progress.defaultProfile)
+      .then(setProfile)
+      .catch(err => console.error("Failed to load learner profile", err));
+  }, []);
 
   // Dark mode effect
   useEffect(() => {
@@ -71,7 +92,7 @@ const App: React.FC = () => {
     setState(prev => ({ ...prev, pdfText: data.text, uploadedFiles: filesMap, step: 'SETTINGS' }));
 
     // Generate title and background asynchronously
-    generateExamTitle(data.text)
+    generateExamTitle(data.text, language)
       .then(title => setExamTitle(title))
       .catch(err => console.error("Failed to generate title", err));
 
@@ -82,34 +103,129 @@ const App: React.FC = () => {
       .catch(err => console.error("Failed to generate background", err));
   };
 
+  // Store the generated exam so it can be retaken later without regenerating it
+  const persistExam = async (
+    settings: ExamSettings,
+    items: { testQuestions?: TestQuestion[]; clozeCards?: ClozeCard[]; openQuestions?: OpenQuestion[] },
+    source: { title: string; pdfText: string; files: File[] } = { title: examTitle, pdfText: state.pdfText, files: Array.from(state.uploadedFiles?.values() || []) }
+  ) => {
+    try {
+      const saved = await saveExam({
+        title: source.title || t.app.untitledExam,
+        settings,
+        pdfText: source.pdfText,
+        files: source.files,
+        testQuestions: items.testQuestions || [],
+        clozeCards: items.clozeCards || [],
+        openQuestions: items.openQuestions || [],
+      });
+      setState(prev => ({ ...prev, examId: saved.id }));
+    } catch (err) {
+      console.error("Failed to save exam", err);
+    }
+  };
+
   const handleStartExam = async (settings: ExamSettings) => {
-    setState(prev => ({ ...prev, step: 'LOADING', settings }));
+    setState(prev => ({ ...prev, step: 'LOADING', settings, examId: undefined }));
+
+    // With review enabled the exam is only saved once the teacher approves it
+    const nextStep = settings.reviewBeforeExam ? 'REVIEW' : 'EXAM';
+    const finish = (items: Partial<ReviewedItems>) => {
+      setState(prev => ({ ...prev, ...items, step: nextStep }));
+      if (!settings.reviewBeforeExam) persistExam(settings, items);
+    };
 
     try {
       if (settings.type === ExamType.TEST) {
-        setLoadingMessage('Generando preguntas de tipo test...');
-        const questions = await generateTestQuestions(state.pdfText, settings);
-        setState(prev => ({ ...prev, testQuestions: questions, step: 'EXAM' }));
+        setLoadingMessage(t.app.generatingTest);
+        finish({ testQuestions: await generateTestQuestions(state.pdfText, settings) });
       } else if (settings.type === ExamType.CLOZE_FLASHCARD) {
-        setLoadingMessage('Creando tarjetas de memoria y visualizaciones...');
-        const cards = await generateClozeCards(state.pdfText, settings);
-        setState(prev => ({ ...prev, clozeCards: cards, step: 'EXAM' }));
+        setLoadingMessage(t.app.generatingCloze);
+        finish({ clozeCards: await generateClozeCards(state.pdfText, settings) });
       } else if (settings.type === ExamType.OPEN_FLASHCARD) {
-        setLoadingMessage('Formulando preguntas abiertas...');
-        const questions = await generateOpenQuestions(state.pdfText, settings);
-        setState(prev => ({ ...prev, openQuestions: questions, step: 'EXAM' }));
+        setLoadingMessage(t.app.generatingOpen);
+        finish({ openQuestions: await generateOpenQuestions(state.pdfText, settings) });
       }
     } catch (error) {
       console.error(error);
-      alert('Error al generar el examen. Por favor, revisa tu API Key o inténtalo de nuevo.');
+      alert(t.app.generationError);
       setState(prev => ({ ...prev, step: 'SETTINGS' }));
     }
   };
 
+  const handleReviewConfirm = (items: ReviewedItems) => {
+    setState(prev => ({ ...prev, ...items, step: 'EXAM' }));
+    if (state.examId) {
+      updateExam(state.examId, items).catch(err => console.error("Failed to update exam", err));
+    } else {
+      persistExam(state.settings, items);
+    }
+  };
+
+  // Imported banks have no source documents: they go straight to the player
+  const handleImportBank = (bank: ImportedBank, type: ExamType) => {
+    const settings = getImportedSettings(bank, type, language);
+    setExamTitle(bank.title);
+    setBackgroundImage(null);
+    setState(prev => ({
+      ...prev,
+      step: 'EXAM',
+      examId: undefined,
+      pdfText: '',
+      settings,
+      uploadedFiles: new Map(),
+      testQuestions: bank.testQuestions,
+      clozeCards: bank.clozeCards,
+      openQuestions: bank.openQuestions,
+    }));
+    persistExam(settings, bank, { title: bank.title, pdfText: '', files: [] });
+  };
+
+  const loadSavedExam = (exam: SavedExam, step: AppState['step']) => {
+    setExamTitle(exam.title);
+    setState(prev => ({
+      ...prev,
+      step,
+      examId: exam.id,
+      pdfText: exam.pdfText,
+      settings: exam.settings,
+      uploadedFiles: new Map(exam.files.map(file => [file.name, file])),
+      testQuestions: exam.testQuestions,
+      clozeCards: exam.clozeCards,
+      openQuestions: exam.openQuestions,
+    }));
+  };
+
+  const saveAttempt = (attempt: Omit<NewExamAttempt, 'profileId'>) => {
+    if (!profile) return;
+    recordAttempt({ ...attempt, profileId: profile.id })
+      .catch(err => console.error("Failed to record attempt", err));
+  };
+
+  const handleExamFinish = (result: AttemptResult) => saveAttempt({
+    ...result,
+    examId: state.examId,
+    examTitle: examTitle || t.app.untitledExam,
+    settings: state.settings,
+  });
+
+  // Recorded under the practised exam, with the difficulty it ended at
+  const handlePracticeFinish = (result: AttemptResult, difficulty: Difficulty) => {
+    if (!practicePlan) return;
+    saveAttempt({
+      ...result,
+      examId: practicePlan.exam.id,
+      examTitle: practicePlan.exam.title,
+      settings: { ...practicePlan.settings, questionCount: result.questions.length, difficulty },
+      practice: true,
+    });
+  };
+
+  // Imported banks have no document to generate a new exam from: back to the start
   const handleRestart = () => {
     setState(prev => ({
       ...prev,
-      step: 'SETTINGS',
+      step: prev.pdfText ? 'SETTINGS' : 'UPLOAD',
       testQuestions: [],
       clozeCards: [],
       openQuestions: []
@@ -137,6 +253,31 @@ const App: React.FC = () => {
           </div>
 
           <div className="flex items-center gap-2 sm:gap-3">
+            {profile && (
+              <button
+                onClick={() => setState(prev => ({ ...prev, step: 'PROGRESS' }))}
+                className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700 text-[11px] font-medium text-slate-600 dark:text-slate-300 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                title={t.progress.openHint}
+              >
+                <ChartColumn size={14} className="text-slate-500" />
+                <span className="hidden sm:inline max-w-[8rem] truncate">{profile.name}</span>
+              </button>
+            )}
+
+            {/* Interface Language */}
+            <div className="flex items-center gap-1 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700" title={t.app.interfaceLanguage}>
+              <Languages size={14} className="text-slate-500" />
+              <select
+                value={language}
+                onChange={(e) => setLanguage(e.target.value as Language)}
+                className="bg-transparent text-[11px] font-medium text-slate-600 dark:text-slate-300 focus:outline-none cursor-pointer"
+              >
+                {LANGUAGES.map(entry => (
+                  <option key={entry.code} value={entry.code}>{entry.label}</option>
+                ))}
+              </select>
+            </div>
+
             {/* Zoom Controls */}
             <div className="hidden md:flex items-center gap-1 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-700">
               <button onClick={() => setZoomLevel(Math.max(0.8, zoomLevel - 0.1))} className="p-1 text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400"><ZoomOut size={14} /></button>
@@ -147,7 +288,7 @@ const App: React.FC = () => {
             <button
               onClick={toggleFullScreen}
               className="p-1.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
-              title={isFullScreen ? "Salir de pantalla completa" : "Pantalla completa"}
+              title={isFullScreen ? t.app.exitFullScreen : t.app.fullScreen}
             >
               {isFullScreen ? <Minimize size={16} /> : <Maximize size={16} />}
             </button>
@@ -155,7 +296,7 @@ const App: React.FC = () => {
             <button
               onClick={() => setIsDarkMode(!isDarkMode)}
               className="p-1.5 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-slate-700 transition-colors"
-              title="Modo oscuro"
+              title={t.app.darkMode}
             >
               {isDarkMode ? <Sun size={16} /> : <Moon size={16} />}
             </button>
@@ -169,26 +310,33 @@ const App: React.FC = () => {
           {state.step === 'UPLOAD' && (
             <div className="text-center space-y-4">
               <h1 className="text-3xl md:text-4xl font-extrabold text-slate-800 dark:text-white tracking-tight">
-                Exámenes desde PDF <br />
-                <span className="text-indigo-600 dark:text-indigo-400">con Inteligencia Artificial</span>
+                {t.app.heroTitle} <br />
+                <span className="text-indigo-600 dark:text-indigo-400">{t.app.heroHighlight}</span>
               </h1>
               <p className="text-base text-slate-500 dark:text-slate-400 max-w-xl mx-auto leading-relaxed">
-                Sube tu documento y genera tests, flashcards y evaluaciones al instante.
+                {t.app.heroSubtitle}
               </p>
               <FileUpload
                 onTextExtracted={handleTextExtracted}
-                setLoading={(isLoading) => setLoadingMessage(isLoading ? 'Analizando PDF...' : '')}
+                setLoading={(isLoading, message) => setLoadingMessage(isLoading ? message || t.app.analyzing : '')}
               />
+              <QuestionBankImport onImport={handleImportBank} />
               {loadingMessage && state.step === 'UPLOAD' && (
                 <div className="mt-4 flex items-center justify-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 font-medium">
                   <Loader2 className="animate-spin" size={16} /> {loadingMessage}
                 </div>
               )}
+              <ExamLibrary
+                onRetake={(exam) => loadSavedExam(exam, 'EXAM')}
+                onOpen={(exam) => loadSavedExam(exam, 'SETTINGS')}
+                onEdit={(exam) => loadSavedExam(exam, 'REVIEW')}
+                onStudy={() => setState(prev => ({ ...prev, step: 'STUDY' }))}
+              />
             </div>
           )}
 
           {state.step === 'SETTINGS' && (
-            <Settings onStart={handleStartExam} pdfText={state.pdfText} uploadedFiles={state.uploadedFiles} examTitle={examTitle} />
+            <Settings onStart={handleStartExam} pdfText={state.pdfText} uploadedFiles={state.uploadedFiles} examTitle={examTitle} initialSettings={state.settings} />
           )}
 
           {state.step === 'LOADING' && (
@@ -198,10 +346,46 @@ const App: React.FC = () => {
                 <div className="absolute inset-0 border-4 border-indigo-600 dark:border-indigo-500 border-t-transparent rounded-full animate-spin"></div>
               </div>
               <h2 className="text-lg font-bold text-slate-700 dark:text-slate-200 animate-pulse">{loadingMessage}</h2>
-              <p className="text-slate-500 dark:text-slate-400 text-xs">Procesando contenido con IA...</p>
+              <p className="text-slate-500 dark:text-slate-400 text-xs">{t.app.processing}</p>
             </div>
           )}
 
+          {state.step === 'REVIEW' && (
+            <ExamReview
+              settings={state.settings}
+              pdfText={state.pdfText}
+              testQuestions={state.testQuestions}
+              clozeCards={state.clozeCards}
+              openQuestions={state.openQuestions}
+              onConfirm={handleReviewConfirm}
+              onCancel={() => setState(prev => ({ ...prev, step: prev.pdfText ? 'SETTINGS' : 'UPLOAD' }))}
+            />
+          )}
+
+          {state.step === 'STUDY' && (
+            <ReviewMode onExit={() => setState(prev => ({ ...prev, step: 'UPLOAD' }))} />
+          )}
+
+          {state.step === 'PROGRESS' && profile && (
+            <ProgressDashboard
+              profile={profile}
+              onProfileChange={setProfile}
+              onPractice={(plan) => {
+                setPracticePlan(plan);
+                setState(prev => ({ ...prev, step: 'PRACTICE' }));
+              }}
+              onExit={() => setState(prev => ({ ...prev, step: 'UPLOAD' }))}
+            />
+          )}
+
+          {state.step === 'PRACTICE' && practicePlan && (
+            <PracticeMode
+              plan={practicePlan}
+              onFinish={handlePracticeFinish}
+              onExit={() => setState(prev => ({ ...prev, step: 'PROGRESS' }))}
+            />
+          )}
+
           {state.step === 'EXAM' && (
             <>
               {state.settings.type === ExamType.TEST && (
@@ -209,6 +393,7 @@ const App: React.FC = () => {
                   questions={state.testQuestions}
                   settings={state.settings}
                   onRestart={handleRestart}
+                  onFinish={handleExamFinish}
                   uploadedFiles={state.uploadedFiles}
                 />
               )}
@@ -218,14 +403,26 @@ const App: React.FC = () => {
                   onRestart={handleRestart}
                   uploadedFiles={state.uploadedFiles}
                   settings={state.settings}
+                  examId={state.examId}
+                />
+              )}
+              {state.settings.type === ExamType.OPEN_FLASHCARD && state.settings.oralExam && (
+                <OralExamMode
+                  questions={state.openQuestions}
+                  pdfText={state.pdfText}
+                  onRestart={handleRestart}
+                  onFinish={handleExamFinish}
+                  settings={state.settings}
                 />
               )}
-              {state.settings.type === ExamType.OPEN_FLASHCARD && (
+              {state.settings.type === ExamType.OPEN_FLASHCARD && !state.settings.oralExam && (
                 <ExamOpenMode
                   questions={state.openQuestions}
                   onRestart={handleRestart}
+                  onFinish={handleExamFinish}
                   settings={state.settings}
                   uploadedFiles={state.uploadedFiles}
+                  examId={state.examId}
                 />
               )}
             </>
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ClozePart } from '../services/clozeUtils';
+import { SPOKEN_CLASS, useSpeechState } from './SpeechControls';
+
+interface ClozeTextProps {
+    parts: ClozePart[];
+    isRevealed: boolean;
+    className?: string;
+    speechId?: string; // Parts read aloud as `${speechId}-${index}` are highlighted while read
+}
+
+const ClozeText: React.FC<ClozeTextProps> = ({ parts, isRevealed, className, speechId }) => {
+    const speech = useSpeechState();
+    const isSpoken = (i: number) => speechId !== undefined && speech.itemId === `${speechId}-${i}`;
+
+    return (
+        <p className={className}>
+            {parts.map((part, i) => {
+                if (part.hidden) {
+                    return (
+                        <span key={i} className={`inline-block mx-1 align-bottom ${isSpoken(i) ? SPOKEN_CLASS : ''}`}>
+                            <span className={`
+                                inline-block
+                                min-w-[100px] px-2 py-0.5 rounded-md border-b-4
+                                text-center font-bold
+                                transition-all duration-300
+                                ${isRevealed
+                                    ? 'bg-green-100 dark:bg-green-900/40 border-green-500 text-green-700 dark:text-green-300'
+                                    : 'bg-slate-100 dark:bg-slate-800 border-slate-300 dark:border-slate-600 select-none'
+                                }
+                            `}>
+                                <span className={!isRevealed ? 'opacity-0' : ''}>
+                                    {part.word || part.text || "______"}
+                                </span>
+                            </span>
+                        </span>
+                    )
+                }
+                return <span key={i} className={isSpoken(i) ? SPOKEN_CLASS : undefined}>{part.text}</span>
+            })}
+        </p>
+    );
+};
+
+export default ClozeText;
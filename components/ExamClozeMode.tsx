@@ -1,13 +1,23 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { ClozeCard, ExamSettings } from '../types';
+import { CardReviewState, ClozeCard, ExamSettings, ReviewGrade } from '../types';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Eye, ArrowRight, RotateCcw, Volume2, StopCircle, FileText, XCircle } from 'lucide-react';
+import { Eye, ArrowRight, RotateCcw, FileText, XCircle } from 'lucide-react';
+import { parseClozeCard } from '../services/clozeUtils';
+import ClozeText from './ClozeText';
+import ReviewGradeButtons from './ReviewGradeButtons';
+import { getCardId, getReviewState, recordReview } from '../services/srsService';
+import { useTranslation } from '../i18n';
+import { isPdfSource } from '../services/extractionService';
+import { speak, stopSpeech } from '../services/speechService';
+import { SpeechControls } from './SpeechControls';
 
 interface Props {
     cards: ClozeCard[];
     onRestart: () => void;
     uploadedFiles?: Map<string, File>;
     settings: ExamSettings;
+    // When the deck is saved in the library, answers are graded for spaced repetition
+    examId?: string;
 }
 
 // Helper to create PDF blob URL with page anchor
@@ -43,156 +53,83 @@ const createPDFLink = (uploadedFiles: Map<string, File> | undefined, sourceFile:
         return { url: null, display: sourceFile };
     }
 
+    // Page references of other formats are shown as plain text
+    if (!isPdfSource(file)) return { url: null, display: sourceFile };
+
     const blobUrl = URL.createObjectURL(file);
     return { url: `${blobUrl}#page=${pageNum}`, display: sourceFile };
 };
 
-const ExamClozeMode: React.FC<Props> = ({ cards, onRestart, uploadedFiles, settings }) => {
+const ExamClozeMode: React.FC<Props> = ({ cards, onRestart, uploadedFiles, settings, examId }) => {
+    const { t } = useTranslation();
     const [currentIndex, setCurrentIndex] = useState(0);
     const [isRevealed, setIsRevealed] = useState(false);
-    const [isSpeaking, setIsSpeaking] = useState(false);
+    const [reviewState, setReviewState] = useState<CardReviewState | undefined>(undefined);
 
-    const speechInterval = useRef<number | null>(null);
+    const lastReadIndex = useRef<number | null>(null);
 
     const currentCard = cards[currentIndex];
     const isFinished = currentIndex >= cards.length;
 
-    useEffect(() => {
-        const checkSpeech = () => {
-            setIsSpeaking(window.speechSynthesis.speaking);
-        };
-        speechInterval.current = window.setInterval(checkSpeech, 100);
-        return () => {
-            if (speechInterval.current) clearInterval(speechInterval.current);
-        };
-    }, []);
-
     useEffect(() => {
         if (currentCard) {
             setIsRevealed(false);
-            window.speechSynthesis.cancel();
+            stopSpeech();
         }
         return () => {
-            window.speechSynthesis.cancel();
+            stopSpeech();
         }
     }, [currentCard]);
 
-    const escapeRegExp = (string: string) => {
-        return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    }
+    // Load the spaced-repetition state of the current card
+    useEffect(() => {
+        setReviewState(undefined);
+        if (!examId || !currentCard) return;
+        getReviewState(getCardId(examId, { kind: 'cloze', card: currentCard }))
+            .then(setReviewState)
+            .catch(err => console.error('Failed to load review state', err));
+    }, [examId, currentCard]);
 
     const getParsedContent = () => {
         if (!currentCard) return [];
-        let parts: { text: string; hidden: boolean; word?: string }[] = [{ text: currentCard.fullText, hidden: false }];
-
-        currentCard.hiddenWords.forEach(word => {
-            if (!word) return;
-            const newParts: typeof parts = [];
-            parts.forEach(part => {
-                if (part.hidden) {
-                    newParts.push(part);
-                } else {
-                    const safeWord = escapeRegExp(word.trim());
-                    // Use case-insensitive matching
-                    const regex = new RegExp(`(${safeWord})`, 'gi');
-                    const split = part.text.split(regex);
-                    split.forEach(s => {
-                        if (s.toLowerCase() === word.trim().toLowerCase()) {
-                            newParts.push({ text: s, hidden: true, word: s });
-                        } else {
-                            if (s) newParts.push({ text: s, hidden: false });
-                        }
-                    });
-                }
-            });
-            parts = newParts;
-        });
-        console.log('Parsed parts:', parts);
-        console.log('Hidden words:', currentCard.hiddenWords);
-        return parts;
+        return parseClozeCard(currentCard);
     };
 
-    const toggleSpeech = () => {
-        if (!currentCard) return;
-        if (!('speechSynthesis' in window)) return;
-
-        if (window.speechSynthesis.speaking) {
-            window.speechSynthesis.cancel();
-            return;
-        }
-
-        window.speechSynthesis.cancel();
-
-        const parts = getParsedContent();
-
-        // Create speech with pauses at gaps
-        let partIndex = 0;
-        const speakParts = () => {
-            if (partIndex >= parts.length) return;
-
-            const part = parts[partIndex];
-
-            if (part.hidden && !isRevealed) {
-                // Pause for 250ms at gaps
-                setTimeout(() => {
-                    partIndex++;
-                    speakParts();
-                }, 250);
-            } else {
-                const text = part.text.replace(/[_]{2,}/g, '');
-                if (text.trim()) {
-                    const utterance = new SpeechSynthesisUtterance(text);
-                    utterance.lang = 'es-ES';
-                    utterance.rate = 0.9;
-                    utterance.pitch = 1.0;
-
-                    const setVoice = () => {
-                        const voices = window.speechSynthesis.getVoices();
-                        if (settings.voiceURI) {
-                            const selectedVoice = voices.find(v => v.voiceURI === settings.voiceURI);
-                            if (selectedVoice) {
-                                utterance.voice = selectedVoice;
-                                return;
-                            }
-                        }
-                        const spanishVoice = voices.find(v => v.lang.includes('es-ES')) ||
-                            voices.find(v => v.lang.includes('es'));
-                        if (spanishVoice) utterance.voice = spanishVoice;
-                    };
-
-                    if (window.speechSynthesis.getVoices().length === 0) {
-                        window.speechSynthesis.onvoiceschanged = setVoice;
-                    } else {
-                        setVoice();
-                    }
-
-                    utterance.onend = () => {
-                        partIndex++;
-                        speakParts();
-                    };
-
-                    window.speechSynthesis.speak(utterance);
-                } else {
-                    partIndex++;
-                    speakParts();
-                }
-            }
-        };
+    // Hidden blanks are read as a short silence
+    const readCard = () => {
+        speak(getParsedContent().map((part, idx) => (part.hidden && !isRevealed
+            ? { id: `part-${idx}`, text: '', pauseAfter: 250 }
+            : { id: `part-${idx}`, text: part.text.replace(/[_]{2,}/g, '') })), settings);
+    };
 
-        setTimeout(() => speakParts(), 50);
-    }
+    useEffect(() => {
+        if (!settings.autoRead || isFinished || !currentCard || currentIndex === lastReadIndex.current) return;
+        const timer = window.setTimeout(() => {
+            lastReadIndex.current = currentIndex;
+            readCard();
+        }, 200);
+        return () => clearTimeout(timer);
+    }, [currentIndex, settings.autoRead, isFinished, currentCard]);
 
     const handleNext = () => {
-        window.speechSynthesis.cancel();
+        stopSpeech();
         setCurrentIndex(prev => prev + 1);
     };
 
+    const handleGrade = (grade: ReviewGrade) => {
+        if (examId) {
+            recordReview(examId, { kind: 'cloze', card: currentCard }, grade)
+                .catch(err => console.error('Failed to save review', err));
+        }
+        handleNext();
+    };
+
     if (isFinished) {
         return (
             <div className="flex flex-col items-center justify-center h-[60vh] text-center">
-                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">¡Repaso Completado!</h2>
+                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">{t.cloze.completed}</h2>
                 <button onClick={onRestart} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-transform hover:scale-105">
-                    <RotateCcw size={20} /> Reiniciar
+                    <RotateCcw size={20} /> {t.common.restart}
                 </button>
             </div>
         )
@@ -204,34 +141,16 @@ const ExamClozeMode: React.FC<Props> = ({ cards, onRestart, uploadedFiles, setti
     return (
         <div className="w-full max-w-3xl mx-auto perspective-1000">
             <div className="flex justify-between mb-4 text-slate-500 dark:text-slate-400 font-medium items-center">
-                <span>Tarjeta {currentIndex + 1} de {cards.length}</span>
+                <span>{t.cloze.progress(currentIndex + 1, cards.length)}</span>
                 <div className="flex gap-2">
-                    <button
-                        onClick={toggleSpeech}
-                        className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all shadow-sm ${isSpeaking
-                            ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
-                            : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300'
-                            }`}
-                    >
-                        {isSpeaking ? (
-                            <>
-                                <StopCircle size={18} fill="currentColor" />
-                                <span>PARAR</span>
-                            </>
-                        ) : (
-                            <>
-                                <Volume2 size={18} />
-                                <span>Leer</span>
-                            </>
-                        )}
-                    </button>
+                    <SpeechControls onRead={readCard} />
                     <button
                         onClick={() => setCurrentIndex(cards.length)}
                         className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-bold rounded-full transition-colors flex items-center gap-2"
-                        title="Terminar repaso"
+                        title={t.cloze.finishHint}
                     >
                         <XCircle size={16} />
-                        Terminar
+                        {t.common.finish}
                     </button>
                 </div>
             </div>
@@ -253,37 +172,13 @@ const ExamClozeMode: React.FC<Props> = ({ cards, onRestart, uploadedFiles, setti
                     {/* Content Area */}
                     <div className="p-8 flex-grow flex flex-col items-center justify-center bg-white dark:bg-slate-950 relative">
                         <div className="relative z-10 w-full">
-                            <p className="text-2xl font-medium text-slate-700 dark:text-slate-200 leading-loose text-center">
-                                {parts.map((part, i) => {
-                                    if (part.hidden) {
-                                        return (
-                                            <span key={i} className="inline-block mx-1 align-bottom">
-                                                <span className={`
-                                            inline-block
-                                            min-w-[100px] px-2 py-0.5 rounded-md border-b-4
-                                            text-center font-bold
-                                            transition-all duration-300
-                                            ${isRevealed
-                                                        ? 'bg-green-100 dark:bg-green-900/40 border-green-500 text-green-700 dark:text-green-300'
-                                                        : 'bg-slate-100 dark:bg-slate-800 border-slate-300 dark:border-slate-600 select-none'
-                                                    }
-                                        `}>
-                                                    <span className={!isRevealed ? 'opacity-0' : ''}>
-                                                        {part.word || part.text || "______"}
-                                                    </span>
-                                                </span>
-                                            </span>
-                                        )
-                                    }
-                                    return <span key={i}>{part.text}</span>
-                                })}
-                            </p>
+                            <ClozeText parts={parts} isRevealed={isRevealed} speechId="part" className="text-2xl font-medium text-slate-700 dark:text-slate-200 leading-loose text-center" />
                         </div>
 
                         {/* Backup text display */}
                         {isRevealed && (
                             <div className="mt-12 pt-6 border-t border-slate-100 dark:border-slate-800 w-full text-center opacity-75">
-                                <p className="text-xs text-slate-400 uppercase font-bold mb-3">Palabras Clave</p>
+                                <p className="text-xs text-slate-400 uppercase font-bold mb-3">{t.cloze.keywords}</p>
                                 <div className="flex flex-wrap justify-center gap-3">
                                     {currentCard.hiddenWords.map((w, idx) => (
                                         <span key={idx} className="px-3 py-1 bg-green-50 dark:bg-green-900/20 rounded-lg text-base font-semibold text-green-700 dark:text-green-300 border border-green-200 dark:border-green-800">
@@ -295,7 +190,7 @@ const ExamClozeMode: React.FC<Props> = ({ cards, onRestart, uploadedFiles, setti
                                     const { url, display } = createPDFLink(uploadedFiles, currentCard.sourceFile);
                                     return (
                                         <div className="mt-3 pt-2 border-t border-slate-200/50 dark:border-slate-700 flex items-center gap-1 text-xs text-slate-400 font-medium">
-                                            <FileText size={12} /> Fuente: {url ? (
+                                            <FileText size={12} /> {t.common.source}: {url ? (
                                                 <a href={url} target="_blank" rel="noopener noreferrer" className="underline hover:text-slate-600 dark:hover:text-slate-200 transition">
                                                     {display}
                                                 </a>
@@ -314,14 +209,16 @@ const ExamClozeMode: React.FC<Props> = ({ cards, onRestart, uploadedFiles, setti
                                 onClick={() => setIsRevealed(true)}
                                 className="px-8 py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg bg-indigo-600 hover:bg-indigo-700 text-white w-full md:w-auto min-w-[200px] hover:scale-105 active:scale-95"
                             >
-                                Ver Solución <Eye />
+                                {t.common.showSolution} <Eye />
                             </button>
+                        ) : examId ? (
+                            <ReviewGradeButtons state={reviewState} onGrade={handleGrade} />
                         ) : (
                             <button
                                 onClick={handleNext}
                                 className="px-8 py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg bg-slate-900 dark:bg-slate-700 text-white hover:bg-black dark:hover:bg-slate-600 w-full md:w-auto min-w-[200px]"
                             >
-                                Siguiente <ArrowRight />
+                                {t.common.next} <ArrowRight />
                             </button>
                         )}
                     </div>
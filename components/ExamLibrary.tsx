@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { Library, Play, Settings as SettingsIcon, Pencil, Trash2, Layers, BookOpen, BrainCircuit, CalendarClock, Printer } from 'lucide-react';
+import { ExamType, SavedExam } from '../types';
+import { listExams, deleteExam, getItemCount } from '../services/examLibrary';
+import { deleteReviewsForExam, getDueQueue } from '../services/srsService';
+import ExportMenu from './ExportMenu';
+import PaperExamDialog from './PaperExamDialog';
+import { useTranslation } from '../i18n';
+
+interface ExamLibraryProps {
+    onRetake: (exam: SavedExam) => void;
+    onOpen: (exam: SavedExam) => void;
+    onEdit: (exam: SavedExam) => void;
+    onStudy: () => void;
+}
+
+const TYPE_ICONS: Record<ExamType, typeof Layers> = {
+    [ExamType.TEST]: Layers,
+    [ExamType.CLOZE_FLASHCARD]: BookOpen,
+    [ExamType.OPEN_FLASHCARD]: BrainCircuit,
+};
+
+const ExamLibrary: React.FC<ExamLibraryProps> = ({ onRetake, onOpen, onEdit, onStudy }) => {
+    const { t, locale } = useTranslation();
+    const [exams, setExams] = useState<SavedExam[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [dueCount, setDueCount] = useState(0);
+    const [paperExam, setPaperExam] = useState<SavedExam | null>(null);
+
+    useEffect(() => {
+        listExams()
+            .then(setExams)
+            .catch(err => console.error('Failed to load saved exams', err))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    useEffect(() => {
+        getDueQueue()
+            .then(queue => setDueCount(queue.length))
+            .catch(err => console.error('Failed to load review queue', err));
+    }, [exams]);
+
+    const handleDelete = async (exam: SavedExam) => {
+        if (!confirm(t.library.deleteConfirm(exam.title))) return;
+        try {
+            await deleteExam(exam.id);
+            await deleteReviewsForExam(exam.id);
+            setExams(prev => prev.filter(e => e.id !== exam.id));
+        } catch (error) {
+            console.error(error);
+            alert(t.library.deleteError);
+        }
+    };
+
+    if (isLoading || exams.length === 0) return null;
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-8 text-left">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+                    <Library size={14} className="text-indigo-500" /> {t.library.title(exams.length)}
+                </h3>
+                {dueCount > 0 && (
+                    <button
+                        onClick={onStudy}
+                        className="px-3 py-1.5 bg-green-600 hover:bg-green-700 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
+                        title={t.library.dailyReviewHint}
+                    >
+                        <CalendarClock size={12} /> {t.library.dailyReview(dueCount)}
+                    </button>
+                )}
+            </div>
+            <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800 max-h-[320px] overflow-y-auto">
+                {exams.map(exam => {
+                    const TypeIcon = TYPE_ICONS[exam.settings.type];
+                    return (
+                        <div key={exam.id} className="flex items-center justify-between gap-3 p-3 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <div className="w-8 h-8 rounded bg-indigo-50 dark:bg-indigo-900/30 flex items-center justify-center text-indigo-600 dark:text-indigo-400 flex-shrink-0">
+                                    <TypeIcon size={16} />
+                                </div>
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium text-slate-700 dark:text-slate-200 truncate">{exam.title}</p>
+                                    <p className="text-[10px] text-slate-400">
+                                        {t.library.details(t.common.examTypes[exam.settings.type], getItemCount(exam), exam.files.length, new Date(exam.createdAt).toLocaleDateString(locale))}
+                                    </p>
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-1 flex-shrink-0">
+                                <button
+                                    onClick={() => onRetake(exam)}
+                                    className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
+                                    title={t.library.retakeHint}
+                                >
+                                    <Play size={12} /> {t.library.retake}
+                                </button>
+                                <button
+                                    onClick={() => onEdit(exam)}
+                                    className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                                    title={t.library.editHint}
+                                >
+                                    <Pencil size={16} />
+                                </button>
+                                {/* Imported banks have no documents to generate from */}
+                                {exam.pdfText && (
+                                    <button
+                                        onClick={() => onOpen(exam)}
+                                        className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                                        title={t.library.openHint}
+                                    >
+                                        <SettingsIcon size={16} />
+                                    </button>
+                                )}
+                                {exam.testQuestions.length > 0 && (
+                                    <button
+                                        onClick={() => setPaperExam(exam)}
+                                        className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                                        title={t.paper.hint}
+                                    >
+                                        <Printer size={16} />
+                                    </button>
+                                )}
+                                <ExportMenu data={exam} />
+                                <button
+                                    onClick={() => handleDelete(exam)}
+                                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
+                                    title={t.library.deleteHint}
+                                >
+                                    <Trash2 size={16} />
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            {paperExam && (
+                <PaperExamDialog
+                    exam={paperExam}
+                    onChange={updated => setExams(prev => prev.map(e => (e.id === updated.id ? updated : e)))}
+                    onClose={() => setPaperExam(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+export default ExamLibrary;
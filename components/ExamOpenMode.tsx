@@ -1,15 +1,36 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { OpenQuestion, ExamSettings } from '../types';
-import { evaluateOpenAnswer } from '../services/geminiService';
-import { Send, CheckCircle, XCircle, ArrowRight, RotateCcw, Loader2, Volume2, StopCircle, Eye, Clock, Printer, FileText } from 'lucide-react';
+import { OpenQuestion, ExamSettings, QuestionAttempt, OpenAnswerEvaluation, CriterionScore } from '../types';
+import { CriteriaList, HeuristicBadge } from './OpenAnswerFeedback';
+import { gradeOpenAnswer } from '../services/offlineGrader';
+import { DictationError, DictationSession, isDictationSupported, startDictation } from '../services/dictationService';
+import { recordReview } from '../services/srsService';
+import { AttemptResult } from '../services/learnerService';
+import { isOpenAnswerPassed, roundPoints, toGrade } from '../services/scoringService';
+import { Send, CheckCircle, XCircle, ArrowRight, RotateCcw, Loader2, Eye, Clock, Printer, FileText, Mic, MicOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
+import { getMessages, useTranslation } from '../i18n';
+import { isPdfSource } from '../services/extractionService';
+import { speak, stopSpeech } from '../services/speechService';
+import { SpeechControls, SpokenText } from './SpeechControls';
 
 interface Props {
     questions: OpenQuestion[];
     onRestart: () => void;
+    onFinish?: (result: AttemptResult) => void;
     settings?: ExamSettings;
     uploadedFiles?: Map<string, File>;
+    // When the deck is saved in the library, answers are graded for spaced repetition
+    examId?: string;
+}
+
+interface SummaryItem {
+    q: string;
+    a: string;
+    m: string;
+    score: number; // 0-10
+    criteria?: CriterionScore[];
+    heuristic?: boolean;
 }
 
 // Helper to create PDF blob URL with page anchor
@@ -45,109 +66,101 @@ const createPDFLink = (uploadedFiles: Map<string, File> | undefined, sourceFile:
         return { url: null, display: sourceFile };
     }
 
+    // Page references of other formats are shown as plain text
+    if (!isPdfSource(file)) return { url: null, display: sourceFile };
+
     const blobUrl = URL.createObjectURL(file);
     return { url: `${blobUrl}#page=${pageNum}`, display: sourceFile };
 };
 
-const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploadedFiles }) => {
+const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, onFinish, settings, uploadedFiles, examId }) => {
+    const { t, locale } = useTranslation();
+    const examLanguage = settings?.examLanguage ?? 'es';
     const [currentIndex, setCurrentIndex] = useState(0);
     const [userAnswer, setUserAnswer] = useState('');
-    const [evaluation, setEvaluation] = useState<{ score: number, feedback: string } | null>(null);
+    const [evaluation, setEvaluation] = useState<OpenAnswerEvaluation | null>(null);
     const [showModelAnswer, setShowModelAnswer] = useState(false);
     const [isEvaluating, setIsEvaluating] = useState(false);
+    // Each question is worth 1 point: its 0-10 rubric score divided by 10
     const [totalScore, setTotalScore] = useState(0);
     const [timeLeft, setTimeLeft] = useState<number>(settings?.timeLimit || 0);
-    const [summary, setSummary] = useState<Array<{ q: string, a: string, m: string, score: number }>>([]);
-    const [isSpeaking, setIsSpeaking] = useState(false);
-
-    const speechInterval = useRef<number | null>(null);
+    const [summary, setSummary] = useState<SummaryItem[]>([]);
+    const [isDictating, setIsDictating] = useState(false);
 
     const lastReadIndex = useRef<number | null>(null);
 
+    const dictation = useRef<DictationSession | null>(null);
+    // Bumped when a question is left, so late transcripts of its dictation are dropped
+    const dictationId = useRef(0);
+
+    // Per-question log for the learner profile, reported once when the exam ends
+    const attempts = useRef<QuestionAttempt[]>([]);
+    const startedAt = useRef(Date.now());
+    const questionStartedAt = useRef(Date.now());
+    const isReported = useRef(false);
+
     const currentQuestion = questions[currentIndex];
     const isFinished = currentIndex >= questions.length;
 
     useEffect(() => {
-        const checkSpeech = () => {
-            setIsSpeaking(window.speechSynthesis.speaking);
-        };
-        speechInterval.current = window.setInterval(checkSpeech, 100);
         return () => {
-            if (speechInterval.current) clearInterval(speechInterval.current);
+            stopSpeech();
+            abandonDictation();
         };
     }, []);
 
-    const stopSpeech = () => {
-        if ('speechSynthesis' in window) {
-            window.speechSynthesis.cancel();
-        }
-    };
-
-    const playSpeech = (text: string) => {
-        if (!('speechSynthesis' in window)) return;
-
-        stopSpeech();
-
-        setTimeout(() => {
-            const utterance = new SpeechSynthesisUtterance(text);
-            utterance.lang = 'es-ES';
-            utterance.rate = 0.9; // Slightly slower for more natural sound
-            utterance.pitch = 1.0; // Normal pitch
-
-            const setVoice = () => {
-                const voices = window.speechSynthesis.getVoices();
-
-                // Use voice from settings if provided
-                if (settings?.voiceURI) {
-                    const selectedVoice = voices.find(v => v.voiceURI === settings.voiceURI);
-                    if (selectedVoice) {
-                        utterance.voice = selectedVoice;
-                        return;
-                    }
-                }
-
-                // Fallback to Spanish voice
-                const spanishVoice = voices.find(v => v.lang.includes('es-ES')) ||
-                    voices.find(v => v.lang.includes('es'));
-                if (spanishVoice) utterance.voice = spanishVoice;
-            };
+    const getDictationMessage = (error: unknown) =>
+        error instanceof DictationError ? `${t.open.dictationError} ${t.open.dictationErrors[error.code]}` : t.open.dictationError;
 
-            if (window.speechSynthesis.getVoices().length === 0) {
-                window.speechSynthesis.onvoiceschanged = setVoice;
-            } else {
-                setVoice();
-            }
-
-            // @ts-ignore
-            window.currentUtterance = utterance;
-            utterance.onend = () => {
-                // @ts-ignore
-                delete window.currentUtterance;
-            };
-
-            window.speechSynthesis.speak(utterance);
-        }, 50);
+    const abandonDictation = () => {
+        dictationId.current++;
+        dictation.current?.stop();
+        dictation.current = null;
+        setIsDictating(false);
     };
 
-    const toggleSpeech = (text: string) => {
-        if (window.speechSynthesis.speaking) {
-            stopSpeech();
-        } else {
-            playSpeech(text);
+    // Spoken words are added after what was already typed; the text stays editable once dictation stops
+    const toggleDictation = async () => {
+        if (dictation.current) {
+            dictation.current.stop();
+            return;
+        }
+        stopSpeech();
+        const id = ++dictationId.current;
+        const typed = userAnswer.trim();
+        const isCurrent = () => id === dictationId.current;
+        try {
+            setIsDictating(true);
+            const session = await startDictation(examLanguage, {
+                onTranscript: text => {
+                    if (isCurrent()) setUserAnswer([typed, text].filter(Boolean).join(' '));
+                },
+                onEnd: () => {
+                    if (!isCurrent()) return;
+                    dictation.current = null;
+                    setIsDictating(false);
+                },
+                onError: error => {
+                    console.error(error);
+                    if (isCurrent()) alert(getDictationMessage(error));
+                },
+            });
+            if (isCurrent()) dictation.current = session;
+            else session.stop();
+        } catch (error) {
+            console.error(error);
+            setIsDictating(false);
+            alert(getDictationMessage(error));
         }
     };
 
     useEffect(() => {
-        return () => {
-            stopSpeech();
-        };
-    }, []);
-
-    useEffect(() => {
-        if (settings?.autoRead && !isFinished && currentQuestion && currentIndex !== lastReadIndex.current) {
+        if (!settings?.autoRead || isFinished || !currentQuestion || currentIndex === lastReadIndex.current) return;
+        const timer = window.setTimeout(() => {
             lastReadIndex.current = currentIndex;
-            setTimeout(() => playSpeech(currentQuestion.question), 200);
-        }
+            speak([{ id: 'question', text: currentQuestion.question }], settings ?? {});
+        }, 200);
+        return () => clearTimeout(timer);
     }, [currentIndex, settings?.autoRead, isFinished, currentQuestion]);
 
     useEffect(() => {
@@ -168,18 +181,48 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
         return () => clearInterval(timer);
     }, [currentIndex, evaluation, showModelAnswer, isFinished, isEvaluating, settings?.timeLimit]);
 
+    useEffect(() => {
+        questionStartedAt.current = Date.now();
+    }, [currentIndex]);
+
+    const logAttempt = (score: number, timedOut = false) => {
+        attempts.current.push({
+            question: currentQuestion.question,
+            correct: isOpenAnswerPassed(score),
+            points: score / 10,
+            timeSpent: Date.now() - questionStartedAt.current,
+            timedOut,
+            sourceFile: currentQuestion.sourceFile,
+        });
+    };
+
     const handleTimeout = () => {
+        logAttempt(0, true);
         setSummary(prev => [...prev, {
             q: currentQuestion.question,
-            a: "(Tiempo agotado)",
+            a: `(${t.common.timedOut})`,
             m: currentQuestion.modelAnswer,
             score: 0
         }]);
         handleNextStep(true);
     };
 
+    // Whether the answer passed, the feedback and the model answer, when the exam reads them after answering
+    const readResult = (result: OpenAnswerEvaluation | null) => {
+        if (!settings?.readExplanation) return;
+        const m = getMessages(examLanguage).speech;
+        speak([
+            ...(result ? [
+                { id: 'verdict', text: isOpenAnswerPassed(result.score) ? m.correct : m.incorrect },
+                { id: 'feedback', text: result.feedback },
+            ] : []),
+            { id: 'modelAnswer', text: currentQuestion.modelAnswer },
+        ], settings);
+    };
+
     const handleNextStep = (skipEval = false) => {
-        window.speechSynthesis.cancel();
+        stopSpeech();
+        abandonDictation();
         if (currentIndex < questions.length - 1) {
             setCurrentIndex(prev => prev + 1);
             setUserAnswer('');
@@ -190,37 +233,55 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
         }
     }
 
+    // Partially right answers come back sooner than well-covered ones
+    const recordSpacedReview = (score: number) => {
+        if (!examId) return;
+        const grade = !isOpenAnswerPassed(score) ? 'AGAIN' : score < 8 ? 'HARD' : 'GOOD';
+        recordReview(examId, { kind: 'open', card: currentQuestion }, grade)
+            .catch(err => console.error('Failed to save review', err));
+    };
+
     const handleCheck = async () => {
         if (!userAnswer.trim()) {
+            recordSpacedReview(0);
+            logAttempt(0);
             setShowModelAnswer(true);
             setSummary(prev => [...prev, {
                 q: currentQuestion.question,
-                a: "(Sin respuesta)",
+                a: `(${t.open.noAnswer})`,
                 m: currentQuestion.modelAnswer,
                 score: 0
             }]);
+            readResult(null);
             return;
         }
 
         setIsEvaluating(true);
+        let result: OpenAnswerEvaluation;
         try {
-            const result = await evaluateOpenAnswer(currentQuestion.question, currentQuestion.modelAnswer, userAnswer);
-            setEvaluation(result);
-            if (result.score === 1) setTotalScore(prev => prev + 1);
-
-            setSummary(prev => [...prev, {
-                q: currentQuestion.question,
-                a: userAnswer,
-                m: currentQuestion.modelAnswer,
-                score: result.score
-            }]);
-
+            result = await gradeOpenAnswer(currentQuestion, userAnswer, settings);
         } catch (e) {
+            // Still counted, with 0, so the question stays in the results and progress
             console.error(e);
-            setEvaluation({ score: 0, feedback: "Error al evaluar con IA." });
+            result = { score: 0, feedback: t.open.evaluationError, criteria: [] };
         } finally {
             setIsEvaluating(false);
         }
+
+        setEvaluation(result);
+        setTotalScore(prev => prev + result.score / 10);
+        recordSpacedReview(result.score);
+        logAttempt(result.score);
+
+        setSummary(prev => [...prev, {
+            q: currentQuestion.question,
+            a: userAnswer,
+            m: currentQuestion.modelAnswer,
+            score: result.score,
+            criteria: result.criteria,
+            heuristic: result.heuristic
+        }]);
+        readResult(result);
     };
 
     const handleNext = () => {
@@ -229,55 +290,74 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
 
     useEffect(() => {
         if (isFinished) {
-            const grade = Math.round((totalScore / questions.length) * 10);
+            const grade = toGrade(totalScore, questions.length);
             if (grade >= 5) {
                 confetti({ particleCount: 150, spread: 70, origin: { y: 0.6 } });
             }
+            // Nothing to record when the exam was finished before answering anything
+            if (!isReported.current && attempts.current.length > 0) {
+                isReported.current = true;
+                onFinish?.({ startedAt: startedAt.current, questions: attempts.current, score: roundPoints(totalScore), maxScore: questions.length, grade });
+            }
         }
     }, [isFinished, totalScore, questions.length]);
 
     const handlePrint = () => window.print();
 
+    const formatPoints = (points: number) => roundPoints(points).toLocaleString(locale);
+
     if (isFinished) {
-        const grade = Math.round((totalScore / questions.length) * 10);
+        const grade = toGrade(totalScore, questions.length);
         const isPass = grade >= 5;
 
         return (
             <div id="printable-area" className={`w-full max-w-3xl mx-auto bg-white dark:bg-slate-950 p-10 rounded-3xl shadow-2xl dark:shadow-none text-center border border-slate-200 dark:border-slate-800 ${!isPass ? 'animate-shake bg-red-50/30 dark:bg-red-900/10' : ''}`}>
-                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-4">Evaluación Completa</h2>
+                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-4">{t.open.completed}</h2>
 
                 <div className="flex flex-col items-center justify-center mb-8">
-                    <div className="text-sm text-slate-500 dark:text-slate-400 uppercase font-bold tracking-wider mb-2">Nota Final</div>
+                    <div className="text-sm text-slate-500 dark:text-slate-400 uppercase font-bold tracking-wider mb-2">{t.common.finalGrade}</div>
                     <div className="relative">
                         <div className={`text-8xl font-black text-transparent bg-clip-text ${isPass ? 'bg-gradient-to-r from-indigo-600 to-violet-600 dark:from-indigo-400 dark:to-violet-400' : 'bg-gradient-to-r from-red-600 to-orange-600 dark:from-red-400 dark:to-orange-400'}`}>
                             {grade}
                         </div>
-                        <div className="text-xl font-bold text-slate-400 mt-1">sobre 10</div>
+                        <div className="text-xl font-bold text-slate-400 mt-1">{t.common.outOfTen}</div>
                     </div>
-                    {!isPass && <p className="text-red-500 font-bold mt-2">¡Inténtalo de nuevo!</p>}
+                    {!isPass && <p className="text-red-500 font-bold mt-2">{t.open.tryAgain}</p>}
                 </div>
 
-                <p className="text-slate-500 dark:text-slate-400 mb-8">Has obtenido {totalScore} aciertos de {questions.length} preguntas.</p>
+                <p className="text-slate-500 dark:text-slate-400 mb-8">{t.open.result(formatPoints(totalScore), questions.length)}</p>
 
                 {settings?.showSummary && (
                     <div className="text-left mb-8 mt-8">
                         <h3 className="text-xl font-bold mb-4 text-slate-800 dark:text-slate-200 flex items-center gap-2">
-                            <FileText className="text-indigo-500" /> Detalle de Respuestas
+                            <FileText className="text-indigo-500" /> {t.open.answersDetail}
                         </h3>
                         <div className="space-y-4">
                             {summary.map((item, idx) => (
                                 <div key={idx} className="p-4 rounded-xl border bg-slate-50 dark:bg-slate-900 dark:border-slate-800 break-inside-avoid">
-                                    <p className="font-bold text-slate-800 dark:text-slate-200 mb-2">{idx + 1}. {item.q}</p>
+                                    <div className="flex items-start justify-between gap-2 mb-2">
+                                        <p className="font-bold text-slate-800 dark:text-slate-200">{idx + 1}. {item.q}</p>
+                                        <span className={`text-sm font-bold whitespace-nowrap flex items-center gap-2 ${isOpenAnswerPassed(item.score) ? 'text-green-600 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
+                                            {item.heuristic && <HeuristicBadge language={examLanguage} />}
+                                            {t.open.score(item.score.toLocaleString(locale))}
+                                        </span>
+                                    </div>
                                     <div className="grid md:grid-cols-2 gap-4">
                                         <div className="bg-white dark:bg-slate-800 p-3 rounded border border-slate-200 dark:border-slate-700">
-                                            <span className="text-xs font-bold text-slate-400 uppercase">Tu respuesta</span>
-                                            <p className={`text-sm mt-1 ${item.score === 1 ? 'text-green-600' : 'text-red-500'}`}>{item.a}</p>
+                                            <span className="text-xs font-bold text-slate-400 uppercase">{t.open.yourAnswer}</span>
+                                            <p className={`text-sm mt-1 ${isOpenAnswerPassed(item.score) ? 'text-green-600' : 'text-red-500'}`}>{item.a}</p>
                                         </div>
                                         <div className="bg-white dark:bg-slate-800 p-3 rounded border border-slate-200 dark:border-slate-700">
-                                            <span className="text-xs font-bold text-slate-400 uppercase">Respuesta Ideal</span>
+                                            <span className="text-xs font-bold text-slate-400 uppercase">{t.open.idealAnswer}</span>
                                             <p className="text-sm mt-1 text-slate-600 dark:text-slate-300">{item.m}</p>
                                         </div>
                                     </div>
+                                    {item.criteria && item.criteria.length > 0 && (
+                                        <div className="mt-3">
+                                            <span className="text-xs font-bold text-slate-400 uppercase">{t.open.keyPoints}</span>
+                                            <div className="mt-1"><CriteriaList criteria={item.criteria} /></div>
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -286,10 +366,10 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
 
                 <div className="flex gap-4 justify-center no-print">
                     <button onClick={handlePrint} className="px-6 py-3 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-xl font-bold hover:bg-indigo-200 dark:hover:bg-indigo-900/50 transition flex items-center gap-2">
-                        <Printer size={18} /> Imprimir
+                        <Printer size={18} /> {t.common.print}
                     </button>
                     <button onClick={onRestart} className="px-6 py-3 bg-slate-800 dark:bg-slate-700 text-white rounded-xl font-bold hover:bg-slate-900 dark:hover:bg-slate-600 flex justify-center items-center gap-2">
-                        <RotateCcw size={18} /> Reiniciar
+                        <RotateCcw size={18} /> {t.common.restart}
                     </button>
                 </div>
             </div>
@@ -299,7 +379,7 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
     return (
         <div className="w-full max-w-2xl mx-auto">
             <div className="mb-4 flex justify-between items-center text-sm font-bold text-slate-400">
-                <span>PREGUNTA {currentIndex + 1} DE {questions.length}</span>
+                <span>{t.open.progress(currentIndex + 1, questions.length)}</span>
                 <div className="flex items-center gap-4">
                     {settings?.timeLimit && !evaluation && !showModelAnswer && (
                         <div className={`flex items-center gap-1 font-mono font-bold ${timeLeft <= 10 ? 'text-red-500 animate-pulse' : 'text-indigo-600 dark:text-indigo-400'}`}>
@@ -307,14 +387,14 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
                             {timeLeft}s
                         </div>
                     )}
-                    <span>PUNTOS: {totalScore}</span>
+                    <span>{t.open.points(formatPoints(totalScore))}</span>
                     <button
                         onClick={() => setCurrentIndex(questions.length)}
                         className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
-                        title="Terminar examen y ver resultados"
+                        title={t.common.finishExamHint}
                     >
                         <XCircle size={14} />
-                        Terminar
+                        {t.common.finish}
                     </button>
                 </div>
             </div>
@@ -341,25 +421,33 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
                 >
                     <div className="p-8 bg-gradient-to-br from-white to-slate-50 dark:from-slate-950 dark:to-slate-900">
                         <div className="flex items-start gap-3 mb-6">
-                            <button
-                                onClick={() => toggleSpeech(currentQuestion.question)}
-                                className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all flex-shrink-0 ${isSpeaking
-                                    ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
-                                    : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300'
-                                    }`}
-                            >
-                                {isSpeaking ? <><StopCircle size={18} fill="currentColor" /> PARAR</> : <><Volume2 size={18} /> Leer</>}
-                            </button>
-                            <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200">{currentQuestion.question}</h3>
+                            <SpeechControls onRead={() => speak([{ id: 'question', text: currentQuestion.question }], settings ?? {})} />
+                            <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200"><SpokenText id="question" text={currentQuestion.question} /></h3>
                         </div>
 
                         <textarea
                             value={userAnswer}
                             onChange={(e) => setUserAnswer(e.target.value)}
                             disabled={evaluation !== null || showModelAnswer || isEvaluating}
-                            placeholder="Escribe tu respuesta aquí (máx 1 párrafo) o déjalo en blanco para ver la solución..."
-                            className="w-full h-40 p-4 border border-slate-300 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none transition-all disabled:bg-slate-100 dark:disabled:bg-slate-800 disabled:text-slate-500"
+                            readOnly={isDictating}
+                            placeholder={isDictating ? t.open.listening : t.open.placeholder}
+                            className={`w-full h-40 p-4 border bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none transition-all disabled:bg-slate-100 dark:disabled:bg-slate-800 disabled:text-slate-500 ${isDictating ? 'border-red-400 dark:border-red-500' : 'border-slate-300 dark:border-slate-700'}`}
                         />
+                        {isDictationSupported() && !evaluation && !showModelAnswer && (
+                            <div className="mt-2 flex items-center gap-3">
+                                <button
+                                    onClick={toggleDictation}
+                                    disabled={isEvaluating}
+                                    className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all ${isDictating
+                                        ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
+                                        : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300'
+                                        }`}
+                                >
+                                    {isDictating ? <><MicOff size={16} /> {t.open.stopDictation}</> : <><Mic size={16} /> {t.open.dictate}</>}
+                                </button>
+                                {isDictating && <span className="text-xs text-slate-400">{t.open.listening}</span>}
+                            </div>
+                        )}
                     </div>
 
                     <AnimatePresence>
@@ -368,32 +456,40 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
                                 initial={{ height: 0, opacity: 0 }}
                                 animate={{ height: 'auto', opacity: 1 }}
                                 className={`p-6 border-t ${evaluation
-                                    ? (evaluation.score === 1 ? 'bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-800' : 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-800')
+                                    ? (isOpenAnswerPassed(evaluation.score) ? 'bg-green-50 dark:bg-green-900/20 border-green-100 dark:border-green-800' : 'bg-red-50 dark:bg-red-900/20 border-red-100 dark:border-red-800')
                                     : 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-800'
                                     }`}
                             >
                                 {evaluation && (
                                     <div className="flex items-start gap-3 mb-4">
-                                        {evaluation.score === 1 ? <CheckCircle className="text-green-600 dark:text-green-400 mt-1" /> : <XCircle className="text-red-500 dark:text-red-400 mt-1" />}
-                                        <div>
-                                            <h4 className={`font-bold ${evaluation.score === 1 ? 'text-green-800 dark:text-green-300' : 'text-red-800 dark:text-red-300'}`}>
-                                                {evaluation.score === 1 ? 'Correcto / Suficiente' : 'Incorrecto / Insuficiente'}
+                                        {isOpenAnswerPassed(evaluation.score) ? <CheckCircle className="text-green-600 dark:text-green-400 mt-1" /> : <XCircle className="text-red-500 dark:text-red-400 mt-1" />}
+                                        <div className="flex-1">
+                                            <h4 className={`font-bold flex justify-between gap-2 ${isOpenAnswerPassed(evaluation.score) ? 'text-green-800 dark:text-green-300' : 'text-red-800 dark:text-red-300'}`}>
+                                                <span>{isOpenAnswerPassed(evaluation.score) ? t.open.correct : t.open.incorrect}</span>
+                                                <span>{t.open.score(evaluation.score.toLocaleString(locale))}</span>
                                             </h4>
-                                            <p className="text-sm mt-1 text-slate-700 dark:text-slate-300">{evaluation.feedback}</p>
+                                            {evaluation.heuristic && <div className="mt-1"><HeuristicBadge language={examLanguage} /></div>}
+                                            <p className="text-sm mt-1 text-slate-700 dark:text-slate-300"><SpokenText id="feedback" text={evaluation.feedback} /></p>
+                                            {evaluation.criteria.length > 0 && (
+                                                <div className="mt-3">
+                                                    <h5 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-1">{t.open.keyPoints}</h5>
+                                                    <CriteriaList criteria={evaluation.criteria} />
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 )}
 
                                 <div className="mt-4 pt-4 border-t border-slate-200/50 dark:border-slate-700">
-                                    <h5 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-1">Respuesta Modelo</h5>
+                                    <h5 className="text-xs font-bold uppercase text-slate-500 dark:text-slate-400 mb-1">{t.open.modelAnswer}</h5>
                                     <p className="text-slate-700 dark:text-slate-300 text-sm italic bg-white dark:bg-slate-800 p-3 rounded-lg border border-slate-200 dark:border-slate-700">
-                                        {currentQuestion.modelAnswer}
+                                        <SpokenText id="modelAnswer" text={currentQuestion.modelAnswer} />
                                     </p>
                                     {currentQuestion.sourceFile && (() => {
                                         const { url, display } = createPDFLink(uploadedFiles, currentQuestion.sourceFile);
                                         return (
                                             <div className="mt-3 pt-2 border-t border-slate-200/50 dark:border-slate-700 flex items-center gap-1 text-xs text-slate-400 font-medium">
-                                                <FileText size={12} /> Fuente: {url ? (
+                                                <FileText size={12} /> {t.common.source}: {url ? (
                                                     <a href={url} target="_blank" rel="noopener noreferrer" className="underline hover:text-slate-600 dark:hover:text-slate-200 transition">
                                                         {display}
                                                     </a>
@@ -410,21 +506,21 @@ const ExamOpenMode: React.FC<Props> = ({ questions, onRestart, settings, uploade
                         {(!evaluation && !showModelAnswer) ? (
                             <button
                                 onClick={handleCheck}
-                                disabled={isEvaluating}
+                                disabled={isEvaluating || isDictating}
                                 className={`px-6 py-2 rounded-lg font-bold flex items-center gap-2 transition-all ${userAnswer.trim()
                                     ? 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg'
                                     : 'bg-white dark:bg-slate-800 text-indigo-600 dark:text-indigo-400 border border-indigo-200 dark:border-indigo-800 hover:bg-indigo-50 dark:hover:bg-slate-700'
                                     }`}
                             >
                                 {isEvaluating ? <Loader2 className="animate-spin" /> : (userAnswer.trim() ? <Send size={18} /> : <Eye size={18} />)}
-                                {userAnswer.trim() ? 'Comprobar' : 'Ver Respuesta'}
+                                {userAnswer.trim() ? t.open.check : t.open.showAnswer}
                             </button>
                         ) : (
                             <button
                                 onClick={handleNext}
                                 className="px-6 py-2 bg-slate-800 dark:bg-slate-700 text-white rounded-lg font-bold hover:bg-black dark:hover:bg-slate-600 flex items-center gap-2 transition-all"
                             >
-                                Siguiente <ArrowRight size={18} />
+                                {t.common.next} <ArrowRight size={18} />
                             </button>
                         )}
                     </div>
@@ -0,0 +1,387 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, RefreshCw, Plus, X, ArrowLeft, ArrowRight, ClipboardCheck, AlertTriangle, Loader2 } from 'lucide-react';
+import { ExamSettings, ExamType, TestQuestion, ClozeCard, OpenQuestion, RubricCriterion } from '../types';
+import { regenerateTestQuestion, regenerateClozeCard, regenerateOpenQuestion } from '../services/geminiService';
+import { RawItem, getItemProblemMessage, getValidationProblem, validateTestQuestion, validateClozeCard, validateOpenQuestion } from '../services/itemValidation';
+import { parseClozeCard } from '../services/clozeUtils';
+import { createGroundingIndex, groundTestQuestion } from '../services/groundingService';
+import ClozeText from './ClozeText';
+import { useTranslation } from '../i18n';
+
+export interface ReviewedItems {
+    testQuestions: TestQuestion[];
+    clozeCards: ClozeCard[];
+    openQuestions: OpenQuestion[];
+}
+
+interface ExamReviewProps extends ReviewedItems {
+    settings: ExamSettings;
+    pdfText: string; // Empty for imported banks, which cannot be regenerated
+    onConfirm: (items: ReviewedItems) => void;
+    onCancel: () => void;
+}
+
+const MAX_OPTIONS = 6;
+
+const inputClass = 'w-full p-2 text-sm border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none';
+const labelClass = 'block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1';
+
+const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+    if (to < 0 || to >= list.length) return list;
+    const next = [...list];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    return next;
+};
+
+// ---------- Editors ----------
+
+interface TestQuestionEditorProps {
+    question: TestQuestion;
+    allowMultiple: boolean;
+    onChange: (q: TestQuestion) => void;
+    onQuoteBlur?: () => void;
+}
+
+const TestQuestionEditor: React.FC<TestQuestionEditorProps> = ({ question, allowMultiple, onChange, onQuoteBlur }) => {
+    const { t } = useTranslation();
+    const toggleCorrect = (idx: number) => {
+        const isCorrect = question.correctIndices.includes(idx);
+        const correctIndices = allowMultiple
+            ? (isCorrect ? question.correctIndices.filter(i => i !== idx) : [...question.correctIndices, idx].sort((a, b) => a - b))
+            : [idx];
+        onChange({ ...question, correctIndices });
+    };
+
+    const removeOption = (idx: number) => {
+        onChange({
+            ...question,
+            options: question.options.filter((_, i) => i !== idx),
+            // Keep the remaining correct answers pointing at the same options
+            correctIndices: question.correctIndices.filter(i => i !== idx).map(i => (i > idx ? i - 1 : i)),
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className={labelClass}>{t.review.statement}</label>
+                <textarea rows={2} value={question.question} onChange={e => onChange({ ...question, question: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.optionsHint}</label>
+                <div className="space-y-1.5">
+                    {question.options.map((option, idx) => (
+                        <div key={idx} className="flex items-center gap-2">
+                            <input
+                                type={allowMultiple ? 'checkbox' : 'radio'}
+                                checked={question.correctIndices.includes(idx)}
+                                onChange={() => toggleCorrect(idx)}
+                                className="w-4 h-4 accent-green-600 flex-shrink-0"
+                                title={t.review.correctAnswer}
+                            />
+                            <input
+                                value={option}
+                                onChange={e => onChange({ ...question, options: question.options.map((o, i) => (i === idx ? e.target.value : o)) })}
+                                className={`${inputClass} ${question.correctIndices.includes(idx) ? 'border-green-500 dark:border-green-600' : ''}`}
+                            />
+                            <button
+                                onClick={() => removeOption(idx)}
+                                disabled={question.options.length <= 2}
+                                className="p-1.5 text-slate-400 hover:text-red-500 disabled:opacity-30 flex-shrink-0"
+                                title={t.review.removeOption}
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                {question.options.length < MAX_OPTIONS && (
+                    <button
+                        onClick={() => onChange({ ...question, options: [...question.options, ''] })}
+                        className="mt-2 text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:underline"
+                    >
+                        <Plus size={12} /> {t.review.addOption}
+                    </button>
+                )}
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.explanation}</label>
+                <textarea rows={2} value={question.explanation} onChange={e => onChange({ ...question, explanation: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.quote}</label>
+                <textarea rows={2} value={question.sourceQuote} onChange={e => onChange({ ...question, sourceQuote: e.target.value })} onBlur={onQuoteBlur} className={`${inputClass} italic`} />
+            </div>
+        </div>
+    );
+};
+
+const ClozeCardEditor: React.FC<{ card: ClozeCard; onChange: (c: ClozeCard) => void }> = ({ card, onChange }) => {
+    const { t } = useTranslation();
+    const [newWord, setNewWord] = useState('');
+
+    const addWord = () => {
+        const word = newWord.trim();
+        if (word && !card.hiddenWords.includes(word)) onChange({ ...card, hiddenWords: [...card.hiddenWords, word] });
+        setNewWord('');
+    };
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className={labelClass}>{t.review.text}</label>
+                <textarea rows={3} value={card.fullText} onChange={e => onChange({ ...card, fullText: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.hiddenWords}</label>
+                <div className="flex flex-wrap gap-1.5 mb-2">
+                    {card.hiddenWords.map(word => (
+                        <span key={word} className="inline-flex items-center gap-1 px-2 py-0.5 bg-indigo-100 dark:bg-indigo-900/50 text-indigo-700 dark:text-indigo-300 text-xs font-medium rounded-full">
+                            {word}
+                            <button onClick={() => onChange({ ...card, hiddenWords: card.hiddenWords.filter(w => w !== word) })} className="hover:text-red-500" title={t.review.removeWord}>
+                                <X size={12} />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <input
+                        value={newWord}
+                        onChange={e => setNewWord(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') addWord(); }}
+                        placeholder={t.review.hiddenWordPlaceholder}
+                        className={inputClass}
+                    />
+                    <button onClick={addWord} className="px-3 bg-indigo-100 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 rounded-lg hover:bg-indigo-200" title={t.review.addHiddenWord}>
+                        <Plus size={16} />
+                    </button>
+                </div>
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.preview}</label>
+                <div className="p-3 bg-slate-50 dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-slate-700 text-sm text-slate-700 dark:text-slate-200 leading-loose">
+                    <ClozeText parts={parseClozeCard(card)} isRevealed={false} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const OpenQuestionEditor: React.FC<{ question: OpenQuestion; onChange: (q: OpenQuestion) => void }> = ({ question, onChange }) => {
+    const { t } = useTranslation();
+    const rubric = question.rubric ?? [];
+
+    const updateCriterion = (idx: number, changes: Partial<RubricCriterion>) =>
+        onChange({ ...question, rubric: rubric.map((c, i) => (i === idx ? { ...c, ...changes } : c)) });
+
+    return (
+        <div className="space-y-3">
+            <div>
+                <label className={labelClass}>{t.review.question}</label>
+                <textarea rows={2} value={question.question} onChange={e => onChange({ ...question, question: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.modelAnswer}</label>
+                <textarea rows={3} value={question.modelAnswer} onChange={e => onChange({ ...question, modelAnswer: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+                <label className={labelClass}>{t.review.rubric}</label>
+                <div className="space-y-1.5">
+                    {rubric.map((criterion, idx) => (
+                        <div key={idx} className="flex items-center gap-2">
+                            <input
+                                value={criterion.point}
+                                onChange={e => updateCriterion(idx, { point: e.target.value })}
+                                placeholder={t.review.keyPointPlaceholder}
+                                className={inputClass}
+                            />
+                            <input
+                                type="number"
+                                min="1"
+                                max="10"
+                                value={criterion.weight}
+                                onChange={e => updateCriterion(idx, { weight: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className={`${inputClass} !w-16 text-center`}
+                                title={t.review.weight}
+                            />
+                            <button
+                                onClick={() => onChange({ ...question, rubric: rubric.length > 1 ? rubric.filter((_, i) => i !== idx) : undefined })}
+                                className="p-1.5 text-slate-400 hover:text-red-500 flex-shrink-0"
+                                title={t.review.removeKeyPoint}
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    onClick={() => onChange({ ...question, rubric: [...rubric, { point: '', weight: 1 }] })}
+                    className="mt-2 text-xs text-indigo-600 dark:text-indigo-400 font-medium flex items-center gap-1 hover:underline"
+                >
+                    <Plus size={12} /> {t.review.addKeyPoint}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// ---------- Review step ----------
+
+// Lets the teacher vet generated items before the exam starts
+const ExamReview: React.FC<ExamReviewProps> = ({ settings, pdfText, testQuestions, clozeCards, openQuestions, onConfirm, onCancel }) => {
+    const { t } = useTranslation();
+    const [tests, setTests] = useState(testQuestions);
+    const [clozes, setClozes] = useState(clozeCards);
+    const [opens, setOpens] = useState(openQuestions);
+    const [regeneratingIndex, setRegeneratingIndex] = useState<number | null>(null);
+    // Built once: edited quotes are checked again when the field loses focus
+    const groundingIndex = useMemo(() => (pdfText ? createGroundingIndex(pdfText) : null), [pdfText]);
+
+    const type = settings.type;
+    const items: (TestQuestion | ClozeCard | OpenQuestion)[] =
+        type === ExamType.TEST ? tests : type === ExamType.CLOZE_FLASHCARD ? clozes : opens;
+    // React keys that follow each item through moves and deletions, so editors keep their own state
+    const [itemKeys, setItemKeys] = useState(() => items.map((_, index) => index));
+    const validate: (raw: RawItem) => unknown = type === ExamType.TEST ? validateTestQuestion : type === ExamType.CLOZE_FLASHCARD ? validateClozeCard : validateOpenQuestion;
+    const errors = items.map(item => getValidationProblem(validate, item));
+    const invalidCount = errors.filter(Boolean).length;
+
+    // Applies the same list operation to whichever item type is being reviewed
+    const updateItems = (fn: <T>(list: T[]) => T[]) => {
+        setItemKeys(fn);
+        if (type === ExamType.TEST) setTests(fn);
+        else if (type === ExamType.CLOZE_FLASHCARD) setClozes(fn);
+        else setOpens(fn);
+    };
+
+    const replaceAt = <T,>(index: number, item: T) => (list: T[]) => list.map((existing, i) => (i === index ? item : existing));
+
+    const handleRegenerate = async (index: number) => {
+        setRegeneratingIndex(index);
+        try {
+            const others = <T,>(list: T[]) => list.filter((_, i) => i !== index);
+            if (type === ExamType.TEST) {
+                const fresh = await regenerateTestQuestion(pdfText, settings, tests[index], others(tests));
+                setTests(replaceAt(index, fresh));
+            } else if (type === ExamType.CLOZE_FLASHCARD) {
+                const fresh = await regenerateClozeCard(pdfText, settings, clozes[index], others(clozes));
+                setClozes(replaceAt(index, fresh));
+            } else {
+                const fresh = await regenerateOpenQuestion(pdfText, settings, opens[index], others(opens));
+                setOpens(replaceAt(index, fresh));
+            }
+            // A new item, so its editor starts afresh
+            setItemKeys(keys => replaceAt(index, Math.max(...keys) + 1)(keys));
+        } catch (error) {
+            console.error(error);
+            alert(t.review.regenerateError);
+        } finally {
+            setRegeneratingIndex(null);
+        }
+    };
+
+    const handleConfirm = () => {
+        onConfirm({
+            testQuestions: type === ExamType.TEST ? tests.map(validateTestQuestion) : tests,
+            clozeCards: type === ExamType.CLOZE_FLASHCARD ? clozes.map(validateClozeCard) : clozes,
+            openQuestions: type === ExamType.OPEN_FLASHCARD ? opens.map(validateOpenQuestion) : opens,
+        });
+    };
+
+    const renderEditor = (index: number) => {
+        if (type === ExamType.TEST) {
+            const question = tests[index];
+            return (
+                <TestQuestionEditor
+                    question={question}
+                    allowMultiple={!!settings.allowMultipleCorrect || question.correctIndices.length > 1}
+                    onChange={q => setTests(replaceAt(index, q))}
+                    onQuoteBlur={groundingIndex ? () => setTests(replaceAt(index, groundTestQuestion(question, groundingIndex, !!settings.showSourceFile))) : undefined}
+                />
+            );
+        }
+        if (type === ExamType.CLOZE_FLASHCARD) return <ClozeCardEditor card={clozes[index]} onChange={c => setClozes(replaceAt(index, c))} />;
+        return <OpenQuestionEditor question={opens[index]} onChange={q => setOpens(replaceAt(index, q))} />;
+    };
+
+    return (
+        <div className="w-full max-w-4xl mx-auto">
+            <div className="bg-white dark:bg-slate-950 rounded-xl shadow-lg dark:shadow-slate-900/50 overflow-hidden border border-slate-100 dark:border-slate-800">
+                <div className="bg-indigo-600 dark:bg-indigo-900 px-3 py-1.5 text-white flex items-center gap-2 shadow-sm">
+                    <ClipboardCheck className="w-4 h-4" />
+                    <h2 className="text-sm font-bold">{t.review.title(items.length)}</h2>
+                </div>
+
+                <div className="p-3 space-y-3">
+                    {items.length === 0 && (
+                        <p className="text-center text-sm text-slate-500 dark:text-slate-400 py-8">{t.review.empty}</p>
+                    )}
+                    {items.map((item, index) => (
+                        <div
+                            key={itemKeys[index]}
+                            className={`p-4 rounded-lg border ${errors[index] ? 'border-red-300 dark:border-red-800 bg-red-50/40 dark:bg-red-950/20' : 'border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50'}`}
+                        >
+                            <div className="flex items-center justify-between mb-3">
+                                <span className="text-xs font-bold text-indigo-600 dark:text-indigo-400">
+                                    #{index + 1}
+                                    {item.sourceFile && <span className="ml-2 font-medium text-slate-400">{item.sourceFile}</span>}
+                                    {'ungrounded' in item && item.ungrounded && (
+                                        <span className="ml-2 px-2 py-0.5 bg-orange-100 dark:bg-orange-900/40 text-orange-700 dark:text-orange-300 rounded-full" title={t.review.ungroundedHint}>
+                                            {t.review.ungrounded}
+                                        </span>
+                                    )}
+                                </span>
+                                <div className="flex items-center gap-1">
+                                    <button onClick={() => updateItems(list => moveItem(list, index, index - 1))} disabled={index === 0 || regeneratingIndex !== null} className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title={t.review.moveUp}>
+                                        <ArrowUp size={16} />
+                                    </button>
+                                    <button onClick={() => updateItems(list => moveItem(list, index, index + 1))} disabled={index === items.length - 1 || regeneratingIndex !== null} className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title={t.review.moveDown}>
+                                        <ArrowDown size={16} />
+                                    </button>
+                                    <button
+                                        onClick={() => handleRegenerate(index)}
+                                        disabled={!pdfText || regeneratingIndex !== null}
+                                        className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-30"
+                                        title={pdfText ? t.review.regenerate : t.review.noDocument}
+                                    >
+                                        {regeneratingIndex === index ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+                                    </button>
+                                    <button onClick={() => updateItems(list => list.filter((_, i) => i !== index))} disabled={regeneratingIndex !== null} className="p-1.5 text-slate-400 hover:text-red-500 disabled:opacity-30" title={t.review.delete}>
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            </div>
+
+                            {renderEditor(index)}
+
+                            {errors[index] && (
+                                <p className="mt-3 text-xs font-medium text-red-600 dark:text-red-400 flex items-center gap-1.5">
+                                    <AlertTriangle size={14} /> {getItemProblemMessage(errors[index], t)}
+                                </p>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="sticky bottom-0 p-3 bg-white/95 dark:bg-slate-950/95 border-t border-slate-100 dark:border-slate-800 flex items-center justify-between gap-3">
+                    <button onClick={onCancel} className="px-4 py-2.5 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-lg flex items-center gap-2">
+                        <ArrowLeft size={16} /> {t.common.back}
+                    </button>
+                    {invalidCount > 0 && (
+                        <span className="text-xs text-red-600 dark:text-red-400 font-medium">{t.review.withErrors(invalidCount)}</span>
+                    )}
+                    <button
+                        onClick={handleConfirm}
+                        disabled={items.length === 0 || invalidCount > 0 || regeneratingIndex !== null}
+                        className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2 transition-all shadow-md disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t.review.start(items.length)} <ArrowRight size={16} />
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExamReview;
@@ -1,13 +1,20 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { TestQuestion, ExamSettings } from '../types';
-import { CheckCircle, XCircle, AlertCircle, ChevronRight, Volume2, StopCircle, Clock, Printer, RotateCcw, FileText } from 'lucide-react';
+import { TestQuestion, ExamSettings, QuestionAttempt } from '../types';
+import { CheckCircle, XCircle, AlertCircle, ChevronRight, Clock, Printer, RotateCcw, FileText } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import confetti from 'canvas-confetti';
+import { getMessages, useTranslation } from '../i18n';
+import { isPdfSource } from '../services/extractionService';
+import { SpeechItem, speak, stopSpeech } from '../services/speechService';
+import { SpeechControls, SpokenText, useSpeechState } from './SpeechControls';
+import { AttemptResult } from '../services/learnerService';
+import { isExactAnswer, roundPoints, scoreAnswer, toGrade } from '../services/scoringService';
 
 interface Props {
     questions: TestQuestion[];
     settings: ExamSettings;
     onRestart: () => void;
+    onFinish?: (result: AttemptResult) => void;
     uploadedFiles?: Map<string, File>;
 }
 
@@ -16,6 +23,7 @@ interface SummaryItem {
     userSelected: string[];
     correctSelected: string[];
     isCorrect: boolean;
+    points: number;
     explanation: string;
 }
 
@@ -52,11 +60,16 @@ const createPDFLink = (uploadedFiles: Map<string, File> | undefined, sourceFile:
         return { url: null, display: sourceFile };
     }
 
+    // Page references of other formats are shown as plain text
+    if (!isPdfSource(file)) return { url: null, display: sourceFile };
+
     const blobUrl = URL.createObjectURL(file);
     return { url: `${blobUrl}#page=${pageNum}`, display: sourceFile };
 };
 
-const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploadedFiles }) => {
+const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, onFinish, uploadedFiles }) => {
+    const { t, locale } = useTranslation();
+    const examLanguage = settings.examLanguage ?? 'es';
     const [currentIndex, setCurrentIndex] = useState(0);
     const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
     const [isAnswered, setIsAnswered] = useState(false);
@@ -64,95 +77,27 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
     const [results, setResults] = useState<{ correct: number, wrong: number }>({ correct: 0, wrong: 0 });
     const [timeLeft, setTimeLeft] = useState<number>(settings.timeLimit || 0);
     const [summary, setSummary] = useState<SummaryItem[]>([]);
-    const [isSpeaking, setIsSpeaking] = useState(false);
     const [showSummary, setShowSummary] = useState(false);
 
-    // Polling interval ref
-    const speechInterval = useRef<number | null>(null);
+    const speech = useSpeechState();
     const lastReadIndex = useRef<number | null>(null);
 
+    // Per-question log for the learner profile, reported once when the exam ends
+    const attempts = useRef<QuestionAttempt[]>([]);
+    const startedAt = useRef(Date.now());
+    const questionStartedAt = useRef(Date.now());
+    const isReported = useRef(false);
+
     const currentQuestion = questions[currentIndex];
     const isFinished = currentIndex >= questions.length;
 
-    // Polling for speech status
-    useEffect(() => {
-        const checkSpeech = () => {
-            setIsSpeaking(window.speechSynthesis.speaking);
-        };
-        // Check every 100ms
-        speechInterval.current = window.setInterval(checkSpeech, 100);
-        return () => {
-            if (speechInterval.current) clearInterval(speechInterval.current);
-        };
-    }, []);
-
-    const stopSpeech = () => {
-        if ('speechSynthesis' in window) {
-            window.speechSynthesis.cancel();
-        }
-    };
-
-    const playSpeech = (text: string) => {
-        if (!('speechSynthesis' in window)) return;
-
-        stopSpeech();
-
-        setTimeout(() => {
-            const utterance = new SpeechSynthesisUtterance(text);
-            utterance.lang = 'es-ES';
-            utterance.rate = 0.9; // Slightly slower for more natural sound
-            utterance.pitch = 1.0; // Normal pitch
-
-            const setVoice = () => {
-                const voices = window.speechSynthesis.getVoices();
-
-                // Use voice from settings if provided
-                if (settings.voiceURI) {
-                    const selectedVoice = voices.find(v => v.voiceURI === settings.voiceURI);
-                    if (selectedVoice) {
-                        utterance.voice = selectedVoice;
-                        return;
-                    }
-                }
-
-                // Fallback to Spanish voice
-                const spanishVoice = voices.find(v => v.lang.includes('es-ES')) ||
-                    voices.find(v => v.lang.includes('es'));
-                if (spanishVoice) utterance.voice = spanishVoice;
-            };
-
-            if (window.speechSynthesis.getVoices().length === 0) {
-                window.speechSynthesis.onvoiceschanged = setVoice;
-            } else {
-                setVoice();
-            }
-
-            // Store in window to prevent garbage collection (common browser bug)
-            // @ts-ignore
-            window.currentUtterance = utterance;
-
-            utterance.onend = () => {
-                // @ts-ignore
-                delete window.currentUtterance;
-            };
-
-            window.speechSynthesis.speak(utterance);
-        }, 50);
-    };
-
-    const toggleSpeech = (text: string) => {
-        if (window.speechSynthesis.speaking) {
-            stopSpeech();
-        } else {
-            playSpeech(text);
-        }
-    };
-
-    // Helper to get full text including options
-    const getQuestionTextToRead = () => {
-        if (!currentQuestion) return '';
-        const optionsText = currentQuestion.options.map((opt, idx) => `Opción ${idx + 1}: ${opt}`).join('. ');
-        return `${currentQuestion.question}. ${optionsText}`;
+    // The question and then each option, so the one being read can be highlighted
+    const getQuestionSpeech = (): SpeechItem[] => {
+        if (!currentQuestion) return [];
+        return [
+            { id: 'question', text: currentQuestion.question },
+            ...currentQuestion.options.map((opt, idx) => ({ id: `option-${idx}`, text: getMessages(examLanguage).speech.option(idx + 1, opt) })),
+        ];
     };
 
     // Ensure speech stops on unmount or question change
@@ -164,12 +109,30 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
 
     // Auto-Read Logic
     useEffect(() => {
-        if (settings.autoRead && !isFinished && currentQuestion && currentIndex !== lastReadIndex.current) {
+        if (!settings.autoRead || isFinished || !currentQuestion || currentIndex === lastReadIndex.current) return;
+        // Marked as read only once it starts, so a question left within the delay is not read late
+        const timer = window.setTimeout(() => {
             lastReadIndex.current = currentIndex;
-            setTimeout(() => playSpeech(getQuestionTextToRead()), 200);
-        }
+            speak(getQuestionSpeech(), settings);
+        }, 200);
+        return () => clearTimeout(timer);
     }, [currentIndex, settings.autoRead, isFinished, currentQuestion]);
 
+    useEffect(() => {
+        questionStartedAt.current = Date.now();
+    }, [currentIndex]);
+
+    const logAttempt = (question: TestQuestion, correct: boolean, points: number, timedOut = false) => {
+        attempts.current.push({
+            question: question.question,
+            correct,
+            points,
+            timeSpent: Date.now() - questionStartedAt.current,
+            timedOut,
+            sourceFile: question.sourceFile,
+        });
+    };
+
     // Timer Logic
     useEffect(() => {
         if (!settings.timeLimit || isAnswered || isFinished) return;
@@ -192,12 +155,14 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
 
     const handleTimeout = () => {
         setResults(prev => ({ ...prev, wrong: prev.wrong + 1 }));
+        logAttempt(questions[currentIndex], false, 0, true);
 
         const newItem: SummaryItem = {
             question: questions[currentIndex].question,
-            userSelected: ["Tiempo agotado"],
+            userSelected: [t.common.timedOut],
             correctSelected: questions[currentIndex].correctIndices.map(i => questions[currentIndex].options[i]),
             isCorrect: false,
+            points: 0,
             explanation: questions[currentIndex].explanation
         };
         setSummary(prev => [...prev, newItem]);
@@ -225,37 +190,44 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
         }
     };
 
+    // Partial credits are fractions, so points are shown rounded to two decimals
+    const formatPoints = (points: number) => roundPoints(points).toLocaleString(locale);
+
     const handleSubmit = () => {
         if (selectedOptions.length === 0) return;
 
-        const correctSet = new Set(currentQuestion.correctIndices);
-        const selectedSet = new Set(selectedOptions);
-
-        const isCorrect = correctSet.size === selectedSet.size && [...correctSet].every(x => selectedSet.has(x));
-
-        let points = 0;
+        const isCorrect = isExactAnswer(selectedOptions, currentQuestion);
+        const points = scoreAnswer(selectedOptions, currentQuestion, settings);
         if (isCorrect) {
-            points = 1;
             setResults(prev => ({ ...prev, correct: prev.correct + 1 }));
         } else {
             setResults(prev => ({ ...prev, wrong: prev.wrong + 1 }));
-            if (settings.negativeMarking) points = -0.5;
         }
 
         setScore(prev => prev + points);
         setIsAnswered(true);
+        logAttempt(currentQuestion, isCorrect, points);
+
+        if (settings.readExplanation) {
+            const m = getMessages(examLanguage).speech;
+            speak([
+                { id: 'verdict', text: isCorrect ? m.correct : m.incorrect },
+                { id: 'explanation', text: currentQuestion.explanation },
+            ], settings);
+        }
 
         setSummary(prev => [...prev, {
             question: currentQuestion.question,
             userSelected: selectedOptions.map(i => currentQuestion.options[i]),
             correctSelected: currentQuestion.correctIndices.map(i => currentQuestion.options[i]),
             isCorrect,
+            points,
             explanation: currentQuestion.explanation
         }]);
     };
 
     const handleNext = () => {
-        window.speechSynthesis.cancel();
+        stopSpeech();
         setCurrentIndex(prev => prev + 1);
         setSelectedOptions([]);
         setIsAnswered(false);
@@ -264,7 +236,7 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
     useEffect(() => {
         if (isFinished) {
             const maxScore = questions.length;
-            const grade = Math.round(Math.max(0, (score / maxScore) * 10));
+            const grade = toGrade(score, maxScore);
             if (grade >= 5) {
                 confetti({
                     particleCount: 150,
@@ -272,6 +244,11 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                     origin: { y: 0.6 }
                 });
             }
+            // Nothing to record when the exam was finished before answering anything
+            if (!isReported.current && attempts.current.length > 0) {
+                isReported.current = true;
+                onFinish?.({ startedAt: startedAt.current, questions: attempts.current, score: roundPoints(score), maxScore, grade });
+            }
         }
     }, [isFinished, score, questions.length]);
 
@@ -297,7 +274,7 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
         doc.write(`
         <html>
           <head>
-            <title>Resultados del Examen</title>
+            <title>${t.test.resultsTitle}</title>
             <script src="https://cdn.tailwindcss.com"></script>
             <style>
                body { padding: 40px; background: white; font-family: sans-serif; }
@@ -326,36 +303,36 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
 
     if (isFinished) {
         const maxScore = questions.length;
-        const grade = Math.round(Math.max(0, (score / maxScore) * 10));
+        const grade = toGrade(score, maxScore);
         const isPass = grade >= 5;
 
         return (
             <div id="printable-area" className={`w-full max-w-3xl mx-auto bg-white dark:bg-slate-950 rounded-3xl shadow-2xl dark:shadow-none p-10 text-center border border-slate-200 dark:border-slate-800 ${!isPass ? 'animate-shake bg-red-50/30 dark:bg-red-900/10' : ''}`}>
-                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">¡Examen Completado!</h2>
+                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-6">{t.test.completed}</h2>
 
                 <div className="flex flex-col items-center justify-center mb-8">
-                    <div className="text-sm text-slate-500 dark:text-slate-400 uppercase font-bold tracking-wider mb-2">Nota Final</div>
+                    <div className="text-sm text-slate-500 dark:text-slate-400 uppercase font-bold tracking-wider mb-2">{t.common.finalGrade}</div>
                     <div className="relative">
                         <div className={`text-8xl font-black text-transparent bg-clip-text ${isPass ? 'bg-gradient-to-r from-indigo-600 to-violet-600 dark:from-indigo-400 dark:to-violet-400' : 'bg-gradient-to-r from-red-600 to-orange-600 dark:from-red-400 dark:to-orange-400'}`}>
                             {grade}
                         </div>
-                        <div className="text-xl font-bold text-slate-400 mt-1">sobre 10</div>
+                        <div className="text-xl font-bold text-slate-400 mt-1">{t.common.outOfTen}</div>
                     </div>
-                    {!isPass && <p className="text-red-500 font-bold mt-2">¡Necesitas mejorar!</p>}
-                    {isPass && grade === 10 && <p className="text-indigo-500 font-bold mt-2">¡Perfecto!</p>}
+                    {!isPass && <p className="text-red-500 font-bold mt-2">{t.test.needsImprovement}</p>}
+                    {isPass && grade === 10 && <p className="text-indigo-500 font-bold mt-2">{t.test.perfect}</p>}
                 </div>
 
                 <div className="grid grid-cols-3 gap-4 mb-8 bg-slate-50 dark:bg-slate-900 p-4 rounded-2xl border border-slate-100 dark:border-slate-800">
                     <div className="flex flex-col items-center p-2">
-                        <span className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase">Puntos</span>
-                        <span className="text-xl font-bold text-slate-800 dark:text-slate-200">{score}</span>
+                        <span className="text-slate-500 dark:text-slate-400 text-xs font-bold uppercase">{t.test.points}</span>
+                        <span className="text-xl font-bold text-slate-800 dark:text-slate-200">{formatPoints(score)}</span>
                     </div>
                     <div className="flex flex-col items-center p-2 border-l border-slate-200 dark:border-slate-800">
-                        <span className="text-green-600 dark:text-green-400 text-xs font-bold uppercase flex items-center gap-1"><CheckCircle size={12} /> Aciertos</span>
+                        <span className="text-green-600 dark:text-green-400 text-xs font-bold uppercase flex items-center gap-1"><CheckCircle size={12} /> {t.test.correct}</span>
                         <span className="text-xl font-bold text-green-600 dark:text-green-400">{results.correct}</span>
                     </div>
                     <div className="flex flex-col items-center p-2 border-l border-slate-200 dark:border-slate-800">
-                        <span className="text-red-500 dark:text-red-400 text-xs font-bold uppercase flex items-center gap-1"><XCircle size={12} /> Fallos</span>
+                        <span className="text-red-500 dark:text-red-400 text-xs font-bold uppercase flex items-center gap-1"><XCircle size={12} /> {t.test.wrong}</span>
                         <span className="text-xl font-bold text-red-500 dark:text-red-400">{results.wrong}</span>
                     </div>
                 </div>
@@ -365,32 +342,35 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                         onClick={() => setShowSummary(!showSummary)}
                         className="text-sm text-indigo-600 dark:text-indigo-400 font-bold underline hover:text-indigo-700 dark:hover:text-indigo-300 transition"
                     >
-                        {showSummary ? 'Ocultar desglose detallado' : 'Ver desglose detallado de respuestas'}
+                        {showSummary ? t.test.hideBreakdown : t.test.showBreakdown}
                     </button>
                 </div>
 
                 {showSummary && (
                     <div className="text-left mb-8 mt-4 animate-in slide-in-from-bottom-4 duration-500">
                         <h3 className="text-xl font-bold mb-4 text-slate-800 dark:text-slate-200 flex items-center gap-2">
-                            <FileText className="text-indigo-500" /> Resumen de Respuestas
+                            <FileText className="text-indigo-500" /> {t.test.answersSummary}
                         </h3>
                         <div className="space-y-6">
                             {summary.map((item, idx) => (
                                 <div key={idx} className="p-4 rounded-xl border bg-slate-50 dark:bg-slate-900 dark:border-slate-800 break-inside-avoid">
                                     <div className="flex items-start gap-2 mb-2">
                                         <span className="font-bold text-slate-400 text-sm">#{idx + 1}</span>
-                                        <p className="font-medium text-slate-800 dark:text-slate-200">{item.question}</p>
+                                        <p className="font-medium text-slate-800 dark:text-slate-200 flex-1">{item.question}</p>
+                                        <span className={`text-xs font-bold whitespace-nowrap ${item.points > 0 ? 'text-green-600 dark:text-green-400' : item.points < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-400'}`}>
+                                            {t.test.questionPoints(`${item.points > 0 ? '+' : ''}${formatPoints(item.points)}`)}
+                                        </span>
                                     </div>
                                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mt-3 pl-6">
                                         <div>
-                                            <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Tu Respuesta</span>
+                                            <span className="block text-xs font-bold text-slate-500 uppercase mb-1">{t.test.yourAnswer}</span>
                                             <div className={`flex items-center gap-2 ${item.isCorrect ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
                                                 {item.isCorrect ? <CheckCircle size={14} /> : <XCircle size={14} />}
                                                 {item.userSelected.join(', ')}
                                             </div>
                                         </div>
                                         <div>
-                                            <span className="block text-xs font-bold text-slate-500 uppercase mb-1">Respuesta Correcta</span>
+                                            <span className="block text-xs font-bold text-slate-500 uppercase mb-1">{t.test.correctAnswer}</span>
                                             <div className="text-green-600 dark:text-green-400 font-medium">
                                                 {item.correctSelected.join(', ')}
                                             </div>
@@ -407,10 +387,10 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
 
                 <div className="flex gap-4 justify-center no-print">
                     <button onClick={handlePrint} className="px-6 py-3 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-xl font-bold hover:bg-indigo-200 dark:hover:bg-indigo-900/50 transition flex items-center gap-2">
-                        <Printer size={18} /> Imprimir
+                        <Printer size={18} /> {t.common.print}
                     </button>
                     <button onClick={onRestart} className="px-6 py-3 bg-slate-800 dark:bg-slate-700 text-white rounded-xl font-bold hover:bg-slate-900 dark:hover:bg-slate-600 transition flex items-center gap-2">
-                        <RotateCcw size={18} /> Nuevo Examen
+                        <RotateCcw size={18} /> {t.test.newExam}
                     </button>
                 </div>
             </div>
@@ -421,7 +401,7 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
         <div className="w-full max-w-3xl mx-auto">
             <div className="flex justify-between items-center mb-6 bg-white dark:bg-slate-900 p-4 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800">
                 <div className="flex gap-4 text-sm font-medium text-slate-600 dark:text-slate-400">
-                    <span>Pregunta: {currentIndex + 1}/{questions.length}</span>
+                    <span>{t.test.progress(currentIndex + 1, questions.length)}</span>
                     <span className="text-green-600 dark:text-green-400">✓ {results.correct}</span>
                     <span className="text-red-500 dark:text-red-400">✕ {results.wrong}</span>
                 </div>
@@ -432,14 +412,14 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                             {timeLeft}s
                         </div>
                     )}
-                    <div className="font-bold text-indigo-600 dark:text-indigo-400 text-lg">Puntos: {score}</div>
+                    <div className="font-bold text-indigo-600 dark:text-indigo-400 text-lg">{t.test.points}: {formatPoints(score)}</div>
                     <button
                         onClick={() => setCurrentIndex(questions.length)}
                         className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-bold rounded-lg transition-colors flex items-center gap-2"
-                        title="Terminar examen y ver resultados"
+                        title={t.common.finishExamHint}
                     >
                         <XCircle size={16} />
-                        Terminar
+                        {t.common.finish}
                     </button>
                 </div>
             </div>
@@ -466,16 +446,8 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                 >
                     <div className="p-8">
                         <div className="flex items-start gap-4 mb-6">
-                            <button
-                                onClick={() => toggleSpeech(getQuestionTextToRead())}
-                                className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all flex-shrink-0 ${isSpeaking
-                                    ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
-                                    : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300'
-                                    }`}
-                            >
-                                {isSpeaking ? <><StopCircle size={18} fill="currentColor" /> PARAR</> : <><Volume2 size={18} /> Leer</>}
-                            </button>
-                            <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 leading-relaxed">{currentQuestion.question}</h3>
+                            <SpeechControls onRead={() => speak(getQuestionSpeech(), settings)} />
+                            <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 leading-relaxed"><SpokenText id="question" text={currentQuestion.question} /></h3>
                         </div>
 
                         <div className="space-y-3">
@@ -531,7 +503,7 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                                         transition={transitionProps}
                                         onClick={() => handleOptionSelect(idx)}
                                         whileTap={!isAnswered ? { scale: 0.98 } : {}}
-                                        className={`w-full p-4 rounded-xl transition-colors duration-200 flex items-start gap-3 ${containerClass}`}
+                                        className={`w-full p-4 rounded-xl transition-colors duration-200 flex items-start gap-3 ${containerClass} ${speech.itemId === `option-${idx}` ? 'ring-2 ring-yellow-300 dark:ring-yellow-500/50' : ''}`}
                                     >
                                         <div className={`w-6 h-6 rounded-full border-2 flex-shrink-0 flex items-center justify-center mt-0.5 ${isSelected || (isAnswered && isCorrectAnswer) ? 'border-current' : 'border-slate-300 dark:border-slate-600'}`}>
                                             {isAnswered && isCorrectAnswer && <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} transition={{ type: "spring", stiffness: 300 }}><CheckCircle size={14} /></motion.div>}
@@ -555,17 +527,22 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                                 <div className="flex items-start gap-3 mb-4">
                                     <AlertCircle className="text-indigo-600 dark:text-indigo-400 flex-shrink-0 mt-1" />
                                     <div>
-                                        <h4 className="font-bold text-slate-800 dark:text-slate-200">Explicación</h4>
-                                        <p className="text-slate-600 dark:text-slate-400 text-sm mt-1">{currentQuestion.explanation}</p>
+                                        <h4 className="font-bold text-slate-800 dark:text-slate-200">{t.test.explanation}</h4>
+                                        <p className="text-slate-600 dark:text-slate-400 text-sm mt-1"><SpokenText id="explanation" text={currentQuestion.explanation} /></p>
                                     </div>
                                 </div>
                                 <div className="bg-yellow-50 dark:bg-yellow-900/10 p-4 rounded-xl border border-yellow-100 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200 italic">
                                     "{currentQuestion.sourceQuote}"
+                                    {currentQuestion.ungrounded && (
+                                        <div className="mt-2 flex items-center gap-1 not-italic text-xs font-semibold text-orange-600 dark:text-orange-400">
+                                            <AlertCircle size={12} /> {t.test.quoteNotFound}
+                                        </div>
+                                    )}
                                     {currentQuestion.sourceFile && (() => {
                                         const { url, display } = createPDFLink(uploadedFiles, currentQuestion.sourceFile);
                                         return (
                                             <div className="mt-2 pt-2 border-t border-yellow-200 dark:border-yellow-800/50 flex items-center gap-1 not-italic font-semibold text-xs opacity-75">
-                                                <FileText size={12} /> Fuente: {url ? (
+                                                <FileText size={12} /> {t.common.source}: {url ? (
                                                     <a href={url} target="_blank" rel="noopener noreferrer" className="underline hover:text-yellow-900 dark:hover:text-yellow-100 transition">
                                                         {display}
                                                     </a>
@@ -585,14 +562,14 @@ const ExamTestMode: React.FC<Props> = ({ questions, settings, onRestart, uploade
                                 disabled={selectedOptions.length === 0}
                                 className="px-8 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
                             >
-                                Responder
+                                {t.test.submit}
                             </button>
                         ) : (
                             <button
                                 onClick={handleNext}
                                 className="px-8 py-3 bg-slate-900 dark:bg-slate-700 text-white rounded-xl font-bold shadow-lg hover:bg-black dark:hover:bg-slate-600 transition-all flex items-center gap-2"
                             >
-                                Siguiente <ChevronRight size={20} />
+                                {t.common.next} <ChevronRight size={20} />
                             </button>
                         )}
                     </div>
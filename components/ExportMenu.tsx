@@ -0,0 +1,71 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExamExportData, ExportFormat, countInexactlyScored, exportExam, getAvailableFormats } from '../services/exportService';
+import { useTranslation } from '../i18n';
+
+interface ExportMenuProps {
+    data: ExamExportData;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ data }) => {
+    const { t } = useTranslation();
+    const [isOpen, setIsOpen] = useState(false);
+    const [position, setPosition] = useState({ top: 0, left: 0 });
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    // Close when clicking anywhere else
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    // Fixed positioning so the menu is not clipped by scrollable lists
+    const toggleMenu = (e: React.MouseEvent<HTMLButtonElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        setPosition({ top: rect.bottom + 4, left: rect.right - 176 });
+        setIsOpen(!isOpen);
+    };
+
+    const handleExport = async (format: ExportFormat) => {
+        setIsOpen(false);
+        const inexact = countInexactlyScored(data, format);
+        if (inexact > 0 && !confirm(t.export.inexactScoring(inexact))) return;
+        try {
+            await exportExam(data, format);
+        } catch (error) {
+            console.error(error);
+            alert(t.export.error);
+        }
+    };
+
+    return (
+        <div ref={menuRef}>
+            <button
+                onClick={toggleMenu}
+                className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                title={t.export.title}
+            >
+                <Download size={16} />
+            </button>
+            {isOpen && (
+                <div style={position} className="fixed w-44 bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 py-1 z-50">
+                    {getAvailableFormats(data).map(format => (
+                        <button
+                            key={format.id}
+                            onClick={() => handleExport(format.id)}
+                            className="w-full text-left px-3 py-1.5 text-xs text-slate-700 dark:text-slate-200 hover:bg-indigo-50 dark:hover:bg-slate-700"
+                        >
+                            {format.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExportMenu;
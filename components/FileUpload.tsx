@@ -1,13 +1,22 @@
 import React, { useCallback, useState } from 'react';
 import { UploadCloud, FileText, X, File as FileIcon, ArrowRight, Plus } from 'lucide-react';
-import { extractTextFromPDFs } from '../services/pdfService';
+import { extractTextFromFiles, ExtractionProgress, getSourceExtractor, SOURCE_ACCEPT, SUPPORTED_SOURCES_LABEL } from '../services/extractionService';
+import { Messages, useTranslation } from '../i18n';
 
 interface FileUploadProps {
     onTextExtracted: (data: { text: string; files: File[] }) => void;
-    setLoading: (loading: boolean) => void;
+    setLoading: (loading: boolean, message?: string) => void;
 }
 
+const formatProgress = (t: Messages, { fileName, pageNumber, totalPages, ocrProgress }: ExtractionProgress): string =>
+    pageNumber === undefined
+        ? t.upload.analyzingFile(fileName)
+        : ocrProgress === undefined
+        ? t.upload.analyzingPage(fileName, pageNumber, totalPages)
+        : t.upload.ocrProgress(fileName, pageNumber, totalPages, Math.round(ocrProgress * 100));
+
 const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading }) => {
+    const { t } = useTranslation();
     const [files, setFiles] = useState<File[]>([]);
 
     const processFiles = async () => {
@@ -15,15 +24,16 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
 
         setLoading(true);
         try {
-            const text = await extractTextFromPDFs(files);
-            if (text.trim().length === 0) {
-                alert('No se pudo extraer texto. Los PDFs podrían contener solo imágenes.');
+            const text = await extractTextFromFiles(files, progress => setLoading(true, formatProgress(t, progress)));
+            // Only page markers left: neither the text layer nor OCR found anything
+            if (text.replace(/^--- .* ---$/gm, '').trim().length === 0) {
+                alert(t.upload.noText);
             } else {
                 onTextExtracted({ text, files });
             }
         } catch (error) {
             console.error(error);
-            alert('Error analizando los PDFs.');
+            alert(error instanceof Error ? `${t.upload.analysisError} ${error.message}` : t.upload.analysisError);
         } finally {
             setLoading(false);
         }
@@ -34,13 +44,13 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
         const validFiles: File[] = [];
 
         Array.from(newFiles).forEach(file => {
-            if (file.type === 'application/pdf') {
+            if (getSourceExtractor(file)) {
                 // Avoid duplicates by name
                 if (!files.some(f => f.name === file.name)) {
                     validFiles.push(file);
                 }
             } else {
-                alert(`El archivo ${file.name} no es un PDF.`);
+                alert(t.upload.unsupported(file.name, SUPPORTED_SOURCES_LABEL));
             }
         });
 
@@ -90,7 +100,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
                     type="file"
                     id="pdf-upload"
                     className="hidden"
-                    accept=".pdf"
+                    accept={SOURCE_ACCEPT}
                     multiple
                     onChange={onInputChange}
                 />
@@ -104,10 +114,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
                     </div>
                     <div>
                         <h3 className="text-xl font-bold text-slate-700 dark:text-slate-200">
-                            {files.length > 0 ? 'Añadir más archivos' : 'Sube tus documentos'}
+                            {files.length > 0 ? t.upload.addMore : t.upload.title}
                         </h3>
                         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-                            {files.length > 0 ? 'Arrastra o haz clic para agregar' : 'PDFs (Selección múltiple)'}
+                            {files.length > 0 ? t.upload.addMoreHint : t.upload.formatsHint}
                         </p>
                     </div>
                 </div>
@@ -118,12 +128,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
                 <div className="mt-6 space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
                     <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
                         <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center">
-                            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Documentos seleccionados ({files.length})</span>
+                            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t.upload.selected(files.length)}</span>
                             <button
                                 onClick={(e) => { e.stopPropagation(); setFiles([]); }}
                                 className="text-xs text-red-500 hover:text-red-600 font-medium"
                             >
-                                Limpiar todo
+                                {t.upload.clearAll}
                             </button>
                         </div>
                         <div className="divide-y divide-slate-100 dark:divide-slate-800 max-h-[200px] overflow-y-auto scrollbar-thin">
@@ -141,7 +151,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
                                     <button
                                         onClick={(e) => removeFile(index, e)}
                                         className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
-                                        title="Eliminar archivo"
+                                        title={t.upload.removeFile}
                                     >
                                         <X size={16} />
                                     </button>
@@ -154,7 +164,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onTextExtracted, setLoading })
                         onClick={processFiles}
                         className="w-full py-4 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold shadow-lg shadow-indigo-200 dark:shadow-none transition-all hover:scale-[1.02] active:scale-[0.98] flex items-center justify-center gap-2"
                     >
-                        Analizar {files.length} Documentos <ArrowRight size={20} />
+                        {t.upload.analyze(files.length)} <ArrowRight size={20} />
                     </button>
                 </div>
             )}
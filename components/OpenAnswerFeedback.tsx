@@ -0,0 +1,43 @@
+import React from 'react';
+import { CheckCircle, XCircle, WifiOff } from 'lucide-react';
+import { CriterionScore, Language } from '../types';
+import { isOpenAnswerPassed } from '../services/scoringService';
+import { hasStemming } from '../services/offlineGrader';
+import { useTranslation } from '../i18n';
+
+// Shown on answers graded by the offline keyword heuristic instead of the LLM, in the exam `language`
+export const HeuristicBadge: React.FC<{ language: Language }> = ({ language }) => {
+    const { t } = useTranslation();
+    const hint = hasStemming(language) ? t.open.heuristicHint : `${t.open.heuristicHint} ${t.open.heuristicWholeWords}`;
+    return (
+        <span className="inline-flex items-center gap-1 px-2 py-0.5 text-[10px] font-bold uppercase rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300" title={hint}>
+            <WifiOff size={10} /> {t.open.heuristic}
+        </span>
+    );
+};
+
+// Covered (from 5 up) and missed key points of a graded answer
+export const CriteriaList: React.FC<{ criteria: CriterionScore[] }> = ({ criteria }) => {
+    const { t, locale } = useTranslation();
+    return (
+        <ul className="space-y-1">
+            {criteria.map((criterion, idx) => {
+                const covered = isOpenAnswerPassed(criterion.score);
+                return (
+                    <li key={idx} className="flex items-start gap-2 text-sm">
+                        {covered
+                            ? <CheckCircle size={14} className="text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5" />
+                            : <XCircle size={14} className="text-red-500 dark:text-red-400 flex-shrink-0 mt-0.5" />}
+                        <span className="flex-1 text-slate-700 dark:text-slate-300">
+                            {criterion.point}
+                            <span className="sr-only"> ({covered ? t.open.covered : t.open.missed})</span>
+                        </span>
+                        <span className="text-xs font-bold text-slate-400 whitespace-nowrap" title={t.open.weight}>
+                            {t.open.score(criterion.score.toLocaleString(locale))} · ×{criterion.weight}
+                        </span>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+};
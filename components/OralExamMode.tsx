@@ -0,0 +1,414 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ExamSettings, OpenAnswerEvaluation, OpenQuestion, OralTurn } from '../types';
+import { generateFollowUpQuestion } from '../services/geminiService';
+import { gradeOpenAnswer } from '../services/offlineGrader';
+import { DictationError, DictationSession, isDictationSupported, startDictation } from '../services/dictationService';
+import { MAX_FOLLOW_UPS, getOralScore, getSourceContext } from '../services/oralExamService';
+import { isOpenAnswerPassed, roundPoints, toGrade } from '../services/scoringService';
+import { AttemptResult } from '../services/learnerService';
+import { CriteriaList, HeuristicBadge } from './OpenAnswerFeedback';
+import { Send, Loader2, Volume2, StopCircle, XCircle, RotateCcw, Printer, Mic, MicOff, GraduationCap, User, CornerDownRight } from 'lucide-react';
+import confetti from 'canvas-confetti';
+import { useTranslation } from '../i18n';
+import { speak, stopSpeech } from '../services/speechService';
+import { SpokenText, useSpeechState } from './SpeechControls';
+
+interface Props {
+    questions: OpenQuestion[];
+    // Document text the follow-up questions are grounded in
+    pdfText: string;
+    settings: ExamSettings;
+    onRestart: () => void;
+    onFinish?: (result: AttemptResult) => void;
+}
+
+type Phase = 'ANSWERING' | 'THINKING' | 'GRADING' | 'FINISHED';
+
+interface CurrentQuestion {
+    question: OpenQuestion;
+    followUp: boolean;
+    comment?: string;
+}
+
+// Turns from the exam question that opened the last topic
+const getTopicTurns = (turns: OralTurn[]): OralTurn[] => {
+    let start = turns.length - 1;
+    while (start > 0 && turns[start].followUp) start--;
+    return turns.slice(start);
+};
+
+// Viva-voce simulation: the examiner reads each question aloud, listens to the
+// answer and asks follow-ups on the same page; the transcript is graded at the end
+const OralExamMode: React.FC<Props> = ({ questions, pdfText, settings, onRestart, onFinish }) => {
+    const { t, locale } = useTranslation();
+    const examLanguage = settings.examLanguage ?? 'es';
+    const [topicIndex, setTopicIndex] = useState(0);
+    const [current, setCurrent] = useState<CurrentQuestion>({ question: questions[0], followUp: false });
+    const [turns, setTurns] = useState<OralTurn[]>([]);
+    const [answer, setAnswer] = useState('');
+    const [phase, setPhase] = useState<Phase>('ANSWERING');
+    const [gradedCount, setGradedCount] = useState(0);
+    const [isDictating, setIsDictating] = useState(false);
+
+    const isSpeaking = useSpeechState().status !== 'idle';
+    const dictation = useRef<DictationSession | null>(null);
+    // Bumped when a question is left, so late transcripts of its dictation are dropped
+    const dictationId = useRef(0);
+    // Answering while dictating waits for the final transcript
+    const submitWhenDictationEnds = useRef(false);
+    const answerRef = useRef('');
+    const turnStartedAt = useRef(Date.now());
+    const startedAt = useRef(Date.now());
+    const isReported = useRef(false);
+
+    const followUpNumber = current.followUp ? getTopicTurns(turns).length : 0;
+
+    const updateAnswer = (text: string) => {
+        answerRef.current = text;
+        setAnswer(text);
+    };
+
+    const getDictationMessage = (error: unknown) =>
+        error instanceof DictationError ? `${t.open.dictationError} ${t.open.dictationErrors[error.code]}` : t.open.dictationError;
+
+    const abandonDictation = () => {
+        dictationId.current++;
+        submitWhenDictationEnds.current = false;
+        dictation.current?.stop();
+        dictation.current = null;
+        setIsDictating(false);
+    };
+
+    const startListening = async () => {
+        if (dictation.current || !isDictationSupported()) return;
+        const id = ++dictationId.current;
+        const typed = answerRef.current.trim();
+        const isCurrent = () => id === dictationId.current;
+        try {
+            setIsDictating(true);
+            const session = await startDictation(examLanguage, {
+                onTranscript: text => {
+                    if (isCurrent()) updateAnswer([typed, text].filter(Boolean).join(' '));
+                },
+                onEnd: () => {
+                    if (!isCurrent()) return;
+                    dictation.current = null;
+                    setIsDictating(false);
+                    if (submitWhenDictationEnds.current) {
+                        submitWhenDictationEnds.current = false;
+                        recordTurn(answerRef.current.trim());
+                    }
+                },
+                onError: error => {
+                    console.error(error);
+                    if (isCurrent()) alert(getDictationMessage(error));
+                },
+            });
+            if (isCurrent()) dictation.current = session;
+            else session.stop();
+        } catch (error) {
+            console.error(error);
+            setIsDictating(false);
+            alert(getDictationMessage(error));
+        }
+    };
+
+    const askCurrent = async () => {
+        abandonDictation();
+        const items = [
+            ...(current.comment ? [{ id: 'comment', text: current.comment }] : []),
+            { id: 'question', text: current.question.question },
+        ];
+        // Hands-free: the microphone opens when the examiner has finished talking, not when interrupted
+        if (await speak(items, settings)) startListening();
+    };
+
+    useEffect(() => {
+        if (phase !== 'ANSWERING') return;
+        turnStartedAt.current = Date.now();
+        updateAnswer('');
+        askCurrent();
+    }, [current]);
+
+    useEffect(() => {
+        return () => {
+            stopSpeech();
+            abandonDictation();
+        };
+    }, []);
+
+    const gradeTranscript = async (transcript: OralTurn[]) => {
+        abandonDictation();
+        stopSpeech();
+        setTurns(transcript);
+        setPhase('GRADING');
+        setGradedCount(0);
+
+        // A turn that cannot be graded scores 0, so the exam always finishes
+        const gradeTurn = async (turn: OralTurn): Promise<OpenAnswerEvaluation> => {
+            if (!turn.answer) return { score: 0, feedback: t.open.noAnswer, criteria: [] };
+            try {
+                return await gradeOpenAnswer(turn.question, turn.answer, settings);
+            } catch (error) {
+                console.error(error);
+                return { score: 0, feedback: t.open.evaluationError, criteria: [] };
+            }
+        };
+
+        const graded: OralTurn[] = [];
+        for (const turn of transcript) {
+            graded.push({ ...turn, evaluation: await gradeTurn(turn) });
+            setGradedCount(graded.length);
+        }
+        setTurns(graded);
+        setPhase('FINISHED');
+    };
+
+    const nextTopic = (transcript: OralTurn[]) => {
+        if (topicIndex + 1 >= questions.length) {
+            gradeTranscript(transcript);
+            return;
+        }
+        setTopicIndex(topicIndex + 1);
+        setPhase('ANSWERING');
+        setCurrent({ question: questions[topicIndex + 1], followUp: false });
+    };
+
+    const recordTurn = async (answerText: string) => {
+        abandonDictation();
+        stopSpeech();
+        const transcript = [...turns, {
+            question: current.question,
+            answer: answerText,
+            followUp: current.followUp,
+            comment: current.comment,
+            timeSpent: Date.now() - turnStartedAt.current,
+        }];
+        setTurns(transcript);
+
+        const topicTurns = getTopicTurns(transcript);
+        if (topicTurns.length - 1 < MAX_FOLLOW_UPS) {
+            setPhase('THINKING');
+            try {
+                const followUp = await generateFollowUpQuestion(getSourceContext(pdfText, topicTurns[0].question), topicTurns, settings);
+                if (followUp) {
+                    setPhase('ANSWERING');
+                    setCurrent({ question: followUp.question, followUp: true, comment: followUp.comment });
+                    return;
+                }
+            } catch (error) {
+                // Without a follow-up the exam simply moves on
+                console.error(error);
+            }
+        }
+        nextTopic(transcript);
+    };
+
+    const handleSubmit = () => {
+        if (dictation.current) {
+            submitWhenDictationEnds.current = true;
+            dictation.current.stop();
+            return;
+        }
+        recordTurn(answerRef.current.trim());
+    };
+
+    const toggleDictation = () => {
+        if (dictation.current) dictation.current.stop();
+        else {
+            stopSpeech();
+            startListening();
+        }
+    };
+
+    useEffect(() => {
+        if (phase !== 'FINISHED' || turns.length === 0 || isReported.current) return;
+        isReported.current = true;
+        const { score, maxScore } = getOralScore(turns);
+        const grade = toGrade(score, maxScore);
+        if (grade >= 5) confetti({ particleCount: 150, spread: 70, origin: { y: 0.6 } });
+        onFinish?.({
+            startedAt: startedAt.current,
+            questions: turns.map(turn => ({
+                question: turn.question.question,
+                correct: isOpenAnswerPassed(turn.evaluation?.score ?? 0),
+                points: (turn.evaluation?.score ?? 0) / 10,
+                timeSpent: turn.timeSpent,
+                sourceFile: turn.question.sourceFile,
+            })),
+            score: roundPoints(score),
+            maxScore,
+            grade,
+        });
+    }, [phase, turns]);
+
+    if (phase === 'GRADING') {
+        return (
+            <div className="w-full max-w-2xl mx-auto bg-white dark:bg-slate-950 rounded-2xl shadow-xl dark:shadow-none border border-slate-100 dark:border-slate-800 p-10 flex flex-col items-center gap-4 text-slate-600 dark:text-slate-300">
+                <Loader2 className="animate-spin text-indigo-500" size={32} />
+                <p className="font-medium">{t.oral.grading(gradedCount, turns.length)}</p>
+            </div>
+        );
+    }
+
+    if (phase === 'FINISHED') {
+        const { score, maxScore } = getOralScore(turns);
+        const grade = toGrade(score, maxScore);
+        const isPass = grade >= 5;
+
+        return (
+            <div id="printable-area" className={`w-full max-w-3xl mx-auto bg-white dark:bg-slate-950 p-10 rounded-3xl shadow-2xl dark:shadow-none border border-slate-200 dark:border-slate-800 ${!isPass ? 'bg-red-50/30 dark:bg-red-900/10' : ''}`}>
+                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-4 text-center">{t.oral.completed}</h2>
+
+                {turns.length === 0 ? (
+                    <p className="text-slate-500 dark:text-slate-400 mb-8 text-center">{t.oral.noTurns}</p>
+                ) : (
+                    <>
+                        <div className="flex flex-col items-center justify-center mb-8">
+                            <div className="text-sm text-slate-500 dark:text-slate-400 uppercase font-bold tracking-wider mb-2">{t.common.finalGrade}</div>
+                            <div className={`text-8xl font-black text-transparent bg-clip-text ${isPass ? 'bg-gradient-to-r from-indigo-600 to-violet-600 dark:from-indigo-400 dark:to-violet-400' : 'bg-gradient-to-r from-red-600 to-orange-600 dark:from-red-400 dark:to-orange-400'}`}>
+                                {grade}
+                            </div>
+                            <div className="text-xl font-bold text-slate-400 mt-1">{t.common.outOfTen}</div>
+                            {!isPass && <p className="text-red-500 font-bold mt-2">{t.open.tryAgain}</p>}
+                        </div>
+
+                        <h3 className="text-xl font-bold mb-4 text-slate-800 dark:text-slate-200">{t.oral.transcript}</h3>
+                        <div className="space-y-4 mb-8">
+                            {turns.map((turn, idx) => (
+                                <div key={idx} className={`p-4 rounded-xl border bg-slate-50 dark:bg-slate-900 dark:border-slate-800 break-inside-avoid ${turn.followUp ? 'ml-8' : ''}`}>
+                                    <div className="flex items-start gap-2 mb-2">
+                                        {turn.followUp ? <CornerDownRight size={16} className="text-indigo-400 flex-shrink-0 mt-1" /> : <GraduationCap size={16} className="text-indigo-500 flex-shrink-0 mt-1" />}
+                                        <div className="flex-1">
+                                            {turn.comment && <p className="text-sm italic text-slate-500 dark:text-slate-400">{turn.comment}</p>}
+                                            <p className="font-bold text-slate-800 dark:text-slate-200">{turn.question.question}</p>
+                                        </div>
+                                        {turn.evaluation && (
+                                            <span className={`text-sm font-bold whitespace-nowrap flex items-center gap-2 ${isOpenAnswerPassed(turn.evaluation.score) ? 'text-green-600 dark:text-green-400' : 'text-red-500 dark:text-red-400'}`}>
+                                                {turn.evaluation.heuristic && <HeuristicBadge language={examLanguage} />}
+                                                {t.open.score(turn.evaluation.score.toLocaleString(locale))}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <div className="flex items-start gap-2 mb-3 pl-6">
+                                        <User size={14} className="text-slate-400 flex-shrink-0 mt-0.5" />
+                                        <p className="text-sm text-slate-700 dark:text-slate-300">{turn.answer || `(${t.open.noAnswer})`}</p>
+                                    </div>
+                                    {turn.evaluation && (
+                                        <div className="pl-6 space-y-2">
+                                            <p className="text-sm text-slate-600 dark:text-slate-400">{turn.evaluation.feedback}</p>
+                                            {turn.evaluation.criteria.length > 0 && <CriteriaList criteria={turn.evaluation.criteria} />}
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 italic">{t.open.idealAnswer}: {turn.question.modelAnswer}</p>
+                                        </div>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex gap-4 justify-center no-print">
+                    <button onClick={() => window.print()} className="px-6 py-3 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-xl font-bold hover:bg-indigo-200 dark:hover:bg-indigo-900/50 transition flex items-center gap-2">
+                        <Printer size={18} /> {t.common.print}
+                    </button>
+                    <button onClick={onRestart} className="px-6 py-3 bg-slate-800 dark:bg-slate-700 text-white rounded-xl font-bold hover:bg-slate-900 dark:hover:bg-slate-600 flex justify-center items-center gap-2">
+                        <RotateCcw size={18} /> {t.common.restart}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full max-w-2xl mx-auto">
+            <div className="mb-4 flex justify-between items-center text-sm font-bold text-slate-400">
+                <span>
+                    {t.oral.topic(topicIndex + 1, questions.length)}
+                    {current.followUp && <> · {t.oral.followUp(followUpNumber, MAX_FOLLOW_UPS)}</>}
+                </span>
+                <button
+                    onClick={() => gradeTranscript(turns)}
+                    disabled={phase === 'THINKING'}
+                    className="px-3 py-1.5 bg-red-500 hover:bg-red-600 disabled:opacity-50 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
+                    title={t.common.finishExamHint}
+                >
+                    <XCircle size={14} />
+                    {t.common.finish}
+                </button>
+            </div>
+
+            <div className="bg-white dark:bg-slate-950 rounded-2xl shadow-xl dark:shadow-none border border-slate-100 dark:border-slate-800 overflow-hidden">
+                <div className="p-8 bg-gradient-to-br from-white to-slate-50 dark:from-slate-950 dark:to-slate-900">
+                    <div className="flex items-start gap-3 mb-6">
+                        <div className="w-10 h-10 rounded-full bg-indigo-100 dark:bg-indigo-900 text-indigo-600 dark:text-indigo-300 flex items-center justify-center flex-shrink-0">
+                            <GraduationCap size={20} />
+                        </div>
+                        <div className="flex-1">
+                            <span className="text-xs font-bold uppercase text-slate-400">{t.oral.examiner}</span>
+                            {phase === 'THINKING' ? (
+                                <p className="flex items-center gap-2 text-slate-500 dark:text-slate-400 mt-1">
+                                    <Loader2 className="animate-spin" size={16} /> {t.oral.thinking}
+                                </p>
+                            ) : (
+                                <>
+                                    {current.comment && <p className="text-sm italic text-slate-500 dark:text-slate-400 mt-1"><SpokenText id="comment" text={current.comment} /></p>}
+                                    <h3 className="text-xl font-bold text-slate-800 dark:text-slate-200 mt-1"><SpokenText id="question" text={current.question.question} /></h3>
+                                </>
+                            )}
+                        </div>
+                        {phase === 'ANSWERING' && (
+                            <button
+                                onClick={() => (isSpeaking ? stopSpeech() : askCurrent())}
+                                className={`p-2 rounded-full transition-all flex-shrink-0 ${isSpeaking
+                                    ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
+                                    : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300'
+                                    }`}
+                                title={isSpeaking ? t.common.stop : t.oral.repeat}
+                            >
+                                {isSpeaking ? <StopCircle size={18} fill="currentColor" /> : <Volume2 size={18} />}
+                            </button>
+                        )}
+                    </div>
+
+                    <div className="flex items-start gap-3">
+                        <div className="w-10 h-10 rounded-full bg-slate-100 dark:bg-slate-800 text-slate-500 flex items-center justify-center flex-shrink-0">
+                            <User size={20} />
+                        </div>
+                        <textarea
+                            value={answer}
+                            onChange={(e) => updateAnswer(e.target.value)}
+                            disabled={phase !== 'ANSWERING'}
+                            readOnly={isDictating}
+                            placeholder={isDictating ? t.open.listening : t.oral.placeholder}
+                            className={`flex-1 h-32 p-4 border bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none transition-all disabled:bg-slate-100 dark:disabled:bg-slate-800 disabled:text-slate-500 ${isDictating ? 'border-red-400 dark:border-red-500' : 'border-slate-300 dark:border-slate-700'}`}
+                        />
+                    </div>
+                </div>
+
+                <div className="p-4 bg-slate-50 dark:bg-slate-900 border-t border-slate-200 dark:border-slate-800 flex justify-between items-center gap-2">
+                    {isDictationSupported() ? (
+                        <button
+                            onClick={toggleDictation}
+                            disabled={phase !== 'ANSWERING'}
+                            className={`flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all disabled:opacity-50 ${isDictating
+                                ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
+                                : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300'
+                                }`}
+                        >
+                            {isDictating ? <><MicOff size={16} /> {t.open.stopDictation}</> : <><Mic size={16} /> {t.open.dictate}</>}
+                        </button>
+                    ) : <span />}
+                    <button
+                        onClick={handleSubmit}
+                        disabled={phase !== 'ANSWERING'}
+                        className="px-6 py-2 rounded-lg font-bold flex items-center gap-2 transition-all bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg disabled:opacity-50"
+                    >
+                        <Send size={18} /> {t.oral.submit}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OralExamMode;
@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { X, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useTranslation } from '../i18n';
 
 interface PDFPreviewModalProps {
     file: File;
@@ -13,6 +14,7 @@ declare global {
 }
 
 export const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({ file, onClose }) => {
+    const { t } = useTranslation();
     const [currentPage, setCurrentPage] = useState(1);
     const [totalPages, setTotalPages] = useState(0);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
@@ -82,12 +84,12 @@ export const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({ file, onClose
                     {isLoading ? (
                         <div className="flex flex-col items-center gap-3">
                             <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-                            <p className="text-sm text-slate-500 dark:text-slate-400">Cargando página...</p>
+                            <p className="text-sm text-slate-500 dark:text-slate-400">{t.preview.loadingPage}</p>
                         </div>
                     ) : imageUrl ? (
-                        <img src={imageUrl} alt={`Página ${currentPage}`} className="max-w-full h-auto shadow-lg" />
+                        <img src={imageUrl} alt={t.preview.pageAlt(currentPage)} className="max-w-full h-auto shadow-lg" />
                     ) : (
-                        <p className="text-slate-500 dark:text-slate-400">No se pudo cargar la vista previa</p>
+                        <p className="text-slate-500 dark:text-slate-400">{t.preview.previewError}</p>
                     )}
                 </div>
 
@@ -99,17 +101,17 @@ export const PDFPreviewModal: React.FC<PDFPreviewModalProps> = ({ file, onClose
                             disabled={currentPage === 1}
                             className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:bg-indigo-700 transition"
                         >
-                            <ChevronLeft size={18} /> Anterior
+                            <ChevronLeft size={18} /> {t.common.previous}
                         </button>
                         <span className="text-sm font-medium text-slate-600 dark:text-slate-400">
-                            Página {currentPage} de {totalPages}
+                            {t.preview.pageOf(currentPage, totalPages)}
                         </span>
                         <button
                             onClick={handleNextPage}
                             disabled={currentPage === totalPages}
                             className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:bg-indigo-700 transition"
                         >
-                            Siguiente <ChevronRight size={18} />
+                            {t.common.next} <ChevronRight size={18} />
                         </button>
                     </div>
                 )}
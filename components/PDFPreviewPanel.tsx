@@ -1,24 +1,48 @@
-import React, { useState, useEffect } from 'react';
-import { ChevronLeft, ChevronRight, FileText } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { ChevronLeft, ChevronRight, FileText, BookMarked } from 'lucide-react';
+import { PageRange } from '../types';
+import { parseDocumentPages } from '../services/chunkingService';
+import { Chapter, countSelectedPages, formatPageRanges, isPageInRanges, loadChapters, normalizePageRanges, parsePageRanges, removePageRange } from '../services/pageSelection';
+import { useTranslation } from '../i18n';
 
 interface PDFPreviewPanelProps {
     file: File | null;
+    // Extracted text, used to preview sources pdf.js cannot render (Word, slides, EPUB...)
+    pdfText?: string;
+    // Pages of this file used for the exam; undefined = whole document
+    selection?: PageRange[];
+    onSelectionChange?: (ranges: PageRange[] | undefined) => void;
 }
 
+const isPdf = (file: File) => file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
 declare global {
     interface Window {
         pdfjsLib: any;
     }
 }
 
-export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
+export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file, pdfText, selection, onSelectionChange }) => {
+    const { t } = useTranslation();
     const [currentPage, setCurrentPage] = useState(1);
     const [totalPages, setTotalPages] = useState(0);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
+    const [chapters, setChapters] = useState<Chapter[]>([]);
+    const [rangesInput, setRangesInput] = useState('');
+    const [rangesError, setRangesError] = useState(false);
+
+    const textPages = useMemo(
+        () => (file && !isPdf(file) ? parseDocumentPages(pdfText || '').filter(page => page.docName === file.name) : null),
+        [file, pdfText]
+    );
 
     useEffect(() => {
-        if (file) {
+        if (file && textPages) {
+            setCurrentPage(1);
+            setImageUrl(null);
+            setTotalPages(textPages.length);
+        } else if (file) {
             setCurrentPage(1);
             renderPage(1);
         } else {
@@ -28,7 +52,24 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
     }, [file]);
 
     useEffect(() => {
-        if (file && currentPage > 0) {
+        setChapters([]);
+        if (!file) return;
+        let cancelled = false;
+        loadChapters(file, pdfText || '').then(result => {
+            if (!cancelled) setChapters(result);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [file, pdfText]);
+
+    useEffect(() => {
+        setRangesInput(selection ? formatPageRanges(selection) : '');
+        setRangesError(false);
+    }, [file, selection]);
+
+    useEffect(() => {
+        if (file && !textPages && currentPage > 0) {
             renderPage(currentPage);
         }
     }, [currentPage]);
@@ -41,9 +82,7 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
             const arrayBuffer = await file.arrayBuffer();
             const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
 
-            if (totalPages === 0) {
-                setTotalPages(pdf.numPages);
-            }
+            setTotalPages(pdf.numPages);
 
             const page = await pdf.getPage(pageNum);
             const viewport = page.getViewport({ scale: 0.4 });
@@ -68,6 +107,35 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
         }
     };
 
+    // Selecting every page is the same as not restricting the document
+    const updateSelection = (ranges: PageRange[]) => {
+        const normalized = normalizePageRanges(ranges);
+        onSelectionChange?.(normalized.length === 0 || countSelectedPages(normalized) >= totalPages ? undefined : normalized);
+    };
+
+    const applyRangesInput = () => {
+        if (!rangesInput.trim()) {
+            onSelectionChange?.(undefined);
+            return;
+        }
+        const ranges = parsePageRanges(rangesInput, totalPages);
+        setRangesError(!ranges);
+        if (ranges) updateSelection(ranges);
+    };
+
+    const isChapterSelected = (chapter: Chapter) => {
+        if (!selection) return false;
+        for (let page = chapter.startPage; page <= chapter.endPage; page++) {
+            if (!isPageInRanges(page, selection)) return false;
+        }
+        return true;
+    };
+
+    const toggleChapter = (chapter: Chapter) => {
+        const range = { start: chapter.startPage, end: chapter.endPage };
+        updateSelection(isChapterSelected(chapter) ? removePageRange(selection || [], range) : [...(selection || []), range]);
+    };
+
     const handlePrevPage = () => {
         if (currentPage > 1) setCurrentPage(currentPage - 1);
     };
@@ -80,7 +148,7 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
         return (
             <div className="h-full flex flex-col items-center justify-center text-slate-400 dark:text-slate-500 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
                 <FileText size={32} className="mb-2 opacity-50" />
-                <p className="text-xs text-center">Selecciona un documento<br />para previsualizarlo</p>
+                <p className="text-xs text-center max-w-[160px]">{t.preview.selectDocument}</p>
             </div>
         );
     }
@@ -102,12 +170,16 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
                 {isLoading ? (
                     <div className="flex flex-col items-center gap-2">
                         <div className="w-8 h-8 border-3 border-indigo-600 border-t-transparent rounded-full animate-spin"></div>
-                        <p className="text-[10px] text-slate-500 dark:text-slate-400">Cargando...</p>
+                        <p className="text-[10px] text-slate-500 dark:text-slate-400">{t.common.loading}</p>
+                    </div>
+                ) : textPages ? (
+                    <div className="self-stretch w-full bg-white dark:bg-slate-900 rounded shadow-md p-3 text-[11px] leading-relaxed text-slate-700 dark:text-slate-300 whitespace-pre-wrap overflow-y-auto">
+                        {textPages[currentPage - 1]?.text || t.preview.noTextOnPage}
                     </div>
                 ) : imageUrl ? (
-                    <img src={imageUrl} alt={`Página ${currentPage}`} className="max-w-full h-auto shadow-md rounded" />
+                    <img src={imageUrl} alt={t.preview.pageAlt(currentPage)} className="max-w-full h-auto shadow-md rounded" />
                 ) : (
-                    <p className="text-xs text-slate-500 dark:text-slate-400">No se pudo cargar</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{t.preview.loadError}</p>
                 )}
             </div>
 
@@ -118,7 +190,7 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
                         onClick={handlePrevPage}
                         disabled={currentPage === 1}
                         className="p-1 rounded bg-indigo-600 text-white disabled:opacity-30 disabled:cursor-not-allowed hover:bg-indigo-700 transition"
-                        title="Anterior"
+                        title={t.common.previous}
                     >
                         <ChevronLeft size={14} />
                     </button>
@@ -129,12 +201,71 @@ export const PDFPreviewPanel: React.FC<PDFPreviewPanelProps> = ({ file }) => {
                         onClick={handleNextPage}
                         disabled={currentPage === totalPages}
                         className="p-1 rounded bg-indigo-600 text-white disabled:opacity-30 disabled:cursor-not-allowed hover:bg-indigo-700 transition"
-                        title="Siguiente"
+                        title={t.common.next}
                     >
                         <ChevronRight size={14} />
                     </button>
                 </div>
             )}
+
+            {/* Page / chapter selection */}
+            {onSelectionChange && totalPages > 0 && (
+                <div className="px-3 py-2 border-t border-slate-200 dark:border-slate-700 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase">{t.preview.pagesForExam}</span>
+                        {selection && (
+                            <button
+                                onClick={() => onSelectionChange(undefined)}
+                                className="text-[10px] font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                            >
+                                {t.preview.useWholeDocument}
+                            </button>
+                        )}
+                    </div>
+                    <input
+                        type="text"
+                        value={rangesInput}
+                        onChange={(e) => setRangesInput(e.target.value)}
+                        onBlur={applyRangesInput}
+                        onKeyDown={(e) => e.key === 'Enter' && applyRangesInput()}
+                        placeholder={t.preview.rangesPlaceholder(totalPages)}
+                        className={`w-full p-1.5 text-xs border rounded bg-white dark:bg-slate-800 ${rangesError ? 'border-red-400' : 'border-slate-300 dark:border-slate-600'}`}
+                    />
+                    {rangesError && (
+                        <p className="text-[10px] text-red-500">{t.preview.rangesError(totalPages)}</p>
+                    )}
+
+                    {chapters.length > 0 && (
+                        <div className="max-h-[120px] overflow-y-auto scrollbar-thin space-y-0.5">
+                            <p className="text-[10px] font-semibold text-slate-400 flex items-center gap-1">
+                                <BookMarked size={12} /> {t.preview.chapters}
+                            </p>
+                            {chapters.map((chapter, idx) => (
+                                <div
+                                    key={idx}
+                                    className="flex items-center gap-2 text-[11px] text-slate-700 dark:text-slate-300"
+                                    style={{ paddingLeft: `${(chapter.level - 1) * 12}px` }}
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={isChapterSelected(chapter)}
+                                        onChange={() => toggleChapter(chapter)}
+                                        className="accent-indigo-600"
+                                    />
+                                    <span className="truncate flex-1" title={chapter.title}>{chapter.title}</span>
+                                    <button
+                                        onClick={() => setCurrentPage(chapter.startPage)}
+                                        className="text-[10px] text-slate-400 hover:text-indigo-600 whitespace-nowrap"
+                                        title={t.preview.goToFirstPage}
+                                    >
+                                        {t.preview.pages(chapter.startPage, chapter.endPage)}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { X, Printer, Download, Shuffle, FileText, KeyRound, ScanLine } from 'lucide-react';
+import { PaperExamOptions, SavedExam } from '../types';
+import { updateExam } from '../services/examLibrary';
+import {
+    AnswerSheetLimitError,
+    MAX_VARIANTS,
+    createRandomSeed,
+    downloadHtml,
+    printHtml,
+    renderAnswerKeys,
+    renderPaperExams,
+} from '../services/paperExamService';
+import SheetGrading from './SheetGrading';
+import { useTranslation } from '../i18n';
+
+interface PaperExamDialogProps {
+    exam: SavedExam;
+    onChange: (exam: SavedExam) => void;
+    onClose: () => void;
+}
+
+const PaperExamDialog: React.FC<PaperExamDialogProps> = ({ exam, onChange, onClose }) => {
+    const { t } = useTranslation();
+    const [tab, setTab] = useState<'print' | 'grade'>(exam.paperExam ? 'grade' : 'print');
+    // Starts from the last printed set, so its sheets can be graded later
+    const [options, setOptions] = useState<PaperExamOptions>(exam.paperExam ?? {
+        variantCount: 2,
+        seed: createRandomSeed(),
+        shuffleQuestions: true,
+        shuffleOptions: true,
+    });
+
+    const update = (changes: Partial<PaperExamOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+    const handleOutput = async (render: typeof renderPaperExams, suffix: string, mode: 'print' | 'download') => {
+        try {
+            const html = render(exam, options);
+            if (mode === 'print') printHtml(html);
+            else downloadHtml(html, exam.title, suffix);
+
+            const updated = await updateExam(exam.id, { paperExam: options });
+            if (updated) onChange(updated);
+        } catch (error) {
+            console.error(error);
+            alert(error instanceof AnswerSheetLimitError
+                ? `${t.paper.error} ${error.limit === 'OPTIONS' ? t.paper.tooManyOptions(error.max) : t.paper.tooManyQuestions(error.max, error.optionCount)}`
+                : t.paper.error);
+        }
+    };
+
+    const outputs = [
+        { id: 'exams', label: t.paper.exams, icon: FileText, render: renderPaperExams },
+        { id: 'keys', label: t.paper.keys, icon: KeyRound, render: renderAnswerKeys },
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm" onClick={onClose}>
+            <div className={`relative bg-white dark:bg-slate-900 rounded-2xl shadow-2xl w-full ${tab === 'grade' ? 'max-w-3xl' : 'max-w-md'} max-h-[90vh] overflow-y-auto`} onClick={(e) => e.stopPropagation()}>
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800">
+                    <div className="min-w-0">
+                        <h3 className="font-bold text-slate-800 dark:text-slate-200 flex items-center gap-2">
+                            <Printer size={18} className="text-indigo-500" /> {t.paper.title}
+                        </h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 truncate">{exam.title}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-slate-200 dark:hover:bg-slate-700 rounded-full transition"
+                    >
+                        <X size={20} className="text-slate-600 dark:text-slate-400" />
+                    </button>
+                </div>
+
+                {/* Tabs */}
+                <div className="flex border-b border-slate-200 dark:border-slate-700">
+                    {[
+                        { id: 'print' as const, label: t.paper.printTab, icon: Printer },
+                        { id: 'grade' as const, label: t.paper.gradeTab, icon: ScanLine },
+                    ].map(entry => (
+                        <button
+                            key={entry.id}
+                            onClick={() => setTab(entry.id)}
+                            className={`flex-1 py-2 text-xs font-bold flex items-center justify-center gap-1 border-b-2 transition-colors ${tab === entry.id ? 'border-indigo-600 text-indigo-600 dark:text-indigo-400' : 'border-transparent text-slate-500 hover:text-slate-700 dark:hover:text-slate-300'}`}
+                        >
+                            <entry.icon size={14} /> {entry.label}
+                        </button>
+                    ))}
+                </div>
+
+                {/* Options, shared by printing and grading */}
+                <div className="p-4 space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.paper.variants}</label>
+                            <select
+                                value={options.variantCount}
+                                onChange={(e) => update({ variantCount: Number(e.target.value) })}
+                                className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded focus:ring-indigo-500"
+                            >
+                                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(count => (
+                                    <option key={count} value={count}>{count}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div title={t.paper.seedHint}>
+                            <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.paper.seed}</label>
+                            <div className="flex gap-1">
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={options.seed}
+                                    onChange={(e) => update({ seed: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+                                    className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded focus:ring-indigo-500"
+                                />
+                                <button
+                                    onClick={() => update({ seed: createRandomSeed() })}
+                                    className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded transition-colors"
+                                    title={t.paper.newSeed}
+                                >
+                                    <Shuffle size={14} />
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex gap-4">
+                        <label className="flex items-center gap-2 text-xs font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={options.shuffleQuestions}
+                                onChange={(e) => update({ shuffleQuestions: e.target.checked })}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            {t.paper.shuffleQuestions}
+                        </label>
+                        <label className="flex items-center gap-2 text-xs font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={options.shuffleOptions}
+                                onChange={(e) => update({ shuffleOptions: e.target.checked })}
+                                className="rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                            {t.paper.shuffleOptions}
+                        </label>
+                    </div>
+                </div>
+
+                {tab === 'grade' && (
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-700">
+                        <SheetGrading data={exam} options={options} />
+                    </div>
+                )}
+
+                {/* Output */}
+                {tab === 'print' && (
+                    <div className="p-4 border-t border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 space-y-2">
+                        {outputs.map(output => (
+                            <div key={output.id} className="flex items-center justify-between gap-2">
+                                <span className="text-sm font-medium text-slate-700 dark:text-slate-200 flex items-center gap-2">
+                                    <output.icon size={16} className="text-indigo-500" /> {output.label}
+                                </span>
+                                <div className="flex gap-1">
+                                    <button
+                                        onClick={() => handleOutput(output.render, output.id, 'print')}
+                                        className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
+                                    >
+                                        <Printer size={12} /> {t.paper.print}
+                                    </button>
+                                    <button
+                                        onClick={() => handleOutput(output.render, output.id, 'download')}
+                                        className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                                        title={t.paper.download}
+                                    >
+                                        <Download size={16} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                        <p className="text-[10px] text-slate-400 pt-1">{t.paper.pdfHint}</p>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default PaperExamDialog;
@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { CheckCircle, XCircle, AlertCircle, ChevronRight, Loader2, RotateCcw, Crosshair, FileText, Gauge } from 'lucide-react';
+import { Difficulty, QuestionAttempt, TestQuestion } from '../types';
+import { generatePracticeQuestions } from '../services/geminiService';
+import { PRACTICE_BATCH, PRACTICE_QUESTIONS, PracticePlan, pickDifficulty, updateAbility } from '../services/adaptiveService';
+import { AttemptResult } from '../services/learnerService';
+import { useTranslation } from '../i18n';
+
+interface PracticeModeProps {
+    plan: PracticePlan;
+    onFinish: (result: AttemptResult, difficulty: Difficulty) => void;
+    onExit: () => void;
+}
+
+interface PracticeItem {
+    question: TestQuestion;
+    difficulty: Difficulty;
+}
+
+const DIFFICULTY_BADGES: Record<Difficulty, string> = {
+    EASY: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+    MEDIUM: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+    HARD: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+// Weak-spot practice: questions are generated a few at a time, each batch at
+// the difficulty that fits the learner's ability after the previous answers
+const PracticeMode: React.FC<PracticeModeProps> = ({ plan, onFinish, onExit }) => {
+    const { t } = useTranslation();
+    const [items, setItems] = useState<PracticeItem[]>([]);
+    const [currentIndex, setCurrentIndex] = useState(0);
+    const [selectedOptions, setSelectedOptions] = useState<number[]>([]);
+    const [isAnswered, setIsAnswered] = useState(false);
+    const [ability, setAbility] = useState(plan.ability);
+    const [correctCount, setCorrectCount] = useState(0);
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [isExhausted, setIsExhausted] = useState(false); // No more questions could be generated
+    const [isStopped, setIsStopped] = useState(false);
+
+    const abilityRef = useRef(plan.ability);
+    const isGeneratingRef = useRef(false);
+    const attempts = useRef<QuestionAttempt[]>([]);
+    const startedAt = useRef(Date.now());
+    const questionStartedAt = useRef(Date.now());
+    const isReported = useRef(false);
+
+    const current = items[currentIndex];
+    const isFinished = isStopped || (currentIndex >= items.length && (items.length >= PRACTICE_QUESTIONS || isExhausted));
+
+    // Keeps one batch ahead: the next one is requested when the last generated question is shown
+    useEffect(() => {
+        if (isFinished || isExhausted || isGeneratingRef.current) return;
+        if (items.length >= PRACTICE_QUESTIONS || currentIndex < items.length - 1) return;
+
+        isGeneratingRef.current = true;
+        setIsGenerating(true);
+        const difficulty = pickDifficulty(abilityRef.current);
+        const count = Math.min(PRACTICE_BATCH, PRACTICE_QUESTIONS - items.length);
+        generatePracticeQuestions(plan.exam.pdfText, { ...plan.settings, difficulty, questionCount: count }, plan.missedQuestions, items.map(item => item.question.question))
+            .then(questions => {
+                if (questions.length === 0) setIsExhausted(true);
+                setItems(prev => [...prev, ...questions.slice(0, count).map(question => ({ question, difficulty }))]);
+            })
+            .catch(err => {
+                console.error('Failed to generate practice questions', err);
+                setIsExhausted(true);
+            })
+            .finally(() => {
+                isGeneratingRef.current = false;
+                setIsGenerating(false);
+            });
+    }, [currentIndex, items.length, isFinished, isExhausted]);
+
+    // From when the question is on screen, which may be after its batch arrives
+    useEffect(() => {
+        questionStartedAt.current = Date.now();
+    }, [current]);
+
+    useEffect(() => {
+        if (!isFinished || isReported.current || attempts.current.length === 0) return;
+        isReported.current = true;
+        const answered = attempts.current.length;
+        onFinish(
+            { startedAt: startedAt.current, questions: attempts.current, score: correctCount, maxScore: answered, grade: Math.round((correctCount / answered) * 10) },
+            pickDifficulty(abilityRef.current)
+        );
+    }, [isFinished]);
+
+    const handleOptionSelect = (idx: number) => {
+        if (isAnswered) return;
+        if (plan.settings.allowMultipleCorrect) {
+            setSelectedOptions(prev => (prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx]));
+        } else {
+            setSelectedOptions([idx]);
+        }
+    };
+
+    const handleSubmit = () => {
+        if (!current || selectedOptions.length === 0) return;
+        const correctSet = new Set(current.question.correctIndices);
+        const isCorrect = correctSet.size === selectedOptions.length && selectedOptions.every(i => correctSet.has(i));
+
+        abilityRef.current = updateAbility(abilityRef.current, current.difficulty, isCorrect);
+        setAbility(abilityRef.current);
+        if (isCorrect) setCorrectCount(prev => prev + 1);
+        setIsAnswered(true);
+
+        attempts.current.push({
+            question: current.question.question,
+            correct: isCorrect,
+            points: isCorrect ? 1 : 0,
+            timeSpent: Date.now() - questionStartedAt.current,
+            sourceFile: current.question.sourceFile,
+            difficulty: current.difficulty,
+        });
+    };
+
+    const handleNext = () => {
+        setCurrentIndex(prev => prev + 1);
+        setSelectedOptions([]);
+        setIsAnswered(false);
+    };
+
+    if (isFinished) {
+        const answered = attempts.current;
+        return (
+            <div className="w-full max-w-3xl mx-auto bg-white dark:bg-slate-950 p-10 rounded-3xl shadow-2xl dark:shadow-none border border-slate-200 dark:border-slate-800 text-center">
+                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-2">{t.practice.completed}</h2>
+                {answered.length === 0 ? (
+                    <p className="text-slate-500 dark:text-slate-400 mb-8">{isExhausted ? t.practice.generationError : t.practice.noAnswers}</p>
+                ) : (
+                    <>
+                        <p className="text-slate-500 dark:text-slate-400 mb-2">{t.practice.result(correctCount, answered.length)}</p>
+                        <p className="text-sm text-slate-500 dark:text-slate-400 mb-8 flex items-center justify-center gap-1">
+                            <Gauge size={14} className="text-indigo-500" /> {t.practice.nextLevel(t.settings.difficulties[pickDifficulty(ability)])}
+                        </p>
+                        <div className="text-left space-y-2 mb-8">
+                            {answered.map((attempt, idx) => (
+                                <div key={idx} className="flex items-start gap-2 p-3 rounded-xl border bg-slate-50 dark:bg-slate-900 dark:border-slate-800 text-sm">
+                                    {attempt.correct
+                                        ? <CheckCircle size={16} className="text-green-600 flex-shrink-0 mt-0.5" />
+                                        : <XCircle size={16} className="text-red-500 flex-shrink-0 mt-0.5" />}
+                                    <span className="flex-grow text-slate-700 dark:text-slate-200">{attempt.question}</span>
+                                    <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full flex-shrink-0 ${DIFFICULTY_BADGES[attempt.difficulty!]}`}>
+                                        {t.settings.difficulties[attempt.difficulty!]}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+                <button onClick={onExit} className="px-6 py-3 bg-slate-800 dark:bg-slate-700 text-white rounded-xl font-bold hover:bg-slate-900 dark:hover:bg-slate-600 transition inline-flex items-center gap-2">
+                    <RotateCcw size={18} /> {t.common.back}
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full max-w-3xl mx-auto">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-6 bg-white dark:bg-slate-900 p-4 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800">
+                <div className="min-w-0">
+                    <h2 className="font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+                        <Crosshair size={18} className="text-indigo-500" /> {t.practice.title}
+                    </h2>
+                    <p className="text-[10px] text-slate-400 truncate" title={plan.targets.join('; ')}>
+                        {plan.exam.title} · {plan.targets.join('; ')}
+                    </p>
+                </div>
+                <div className="flex items-center gap-4 text-sm font-medium text-slate-600 dark:text-slate-400">
+                    <span>{t.test.progress(Math.min(currentIndex + 1, PRACTICE_QUESTIONS), PRACTICE_QUESTIONS)}</span>
+                    {current && (
+                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${DIFFICULTY_BADGES[current.difficulty]}`} title={t.practice.levelHint}>
+                            {t.settings.difficulties[current.difficulty]}
+                        </span>
+                    )}
+                    <button
+                        onClick={() => setIsStopped(true)}
+                        className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-bold rounded-lg transition-colors flex items-center gap-2"
+                        title={t.common.finishExamHint}
+                    >
+                        <XCircle size={16} />
+                        {t.common.finish}
+                    </button>
+                </div>
+            </div>
+
+            {!current ? (
+                <div className="flex flex-col items-center justify-center h-[40vh] space-y-4 text-indigo-600 dark:text-indigo-400">
+                    <Loader2 className="animate-spin" size={32} />
+                    <p className="text-sm font-medium">{isGenerating ? t.practice.preparing : t.common.loading}</p>
+                </div>
+            ) : (
+                <AnimatePresence mode="wait">
+                    <motion.div
+                        key={currentIndex}
+                        initial={{ opacity: 0, x: 50 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: -50 }}
+                        transition={{ duration: 0.3, ease: "easeOut" }}
+                        className="bg-white dark:bg-slate-950 rounded-3xl shadow-xl dark:shadow-none overflow-hidden border border-slate-100 dark:border-slate-800"
+                    >
+                        <div className="p-8">
+                            <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 leading-relaxed mb-6">{current.question.question}</h3>
+                            <div className="space-y-3">
+                                {current.question.options.map((option, idx) => {
+                                    const isSelected = selectedOptions.includes(idx);
+                                    const isCorrectAnswer = current.question.correctIndices.includes(idx);
+                                    let containerClass = "border-2 border-slate-100 dark:border-slate-800 hover:bg-slate-50 dark:hover:bg-slate-900 cursor-pointer text-slate-700 dark:text-slate-300";
+                                    if (isAnswered) {
+                                        if (isCorrectAnswer) containerClass = "border-2 bg-green-50 dark:bg-green-900/20 border-green-500 text-green-800 dark:text-green-300";
+                                        else if (isSelected) containerClass = "border-2 bg-red-50 dark:bg-red-900/20 border-red-500 text-red-800 dark:text-red-300";
+                                        else containerClass = "border-2 border-slate-100 dark:border-slate-800 opacity-50 dark:text-slate-500";
+                                    } else if (isSelected) {
+                                        containerClass = "border-2 border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20 text-indigo-900 dark:text-indigo-300";
+                                    }
+                                    return (
+                                        <div
+                                            key={idx}
+                                            onClick={() => handleOptionSelect(idx)}
+                                            className={`w-full p-4 rounded-xl transition-colors duration-200 flex items-start gap-3 ${containerClass}`}
+                                        >
+                                            <div className={`w-6 h-6 rounded-full border-2 flex-shrink-0 flex items-center justify-center mt-0.5 ${isSelected || (isAnswered && isCorrectAnswer) ? 'border-current' : 'border-slate-300 dark:border-slate-600'}`}>
+                                                {isAnswered && isCorrectAnswer && <CheckCircle size={14} />}
+                                                {isAnswered && !isCorrectAnswer && isSelected && <XCircle size={14} />}
+                                                {!isAnswered && isSelected && <div className="w-3 h-3 bg-indigo-600 dark:bg-indigo-400 rounded-full" />}
+                                            </div>
+                                            <span>{option}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+
+                        {isAnswered && (
+                            <div className="bg-slate-50 dark:bg-slate-900 p-6 border-t border-slate-100 dark:border-slate-800">
+                                <div className="flex items-start gap-3 mb-4">
+                                    <AlertCircle className="text-indigo-600 dark:text-indigo-400 flex-shrink-0 mt-1" />
+                                    <div>
+                                        <h4 className="font-bold text-slate-800 dark:text-slate-200">{t.test.explanation}</h4>
+                                        <p className="text-slate-600 dark:text-slate-400 text-sm mt-1">{current.question.explanation}</p>
+                                    </div>
+                                </div>
+                                <div className="bg-yellow-50 dark:bg-yellow-900/10 p-4 rounded-xl border border-yellow-100 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-200 italic">
+                                    "{current.question.sourceQuote}"
+                                    {current.question.sourceFile && (
+                                        <div className="mt-2 pt-2 border-t border-yellow-200 dark:border-yellow-800/50 flex items-center gap-1 not-italic font-semibold text-xs opacity-75">
+                                            <FileText size={12} /> {t.common.source}: {current.question.sourceFile}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+
+                        <div className="p-6 bg-slate-50 dark:bg-slate-900 border-t border-slate-200 dark:border-slate-800 flex justify-end">
+                            {!isAnswered ? (
+                                <button
+                                    onClick={handleSubmit}
+                                    disabled={selectedOptions.length === 0}
+                                    className="px-8 py-3 bg-indigo-600 hover:bg-indigo-700 text-white rounded-xl font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+                                >
+                                    {t.test.submit}
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={handleNext}
+                                    className="px-8 py-3 bg-slate-900 dark:bg-slate-700 text-white rounded-xl font-bold shadow-lg hover:bg-black dark:hover:bg-slate-600 transition-all flex items-center gap-2"
+                                >
+                                    {t.common.next} <ChevronRight size={20} />
+                                </button>
+                            )}
+                        </div>
+                    </motion.div>
+                </AnimatePresence>
+            )}
+        </div>
+    );
+};
+
+export default PracticeMode;
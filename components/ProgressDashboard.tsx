@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import { ChartColumn, Loader2, RotateCcw, UserPlus, Pencil, Trash2, Flame, Target, Clock, TrendingUp, Gauge, FileText, Crosshair } from 'lucide-react';
+import { Difficulty, ExamAttempt, LearnerProfile } from '../types';
+import {
+    WeakSpot,
+    createProfile,
+    deleteProfile,
+    getAccuracyTrend,
+    getActiveProfile,
+    getAverageTime,
+    getDifficultyProgression,
+    getOverallAccuracy,
+    getStreaks,
+    getWeakSpots,
+    listAttempts,
+    listProfiles,
+    renameProfile,
+    setActiveProfile,
+} from '../services/learnerService';
+import { PracticePlan, buildPracticePlan, estimateAbility, pickDifficulty } from '../services/adaptiveService';
+import { listExams } from '../services/examLibrary';
+import { useTranslation } from '../i18n';
+
+interface ProgressDashboardProps {
+    profile: LearnerProfile;
+    onProfileChange: (profile: LearnerProfile) => void;
+    onPractice: (plan: PracticePlan) => void;
+    onExit: () => void;
+}
+
+const DIFFICULTY_COLORS: Record<Difficulty, string> = {
+    EASY: 'bg-green-500',
+    MEDIUM: 'bg-amber-500',
+    HARD: 'bg-red-500',
+};
+
+// Days shown in the trend chart and attempts in the difficulty chart
+const TREND_DAYS = 30;
+const PROGRESSION_ATTEMPTS = 20;
+const WEAK_SPOTS = 5;
+
+const CHART = { width: 300, height: 120, padding: 8 };
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ profile, onProfileChange, onPractice, onExit }) => {
+    const { t, locale } = useTranslation();
+    const [profiles, setProfiles] = useState<LearnerProfile[]>([profile]);
+    const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    useEffect(() => {
+        listProfiles()
+            .then(setProfiles)
+            .catch(err => console.error('Failed to load profiles', err));
+    }, [profile]);
+
+    useEffect(() => {
+        setIsLoading(true);
+        listAttempts(profile.id)
+            .then(setAttempts)
+            .catch(err => console.error('Failed to load attempts', err))
+            .finally(() => setIsLoading(false));
+    }, [profile.id]);
+
+    const selectProfile = (next: LearnerProfile) => {
+        setActiveProfile(next.id);
+        onProfileChange(next);
+    };
+
+    const handleCreate = async () => {
+        const name = prompt(t.progress.newProfilePrompt);
+        if (!name?.trim()) return;
+        try {
+            selectProfile(await createProfile(name));
+        } catch (error) {
+            console.error(error);
+            alert(t.progress.saveError);
+        }
+    };
+
+    const handleRename = async () => {
+        const name = prompt(t.progress.renamePrompt, profile.name);
+        if (!name?.trim()) return;
+        try {
+            onProfileChange(await renameProfile(profile, name));
+        } catch (error) {
+            console.error(error);
+            alert(t.progress.saveError);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!confirm(t.progress.deleteConfirm(profile.name))) return;
+        try {
+            await deleteProfile(profile.id);
+            // Falls back to another profile, or a fresh default one
+            selectProfile(await getActiveProfile(t.progress.defaultProfile));
+        } catch (error) {
+            console.error(error);
+            alert(t.progress.saveError);
+        }
+    };
+
+    const handlePractice = async () => {
+        try {
+            const plan = buildPracticePlan(attempts, await listExams());
+            if (plan) onPractice(plan);
+            else alert(t.practice.nothingToPractice);
+        } catch (error) {
+            console.error(error);
+            alert(t.practice.generationError);
+        }
+    };
+
+    const formatDate = (time: number) => new Date(time).toLocaleDateString(locale, { day: 'numeric', month: 'short' });
+
+    const accuracy = getOverallAccuracy(attempts);
+    const averageSeconds = getAverageTime(attempts) / 1000;
+    const streaks = getStreaks(attempts);
+    const trend = getAccuracyTrend(attempts).slice(-TREND_DAYS);
+    const progression = getDifficultyProgression(attempts).slice(-PROGRESSION_ATTEMPTS);
+    const weakDocuments = getWeakSpots(attempts).filter(spot => spot.accuracy < 1).slice(0, WEAK_SPOTS);
+    const weakPages = getWeakSpots(attempts, true).filter(spot => spot.accuracy < 1).slice(0, WEAK_SPOTS);
+
+    const trendPoints = trend.map((entry, idx) => ({
+        ...entry,
+        x: trend.length > 1 ? CHART.padding + (idx / (trend.length - 1)) * (CHART.width - 2 * CHART.padding) : CHART.width / 2,
+        y: CHART.padding + (1 - entry.accuracy) * (CHART.height - 2 * CHART.padding),
+    }));
+
+    const stats = [
+        { icon: ChartColumn, label: t.progress.attempts, value: String(attempts.length) },
+        { icon: Target, label: t.progress.accuracy, value: formatPercent(accuracy.accuracy), detail: `${accuracy.correct}/${accuracy.total}` },
+        {
+            icon: Clock,
+            label: t.progress.averageTime,
+            value: new Intl.NumberFormat(locale, { style: 'unit', unit: 'second', unitDisplay: 'short', maximumFractionDigits: 1 }).format(averageSeconds),
+        },
+        { icon: Flame, label: t.progress.streak, value: t.progress.days(streaks.current), detail: t.progress.longestStreak(streaks.longest) },
+    ];
+    const level = pickDifficulty(estimateAbility(attempts));
+
+    const renderWeakSpots = (title: string, spots: WeakSpot[]) => (
+        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-4">
+            <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-1.5 mb-3">
+                <FileText size={14} className="text-indigo-500" /> {title}
+            </h3>
+            {spots.length === 0 ? (
+                <p className="text-xs text-slate-400">{t.progress.noWeakSpots}</p>
+            ) : (
+                <div className="space-y-2">
+                    {spots.map(spot => (
+                        <div key={`${spot.document}-${spot.page}`}>
+                            <div className="flex justify-between gap-2 text-xs text-slate-700 dark:text-slate-200">
+                                <span className="truncate" title={spot.document}>
+                                    {spot.page !== undefined ? t.progress.page(spot.document, spot.page) : spot.document}
+                                </span>
+                                <span className="font-mono flex-shrink-0">{spot.correct}/{spot.total}</span>
+                            </div>
+                            <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden mt-1">
+                                <div
+                                    className={`h-full rounded-full ${spot.accuracy < 0.5 ? 'bg-red-500' : 'bg-amber-500'}`}
+                                    style={{ width: formatPercent(spot.accuracy) }}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="w-full max-w-4xl mx-auto space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+                <h2 className="text-2xl font-bold text-slate-800 dark:text-white flex items-center gap-2">
+                    <ChartColumn className="text-indigo-500" /> {t.progress.title}
+                </h2>
+                <div className="flex items-center gap-1">
+                    <select
+                        value={profile.id}
+                        onChange={(e) => {
+                            const next = profiles.find(p => p.id === e.target.value);
+                            if (next) selectProfile(next);
+                        }}
+                        className="p-1.5 text-sm border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded-lg focus:ring-indigo-500"
+                        title={t.progress.profile}
+                    >
+                        {profiles.map(p => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handleCreate}
+                        className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                        title={t.progress.newProfile}
+                    >
+                        <UserPlus size={16} />
+                    </button>
+                    <button
+                        onClick={handleRename}
+                        className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-full transition-colors"
+                        title={t.progress.renameProfile}
+                    >
+                        <Pencil size={16} />
+                    </button>
+                    <button
+                        onClick={handleDelete}
+                        className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors"
+                        title={t.progress.deleteProfile}
+                    >
+                        <Trash2 size={16} />
+                    </button>
+                    <button
+                        onClick={onExit}
+                        className="ml-2 px-4 py-2 bg-slate-800 dark:bg-slate-700 text-white text-sm font-bold rounded-xl hover:bg-slate-900 dark:hover:bg-slate-600 transition flex items-center gap-2"
+                    >
+                        <RotateCcw size={16} /> {t.common.back}
+                    </button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="flex items-center justify-center h-[40vh] text-indigo-600 dark:text-indigo-400">
+                    <Loader2 className="animate-spin" size={32} />
+                </div>
+            ) : attempts.length === 0 ? (
+                <p className="text-center text-slate-500 dark:text-slate-400 py-16">{t.progress.empty}</p>
+            ) : (
+                <>
+                    <div className="flex flex-wrap items-center justify-between gap-3 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-800 rounded-2xl p-4">
+                        <p className="text-sm text-slate-600 dark:text-slate-300 flex items-center gap-2">
+                            <Gauge size={16} className="text-indigo-500 flex-shrink-0" /> {t.practice.currentLevel(t.settings.difficulties[level])}
+                        </p>
+                        <button
+                            onClick={handlePractice}
+                            disabled={weakDocuments.length === 0}
+                            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-xl transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={t.practice.startHint}
+                        >
+                            <Crosshair size={16} /> {t.practice.start}
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {stats.map(stat => (
+                            <div key={stat.label} className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-4">
+                                <div className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase flex items-center gap-1">
+                                    <stat.icon size={12} className="text-indigo-500" /> {stat.label}
+                                </div>
+                                <div className="text-2xl font-black text-slate-800 dark:text-white mt-1">{stat.value}</div>
+                                {stat.detail && <div className="text-[10px] text-slate-400">{stat.detail}</div>}
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="grid md:grid-cols-2 gap-3">
+                        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-4">
+                            <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-1.5 mb-3">
+                                <TrendingUp size={14} className="text-indigo-500" /> {t.progress.trend}
+                            </h3>
+                            <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="w-full h-32 text-indigo-500">
+                                {[0, 0.5, 1].map(level => (
+                                    <line
+                                        key={level}
+                                        x1={0}
+                                        x2={CHART.width}
+                                        y1={CHART.padding + (1 - level) * (CHART.height - 2 * CHART.padding)}
+                                        y2={CHART.padding + (1 - level) * (CHART.height - 2 * CHART.padding)}
+                                        className="stroke-slate-200 dark:stroke-slate-700"
+                                        strokeDasharray="4 4"
+                                    />
+                                ))}
+                                <polyline
+                                    points={trendPoints.map(p => `${p.x},${p.y}`).join(' ')}
+                                    fill="none"
+                                    stroke="currentColor"
+                                    strokeWidth={2}
+                                />
+                                {trendPoints.map(p => (
+                                    <circle key={p.day} cx={p.x} cy={p.y} r={3} fill="currentColor">
+                                        <title>{`${formatDate(p.day)}: ${formatPercent(p.accuracy)} (${p.correct}/${p.total})`}</title>
+                                    </circle>
+                                ))}
+                            </svg>
+                            <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                                <span>{formatDate(trend[0].day)}</span>
+                                <span>{formatDate(trend[trend.length - 1].day)}</span>
+                            </div>
+                        </div>
+
+                        <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 p-4">
+                            <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider flex items-center gap-1.5 mb-3">
+                                <Gauge size={14} className="text-indigo-500" /> {t.progress.difficulty}
+                            </h3>
+                            {/* One bar per attempt: colour is the difficulty, height the accuracy */}
+                            <div className="h-32 flex items-end gap-1">
+                                {progression.map((point, idx) => (
+                                    <div
+                                        key={`${point.finishedAt}-${idx}`}
+                                        className={`flex-1 max-w-[1.5rem] rounded-t ${DIFFICULTY_COLORS[point.difficulty]}`}
+                                        style={{ height: `${Math.max(4, point.accuracy * 100)}%` }}
+                                        title={`${formatDate(point.finishedAt)} · ${t.settings.difficulties[point.difficulty]}: ${formatPercent(point.accuracy)}`}
+                                    />
+                                ))}
+                            </div>
+                            <div className="flex gap-3 text-[10px] text-slate-500 dark:text-slate-400 mt-2">
+                                {(Object.keys(DIFFICULTY_COLORS) as Difficulty[]).map(difficulty => (
+                                    <span key={difficulty} className="flex items-center gap-1">
+                                        <span className={`w-2 h-2 rounded-full ${DIFFICULTY_COLORS[difficulty]}`} />
+                                        {t.settings.difficulties[difficulty]}
+                                    </span>
+                                ))}
+                            </div>
+                        </div>
+
+                        {renderWeakSpots(t.progress.weakDocuments, weakDocuments)}
+                        {renderWeakSpots(t.progress.weakPages, weakPages)}
+                    </div>
+
+                    <div className="bg-white dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-800 divide-y divide-slate-100 dark:divide-slate-800">
+                        <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase tracking-wider p-4">{t.progress.recent}</h3>
+                        {attempts.slice(-5).reverse().map(attempt => (
+                            <div key={attempt.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                                <div className="min-w-0">
+                                    <p className="font-medium text-slate-700 dark:text-slate-200 truncate">{attempt.examTitle}</p>
+                                    <p className="text-[10px] text-slate-400">
+                                        {new Date(attempt.finishedAt).toLocaleString(locale)} · {attempt.practice ? t.practice.label : t.common.examTypes[attempt.settings.type]} · {t.settings.difficulties[attempt.settings.difficulty]}
+                                    </p>
+                                </div>
+                                <span className={`font-black flex-shrink-0 ${attempt.grade >= 5 ? 'text-indigo-600 dark:text-indigo-400' : 'text-red-500'}`}>
+                                    {attempt.grade}/10
+                                </span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProgressDashboard;
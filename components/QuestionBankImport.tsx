@@ -0,0 +1,107 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, X, AlertTriangle, Play, Loader2 } from 'lucide-react';
+import { ExamType } from '../types';
+import { IMPORT_ACCEPT, ImportResult, ImportedBank, getBankCounts, getImportLocationText, getImportProblemMessage, importQuestionBank } from '../services/importService';
+import { useTranslation } from '../i18n';
+
+interface QuestionBankImportProps {
+    onImport: (bank: ImportedBank, type: ExamType) => void;
+}
+
+const QuestionBankImport: React.FC<QuestionBankImportProps> = ({ onImport }) => {
+    const { t, language } = useTranslation();
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [fileName, setFileName] = useState('');
+    const [isParsing, setIsParsing] = useState(false);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Reset input so the same file can be imported again after fixing it
+        e.target.value = '';
+        if (!file) return;
+
+        setIsParsing(true);
+        try {
+            setFileName(file.name);
+            setResult(await importQuestionBank(file, language));
+        } catch (error) {
+            console.error(error);
+            alert(t.importBank.readError);
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const counts = result ? getBankCounts(result.bank) : null;
+    const availableTypes = counts ? (Object.keys(counts) as ExamType[]).filter(type => counts[type] > 0) : [];
+
+    return (
+        <div className="w-full max-w-2xl mx-auto mt-4 text-left">
+            <input ref={inputRef} type="file" accept={IMPORT_ACCEPT} className="hidden" onChange={handleFile} />
+
+            {!result ? (
+                <button
+                    onClick={() => inputRef.current?.click()}
+                    disabled={isParsing}
+                    className="mx-auto flex items-center gap-2 text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 font-medium disabled:opacity-50"
+                    title={t.importBank.hint}
+                >
+                    {isParsing ? <Loader2 className="animate-spin" size={16} /> : <FileUp size={16} />}
+                    {t.importBank.button}
+                </button>
+            ) : (
+                <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+                    <div className="px-4 py-3 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-100 dark:border-slate-800 flex justify-between items-center gap-3">
+                        <div className="min-w-0">
+                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200 truncate">{result.bank.title}</p>
+                            <p className="text-[10px] text-slate-400 truncate">{fileName}</p>
+                        </div>
+                        <button
+                            onClick={() => setResult(null)}
+                            className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-colors flex-shrink-0"
+                            title={t.importBank.discard}
+                        >
+                            <X size={16} />
+                        </button>
+                    </div>
+
+                    {result.errors.length > 0 && (
+                        <div className="px-4 py-3 border-b border-slate-100 dark:border-slate-800">
+                            <p className="text-xs font-bold text-orange-600 dark:text-orange-400 flex items-center gap-1.5 mb-2">
+                                <AlertTriangle size={14} /> {t.importBank.skipped(result.errors.length)}
+                            </p>
+                            <ul className="max-h-[140px] overflow-y-auto space-y-1 text-xs text-slate-600 dark:text-slate-400">
+                                {result.errors.map((issue, idx) => (
+                                    <li key={idx}>
+                                        <span className="font-semibold text-slate-700 dark:text-slate-300">{getImportLocationText(issue.location, t)}:</span> {getImportProblemMessage(issue.problem, t)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="p-4">
+                        {availableTypes.length === 0 ? (
+                            <p className="text-sm text-slate-500 dark:text-slate-400">{t.importBank.noneValid}</p>
+                        ) : (
+                            <div className="flex flex-wrap gap-2">
+                                {availableTypes.map(type => (
+                                    <button
+                                        key={type}
+                                        onClick={() => onImport(result.bank, type)}
+                                        className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-bold rounded-lg transition-colors flex items-center gap-1.5"
+                                    >
+                                        <Play size={14} /> {t.importBank.types[type]} ({counts![type]})
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default QuestionBankImport;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { CardReviewState, ReviewGrade } from '../types';
+import { scheduleReview, formatInterval } from '../services/srsService';
+import { useTranslation } from '../i18n';
+
+interface ReviewGradeButtonsProps {
+    state?: CardReviewState;
+    onGrade: (grade: ReviewGrade) => void;
+    disabled?: boolean;
+}
+
+const GRADES: { grade: ReviewGrade; className: string }[] = [
+    { grade: 'AGAIN', className: 'bg-red-500 hover:bg-red-600' },
+    { grade: 'HARD', className: 'bg-orange-500 hover:bg-orange-600' },
+    { grade: 'GOOD', className: 'bg-green-600 hover:bg-green-700' },
+    { grade: 'EASY', className: 'bg-indigo-600 hover:bg-indigo-700' },
+];
+
+const ReviewGradeButtons: React.FC<ReviewGradeButtonsProps> = ({ state, onGrade, disabled }) => {
+    const { t, locale } = useTranslation();
+    const now = Date.now();
+
+    return (
+        <div className="grid grid-cols-4 gap-2 w-full md:w-auto">
+            {GRADES.map(({ grade, className }) => {
+                // Preview when the card would come back with this grade
+                const next = scheduleReview('', '', state?.kind ?? 'cloze', state, grade, now);
+                return (
+                    <button
+                        key={grade}
+                        onClick={() => onGrade(grade)}
+                        disabled={disabled}
+                        className={`px-4 py-3 rounded-xl text-white font-bold flex flex-col items-center transition-all shadow-md active:scale-95 disabled:opacity-50 ${className}`}
+                    >
+                        <span className="text-sm">{t.grades[grade]}</span>
+                        <span className="text-[10px] font-medium opacity-80">{formatInterval(next, now, locale)}</span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ReviewGradeButtons;
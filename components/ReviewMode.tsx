@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Eye, RotateCcw, Loader2, XCircle, CalendarCheck } from 'lucide-react';
+import { ReviewGrade } from '../types';
+import { DueCard, getDueQueue, recordReview } from '../services/srsService';
+import { parseClozeCard } from '../services/clozeUtils';
+import ClozeText from './ClozeText';
+import ReviewGradeButtons from './ReviewGradeButtons';
+import { useTranslation } from '../i18n';
+
+interface ReviewModeProps {
+    onExit: () => void;
+}
+
+// Daily spaced-repetition session mixing due cards from every saved deck
+const ReviewMode: React.FC<ReviewModeProps> = ({ onExit }) => {
+    const { t } = useTranslation();
+    const [queue, setQueue] = useState<DueCard[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRevealed, setIsRevealed] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [reviewedCount, setReviewedCount] = useState(0);
+
+    useEffect(() => {
+        getDueQueue()
+            .then(setQueue)
+            .catch(err => console.error('Failed to build review queue', err))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const current = queue[0];
+
+    const handleGrade = async (grade: ReviewGrade) => {
+        if (!current) return;
+        setIsSaving(true);
+        try {
+            const state = await recordReview(current.examId, current, grade);
+            setQueue(prev => {
+                const rest = prev.slice(1);
+                // Failed cards come back at the end of this session
+                return grade === 'AGAIN' ? [...rest, { ...current, state }] : rest;
+            });
+            setReviewedCount(prev => prev + 1);
+            setIsRevealed(false);
+        } catch (error) {
+            console.error(error);
+            alert(t.study.saveError);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (isLoading) {
+        return (
+            <div className="flex items-center justify-center h-[50vh] text-indigo-600 dark:text-indigo-400">
+                <Loader2 className="animate-spin" size={32} />
+            </div>
+        );
+    }
+
+    if (!current) {
+        return (
+            <div className="flex flex-col items-center justify-center h-[60vh] text-center">
+                <CalendarCheck size={48} className="text-green-500 mb-4" />
+                <h2 className="text-3xl font-bold text-slate-800 dark:text-white mb-2">{t.study.done}</h2>
+                <p className="text-slate-500 dark:text-slate-400 mb-6">
+                    {reviewedCount > 0 ? t.study.reviewed(reviewedCount) : t.study.nothingDue}
+                </p>
+                <button onClick={onExit} className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-transform hover:scale-105">
+                    <RotateCcw size={20} /> {t.common.back}
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="w-full max-w-3xl mx-auto">
+            <div className="flex justify-between mb-4 text-slate-500 dark:text-slate-400 font-medium items-center">
+                <span>{t.study.progress(queue.length, reviewedCount)}</span>
+                <button
+                    onClick={onExit}
+                    className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-sm font-bold rounded-full transition-colors flex items-center gap-2"
+                    title={t.study.finishHint}
+                >
+                    <XCircle size={16} />
+                    {t.common.finish}
+                </button>
+            </div>
+
+            <AnimatePresence mode="wait">
+                <motion.div
+                    key={`${current.id}-${reviewedCount}`}
+                    initial={{ opacity: 0, y: 30 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, y: -30 }}
+                    transition={{ duration: 0.25 }}
+                    className="bg-white dark:bg-slate-950 rounded-3xl shadow-2xl dark:shadow-none border border-slate-100 dark:border-slate-800 overflow-hidden min-h-[420px] flex flex-col"
+                >
+                    <div className="px-6 py-3 bg-gradient-to-br from-indigo-50 to-slate-50 dark:from-indigo-950 dark:to-slate-900 text-xs font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-wider flex justify-between">
+                        <span className="truncate">{current.examTitle}</span>
+                        <span>{!current.state ? t.study.newCard : t.study.kinds[current.kind]}</span>
+                    </div>
+
+                    <div className="p-8 flex-grow flex flex-col items-center justify-center text-center">
+                        {current.kind === 'cloze' ? (
+                            <ClozeText
+                                parts={parseClozeCard(current.card)}
+                                isRevealed={isRevealed}
+                                className="text-2xl font-medium text-slate-700 dark:text-slate-200 leading-loose"
+                            />
+                        ) : (
+                            <>
+                                <h3 className="text-2xl font-bold text-slate-800 dark:text-slate-100">{current.card.question}</h3>
+                                {isRevealed && (
+                                    <p className="mt-8 text-slate-700 dark:text-slate-300 italic bg-slate-50 dark:bg-slate-900 p-4 rounded-xl border border-slate-200 dark:border-slate-700">
+                                        {current.card.modelAnswer}
+                                    </p>
+                                )}
+                            </>
+                        )}
+                        {isRevealed && current.card.sourceFile && (
+                            <p className="mt-4 text-xs text-slate-400 font-medium">{t.common.source}: {current.card.sourceFile}</p>
+                        )}
+                    </div>
+
+                    <div className="p-6 bg-slate-50 dark:bg-slate-900 flex justify-center border-t border-slate-100 dark:border-slate-800">
+                        {!isRevealed ? (
+                            <button
+                                onClick={() => setIsRevealed(true)}
+                                className="px-8 py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all shadow-lg bg-indigo-600 hover:bg-indigo-700 text-white min-w-[200px]"
+                            >
+                                {t.common.showSolution} <Eye />
+                            </button>
+                        ) : (
+                            <ReviewGradeButtons state={current.state} onGrade={handleGrade} disabled={isSaving} />
+                        )}
+                    </div>
+                </motion.div>
+            </AnimatePresence>
+        </div>
+    );
+};
+
+export default ReviewMode;
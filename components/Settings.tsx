@@ -1,49 +1,71 @@
 import React, { useState, useEffect } from 'react';
-import { ExamType, ExamSettings, Difficulty } from '../types';
-import { Settings as SettingsIcon, BookOpen, Layers, BrainCircuit, ArrowRight, Clock, Volume2, FileText, File as FileIcon } from 'lucide-react';
+import { ExamType, ExamSettings, Difficulty, PageRange, Language, ScoringScheme } from '../types';
+import { Settings as SettingsIcon, BookOpen, Layers, BrainCircuit, ArrowRight, Clock, Volume2, FileText, File as FileIcon, ClipboardCheck, Languages } from 'lucide-react';
 
 import { getQuestionCountsPerDocument } from '../services/geminiService';
 import { PDFPreviewPanel } from './PDFPreviewPanel';
+import { formatPageRanges, selectPages } from '../services/pageSelection';
+import { DEFAULT_WRONG_PENALTY, SCORING_SCHEMES } from '../services/scoringService';
+import { DEFAULT_SPEECH_PITCH, DEFAULT_SPEECH_RATE, speak, stopSpeech } from '../services/speechService';
+import { useSpeechState } from './SpeechControls';
+import { LANGUAGES, getLocale, getMessages, useTranslation } from '../i18n';
 
 interface SettingsProps {
     onStart: (settings: ExamSettings) => void;
     pdfText: string;
     uploadedFiles?: Map<string, File>;
     examTitle?: string;
+    // Previous settings (e.g. from a saved exam) used to prefill the form
+    initialSettings?: ExamSettings;
 }
 
-export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFiles, examTitle }) => {
-    const [type, setType] = useState<ExamType>(ExamType.TEST);
-    const [questionCount, setQuestionCount] = useState(5);
-    const [difficulty, setDifficulty] = useState<Difficulty>('MEDIUM');
-    const [optionsCount, setOptionsCount] = useState(4);
-    const [allowMultipleCorrect, setAllowMultipleCorrect] = useState(false);
-    const [negativeMarking, setNegativeMarking] = useState(false);
-    const [maxClozeBlanks, setMaxClozeBlanks] = useState(2);
-    const [benevolence, setBenevolence] = useState<'STRICT' | 'NORMAL' | 'BENEVOLENT'>('NORMAL');
+export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFiles, examTitle, initialSettings }) => {
+    const { t, language, locale } = useTranslation();
+    const [type, setType] = useState<ExamType>(initialSettings?.type ?? ExamType.TEST);
+    const [questionCount, setQuestionCount] = useState(initialSettings?.questionCount ?? 5);
+    const [difficulty, setDifficulty] = useState<Difficulty>(initialSettings?.difficulty ?? 'MEDIUM');
+    const [examLanguage, setExamLanguage] = useState<Language>(initialSettings?.examLanguage ?? language);
+    const [optionsCount, setOptionsCount] = useState(initialSettings?.optionsCount ?? 4);
+    const [allowMultipleCorrect, setAllowMultipleCorrect] = useState(initialSettings?.allowMultipleCorrect ?? false);
+    const [negativeMarking, setNegativeMarking] = useState(initialSettings?.negativeMarking ?? false);
+    const [scoringScheme, setScoringScheme] = useState<ScoringScheme>(initialSettings?.scoringScheme ?? 'ALL_OR_NOTHING');
+    const [wrongPenalty, setWrongPenalty] = useState(initialSettings?.wrongPenalty ?? DEFAULT_WRONG_PENALTY);
+    const [regenerateUngrounded, setRegenerateUngrounded] = useState(initialSettings?.regenerateUngrounded ?? false);
+    const [maxClozeBlanks, setMaxClozeBlanks] = useState(initialSettings?.maxClozeBlanks ?? 2);
+    const [benevolence, setBenevolence] = useState<'STRICT' | 'NORMAL' | 'BENEVOLENT'>(initialSettings?.benevolence ?? 'NORMAL');
+    const [offlineGrading, setOfflineGrading] = useState(initialSettings?.offlineGrading ?? false);
+    const [oralExam, setOralExam] = useState(initialSettings?.oralExam ?? false);
 
     // New Settings
-    const [autoRead, setAutoRead] = useState(false);
-    const [timeLimit, setTimeLimit] = useState(0);
-    const [showSummary, setShowSummary] = useState(true);
-    const [showSourceFile, setShowSourceFile] = useState(true); // Enabled by default
+    const [autoRead, setAutoRead] = useState(initialSettings?.autoRead ?? false);
+    const [readExplanation, setReadExplanation] = useState(initialSettings?.readExplanation ?? false);
+    const [timeLimit, setTimeLimit] = useState(initialSettings?.timeLimit ?? 0);
+    const [showSummary, setShowSummary] = useState(initialSettings?.showSummary ?? true);
+    const [showSourceFile, setShowSourceFile] = useState(initialSettings?.showSourceFile ?? true); // Enabled by default
+    const [reviewBeforeExam, setReviewBeforeExam] = useState(initialSettings?.reviewBeforeExam ?? false);
     const [previewFile, setPreviewFile] = useState<File | null>(null);
+    const [pageSelection, setPageSelection] = useState<Record<string, PageRange[]>>(initialSettings?.pageSelection ?? {});
+    const [documentCounts, setDocumentCounts] = useState<Record<string, number> | undefined>(initialSettings?.documentCounts);
 
     // Voice Selection
     const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
-    const [selectedVoiceURI, setSelectedVoiceURI] = useState<string>('');
-    const [isPreviewingSpeech, setIsPreviewingSpeech] = useState(false);
+    const [selectedVoiceURI, setSelectedVoiceURI] = useState<string>(initialSettings?.voiceURI ?? '');
+    const [speechRate, setSpeechRate] = useState(initialSettings?.speechRate ?? DEFAULT_SPEECH_RATE);
+    const [speechPitch, setSpeechPitch] = useState(initialSettings?.speechPitch ?? DEFAULT_SPEECH_PITCH);
+    const isPreviewingSpeech = useSpeechState().status !== 'idle';
 
-    // Load available voices
+    // Load the voices available for the exam language
     useEffect(() => {
+        const speechLang = getLocale(examLanguage);
+
         const loadVoices = () => {
             const voices = window.speechSynthesis.getVoices();
 
-            // Filter Spanish voices
-            const spanishVoices = voices.filter(v => v.lang.startsWith('es'));
+            // Filter voices in the exam language
+            const languageVoices = voices.filter(v => v.lang.startsWith(examLanguage));
 
-            // Sort voices: Google first, then premium/neural, then es-ES
-            const sortedVoices = spanishVoices.sort((a, b) => {
+            // Sort voices: Google first, then premium/neural, then the main regional variant
+            const sortedVoices = languageVoices.sort((a, b) => {
                 // Prioritize Google voices
                 const aIsGoogle = a.name.toLowerCase().includes('google') ? 2 : 0;
                 const bIsGoogle = b.name.toLowerCase().includes('google') ? 2 : 0;
@@ -60,17 +82,17 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
 
                 if (aQuality !== bQuality) return bQuality - aQuality;
 
-                // Then prioritize es-ES over other Spanish variants
-                const aIsES = a.lang === 'es-ES' ? 1 : 0;
-                const bIsES = b.lang === 'es-ES' ? 1 : 0;
-                return bIsES - aIsES;
+                // Then prioritize e.g. es-ES over other Spanish variants
+                const aIsMain = a.lang === speechLang ? 1 : 0;
+                const bIsMain = b.lang === speechLang ? 1 : 0;
+                return bIsMain - aIsMain;
             });
 
             setAvailableVoices(sortedVoices.length > 0 ? sortedVoices : voices);
 
-            // Auto-select Google Spanish voice or best quality Spanish voice
-            if (!selectedVoiceURI && sortedVoices.length > 0) {
-                setSelectedVoiceURI(sortedVoices[0].voiceURI);
+            // Keep the chosen voice while it speaks the exam language, otherwise pick the best one
+            if (sortedVoices.length > 0) {
+                setSelectedVoiceURI(prev => (sortedVoices.some(v => v.voiceURI === prev) ? prev : sortedVoices[0].voiceURI));
             }
         };
 
@@ -80,52 +102,66 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
         if (window.speechSynthesis.onvoiceschanged !== undefined) {
             window.speechSynthesis.onvoiceschanged = loadVoices;
         }
-    }, []);
+    }, [examLanguage]);
 
     const previewVoice = () => {
         if (!selectedVoiceURI) return;
 
-        if (window.speechSynthesis.speaking) {
-            window.speechSynthesis.cancel();
-            setIsPreviewingSpeech(false);
+        if (isPreviewingSpeech) {
+            stopSpeech();
             return;
         }
 
-        const utterance = new SpeechSynthesisUtterance(
-            "Hola, esta es una muestra de la voz seleccionada para la lectura de preguntas."
-        );
-        utterance.lang = 'es-ES';
-
-        const voices = window.speechSynthesis.getVoices();
-        const voice = voices.find(v => v.voiceURI === selectedVoiceURI);
-        if (voice) utterance.voice = voice;
-
-        utterance.onstart = () => setIsPreviewingSpeech(true);
-        utterance.onend = () => setIsPreviewingSpeech(false);
-        utterance.onerror = () => setIsPreviewingSpeech(false);
-
-        window.speechSynthesis.speak(utterance);
+        speak([{ id: 'sample', text: getMessages(examLanguage).speech.voiceSample }], { examLanguage, voiceURI: selectedVoiceURI, speechRate, speechPitch });
     };
 
     const distribution = React.useMemo(() => {
-        return getQuestionCountsPerDocument(pdfText, questionCount);
-    }, [pdfText, questionCount]);
+        return getQuestionCountsPerDocument(selectPages(pdfText, pageSelection), questionCount, documentCounts);
+    }, [pdfText, questionCount, pageSelection, documentCounts]);
+
+    // Editing one document freezes the current split; the total follows the sum
+    const setDocumentCount = (docName: string, count: number) => {
+        const counts = { ...Object.fromEntries(distribution.map(doc => [doc.docName, doc.count])), [docName]: Math.max(0, count) };
+        const total = Object.values(counts).reduce((sum, value) => sum + value, 0);
+        if (total === 0) return;
+        setDocumentCounts(counts);
+        setQuestionCount(total);
+    };
+
+    const setFileSelection = (fileName: string, ranges: PageRange[] | undefined) => {
+        setPageSelection(prev => {
+            const { [fileName]: _previous, ...rest } = prev;
+            return ranges ? { ...rest, [fileName]: ranges } : rest;
+        });
+    };
 
     const handleStart = () => {
         onStart({
             type,
             questionCount,
             difficulty,
+            examLanguage,
             optionsCount,
             allowMultipleCorrect,
             negativeMarking,
+            scoringScheme,
+            wrongPenalty,
+            regenerateUngrounded,
             maxClozeBlanks,
             autoRead,
+            readExplanation,
             timeLimit,
             showSummary,
             showSourceFile,
             benevolence,
-            voiceURI: selectedVoiceURI
+            offlineGrading,
+            oralExam,
+            voiceURI: selectedVoiceURI,
+            speechRate,
+            speechPitch,
+            reviewBeforeExam,
+            pageSelection: Object.keys(pageSelection).length > 0 ? pageSelection : undefined,
+            documentCounts
         });
     };
 
@@ -143,7 +179,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
 
             <div className="bg-indigo-600 dark:bg-indigo-900 px-3 py-1.5 text-white flex items-center gap-2 shadow-sm">
                 <SettingsIcon className="w-4 h-4" />
-                <h2 className="text-sm font-bold">Configuración del Examen</h2>
+                <h2 className="text-sm font-bold">{t.settings.title}</h2>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-[1fr,400px] gap-3 p-3">
@@ -152,9 +188,9 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                     {/* Mode Selection */}
                     <div className="grid grid-cols-3 gap-2">
                         {[
-                            { id: ExamType.TEST, icon: Layers, label: 'Test' },
-                            { id: ExamType.CLOZE_FLASHCARD, icon: BookOpen, label: 'Flashcards' },
-                            { id: ExamType.OPEN_FLASHCARD, icon: BrainCircuit, label: 'Abierta' }
+                            { id: ExamType.TEST, icon: Layers },
+                            { id: ExamType.CLOZE_FLASHCARD, icon: BookOpen },
+                            { id: ExamType.OPEN_FLASHCARD, icon: BrainCircuit }
                         ].map((mode) => (
                             <button
                                 key={mode.id}
@@ -162,35 +198,54 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                                 className={`p-2 rounded-lg border flex flex-row items-center justify-center gap-2 transition-all ${type === mode.id ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 ring-1 ring-indigo-500' : 'border-slate-200 dark:border-slate-700 hover:border-slate-300 dark:hover:border-slate-600 text-slate-600 dark:text-slate-400'}`}
                             >
                                 <mode.icon className="w-4 h-4" />
-                                <span className="font-semibold text-xs">{mode.label}</span>
+                                <span className="font-semibold text-xs">{t.common.examTypes[mode.id]}</span>
                             </button>
                         ))}
                     </div>
 
                     {/* Main Settings Panel */}
                     <div className="bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg border border-slate-100 dark:border-slate-800 space-y-3">
+                        {/* Exam Language */}
+                        <div title={t.settings.examLanguageHint}>
+                            <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">
+                                <Languages size={10} /> {t.settings.examLanguage}
+                            </label>
+                            <select
+                                value={examLanguage}
+                                onChange={(e) => setExamLanguage(e.target.value as Language)}
+                                className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded focus:ring-indigo-500"
+                            >
+                                {LANGUAGES.map(entry => (
+                                    <option key={entry.code} value={entry.code}>{entry.label}</option>
+                                ))}
+                            </select>
+                        </div>
+
                         {/* Difficulty & Count */}
                         <div className="grid grid-cols-2 gap-3">
                             <div>
-                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Dificultad</label>
+                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.difficulty}</label>
                                 <select
                                     value={difficulty}
                                     onChange={(e) => setDifficulty(e.target.value as Difficulty)}
                                     className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded focus:ring-indigo-500"
                                 >
-                                    <option value="EASY">Fácil</option>
-                                    <option value="MEDIUM">Medio</option>
-                                    <option value="HARD">Difícil</option>
+                                    <option value="EASY">{t.settings.difficulties.EASY}</option>
+                                    <option value="MEDIUM">{t.settings.difficulties.MEDIUM}</option>
+                                    <option value="HARD">{t.settings.difficulties.HARD}</option>
                                 </select>
                             </div>
                             <div>
-                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Preguntas: {questionCount}</label>
+                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.questions(questionCount)}</label>
                                 <input
                                     type="range"
                                     min="1"
                                     max="100"
                                     value={questionCount}
-                                    onChange={(e) => setQuestionCount(parseInt(e.target.value))}
+                                    onChange={(e) => {
+                                        setQuestionCount(parseInt(e.target.value));
+                                        setDocumentCounts(undefined);
+                                    }}
                                     className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600 mt-2"
                                 />
                             </div>
@@ -199,11 +254,32 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                         {/* Question Distribution */}
                         {distribution.length > 1 && (
                             <div className="space-y-1">
-                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase">Distribución</label>
+                                <div className="flex items-center justify-between">
+                                    <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase">
+                                        {t.settings.distribution} {documentCounts ? t.settings.manual : t.settings.byPages}
+                                    </label>
+                                    {documentCounts && (
+                                        <button
+                                            onClick={() => setDocumentCounts(undefined)}
+                                            className="text-[10px] font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                                        >
+                                            {t.settings.reset}
+                                        </button>
+                                    )}
+                                </div>
                                 {distribution.map((doc, idx) => (
-                                    <div key={idx} className="flex justify-between text-[10px] text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">
+                                    <div key={idx} className="flex items-center justify-between text-[10px] text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-1 rounded">
                                         <span className="truncate flex-1">{doc.docName}</span>
-                                        <span className="font-bold ml-2">{doc.count}</span>
+                                        <span className="ml-2 text-slate-400">{Math.round((doc.count / Math.max(questionCount, 1)) * 100)}%</span>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            max="100"
+                                            value={doc.count}
+                                            onChange={(e) => setDocumentCount(doc.docName, parseInt(e.target.value) || 0)}
+                                            className="w-12 ml-2 p-0.5 text-[10px] font-bold text-center border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-900"
+                                            title={t.settings.documentQuestionsHint}
+                                        />
                                     </div>
                                 ))}
                             </div>
@@ -213,7 +289,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                         {type === ExamType.TEST && (
                             <div className="pt-2 border-t border-slate-200 dark:border-slate-700 space-y-2">
                                 <div className="flex items-center justify-between">
-                                    <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase">Opciones</label>
+                                    <label className="text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase">{t.settings.options}</label>
                                     <div className="flex gap-1">
                                         {[2, 3, 4, 5].map(n => (
                                             <button
@@ -229,19 +305,55 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                                 <div className="flex gap-4">
                                     <label className="flex items-center gap-1.5 cursor-pointer">
                                         <input type="checkbox" checked={allowMultipleCorrect} onChange={e => setAllowMultipleCorrect(e.target.checked)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
-                                        <span className="text-[11px] text-slate-700 dark:text-slate-300">Multi-respuesta</span>
+                                        <span className="text-[11px] text-slate-700 dark:text-slate-300">{t.settings.multipleCorrect}</span>
                                     </label>
-                                    <label className="flex items-center gap-1.5 cursor-pointer">
-                                        <input type="checkbox" checked={negativeMarking} onChange={e => setNegativeMarking(e.target.checked)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
-                                        <span className="text-[11px] text-slate-700 dark:text-slate-300">Restar fallos</span>
+                                    <label className="flex items-center gap-1.5 cursor-pointer" title={t.settings.regenerateUngroundedHint}>
+                                        <input type="checkbox" checked={regenerateUngrounded} onChange={e => setRegenerateUngrounded(e.target.checked)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
+                                        <span className="text-[11px] text-slate-700 dark:text-slate-300">{t.settings.regenerateUngrounded}</span>
                                     </label>
                                 </div>
+                                <div>
+                                    <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.scoring}</label>
+                                    <select
+                                        value={scoringScheme}
+                                        onChange={(e) => setScoringScheme(e.target.value as ScoringScheme)}
+                                        className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded focus:ring-indigo-500"
+                                    >
+                                        {SCORING_SCHEMES.map(scheme => (
+                                            <option key={scheme} value={scheme}>{t.settings.scoringSchemes[scheme]}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-[10px] text-slate-400 mt-1">{t.settings.scoringHints[scoringScheme]}</p>
+                                </div>
+                                {/* The other schemes set their own penalties */}
+                                {scoringScheme === 'ALL_OR_NOTHING' && (
+                                    <div className="flex items-center gap-4">
+                                        <label className="flex items-center gap-1.5 cursor-pointer">
+                                            <input type="checkbox" checked={negativeMarking} onChange={e => setNegativeMarking(e.target.checked)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
+                                            <span className="text-[11px] text-slate-700 dark:text-slate-300">{t.settings.negativeMarking}</span>
+                                        </label>
+                                        {negativeMarking && (
+                                            <label className="flex items-center gap-1.5">
+                                                <span className="text-[11px] text-slate-700 dark:text-slate-300">{t.settings.wrongPenalty}</span>
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    max="1"
+                                                    step="0.05"
+                                                    value={wrongPenalty}
+                                                    onChange={(e) => setWrongPenalty(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                                                    className="w-14 p-0.5 text-[10px] font-bold text-center border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-900"
+                                                />
+                                            </label>
+                                        )}
+                                    </div>
+                                )}
                             </div>
                         )}
 
                         {type === ExamType.CLOZE_FLASHCARD && (
                             <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
-                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Huecos: {maxClozeBlanks}</label>
+                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.blanks(maxClozeBlanks)}</label>
                                 <input
                                     type="range"
                                     min="1"
@@ -255,16 +367,24 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
 
                         {type === ExamType.OPEN_FLASHCARD && (
                             <div className="pt-2 border-t border-slate-200 dark:border-slate-700">
-                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">Benevolencia</label>
+                                <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.benevolence}</label>
                                 <select
                                     value={benevolence}
                                     onChange={(e) => setBenevolence(e.target.value as 'STRICT' | 'NORMAL' | 'BENEVOLENT')}
                                     className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded focus:ring-indigo-500"
                                 >
-                                    <option value="STRICT">Estricto</option>
-                                    <option value="NORMAL">Normal</option>
-                                    <option value="BENEVOLENT">Benevolente</option>
+                                    <option value="STRICT">{t.settings.benevolenceLevels.STRICT}</option>
+                                    <option value="NORMAL">{t.settings.benevolenceLevels.NORMAL}</option>
+                                    <option value="BENEVOLENT">{t.settings.benevolenceLevels.BENEVOLENT}</option>
                                 </select>
+                                <label className="flex items-center gap-1.5 cursor-pointer mt-2" title={t.settings.offlineGradingHint}>
+                                    <input type="checkbox" checked={offlineGrading} onChange={e => setOfflineGrading(e.target.checked)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
+                                    <span className="text-[11px] text-slate-700 dark:text-slate-300">{t.settings.offlineGrading}</span>
+                                </label>
+                                <label className="flex items-center gap-1.5 cursor-pointer mt-2" title={t.settings.oralExamHint}>
+                                    <input type="checkbox" checked={oralExam} onChange={e => setOralExam(e.target.checked)} className="w-3.5 h-3.5 rounded accent-indigo-600" />
+                                    <span className="text-[11px] text-slate-700 dark:text-slate-300">{t.settings.oralExam}</span>
+                                </label>
                             </div>
                         )}
                     </div>
@@ -273,7 +393,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                     <div className="bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg border border-slate-100 dark:border-slate-800 space-y-2">
                         <div className="flex items-center justify-between">
                             <div className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300">
-                                <Volume2 size={14} className="text-indigo-500" /> Lectura Auto
+                                <Volume2 size={14} className="text-indigo-500" /> {t.settings.autoRead}
                             </div>
                             <label className="relative inline-flex items-center cursor-pointer">
                                 <input type="checkbox" checked={autoRead} onChange={e => setAutoRead(e.target.checked)} className="sr-only peer" />
@@ -281,10 +401,20 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                             </label>
                         </div>
 
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300" title={t.settings.readExplanationHint}>
+                                <Volume2 size={14} className="text-indigo-500" /> {t.settings.readExplanation}
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input type="checkbox" checked={readExplanation} onChange={e => setReadExplanation(e.target.checked)} className="sr-only peer" />
+                                <div className="w-7 h-4 bg-slate-300 peer-focus:outline-none rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:bg-indigo-600"></div>
+                            </label>
+                        </div>
+
                         {/* Voice Selection */}
                         <div>
                             <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">
-                                <Volume2 size={10} className="inline mr-1" />Voz de Lectura
+                                <Volume2 size={10} className="inline mr-1" />{t.settings.voice}
                             </label>
                             <div className="flex gap-2">
                                 <select
@@ -294,7 +424,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                                     disabled={availableVoices.length === 0}
                                 >
                                     {availableVoices.length === 0 ? (
-                                        <option>Cargando voces...</option>
+                                        <option>{t.settings.loadingVoices}</option>
                                     ) : (
                                         availableVoices.map((voice) => (
                                             <option key={voice.voiceURI} value={voice.voiceURI}>
@@ -310,16 +440,42 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                                         ? 'bg-red-500 text-white hover:bg-red-600'
                                         : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300 disabled:opacity-50'
                                         }`}
-                                    title="Escuchar muestra de voz"
+                                    title={t.settings.previewVoice}
                                 >
                                     {isPreviewingSpeech ? '⏸️' : '🔊'}
                                 </button>
                             </div>
+                            <div className="grid grid-cols-2 gap-3 mt-2">
+                                <div>
+                                    <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.speechRate(speechRate.toLocaleString(locale))}</label>
+                                    <input
+                                        type="range"
+                                        min="0.5"
+                                        max="2"
+                                        step="0.1"
+                                        value={speechRate}
+                                        onChange={(e) => setSpeechRate(parseFloat(e.target.value))}
+                                        className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] font-bold text-slate-500 dark:text-slate-400 uppercase mb-1">{t.settings.speechPitch(speechPitch.toLocaleString(locale))}</label>
+                                    <input
+                                        type="range"
+                                        min="0.5"
+                                        max="2"
+                                        step="0.1"
+                                        value={speechPitch}
+                                        onChange={(e) => setSpeechPitch(parseFloat(e.target.value))}
+                                        className="w-full h-1.5 bg-slate-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                                    />
+                                </div>
+                            </div>
                         </div>
 
                         <div className="flex items-center justify-between">
                             <div className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300">
-                                <FileText size={14} className="text-indigo-500" /> Resumen
+                                <FileText size={14} className="text-indigo-500" /> {t.settings.summary}
                             </div>
                             <label className="relative inline-flex items-center cursor-pointer">
                                 <input type="checkbox" checked={showSummary} onChange={e => setShowSummary(e.target.checked)} className="sr-only peer" />
@@ -329,7 +485,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
 
                         <div className="flex items-center justify-between">
                             <div className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300">
-                                <FileText size={14} className="text-indigo-500" /> Mostrar Fuente
+                                <FileText size={14} className="text-indigo-500" /> {t.settings.showSource}
                             </div>
                             <label className="relative inline-flex items-center cursor-pointer">
                                 <input type="checkbox" checked={showSourceFile} onChange={e => setShowSourceFile(e.target.checked)} className="sr-only peer" />
@@ -337,9 +493,19 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                             </label>
                         </div>
 
+                        <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300" title={t.settings.reviewBeforeExamHint}>
+                                <ClipboardCheck size={14} className="text-indigo-500" /> {t.settings.reviewBeforeExam}
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input type="checkbox" checked={reviewBeforeExam} onChange={e => setReviewBeforeExam(e.target.checked)} className="sr-only peer" />
+                                <div className="w-7 h-4 bg-slate-300 peer-focus:outline-none rounded-full peer dark:bg-slate-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-3 after:w-3 after:transition-all peer-checked:bg-indigo-600"></div>
+                            </label>
+                        </div>
+
                         <div>
                             <label className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300 mb-1">
-                                <Clock size={14} className="text-indigo-500" /> Límite (s)
+                                <Clock size={14} className="text-indigo-500" /> {t.settings.timeLimit}
                             </label>
                             <input
                                 type="number"
@@ -348,7 +514,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                                 value={timeLimit}
                                 onChange={(e) => setTimeLimit(parseInt(e.target.value) || 0)}
                                 className="w-full p-1.5 text-xs border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800"
-                                placeholder="0 = Infinito"
+                                placeholder={t.settings.noTimeLimit}
                             />
                         </div>
                     </div>
@@ -357,7 +523,7 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                     {uploadedFiles && uploadedFiles.size > 0 && (
                         <div className="bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg border border-slate-100 dark:border-slate-800">
                             <h3 className="text-xs font-bold text-slate-500 dark:text-slate-400 uppercase mb-2 flex items-center gap-1.5">
-                                <FileIcon size={14} className="text-indigo-500" /> Documentos ({uploadedFiles.size})
+                                <FileIcon size={14} className="text-indigo-500" /> {t.settings.documents(uploadedFiles.size)}
                             </h3>
                             <div className="space-y-1">
                                 {Array.from(uploadedFiles.entries()).map(([filename, file]) => {
@@ -377,9 +543,14 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                                             </div>
                                             <div className="flex gap-3 mt-0.5 text-[10px] text-slate-400">
                                                 <span>{(file.size / 1024 / 1024).toFixed(2)} MB</span>
+                                                {pageSelection[filename] && (
+                                                    <span className="font-medium text-orange-600 dark:text-orange-400">
+                                                        {t.settings.selectedPages(formatPageRanges(pageSelection[filename]))}
+                                                    </span>
+                                                )}
                                                 {docDistribution && (
                                                     <span className="font-bold text-indigo-600 dark:text-indigo-400">
-                                                        {docDistribution.count} preguntas
+                                                        {t.settings.questionCount(docDistribution.count)}
                                                     </span>
                                                 )}
                                             </div>
@@ -394,13 +565,18 @@ export const Settings: React.FC<SettingsProps> = ({ onStart, pdfText, uploadedFi
                         onClick={handleStart}
                         className="w-full py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2 transition-all shadow-md hover:shadow-lg active:scale-[0.99]"
                     >
-                        Comenzar Examen <ArrowRight size={16} />
+                        {t.common.startExam} <ArrowRight size={16} />
                     </button>
                 </div>
 
                 {/* Right Column: PDF Preview */}
-                <div className="lg:sticky lg:top-4 h-[500px]">
-                    <PDFPreviewPanel file={previewFile} />
+                <div className="lg:sticky lg:top-4 h-[640px]">
+                    <PDFPreviewPanel
+                        file={previewFile}
+                        pdfText={pdfText}
+                        selection={previewFile ? pageSelection[previewFile.name] : undefined}
+                        onSelectionChange={(ranges) => previewFile && setFileSelection(previewFile.name, ranges)}
+                    />
                 </div>
             </div>
         </div>
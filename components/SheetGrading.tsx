@@ -0,0 +1,224 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Camera, Download, Loader2, AlertTriangle, X } from 'lucide-react';
+import { PaperExamOptions } from '../types';
+import { ExamExportData, downloadBlob, slugify } from '../services/exportService';
+import { buildVariants, getAnswerSheetLayout, getSheetOptionCount, toLetter } from '../services/paperExamService';
+import { SheetErrorCode, SheetReadError, SheetReading, gradeSheet, loadSheetImages, readAnswerSheet, toCsv } from '../services/omrService';
+import { useTranslation } from '../i18n';
+
+interface SheetGradingProps {
+    data: ExamExportData;
+    options: PaperExamOptions;
+}
+
+interface SheetRow {
+    key: string;
+    name: string;
+    status: 'reading' | 'done' | 'error';
+    reading?: SheetReading;
+    // Editable, in case the marks were not clear
+    variantIndex: number | null;
+    studentId: string;
+    errorCode?: SheetErrorCode;
+}
+
+// Lets the browser paint the "reading" rows before the image processing blocks it
+const nextFrame = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const SheetGrading: React.FC<SheetGradingProps> = ({ data, options }) => {
+    const { t, locale } = useTranslation();
+    const [rows, setRows] = useState<SheetRow[]>([]);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const variants = useMemo(() => buildVariants(data.testQuestions, options), [data.testQuestions, options]);
+
+    const updateRow = (key: string, changes: Partial<SheetRow>) =>
+        setRows(prev => prev.map(row => (row.key === key ? { ...row, ...changes } : row)));
+
+    const handleFiles = async (files: File[]) => {
+        for (const file of files) {
+            const fileKey = `${file.name}-${file.lastModified}-${crypto.randomUUID()}`;
+            setRows(prev => [...prev, { key: fileKey, name: file.name, status: 'reading', variantIndex: null, studentId: '' }]);
+            await nextFrame();
+
+            try {
+                const layout = getAnswerSheetLayout(data.testQuestions.length, getSheetOptionCount(data));
+                const sheets = await loadSheetImages(file);
+                const readRows: SheetRow[] = [];
+                for (const [idx, sheet] of sheets.entries()) {
+                    await nextFrame();
+                    try {
+                        const reading = readAnswerSheet(sheet.image, layout, variants.length);
+                        const variantIndex = variants.length === 1 ? 0 : reading.variantIndex;
+                        readRows.push({ key: `${fileKey}-${idx}`, name: sheet.name, status: 'done', reading, variantIndex, studentId: reading.studentId });
+                    } catch (error) {
+                        console.error(error);
+                        readRows.push({ key: `${fileKey}-${idx}`, name: sheet.name, status: 'error', variantIndex: null, studentId: '', errorCode: error instanceof SheetReadError ? error.code : undefined });
+                    }
+                }
+                setRows(prev => prev.flatMap(row => (row.key === fileKey ? readRows : [row])));
+            } catch (error) {
+                console.error(error);
+                updateRow(fileKey, { status: 'error', errorCode: error instanceof SheetReadError ? error.code : undefined });
+            }
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length > 0) handleFiles(files);
+    };
+
+    const getGrade = (row: SheetRow) =>
+        row.reading && row.variantIndex !== null && variants[row.variantIndex]
+            ? gradeSheet(row.reading.answers, variants[row.variantIndex], data.settings)
+            : null;
+
+    const formatAnswers = (reading: SheetReading) =>
+        reading.answers.map(marked => (marked.length > 0 ? marked.map(toLetter).join('') : '-')).join(' ');
+
+    const graded = rows.map(row => ({ row, grade: getGrade(row) })).filter(entry => entry.grade);
+    const average = graded.length > 0 ? graded.reduce((sum, entry) => sum + entry.grade!.grade, 0) / graded.length : null;
+
+    const handleExport = () => {
+        const csv = toCsv([
+            [t.grading.file, t.grading.studentId, t.grading.variant, t.grading.correct, t.grading.wrong, t.grading.blank, t.grading.points, t.grading.grade, t.grading.answers],
+            ...graded.map(({ row, grade }) => [
+                row.name,
+                row.studentId,
+                toLetter(row.variantIndex!),
+                grade!.correct,
+                grade!.wrong,
+                grade!.blank,
+                grade!.points,
+                grade!.grade,
+                formatAnswers(row.reading!),
+            ]),
+        ]);
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${slugify(data.title)}-${options.seed}.csv`);
+    };
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-slate-500 dark:text-slate-400">{t.grading.hint}</p>
+            <div className="flex items-center justify-between gap-2">
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-700 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1"
+                >
+                    <Camera size={12} /> {t.grading.upload}
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/*,.pdf,application/pdf"
+                    multiple
+                    onChange={handleFileChange}
+                    className="hidden"
+                />
+                {average !== null && (
+                    <span className="text-xs font-medium text-slate-600 dark:text-slate-300">
+                        {t.grading.average(average.toLocaleString(locale, { maximumFractionDigits: 2 }), graded.length)}
+                    </span>
+                )}
+                <button
+                    onClick={handleExport}
+                    disabled={graded.length === 0}
+                    className="px-3 py-1.5 bg-slate-800 dark:bg-slate-700 hover:bg-slate-900 dark:hover:bg-slate-600 text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <Download size={12} /> {t.grading.exportCsv}
+                </button>
+            </div>
+
+            {rows.length > 0 && (
+                <div className="max-h-[50vh] overflow-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <table className="w-full text-xs text-left text-slate-700 dark:text-slate-200">
+                        <thead className="bg-slate-50 dark:bg-slate-800 text-[10px] uppercase text-slate-500 dark:text-slate-400 sticky top-0">
+                            <tr>
+                                <th className="p-2">{t.grading.file}</th>
+                                <th className="p-2">{t.grading.studentId}</th>
+                                <th className="p-2">{t.grading.variant}</th>
+                                <th className="p-2 text-green-600 dark:text-green-400">✓</th>
+                                <th className="p-2 text-red-500 dark:text-red-400">✕</th>
+                                <th className="p-2" title={t.grading.blank}>–</th>
+                                <th className="p-2">{t.grading.points}</th>
+                                <th className="p-2">{t.grading.grade}</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+                            {rows.map(row => {
+                                const grade = getGrade(row);
+                                return (
+                                    <tr key={row.key} className="align-middle">
+                                        <td className="p-2 max-w-[10rem]">
+                                            <div className="flex items-center gap-1 min-w-0">
+                                                <span className="truncate" title={row.reading ? formatAnswers(row.reading) : row.name}>{row.name}</span>
+                                                {row.reading && row.reading.doubtful.length > 0 && (
+                                                    <span title={t.grading.doubtful(row.reading.doubtful.map(q => q + 1).join(', '))}>
+                                                        <AlertTriangle size={12} className="text-amber-500 flex-shrink-0" />
+                                                    </span>
+                                                )}
+                                            </div>
+                                        </td>
+                                        {row.status === 'reading' && (
+                                            <td colSpan={7} className="p-2 text-slate-400">
+                                                <span className="flex items-center gap-1"><Loader2 size={12} className="animate-spin" /> {t.grading.reading}</span>
+                                            </td>
+                                        )}
+                                        {row.status === 'error' && (
+                                            <td colSpan={7} className="p-2 text-red-600 dark:text-red-400">
+                                                {t.grading.readError} {row.errorCode && t.grading.errors[row.errorCode]}
+                                            </td>
+                                        )}
+                                        {row.status === 'done' && (
+                                            <>
+                                                <td className="p-2">
+                                                    <input
+                                                        type="text"
+                                                        value={row.studentId}
+                                                        onChange={(e) => updateRow(row.key, { studentId: e.target.value })}
+                                                        className="w-20 p-1 font-mono border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 rounded"
+                                                    />
+                                                </td>
+                                                <td className="p-2">
+                                                    <select
+                                                        value={row.variantIndex ?? ''}
+                                                        onChange={(e) => updateRow(row.key, { variantIndex: e.target.value === '' ? null : Number(e.target.value) })}
+                                                        className={`p-1 border bg-white dark:bg-slate-800 rounded ${row.variantIndex === null ? 'border-red-400' : 'border-slate-300 dark:border-slate-600'}`}
+                                                    >
+                                                        <option value="">?</option>
+                                                        {variants.map((variant, idx) => (
+                                                            <option key={variant.code} value={idx}>{variant.code}</option>
+                                                        ))}
+                                                    </select>
+                                                </td>
+                                                <td className="p-2">{grade?.correct ?? ''}</td>
+                                                <td className="p-2">{grade?.wrong ?? ''}</td>
+                                                <td className="p-2">{grade?.blank ?? ''}</td>
+                                                <td className="p-2">{grade ? grade.points.toLocaleString(locale) : ''}</td>
+                                                <td className="p-2 font-bold">{grade?.grade ?? ''}</td>
+                                            </>
+                                        )}
+                                        <td className="p-2">
+                                            <button
+                                                onClick={() => setRows(prev => prev.filter(other => other.key !== row.key))}
+                                                className="p-1 text-slate-400 hover:text-red-500 rounded-full transition-colors"
+                                                title={t.grading.remove}
+                                            >
+                                                <X size={12} />
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SheetGrading;
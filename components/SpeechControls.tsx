@@ -0,0 +1,58 @@
+import React, { useSyncExternalStore } from 'react';
+import { Volume2, StopCircle, Pause, Play } from 'lucide-react';
+import { getSpeechState, pauseSpeech, resumeSpeech, splitSentences, stopSpeech, subscribeSpeech, SpeechState } from '../services/speechService';
+import { useTranslation } from '../i18n';
+
+// What speechService is reading, re-rendering on every sentence
+export const useSpeechState = (): SpeechState => useSyncExternalStore(subscribeSpeech, getSpeechState);
+
+// Read, or pause/resume and stop while something is being read
+export const SpeechControls: React.FC<{ onRead: () => void }> = ({ onRead }) => {
+    const { t } = useTranslation();
+    const { status } = useSpeechState();
+    const buttonClass = 'flex items-center gap-2 px-4 py-2 rounded-full text-sm font-bold transition-all flex-shrink-0';
+
+    if (status === 'idle') {
+        return (
+            <button onClick={onRead} className={`${buttonClass} bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300`}>
+                <Volume2 size={18} /> {t.common.read}
+            </button>
+        );
+    }
+
+    return (
+        <div className="flex gap-2 flex-shrink-0">
+            <button
+                onClick={status === 'paused' ? resumeSpeech : pauseSpeech}
+                className={`${buttonClass} bg-indigo-100 text-indigo-700 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-300`}
+            >
+                {status === 'paused' ? <><Play size={18} /> {t.common.resume}</> : <><Pause size={18} /> {t.common.pause}</>}
+            </button>
+            <button
+                onClick={stopSpeech}
+                className={`${buttonClass} bg-red-500 text-white hover:bg-red-600 ${status === 'speaking' ? 'animate-pulse' : ''}`}
+            >
+                <StopCircle size={18} fill="currentColor" /> {t.common.stop}
+            </button>
+        </div>
+    );
+};
+
+// Highlight of what is being read
+export const SPOKEN_CLASS = 'bg-yellow-200/70 dark:bg-yellow-500/30 rounded';
+
+// Text whose sentence being read under `id` is highlighted; split like speechService splits it
+export const SpokenText: React.FC<{ id: string; text: string }> = ({ id, text }) => {
+    const speech = useSpeechState();
+    if (speech.itemId !== id) return <>{text}</>;
+    return (
+        <>
+            {splitSentences(text).map((sentence, idx) => (
+                <React.Fragment key={idx}>
+                    {idx > 0 && ' '}
+                    <span className={idx === speech.sentence ? SPOKEN_CLASS : undefined}>{sentence}</span>
+                </React.Fragment>
+            ))}
+        </>
+    );
+};
@@ -0,0 +1,430 @@
+import type { Messages } from './es';
+
+export const ca: Messages = {
+  common: {
+    examTypes: { TEST: 'Test', CLOZE_FLASHCARD: 'Flashcards', OPEN_FLASHCARD: 'Oberta' },
+    finish: 'Acabar',
+    finishExamHint: "Acabar l'examen i veure els resultats",
+    next: 'Següent',
+    previous: 'Anterior',
+    back: 'Tornar',
+    restart: 'Reiniciar',
+    print: 'Imprimir',
+    read: 'Llegir',
+    stop: 'ATURAR',
+    pause: 'PAUSA',
+    resume: 'CONTINUAR',
+    showSolution: 'Veure la Solució',
+    source: 'Font',
+    finalGrade: 'Nota Final',
+    outOfTen: 'sobre 10',
+    timedOut: 'Temps esgotat',
+    loading: 'Carregant...',
+    startExam: "Començar l'Examen",
+  },
+  app: {
+    untitledExam: 'Examen sense títol',
+    generatingTest: 'Generant preguntes de tipus test...',
+    generatingCloze: 'Creant targetes de memòria i visualitzacions...',
+    generatingOpen: 'Formulant preguntes obertes...',
+    generationError: "Error en generar l'examen. Si us plau, revisa la teva API Key o torna-ho a provar.",
+    fullScreen: 'Pantalla completa',
+    exitFullScreen: 'Sortir de la pantalla completa',
+    darkMode: 'Mode fosc',
+    interfaceLanguage: 'Idioma de la interfície',
+    heroTitle: 'Exàmens des de PDF',
+    heroHighlight: 'amb Intel·ligència Artificial',
+    heroSubtitle: "Puja el teu document i genera tests, flashcards i avaluacions a l'instant.",
+    analyzing: 'Analitzant documents...',
+    processing: 'Processant el contingut amb IA...',
+  },
+  upload: {
+    analyzingFile: (fileName: string) => `Analitzant ${fileName}...`,
+    analyzingPage: (fileName: string, page: number, total?: number) => `Analitzant ${fileName} (pàg. ${page}/${total})...`,
+    ocrProgress: (fileName: string, page: number, total: number | undefined, percent: number) =>
+      `Reconeixent text escanejat (OCR) a ${fileName}, pàg. ${page}/${total}: ${percent}%`,
+    noText: "No s'ha pogut extreure text, ni tan sols amb reconeixement òptic (OCR).",
+    analysisError: 'Error analitzant els documents.',
+    unsupported: (fileName: string, formats: string) => `El fitxer ${fileName} no té un format compatible (${formats}).`,
+    addMore: 'Afegir més fitxers',
+    title: 'Puja els teus documents',
+    addMoreHint: 'Arrossega o fes clic per afegir',
+    formatsHint: 'PDF, Word, PowerPoint, EPUB, Markdown o text (selecció múltiple)',
+    selected: (count: number) => `Documents seleccionats (${count})`,
+    clearAll: 'Netejar-ho tot',
+    removeFile: 'Eliminar el fitxer',
+    analyze: (count: number) => `Analitzar ${count} Documents`,
+  },
+  importBank: {
+    types: { TEST: 'Test', CLOZE_FLASHCARD: 'Flashcards de buits', OPEN_FLASHCARD: 'Preguntes obertes' },
+    readError: "No s'ha pogut llegir el fitxer.",
+    hint: 'Fes servir les teves pròpies preguntes en JSON, CSV, GIFT o Moodle XML',
+    button: 'Importar banc de preguntes (JSON, CSV, GIFT, Moodle XML)',
+    discard: 'Descartar la importació',
+    skipped: (count: number) => `S'han omès ${count} entrades no vàlides`,
+    noneValid: "No s'ha trobat cap pregunta vàlida al fitxer.",
+    true: 'Vertader',
+    false: 'Fals',
+    locations: {
+      file: 'Fitxer',
+      row: (row: number) => `Fila ${row}`,
+      item: (index: number) => `Element ${index}`,
+      question: (index: number) => `Pregunta ${index}`,
+      questionAtLine: (index: number, line: number) => `Pregunta ${index} (línia ${line})`,
+    },
+    errors: {
+      INVALID_JSON: (detail: string) => `JSON no vàlid: ${detail}`,
+      NOT_A_BANK: "S'esperava una llista de preguntes o un objecte amb testQuestions, clozeCards o openQuestions.",
+      NO_ITEM_LISTS: "No s'ha trobat testQuestions, clozeCards ni openQuestions.",
+      NOT_AN_OBJECT: "L'entrada no és un objecte.",
+      UNKNOWN_KIND: 'No es reconeix el tipus de pregunta.',
+      UNSUPPORTED_TYPE: (type: string) => `Tipus de pregunta no admès: "${type}".`,
+      EMPTY_CSV: 'El CSV és buit.',
+      MISSING_COLUMNS: `La capçalera ha d'incloure una columna "question"/"pregunta" o "fullText"/"texto".`,
+      MISSING_ANSWERS: 'Falta el bloc de respostes {...}.',
+      UNSUPPORTED_GIFT_QUESTION: "Les preguntes numèriques i d'aparellament no són admeses.",
+      NO_GIFT_QUESTIONS: "No s'han trobat preguntes GIFT.",
+      INVALID_MOODLE_XML: "XML no vàlid: s'esperava un document <quiz> de Moodle.",
+      NO_MOODLE_QUESTIONS: "L'XML no conté preguntes.",
+      UNSUPPORTED_FORMAT: (accepted: string) => `Format no admès. Fes servir un de: ${accepted}`,
+    },
+  },
+  validation: {
+    MISSING_QUESTION: "Falta l'enunciat de la pregunta.",
+    EMPTY_OPTION: 'Hi ha opcions buides.',
+    TOO_FEW_OPTIONS: 'Calen almenys 2 opcions.',
+    NO_CORRECT_OPTION: "No s'ha indicat cap opció correcta.",
+    CORRECT_OUT_OF_RANGE: (optionCount: number) => `Índex de resposta correcta fora de rang (hi ha ${optionCount} opcions).`,
+    MISSING_TEXT: 'Falta el text de la targeta.',
+    NO_HIDDEN_WORDS: 'La targeta no té paraules ocultes.',
+    HIDDEN_WORD_NOT_IN_TEXT: (word: string) => `La paraula oculta "${word}" no apareix al text.`,
+    MISSING_MODEL_ANSWER: 'Falta la resposta model.',
+  },
+  library: {
+    deleteConfirm: (title: string) => `Eliminar "${title}" de la biblioteca?`,
+    deleteError: "No s'ha pogut eliminar l'examen.",
+    title: (count: number) => `Els meus exàmens desats (${count})`,
+    dailyReviewHint: 'Repassar les targetes pendents de totes les baralles',
+    dailyReview: (count: number) => `Repàs diari (${count})`,
+    details: (type: string, items: number, documents: number, date: string) => `${type} · ${items} ítems · ${documents} documents · ${date}`,
+    retakeHint: 'Repetir aquest examen sense tornar-lo a generar',
+    retake: 'Repetir',
+    editHint: 'Revisar i editar les preguntes',
+    openHint: 'Obrir els documents i configurar un examen nou',
+    deleteHint: 'Eliminar de la biblioteca',
+  },
+  settings: {
+    title: "Configuració de l'Examen",
+    examLanguage: "Idioma de l'examen",
+    examLanguageHint: 'Les preguntes es generen en aquest idioma encara que els documents estiguin escrits en un altre',
+    difficulty: 'Dificultat',
+    difficulties: { EASY: 'Fàcil', MEDIUM: 'Mitjà', HARD: 'Difícil' },
+    questions: (count: number) => `Preguntes: ${count}`,
+    distribution: 'Distribució',
+    manual: '(manual)',
+    byPages: '(per pàgines)',
+    reset: 'Restablir',
+    documentQuestionsHint: "Preguntes d'aquest document",
+    options: 'Opcions',
+    multipleCorrect: 'Multiresposta',
+    negativeMarking: 'Restar errors',
+    scoring: 'Puntuació',
+    scoringSchemes: {
+      ALL_OR_NOTHING: 'Tot o res',
+      PROPORTIONAL: 'Proporcional',
+      PROPORTIONAL_PENALTY: 'Proporcional amb penalització',
+      GUESSING_CORRECTION: "Correcció de l'atzar",
+    },
+    scoringHints: {
+      ALL_OR_NOTHING: 'Només puntua la resposta exacta.',
+      PROPORTIONAL: 'Cada opció correcta suma la seva part i cada incorrecta resta; mai per sota de 0.',
+      PROPORTIONAL_PENALTY: 'Com la proporcional, però una pregunta pot restar fins a 1 punt.',
+      GUESSING_CORRECTION: "Un error resta 1/(n-1) amb n opcions, així contestar a l'atzar no compensa.",
+    },
+    wrongPenalty: 'Resta per error',
+    regenerateUngrounded: 'Regenerar cites no verificades',
+    regenerateUngroundedHint: 'Les preguntes amb una cita que no apareix al document es tornen a generar',
+    blanks: (count: number) => `Buits: ${count}`,
+    benevolence: 'Benevolència',
+    benevolenceLevels: { STRICT: 'Estricte', NORMAL: 'Normal', BENEVOLENT: 'Benevolent' },
+    offlineGrading: 'Corregir sense connexió',
+    offlineGradingHint: 'Corregeix les respostes al navegador comparant paraules clau amb la resposta model, sense IA. Menys precís; també es fa servir si la IA no respon.',
+    oralExam: 'Examen oral',
+    oralExamHint: "L'examinador llegeix cada pregunta en veu alta, escolta la teva resposta i fa fins a dues preguntes de seguiment sobre la mateixa pàgina. Tot es corregeix al final.",
+    autoRead: 'Lectura Auto',
+    speechRate: (rate: string) => `Velocitat: ${rate}×`,
+    speechPitch: (pitch: string) => `To: ${pitch}`,
+    readExplanation: "Llegir l'explicació",
+    readExplanationHint: "Després de cada resposta, llegeix en veu alta si és correcta i l'explicació o la correcció.",
+    voice: 'Veu de Lectura',
+    loadingVoices: 'Carregant veus...',
+    previewVoice: 'Escoltar una mostra de veu',
+    summary: 'Resum',
+    showSource: 'Mostrar la Font',
+    reviewBeforeExam: 'Revisar abans de començar',
+    reviewBeforeExamHint: 'Editar, reordenar o regenerar les preguntes abans de començar',
+    timeLimit: 'Límit (s)',
+    noTimeLimit: '0 = Infinit',
+    documents: (count: number) => `Documents (${count})`,
+    selectedPages: (ranges: string) => `Pàgs. ${ranges}`,
+    questionCount: (count: number) => `${count} preguntes`,
+  },
+  preview: {
+    selectDocument: 'Selecciona un document per previsualitzar-lo',
+    noTextOnPage: 'Sense text en aquesta pàgina',
+    pageAlt: (page: number) => `Pàgina ${page}`,
+    pageOf: (page: number, total: number) => `Pàgina ${page} de ${total}`,
+    loadingPage: 'Carregant la pàgina...',
+    loadError: "No s'ha pogut carregar",
+    previewError: "No s'ha pogut carregar la previsualització",
+    pagesForExam: "Pàgines per a l'examen",
+    useWholeDocument: 'Fer servir tot el document',
+    rangesPlaceholder: (total: number) => `Totes (1-${total}). Ex.: 1-3, 7`,
+    rangesError: (total: number) => `Fes servir intervals com "1-3, 7, 10-12" entre 1 i ${total}.`,
+    chapters: 'Capítols',
+    goToFirstPage: 'Anar a la primera pàgina',
+    pages: (start: number, end: number) => (start === end ? `p. ${start}` : `p. ${start}-${end}`),
+  },
+  review: {
+    title: (count: number) => `Revisió de preguntes (${count})`,
+    statement: 'Enunciat',
+    optionsHint: 'Opcions (marca les correctes)',
+    correctAnswer: 'Resposta correcta',
+    removeOption: "Eliminar l'opció",
+    addOption: 'Afegir una opció',
+    explanation: 'Explicació',
+    quote: 'Cita del document',
+    text: 'Text',
+    hiddenWords: 'Paraules ocultes',
+    removeWord: 'Treure',
+    hiddenWordPlaceholder: 'Paraula del text que cal ocultar',
+    addHiddenWord: 'Afegir una paraula oculta',
+    preview: 'Previsualització',
+    question: 'Pregunta',
+    modelAnswer: 'Resposta model',
+    rubric: 'Rúbrica (punts clau i pes)',
+    keyPointPlaceholder: "Idea que ha d'aparèixer a la resposta",
+    weight: 'Pes',
+    removeKeyPoint: 'Eliminar punt clau',
+    addKeyPoint: 'Afegir punt clau',
+    regenerateError: "No s'ha pogut regenerar la pregunta. Torna-ho a provar.",
+    empty: 'No queda cap pregunta.',
+    ungrounded: 'Cita no verificada',
+    ungroundedHint: 'La cita no apareix al document',
+    moveUp: 'Pujar',
+    moveDown: 'Baixar',
+    regenerate: 'Regenerar amb IA',
+    noDocument: 'No hi ha cap document per regenerar',
+    delete: 'Eliminar',
+    withErrors: (count: number) => `${count} amb errors`,
+    start: (count: number) => `Començar l'Examen (${count})`,
+  },
+  test: {
+    resultsTitle: "Resultats de l'Examen",
+    completed: 'Examen Completat!',
+    needsImprovement: 'Has de millorar!',
+    perfect: 'Perfecte!',
+    points: 'Punts',
+    correct: 'Encerts',
+    wrong: 'Errors',
+    hideBreakdown: 'Amagar el detall',
+    showBreakdown: 'Veure el detall de les respostes',
+    answersSummary: 'Resum de les Respostes',
+    yourAnswer: 'La teva Resposta',
+    correctAnswer: 'Resposta Correcta',
+    newExam: 'Examen Nou',
+    progress: (current: number, total: number) => `Pregunta: ${current}/${total}`,
+    explanation: 'Explicació',
+    quoteNotFound: "Aquesta cita no s'ha trobat al document",
+    submit: 'Respondre',
+    questionPoints: (points: string) => `${points} p.`,
+  },
+  cloze: {
+    completed: 'Repàs Completat!',
+    progress: (current: number, total: number) => `Targeta ${current} de ${total}`,
+    finishHint: 'Acabar el repàs',
+    keywords: 'Paraules Clau',
+  },
+  open: {
+    noAnswer: 'Sense resposta',
+    evaluationError: 'Error en avaluar amb IA.',
+    completed: 'Avaluació Completa',
+    tryAgain: 'Torna-ho a provar!',
+    result: (points: string, total: number) => `Has obtingut ${points} punts de ${total}.`,
+    answersDetail: 'Detall de les Respostes',
+    yourAnswer: 'La teva resposta',
+    idealAnswer: 'Resposta Ideal',
+    progress: (current: number, total: number) => `PREGUNTA ${current} DE ${total}`,
+    points: (points: string) => `PUNTS: ${points}`,
+    placeholder: 'Escriu la teva resposta aquí (màx. 1 paràgraf) o deixa-ho en blanc per veure la solució...',
+    correct: 'Correcte / Suficient',
+    incorrect: 'Incorrecte / Insuficient',
+    modelAnswer: 'Resposta Model',
+    check: 'Comprovar',
+    showAnswer: 'Veure la Resposta',
+    keyPoints: 'Punts clau',
+    covered: 'cobert',
+    missed: 'no cobert',
+    weight: 'Nota del punt clau · pes',
+    score: (score: string) => `${score}/10`,
+    dictate: 'Dictar la resposta',
+    stopDictation: 'Acabar el dictat',
+    listening: 'Escoltant… digues la teva resposta',
+    dictationError: "No s'ha pogut fer servir el micròfon per dictar la resposta.",
+    dictationErrors: {
+      NOT_SUPPORTED: 'El dictat no està disponible en aquest navegador.',
+      MIC_DENIED: 'No hi ha permís per fer servir el micròfon.',
+      NO_MICROPHONE: "No s'ha trobat cap micròfon disponible.",
+      RECOGNITION_FAILED: 'El reconeixement de veu ha fallat.',
+      TRANSCRIPTION_FAILED: "No s'ha pogut transcriure la gravació.",
+    },
+    heuristic: 'Correcció heurística',
+    heuristicHint: 'Corregida sense IA comparant paraules clau amb la resposta model; pot no ser precisa.',
+    heuristicWholeWords: 'En aquest idioma es comparen paraules senceres, sense arrels ni sinònims.',
+    heuristicFeedback: (covered: string[], missed: string[]) =>
+      [covered.length > 0 && `Esmentes: ${covered.join('; ')}.`, missed.length > 0 && `Et falta: ${missed.join('; ')}.`].filter(Boolean).join(' '),
+  },
+  study: {
+    saveError: "No s'ha pogut desar el repàs.",
+    done: 'Repàs del dia completat!',
+    reviewed: (count: number) => `Has repassat ${count} targetes.`,
+    nothingDue: 'Avui no tens targetes pendents.',
+    progress: (pending: number, reviewed: number) => `Pendents: ${pending} · Repassades: ${reviewed}`,
+    finishHint: 'Acabar el repàs',
+    newCard: 'Nova',
+    kinds: { cloze: 'Buits', open: 'Oberta' },
+  },
+  grades: { AGAIN: 'Una altra vegada', HARD: 'Difícil', GOOD: 'Bé', EASY: 'Fàcil' },
+  export: {
+    title: 'Exportar a Moodle / LMS / Anki',
+    error: "Error en exportar l'examen.",
+    inexactScoring: (count: number) => `En aquest format, ${count} pregunta(es) amb diverses respostes correctes donaran punts parcials en lloc de tot o res, com a l'examen. Vols exportar igualment?`,
+  },
+  paper: {
+    hint: 'Imprimir variants en paper amb full de respostes i plantilles de correcció',
+    title: 'Examen en paper',
+    printTab: 'Imprimir',
+    gradeTab: 'Corregir fulls',
+    variants: 'Variants',
+    shuffleQuestions: 'Barrejar preguntes',
+    shuffleOptions: 'Barrejar opcions',
+    seed: 'Sèrie',
+    seedHint: 'Amb la mateixa sèrie es tornen a obtenir les mateixes variants',
+    newSeed: 'Sèrie nova',
+    exams: 'Exàmens i fulls de respostes',
+    keys: 'Plantilles de correcció',
+    print: 'Imprimir / PDF',
+    download: 'Descarregar HTML',
+    pdfHint: "Per obtenir un PDF, tria «Desa com a PDF» al diàleg d'impressió.",
+    error: "No s'ha pogut preparar l'examen en paper.",
+    tooManyOptions: (max: number) => `El full de respostes admet com a màxim ${max} opcions per pregunta.`,
+    tooManyQuestions: (max: number, options: number) => `El full de respostes admet com a màxim ${max} preguntes de ${options} opcions.`,
+    sheet: {
+      name: 'Nom i cognoms',
+      date: 'Data',
+      group: 'Grup',
+      variant: 'Variant',
+      series: 'Sèrie',
+      studentId: "Núm. d'estudiant",
+      answerSheet: 'Full de respostes',
+      answerKey: 'Plantilla de correcció',
+      instructions: 'Marca les respostes al full de respostes: només es corregeix el full.',
+      multipleCorrect: "Algunes preguntes poden tenir més d'una resposta correcta; marca-les totes.",
+      scoring: (correct: string, wrong: string) => `Correcta: ${correct} p. · Incorrecta: ${wrong} p. · En blanc: 0 p.`,
+      points: (correct: string, wrong: string | null) => (wrong ? `(${correct} / ${wrong} p.)` : `(${correct} p.)`),
+      partialScoring: (floor: boolean) => `Cada opció correcta marcada suma la seva part del punt i cada incorrecta resta · En blanc: 0 p. · Mínim per pregunta: ${floor ? '0' : '-1'} p.`,
+      guessingScoring: 'Correcta: 1 p. · Incorrecta: -1/(n-1) p. amb n opcions · En blanc: 0 p.',
+      fillHint: 'Omple del tot el cercle amb bolígraf negre o blau i no facis cap altra marca al full.',
+      question: 'Pregunta',
+      answer: 'Resposta',
+      original: 'Núm. original',
+      grade: (total: number) => `Nota = punts × 10 / ${total}`,
+    },
+  },
+  grading: {
+    hint: 'Puja fotos o escanejats (imatges o PDF) dels fulls de respostes emplenats. Es corregeixen amb la sèrie i les opcions de dalt, que han de ser les de la impressió.',
+    upload: 'Afegir fotos o escanejats',
+    reading: 'Llegint...',
+    file: 'Fitxer',
+    studentId: "Núm. d'estudiant",
+    variant: 'Variant',
+    correct: 'Encerts',
+    wrong: 'Errors',
+    blank: 'En blanc',
+    points: 'Punts',
+    grade: 'Nota',
+    answers: 'Respostes',
+    doubtful: (questions: string) => `Marques dubtoses a les preguntes ${questions}`,
+    remove: 'Treure',
+    exportCsv: 'Exportar CSV',
+    readError: "No s'ha pogut llegir el full.",
+    errors: {
+      CORNERS_NOT_FOUND: "No s'han trobat les quatre marques de les cantonades. Fotografia el full sencer, sense retallar i amb bona llum.",
+      CORNERS_MISMATCH: 'Les marques de les cantonades no coincideixen. Fotografia el full sencer sobre un fons clar.',
+      CORNERS_ALIGNED: 'Les marques de les cantonades estan alineades.',
+      WRONG_PROPORTIONS: 'Les marques trobades no tenen les proporcions del full de respostes.',
+    },
+    average: (grade: string, count: number) => `Mitjana: ${grade} (${count} fulls)`,
+  },
+  progress: {
+    defaultProfile: 'Estudiant',
+    openHint: 'Veure el meu progrés',
+    title: 'El meu progrés',
+    profile: 'Perfil',
+    newProfile: 'Perfil nou',
+    newProfilePrompt: 'Nom del perfil nou:',
+    renameProfile: 'Canviar el nom del perfil',
+    renamePrompt: 'Nom nou del perfil:',
+    deleteProfile: 'Eliminar el perfil',
+    deleteConfirm: (name: string) => `Vols eliminar el perfil "${name}" i tot el seu historial?`,
+    saveError: "No s'ha pogut desar el perfil.",
+    empty: "Encara no hi ha intents registrats. Acaba un examen de test o de preguntes obertes per començar a veure el teu progrés.",
+    attempts: 'Intents',
+    accuracy: 'Encert',
+    averageTime: 'Temps per pregunta',
+    streak: 'Ratxa',
+    days: (count: number) => `${count} ${count === 1 ? 'dia' : 'dies'}`,
+    longestStreak: (count: number) => `Millor ratxa: ${count}`,
+    trend: "Evolució de l'encert",
+    difficulty: 'Progressió de dificultat',
+    weakDocuments: 'Documents més fluixos',
+    weakPages: 'Pàgines més fluixes',
+    page: (document: string, page: number) => `${document} · Pàg. ${page}`,
+    noWeakSpots: "Cap error amb document d'origen.",
+    recent: 'Darrers intents',
+  },
+  practice: {
+    start: 'Practicar punts febles',
+    startHint: 'Preguntes noves sobre les pàgines i conceptes que més falles, amb la dificultat ajustada a les teves respostes',
+    label: 'Pràctica',
+    title: 'Pràctica de punts febles',
+    currentLevel: (level: string) => `El teu nivell estimat: ${level}`,
+    levelHint: "La dificultat s'ajusta a les teves respostes",
+    nothingToPractice: "No hi ha errors amb pàgina d'origen en cap examen desat que es pugui practicar.",
+    preparing: 'Preparant preguntes al teu nivell...',
+    generationError: "No s'han pogut generar preguntes de pràctica.",
+    noAnswers: 'No has respost cap pregunta.',
+    completed: 'Pràctica completada',
+    result: (correct: number, total: number) => `${correct} de ${total} preguntes correctes.`,
+    nextLevel: (level: string) => `La propera pràctica començarà al nivell ${level}.`,
+  },
+  oral: {
+    topic: (current: number, total: number) => `Tema ${current} de ${total}`,
+    followUp: (current: number, total: number) => `Repregunta ${current} de ${total}`,
+    examiner: 'Examinador',
+    repeat: 'Repetir la pregunta',
+    placeholder: 'Respon en veu alta o escriu la teva resposta...',
+    submit: 'Respondre',
+    thinking: "L'examinador està pensant...",
+    grading: (done: number, total: number) => `Corregint respostes... (${done}/${total})`,
+    completed: 'Examen oral completat',
+    transcript: 'Transcripció',
+    noTurns: 'No has respost cap pregunta.',
+  },
+  speech: {
+    option: (number: number, text: string) => `Opció ${number}: ${text}`,
+    voiceSample: 'Hola, aquesta és una mostra de la veu seleccionada per llegir les preguntes.',
+    correct: 'Correcte.',
+    incorrect: 'Incorrecte.',
+  },
+};
@@ -0,0 +1,430 @@
+import type { Messages } from './es';
+
+export const en: Messages = {
+  common: {
+    examTypes: { TEST: 'Test', CLOZE_FLASHCARD: 'Flashcards', OPEN_FLASHCARD: 'Open' },
+    finish: 'Finish',
+    finishExamHint: 'Finish the exam and see the results',
+    next: 'Next',
+    previous: 'Previous',
+    back: 'Back',
+    restart: 'Restart',
+    print: 'Print',
+    read: 'Read',
+    stop: 'STOP',
+    pause: 'PAUSE',
+    resume: 'RESUME',
+    showSolution: 'Show Solution',
+    source: 'Source',
+    finalGrade: 'Final Grade',
+    outOfTen: 'out of 10',
+    timedOut: 'Time is up',
+    loading: 'Loading...',
+    startExam: 'Start Exam',
+  },
+  app: {
+    untitledExam: 'Untitled exam',
+    generatingTest: 'Generating multiple-choice questions...',
+    generatingCloze: 'Creating flashcards and visuals...',
+    generatingOpen: 'Writing open questions...',
+    generationError: 'Could not generate the exam. Please check your API key or try again.',
+    fullScreen: 'Full screen',
+    exitFullScreen: 'Exit full screen',
+    darkMode: 'Dark mode',
+    interfaceLanguage: 'Interface language',
+    heroTitle: 'Exams from PDF',
+    heroHighlight: 'with Artificial Intelligence',
+    heroSubtitle: 'Upload your document and create tests, flashcards and assessments instantly.',
+    analyzing: 'Analyzing documents...',
+    processing: 'Processing content with AI...',
+  },
+  upload: {
+    analyzingFile: (fileName: string) => `Analyzing ${fileName}...`,
+    analyzingPage: (fileName: string, page: number, total?: number) => `Analyzing ${fileName} (p. ${page}/${total})...`,
+    ocrProgress: (fileName: string, page: number, total: number | undefined, percent: number) =>
+      `Recognizing scanned text (OCR) in ${fileName}, p. ${page}/${total}: ${percent}%`,
+    noText: 'No text could be extracted, not even with optical character recognition (OCR).',
+    analysisError: 'Error analyzing the documents.',
+    unsupported: (fileName: string, formats: string) => `The file ${fileName} is not in a supported format (${formats}).`,
+    addMore: 'Add more files',
+    title: 'Upload your documents',
+    addMoreHint: 'Drag or click to add',
+    formatsHint: 'PDF, Word, PowerPoint, EPUB, Markdown or text (multiple selection)',
+    selected: (count: number) => `Selected documents (${count})`,
+    clearAll: 'Clear all',
+    removeFile: 'Remove file',
+    analyze: (count: number) => `Analyze ${count} Documents`,
+  },
+  importBank: {
+    types: { TEST: 'Test', CLOZE_FLASHCARD: 'Fill-in-the-blank flashcards', OPEN_FLASHCARD: 'Open questions' },
+    readError: 'The file could not be read.',
+    hint: 'Use your own questions in JSON, CSV, GIFT or Moodle XML',
+    button: 'Import question bank (JSON, CSV, GIFT, Moodle XML)',
+    discard: 'Discard import',
+    skipped: (count: number) => `${count} invalid entries were skipped`,
+    noneValid: 'No valid question was found in the file.',
+    true: 'True',
+    false: 'False',
+    locations: {
+      file: 'File',
+      row: (row: number) => `Row ${row}`,
+      item: (index: number) => `Item ${index}`,
+      question: (index: number) => `Question ${index}`,
+      questionAtLine: (index: number, line: number) => `Question ${index} (line ${line})`,
+    },
+    errors: {
+      INVALID_JSON: (detail: string) => `Invalid JSON: ${detail}`,
+      NOT_A_BANK: 'Expected a list of questions or an object with testQuestions, clozeCards or openQuestions.',
+      NO_ITEM_LISTS: 'No testQuestions, clozeCards or openQuestions were found.',
+      NOT_AN_OBJECT: 'The entry is not an object.',
+      UNKNOWN_KIND: 'The question type is not recognised.',
+      UNSUPPORTED_TYPE: (type: string) => `Unsupported question type: "${type}".`,
+      EMPTY_CSV: 'The CSV is empty.',
+      MISSING_COLUMNS: 'The header must include a "question"/"pregunta" or "fullText"/"texto" column.',
+      MISSING_ANSWERS: 'The answer block {...} is missing.',
+      UNSUPPORTED_GIFT_QUESTION: 'Numerical and matching questions are not supported.',
+      NO_GIFT_QUESTIONS: 'No GIFT questions were found.',
+      INVALID_MOODLE_XML: 'Invalid XML: a Moodle <quiz> document was expected.',
+      NO_MOODLE_QUESTIONS: 'The XML contains no questions.',
+      UNSUPPORTED_FORMAT: (accepted: string) => `Unsupported format. Use one of: ${accepted}`,
+    },
+  },
+  validation: {
+    MISSING_QUESTION: 'The question text is missing.',
+    EMPTY_OPTION: 'Some options are empty.',
+    TOO_FEW_OPTIONS: 'At least 2 options are needed.',
+    NO_CORRECT_OPTION: 'No correct option has been marked.',
+    CORRECT_OUT_OF_RANGE: (optionCount: number) => `Correct answer index out of range (there are ${optionCount} options).`,
+    MISSING_TEXT: 'The card text is missing.',
+    NO_HIDDEN_WORDS: 'The card has no hidden words.',
+    HIDDEN_WORD_NOT_IN_TEXT: (word: string) => `The hidden word "${word}" does not appear in the text.`,
+    MISSING_MODEL_ANSWER: 'The model answer is missing.',
+  },
+  library: {
+    deleteConfirm: (title: string) => `Delete "${title}" from the library?`,
+    deleteError: 'The exam could not be deleted.',
+    title: (count: number) => `My saved exams (${count})`,
+    dailyReviewHint: 'Review the due cards from every deck',
+    dailyReview: (count: number) => `Daily review (${count})`,
+    details: (type: string, items: number, documents: number, date: string) => `${type} · ${items} items · ${documents} documents · ${date}`,
+    retakeHint: 'Retake this exam without generating it again',
+    retake: 'Retake',
+    editHint: 'Review and edit the questions',
+    openHint: 'Open the documents and set up a new exam',
+    deleteHint: 'Delete from the library',
+  },
+  settings: {
+    title: 'Exam Settings',
+    examLanguage: 'Exam language',
+    examLanguageHint: 'Questions are generated in this language even when the documents are written in another one',
+    difficulty: 'Difficulty',
+    difficulties: { EASY: 'Easy', MEDIUM: 'Medium', HARD: 'Hard' },
+    questions: (count: number) => `Questions: ${count}`,
+    distribution: 'Distribution',
+    manual: '(manual)',
+    byPages: '(by pages)',
+    reset: 'Reset',
+    documentQuestionsHint: 'Questions from this document',
+    options: 'Options',
+    multipleCorrect: 'Multiple answers',
+    negativeMarking: 'Penalize mistakes',
+    scoring: 'Scoring',
+    scoringSchemes: {
+      ALL_OR_NOTHING: 'All or nothing',
+      PROPORTIONAL: 'Proportional',
+      PROPORTIONAL_PENALTY: 'Proportional with penalty',
+      GUESSING_CORRECTION: 'Guessing correction',
+    },
+    scoringHints: {
+      ALL_OR_NOTHING: 'Only the exact answer scores.',
+      PROPORTIONAL: 'Each correct option adds its share and each wrong one takes it away; never below 0.',
+      PROPORTIONAL_PENALTY: 'Like proportional, but a question can cost up to 1 point.',
+      GUESSING_CORRECTION: 'A wrong answer costs 1/(n-1) with n options, so guessing does not pay off.',
+    },
+    wrongPenalty: 'Penalty per mistake',
+    regenerateUngrounded: 'Regenerate unverified quotes',
+    regenerateUngroundedHint: 'Questions whose quote is not found in the document are generated again',
+    blanks: (count: number) => `Blanks: ${count}`,
+    benevolence: 'Leniency',
+    benevolenceLevels: { STRICT: 'Strict', NORMAL: 'Normal', BENEVOLENT: 'Lenient' },
+    offlineGrading: 'Grade offline',
+    offlineGradingHint: 'Grades answers in the browser by comparing keywords with the model answer, without AI. Less accurate; also used when the AI does not respond.',
+    oralExam: 'Oral exam',
+    oralExamHint: 'The examiner reads each question aloud, listens to your answer and asks up to two follow-up questions on the same page. Everything is graded at the end.',
+    autoRead: 'Auto Read',
+    speechRate: (rate: string) => `Speed: ${rate}×`,
+    speechPitch: (pitch: string) => `Pitch: ${pitch}`,
+    readExplanation: 'Read explanation',
+    readExplanationHint: 'After each answer, reads aloud whether it was right and the explanation or the grading.',
+    voice: 'Reading Voice',
+    loadingVoices: 'Loading voices...',
+    previewVoice: 'Listen to a voice sample',
+    summary: 'Summary',
+    showSource: 'Show Source',
+    reviewBeforeExam: 'Review before starting',
+    reviewBeforeExamHint: 'Edit, reorder or regenerate the questions before starting',
+    timeLimit: 'Limit (s)',
+    noTimeLimit: '0 = No limit',
+    documents: (count: number) => `Documents (${count})`,
+    selectedPages: (ranges: string) => `Pp. ${ranges}`,
+    questionCount: (count: number) => `${count} questions`,
+  },
+  preview: {
+    selectDocument: 'Select a document to preview it',
+    noTextOnPage: 'No text on this page',
+    pageAlt: (page: number) => `Page ${page}`,
+    pageOf: (page: number, total: number) => `Page ${page} of ${total}`,
+    loadingPage: 'Loading page...',
+    loadError: 'Could not be loaded',
+    previewError: 'The preview could not be loaded',
+    pagesForExam: 'Pages for the exam',
+    useWholeDocument: 'Use the whole document',
+    rangesPlaceholder: (total: number) => `All (1-${total}). E.g.: 1-3, 7`,
+    rangesError: (total: number) => `Use ranges such as "1-3, 7, 10-12" between 1 and ${total}.`,
+    chapters: 'Chapters',
+    goToFirstPage: 'Go to the first page',
+    pages: (start: number, end: number) => (start === end ? `p. ${start}` : `pp. ${start}-${end}`),
+  },
+  review: {
+    title: (count: number) => `Question review (${count})`,
+    statement: 'Question',
+    optionsHint: 'Options (tick the correct ones)',
+    correctAnswer: 'Correct answer',
+    removeOption: 'Remove option',
+    addOption: 'Add option',
+    explanation: 'Explanation',
+    quote: 'Quote from the document',
+    text: 'Text',
+    hiddenWords: 'Hidden words',
+    removeWord: 'Remove',
+    hiddenWordPlaceholder: 'Word from the text to hide',
+    addHiddenWord: 'Add hidden word',
+    preview: 'Preview',
+    question: 'Question',
+    modelAnswer: 'Model answer',
+    rubric: 'Rubric (key points and weight)',
+    keyPointPlaceholder: 'Idea the answer should contain',
+    weight: 'Weight',
+    removeKeyPoint: 'Remove key point',
+    addKeyPoint: 'Add key point',
+    regenerateError: 'The question could not be regenerated. Please try again.',
+    empty: 'There are no questions left.',
+    ungrounded: 'Unverified quote',
+    ungroundedHint: 'The quote is not found in the document',
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    regenerate: 'Regenerate with AI',
+    noDocument: 'No document to regenerate from',
+    delete: 'Delete',
+    withErrors: (count: number) => `${count} with errors`,
+    start: (count: number) => `Start Exam (${count})`,
+  },
+  test: {
+    resultsTitle: 'Exam Results',
+    completed: 'Exam Completed!',
+    needsImprovement: 'Room for improvement!',
+    perfect: 'Perfect!',
+    points: 'Points',
+    correct: 'Correct',
+    wrong: 'Wrong',
+    hideBreakdown: 'Hide detailed breakdown',
+    showBreakdown: 'Show detailed breakdown of answers',
+    answersSummary: 'Answer Summary',
+    yourAnswer: 'Your Answer',
+    correctAnswer: 'Correct Answer',
+    newExam: 'New Exam',
+    progress: (current: number, total: number) => `Question: ${current}/${total}`,
+    explanation: 'Explanation',
+    quoteNotFound: 'This quote was not found in the document',
+    submit: 'Submit',
+    questionPoints: (points: string) => `${points} pt`,
+  },
+  cloze: {
+    completed: 'Review Completed!',
+    progress: (current: number, total: number) => `Card ${current} of ${total}`,
+    finishHint: 'Finish review',
+    keywords: 'Keywords',
+  },
+  open: {
+    noAnswer: 'No answer',
+    evaluationError: 'Error evaluating with AI.',
+    completed: 'Assessment Complete',
+    tryAgain: 'Try again!',
+    result: (points: string, total: number) => `You scored ${points} points out of ${total}.`,
+    answersDetail: 'Answer Details',
+    yourAnswer: 'Your answer',
+    idealAnswer: 'Ideal Answer',
+    progress: (current: number, total: number) => `QUESTION ${current} OF ${total}`,
+    points: (points: string) => `POINTS: ${points}`,
+    placeholder: 'Write your answer here (max. 1 paragraph) or leave it blank to see the solution...',
+    correct: 'Correct / Sufficient',
+    incorrect: 'Incorrect / Insufficient',
+    modelAnswer: 'Model Answer',
+    check: 'Check',
+    showAnswer: 'Show Answer',
+    keyPoints: 'Key points',
+    covered: 'covered',
+    missed: 'missed',
+    weight: 'Key point score · weight',
+    score: (score: string) => `${score}/10`,
+    dictate: 'Dictate answer',
+    stopDictation: 'Stop dictation',
+    listening: 'Listening… say your answer',
+    dictationError: 'The microphone could not be used to dictate the answer.',
+    dictationErrors: {
+      NOT_SUPPORTED: 'Dictation is not available in this browser.',
+      MIC_DENIED: 'There is no permission to use the microphone.',
+      NO_MICROPHONE: 'No available microphone was found.',
+      RECOGNITION_FAILED: 'Speech recognition failed.',
+      TRANSCRIPTION_FAILED: 'The recording could not be transcribed.',
+    },
+    heuristic: 'Heuristic grading',
+    heuristicHint: 'Graded without AI by comparing keywords with the model answer; it may be inaccurate.',
+    heuristicWholeWords: 'In this language whole words are compared, without stems or synonyms.',
+    heuristicFeedback: (covered: string[], missed: string[]) =>
+      [covered.length > 0 && `You mention: ${covered.join('; ')}.`, missed.length > 0 && `Missing: ${missed.join('; ')}.`].filter(Boolean).join(' '),
+  },
+  study: {
+    saveError: 'The review could not be saved.',
+    done: 'Daily review completed!',
+    reviewed: (count: number) => `You have reviewed ${count} cards.`,
+    nothingDue: 'You have no cards due today.',
+    progress: (pending: number, reviewed: number) => `Due: ${pending} · Reviewed: ${reviewed}`,
+    finishHint: 'Finish review',
+    newCard: 'New',
+    kinds: { cloze: 'Blanks', open: 'Open' },
+  },
+  grades: { AGAIN: 'Again', HARD: 'Hard', GOOD: 'Good', EASY: 'Easy' },
+  export: {
+    title: 'Export to Moodle / LMS / Anki',
+    error: 'Error exporting the exam.',
+    inexactScoring: (count: number) => `In this format, ${count} question(s) with several correct answers will give partial credit instead of all or nothing, as in the exam. Export anyway?`,
+  },
+  paper: {
+    hint: 'Print paper variants with answer sheets and answer keys',
+    title: 'Paper exam',
+    printTab: 'Print',
+    gradeTab: 'Grade sheets',
+    variants: 'Variants',
+    shuffleQuestions: 'Shuffle questions',
+    shuffleOptions: 'Shuffle options',
+    seed: 'Series',
+    seedHint: 'The same series always produces the same variants',
+    newSeed: 'New series',
+    exams: 'Exams and answer sheets',
+    keys: 'Answer keys',
+    print: 'Print / PDF',
+    download: 'Download HTML',
+    pdfHint: 'To get a PDF, choose "Save as PDF" in the print dialog.',
+    error: 'The paper exam could not be prepared.',
+    tooManyOptions: (max: number) => `The answer sheet allows at most ${max} options per question.`,
+    tooManyQuestions: (max: number, options: number) => `The answer sheet allows at most ${max} questions with ${options} options.`,
+    sheet: {
+      name: 'Full name',
+      date: 'Date',
+      group: 'Group',
+      variant: 'Variant',
+      series: 'Series',
+      studentId: 'Student no.',
+      answerSheet: 'Answer sheet',
+      answerKey: 'Answer key',
+      instructions: 'Mark your answers on the answer sheet: only the sheet is graded.',
+      multipleCorrect: 'Some questions may have more than one correct answer; mark all of them.',
+      scoring: (correct: string, wrong: string) => `Correct: ${correct} pt · Wrong: ${wrong} pt · Blank: 0 pt`,
+      points: (correct: string, wrong: string | null) => (wrong ? `(${correct} / ${wrong} pt)` : `(${correct} pt)`),
+      partialScoring: (floor: boolean) => `Each correct option marked adds its share of the point and each wrong one takes it away · Blank: 0 pt · Minimum per question: ${floor ? '0' : '-1'} pt`,
+      guessingScoring: 'Correct: 1 pt · Wrong: -1/(n-1) pt with n options · Blank: 0 pt',
+      fillHint: 'Fill the circle completely with a black or blue pen and make no other marks on the sheet.',
+      question: 'Question',
+      answer: 'Answer',
+      original: 'Original no.',
+      grade: (total: number) => `Grade = points × 10 / ${total}`,
+    },
+  },
+  grading: {
+    hint: 'Upload photos or scans (images or PDF) of the filled answer sheets. They are graded with the series and options above, which must match the printed ones.',
+    upload: 'Add photos or scans',
+    reading: 'Reading...',
+    file: 'File',
+    studentId: 'Student no.',
+    variant: 'Variant',
+    correct: 'Correct',
+    wrong: 'Wrong',
+    blank: 'Blank',
+    points: 'Points',
+    grade: 'Grade',
+    answers: 'Answers',
+    doubtful: (questions: string) => `Unclear marks in questions ${questions}`,
+    remove: 'Remove',
+    exportCsv: 'Export CSV',
+    readError: 'The sheet could not be read.',
+    errors: {
+      CORNERS_NOT_FOUND: 'The four corner marks were not found. Photograph the whole sheet, uncropped and in good light.',
+      CORNERS_MISMATCH: 'The corner marks do not match. Photograph the whole sheet on a light background.',
+      CORNERS_ALIGNED: 'The corner marks are aligned.',
+      WRONG_PROPORTIONS: 'The marks found do not have the proportions of the answer sheet.',
+    },
+    average: (grade: string, count: number) => `Average: ${grade} (${count} sheets)`,
+  },
+  progress: {
+    defaultProfile: 'Student',
+    openHint: 'See my progress',
+    title: 'My progress',
+    profile: 'Profile',
+    newProfile: 'New profile',
+    newProfilePrompt: 'Name of the new profile:',
+    renameProfile: 'Rename profile',
+    renamePrompt: 'New profile name:',
+    deleteProfile: 'Delete profile',
+    deleteConfirm: (name: string) => `Delete the profile "${name}" and all its history?`,
+    saveError: 'The profile could not be saved.',
+    empty: 'No attempts recorded yet. Finish a multiple-choice or open-question exam to start tracking your progress.',
+    attempts: 'Attempts',
+    accuracy: 'Accuracy',
+    averageTime: 'Time per question',
+    streak: 'Streak',
+    days: (count: number) => `${count} ${count === 1 ? 'day' : 'days'}`,
+    longestStreak: (count: number) => `Best streak: ${count}`,
+    trend: 'Accuracy over time',
+    difficulty: 'Difficulty progression',
+    weakDocuments: 'Weakest documents',
+    weakPages: 'Weakest pages',
+    page: (document: string, page: number) => `${document} · p. ${page}`,
+    noWeakSpots: 'No mistakes with a source document.',
+    recent: 'Latest attempts',
+  },
+  practice: {
+    start: 'Practise weak spots',
+    startHint: 'New questions on the pages and concepts you miss most, with the difficulty adjusted to your answers',
+    label: 'Practice',
+    title: 'Weak-spot practice',
+    currentLevel: (level: string) => `Your estimated level: ${level}`,
+    levelHint: 'The difficulty adjusts to your answers',
+    nothingToPractice: 'There are no mistakes with a source page in any saved exam to practise.',
+    preparing: 'Preparing questions at your level...',
+    generationError: 'The practice questions could not be generated.',
+    noAnswers: 'You did not answer any question.',
+    completed: 'Practice completed',
+    result: (correct: number, total: number) => `${correct} of ${total} questions right.`,
+    nextLevel: (level: string) => `Your next practice will start at ${level} level.`,
+  },
+  oral: {
+    topic: (current: number, total: number) => `Topic ${current} of ${total}`,
+    followUp: (current: number, total: number) => `Follow-up ${current} of ${total}`,
+    examiner: 'Examiner',
+    repeat: 'Repeat the question',
+    placeholder: 'Answer aloud or type your answer...',
+    submit: 'Answer',
+    thinking: 'The examiner is thinking...',
+    grading: (done: number, total: number) => `Grading answers... (${done}/${total})`,
+    completed: 'Oral exam completed',
+    transcript: 'Transcript',
+    noTurns: 'You did not answer any question.',
+  },
+  speech: {
+    option: (number: number, text: string) => `Option ${number}: ${text}`,
+    voiceSample: 'Hello, this is a sample of the voice selected to read the questions.',
+    correct: 'Correct.',
+    incorrect: 'Incorrect.',
+  },
+};
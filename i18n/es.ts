@@ -0,0 +1,434 @@
+// Spanish is the reference catalog: the other languages must provide the same keys
+export const es = {
+  common: {
+    examTypes: { TEST: 'Test', CLOZE_FLASHCARD: 'Flashcards', OPEN_FLASHCARD: 'Abierta' },
+    finish: 'Terminar',
+    finishExamHint: 'Terminar examen y ver resultados',
+    next: 'Siguiente',
+    previous: 'Anterior',
+    back: 'Volver',
+    restart: 'Reiniciar',
+    print: 'Imprimir',
+    read: 'Leer',
+    stop: 'PARAR',
+    pause: 'PAUSA',
+    resume: 'SEGUIR',
+    showSolution: 'Ver Solución',
+    source: 'Fuente',
+    finalGrade: 'Nota Final',
+    outOfTen: 'sobre 10',
+    timedOut: 'Tiempo agotado',
+    loading: 'Cargando...',
+    startExam: 'Comenzar Examen',
+  },
+  app: {
+    untitledExam: 'Examen sin título',
+    generatingTest: 'Generando preguntas de tipo test...',
+    generatingCloze: 'Creando tarjetas de memoria y visualizaciones...',
+    generatingOpen: 'Formulando preguntas abiertas...',
+    generationError: 'Error al generar el examen. Por favor, revisa tu API Key o inténtalo de nuevo.',
+    fullScreen: 'Pantalla completa',
+    exitFullScreen: 'Salir de pantalla completa',
+    darkMode: 'Modo oscuro',
+    interfaceLanguage: 'Idioma de la interfaz',
+    heroTitle: 'Exámenes desde PDF',
+    heroHighlight: 'con Inteligencia Artificial',
+    heroSubtitle: 'Sube tu documento y genera tests, flashcards y evaluaciones al instante.',
+    analyzing: 'Analizando documentos...',
+    processing: 'Procesando contenido con IA...',
+  },
+  upload: {
+    analyzingFile: (fileName: string) => `Analizando ${fileName}...`,
+    analyzingPage: (fileName: string, page: number, total?: number) => `Analizando ${fileName} (pág. ${page}/${total})...`,
+    ocrProgress: (fileName: string, page: number, total: number | undefined, percent: number) =>
+      `Reconociendo texto escaneado (OCR) en ${fileName}, pág. ${page}/${total}: ${percent}%`,
+    noText: 'No se pudo extraer texto, ni siquiera con reconocimiento óptico (OCR).',
+    analysisError: 'Error analizando los documentos.',
+    unsupported: (fileName: string, formats: string) => `El archivo ${fileName} no tiene un formato compatible (${formats}).`,
+    addMore: 'Añadir más archivos',
+    title: 'Sube tus documentos',
+    addMoreHint: 'Arrastra o haz clic para agregar',
+    formatsHint: 'PDF, Word, PowerPoint, EPUB, Markdown o texto (selección múltiple)',
+    selected: (count: number) => `Documentos seleccionados (${count})`,
+    clearAll: 'Limpiar todo',
+    removeFile: 'Eliminar archivo',
+    analyze: (count: number) => `Analizar ${count} Documentos`,
+  },
+  importBank: {
+    types: { TEST: 'Test', CLOZE_FLASHCARD: 'Flashcards de huecos', OPEN_FLASHCARD: 'Preguntas abiertas' },
+    readError: 'No se pudo leer el archivo.',
+    hint: 'Usa tus propias preguntas en JSON, CSV, GIFT o Moodle XML',
+    button: 'Importar banco de preguntas (JSON, CSV, GIFT, Moodle XML)',
+    discard: 'Descartar importación',
+    skipped: (count: number) => `${count} entradas no válidas se han omitido`,
+    noneValid: 'No se encontró ninguna pregunta válida en el archivo.',
+    true: 'Verdadero',
+    false: 'Falso',
+    locations: {
+      file: 'Archivo',
+      row: (row: number) => `Fila ${row}`,
+      item: (index: number) => `Elemento ${index}`,
+      question: (index: number) => `Pregunta ${index}`,
+      questionAtLine: (index: number, line: number) => `Pregunta ${index} (línea ${line})`,
+    },
+    errors: {
+      INVALID_JSON: (detail: string) => `JSON no válido: ${detail}`,
+      NOT_A_BANK: 'Se esperaba una lista de preguntas o un objeto con testQuestions, clozeCards u openQuestions.',
+      NO_ITEM_LISTS: 'No se encontró testQuestions, clozeCards ni openQuestions.',
+      NOT_AN_OBJECT: 'La entrada no es un objeto.',
+      UNKNOWN_KIND: 'No se reconoce el tipo de pregunta.',
+      UNSUPPORTED_TYPE: (type: string) => `Tipo de pregunta no soportado: "${type}".`,
+      EMPTY_CSV: 'El CSV está vacío.',
+      MISSING_COLUMNS: 'La cabecera debe incluir una columna "question"/"pregunta" o "fullText"/"texto".',
+      MISSING_ANSWERS: 'Falta el bloque de respuestas {...}.',
+      UNSUPPORTED_GIFT_QUESTION: 'Las preguntas numéricas y de emparejamiento no están soportadas.',
+      NO_GIFT_QUESTIONS: 'No se encontraron preguntas GIFT.',
+      INVALID_MOODLE_XML: 'XML no válido: se esperaba un documento <quiz> de Moodle.',
+      NO_MOODLE_QUESTIONS: 'El XML no contiene preguntas.',
+      UNSUPPORTED_FORMAT: (accepted: string) => `Formato no soportado. Usa uno de: ${accepted}`,
+    },
+  },
+  validation: {
+    MISSING_QUESTION: 'Falta el enunciado de la pregunta.',
+    EMPTY_OPTION: 'Hay opciones vacías.',
+    TOO_FEW_OPTIONS: 'Se necesitan al menos 2 opciones.',
+    NO_CORRECT_OPTION: 'No se ha indicado ninguna opción correcta.',
+    CORRECT_OUT_OF_RANGE: (optionCount: number) => `Índice de respuesta correcta fuera de rango (hay ${optionCount} opciones).`,
+    MISSING_TEXT: 'Falta el texto de la tarjeta.',
+    NO_HIDDEN_WORDS: 'La tarjeta no tiene palabras ocultas.',
+    HIDDEN_WORD_NOT_IN_TEXT: (word: string) => `La palabra oculta "${word}" no aparece en el texto.`,
+    MISSING_MODEL_ANSWER: 'Falta la respuesta modelo.',
+  },
+  library: {
+    deleteConfirm: (title: string) => `¿Eliminar "${title}" de la biblioteca?`,
+    deleteError: 'No se pudo eliminar el examen.',
+    title: (count: number) => `Mis exámenes guardados (${count})`,
+    dailyReviewHint: 'Repasar las tarjetas pendientes de todos los mazos',
+    dailyReview: (count: number) => `Repaso diario (${count})`,
+    details: (type: string, items: number, documents: number, date: string) => `${type} · ${items} items · ${documents} documentos · ${date}`,
+    retakeHint: 'Repetir este examen sin regenerarlo',
+    retake: 'Repetir',
+    editHint: 'Revisar y editar las preguntas',
+    openHint: 'Abrir documentos y configurar un examen nuevo',
+    deleteHint: 'Eliminar de la biblioteca',
+  },
+  settings: {
+    title: 'Configuración del Examen',
+    examLanguage: 'Idioma del examen',
+    examLanguageHint: 'Las preguntas se generan en este idioma aunque los documentos estén escritos en otro',
+    difficulty: 'Dificultad',
+    difficulties: { EASY: 'Fácil', MEDIUM: 'Medio', HARD: 'Difícil' },
+    questions: (count: number) => `Preguntas: ${count}`,
+    distribution: 'Distribución',
+    manual: '(manual)',
+    byPages: '(por páginas)',
+    reset: 'Restablecer',
+    documentQuestionsHint: 'Preguntas de este documento',
+    options: 'Opciones',
+    multipleCorrect: 'Multi-respuesta',
+    negativeMarking: 'Restar fallos',
+    scoring: 'Puntuación',
+    scoringSchemes: {
+      ALL_OR_NOTHING: 'Todo o nada',
+      PROPORTIONAL: 'Proporcional',
+      PROPORTIONAL_PENALTY: 'Proporcional con penalización',
+      GUESSING_CORRECTION: 'Corrección del azar',
+    },
+    scoringHints: {
+      ALL_OR_NOTHING: 'Solo puntúa la respuesta exacta.',
+      PROPORTIONAL: 'Cada opción correcta suma su parte y cada incorrecta resta; nunca por debajo de 0.',
+      PROPORTIONAL_PENALTY: 'Como la proporcional, pero una pregunta puede restar hasta 1 punto.',
+      GUESSING_CORRECTION: 'Un fallo resta 1/(n-1) con n opciones, así contestar al azar no compensa.',
+    },
+    wrongPenalty: 'Resta por fallo',
+    regenerateUngrounded: 'Regenerar citas no verificadas',
+    regenerateUngroundedHint: 'Las preguntas cuya cita no aparece en el documento se generan de nuevo',
+    blanks: (count: number) => `Huecos: ${count}`,
+    benevolence: 'Benevolencia',
+    benevolenceLevels: { STRICT: 'Estricto', NORMAL: 'Normal', BENEVOLENT: 'Benevolente' },
+    offlineGrading: 'Corregir sin conexión',
+    offlineGradingHint: 'Corrige las respuestas en el navegador comparando palabras clave con la respuesta modelo, sin IA. Menos preciso; también se usa si la IA no responde.',
+    oralExam: 'Examen oral',
+    oralExamHint: 'El examinador lee cada pregunta en voz alta, escucha tu respuesta y hace hasta dos preguntas de seguimiento sobre la misma página. Se corrige todo al final.',
+    autoRead: 'Lectura Auto',
+    speechRate: (rate: string) => `Velocidad: ${rate}×`,
+    speechPitch: (pitch: string) => `Tono: ${pitch}`,
+    readExplanation: 'Leer explicación',
+    readExplanationHint: 'Tras cada respuesta, lee en voz alta si es correcta y la explicación o la corrección.',
+    voice: 'Voz de Lectura',
+    loadingVoices: 'Cargando voces...',
+    previewVoice: 'Escuchar muestra de voz',
+    summary: 'Resumen',
+    showSource: 'Mostrar Fuente',
+    reviewBeforeExam: 'Revisar antes de empezar',
+    reviewBeforeExamHint: 'Editar, reordenar o regenerar las preguntas antes de empezar',
+    timeLimit: 'Límite (s)',
+    noTimeLimit: '0 = Infinito',
+    documents: (count: number) => `Documentos (${count})`,
+    selectedPages: (ranges: string) => `Págs. ${ranges}`,
+    questionCount: (count: number) => `${count} preguntas`,
+  },
+  preview: {
+    selectDocument: 'Selecciona un documento para previsualizarlo',
+    noTextOnPage: 'Sin texto en esta página',
+    pageAlt: (page: number) => `Página ${page}`,
+    pageOf: (page: number, total: number) => `Página ${page} de ${total}`,
+    loadingPage: 'Cargando página...',
+    loadError: 'No se pudo cargar',
+    previewError: 'No se pudo cargar la vista previa',
+    pagesForExam: 'Páginas para el examen',
+    useWholeDocument: 'Usar todo el documento',
+    rangesPlaceholder: (total: number) => `Todas (1-${total}). Ej: 1-3, 7`,
+    rangesError: (total: number) => `Usa rangos como "1-3, 7, 10-12" entre 1 y ${total}.`,
+    chapters: 'Capítulos',
+    goToFirstPage: 'Ir a la primera página',
+    pages: (start: number, end: number) => (start === end ? `p. ${start}` : `p. ${start}-${end}`),
+  },
+  review: {
+    title: (count: number) => `Revisión de preguntas (${count})`,
+    statement: 'Enunciado',
+    optionsHint: 'Opciones (marca las correctas)',
+    correctAnswer: 'Respuesta correcta',
+    removeOption: 'Eliminar opción',
+    addOption: 'Añadir opción',
+    explanation: 'Explicación',
+    quote: 'Cita del documento',
+    text: 'Texto',
+    hiddenWords: 'Palabras ocultas',
+    removeWord: 'Quitar',
+    hiddenWordPlaceholder: 'Palabra del texto a ocultar',
+    addHiddenWord: 'Añadir palabra oculta',
+    preview: 'Vista previa',
+    question: 'Pregunta',
+    modelAnswer: 'Respuesta modelo',
+    rubric: 'Rúbrica (puntos clave y peso)',
+    keyPointPlaceholder: 'Idea que debe aparecer en la respuesta',
+    weight: 'Peso',
+    removeKeyPoint: 'Eliminar punto clave',
+    addKeyPoint: 'Añadir punto clave',
+    regenerateError: 'No se pudo regenerar la pregunta. Inténtalo de nuevo.',
+    empty: 'No queda ninguna pregunta.',
+    ungrounded: 'Cita no verificada',
+    ungroundedHint: 'La cita no aparece en el documento',
+    moveUp: 'Subir',
+    moveDown: 'Bajar',
+    regenerate: 'Regenerar con IA',
+    noDocument: 'Sin documento del que regenerar',
+    delete: 'Eliminar',
+    withErrors: (count: number) => `${count} con errores`,
+    start: (count: number) => `Comenzar Examen (${count})`,
+  },
+  test: {
+    resultsTitle: 'Resultados del Examen',
+    completed: '¡Examen Completado!',
+    needsImprovement: '¡Necesitas mejorar!',
+    perfect: '¡Perfecto!',
+    points: 'Puntos',
+    correct: 'Aciertos',
+    wrong: 'Fallos',
+    hideBreakdown: 'Ocultar desglose detallado',
+    showBreakdown: 'Ver desglose detallado de respuestas',
+    answersSummary: 'Resumen de Respuestas',
+    yourAnswer: 'Tu Respuesta',
+    correctAnswer: 'Respuesta Correcta',
+    newExam: 'Nuevo Examen',
+    progress: (current: number, total: number) => `Pregunta: ${current}/${total}`,
+    explanation: 'Explicación',
+    quoteNotFound: 'Esta cita no se ha encontrado en el documento',
+    submit: 'Responder',
+    questionPoints: (points: string) => `${points} p.`,
+  },
+  cloze: {
+    completed: '¡Repaso Completado!',
+    progress: (current: number, total: number) => `Tarjeta ${current} de ${total}`,
+    finishHint: 'Terminar repaso',
+    keywords: 'Palabras Clave',
+  },
+  open: {
+    noAnswer: 'Sin respuesta',
+    evaluationError: 'Error al evaluar con IA.',
+    completed: 'Evaluación Completa',
+    tryAgain: '¡Inténtalo de nuevo!',
+    result: (points: string, total: number) => `Has obtenido ${points} puntos de ${total}.`,
+    answersDetail: 'Detalle de Respuestas',
+    yourAnswer: 'Tu respuesta',
+    idealAnswer: 'Respuesta Ideal',
+    progress: (current: number, total: number) => `PREGUNTA ${current} DE ${total}`,
+    points: (points: string) => `PUNTOS: ${points}`,
+    placeholder: 'Escribe tu respuesta aquí (máx 1 párrafo) o déjalo en blanco para ver la solución...',
+    correct: 'Correcto / Suficiente',
+    incorrect: 'Incorrecto / Insuficiente',
+    modelAnswer: 'Respuesta Modelo',
+    check: 'Comprobar',
+    showAnswer: 'Ver Respuesta',
+    keyPoints: 'Puntos clave',
+    covered: 'cubierto',
+    missed: 'no cubierto',
+    weight: 'Nota del punto clave · peso',
+    score: (score: string) => `${score}/10`,
+    dictate: 'Dictar respuesta',
+    stopDictation: 'Terminar dictado',
+    listening: 'Escuchando… di tu respuesta',
+    dictationError: 'No se pudo usar el micrófono para dictar la respuesta.',
+    dictationErrors: {
+      NOT_SUPPORTED: 'El dictado no está disponible en este navegador.',
+      MIC_DENIED: 'No hay permiso para usar el micrófono.',
+      NO_MICROPHONE: 'No se encontró ningún micrófono disponible.',
+      RECOGNITION_FAILED: 'El reconocimiento de voz ha fallado.',
+      TRANSCRIPTION_FAILED: 'No se pudo transcribir la grabación.',
+    },
+    heuristic: 'Corrección heurística',
+    heuristicHint: 'Corregida sin IA comparando palabras clave con la respuesta modelo; puede no ser precisa.',
+    heuristicWholeWords: 'En este idioma se comparan palabras enteras, sin raíces ni sinónimos.',
+    heuristicFeedback: (covered: string[], missed: string[]) =>
+      [covered.length > 0 && `Mencionas: ${covered.join('; ')}.`, missed.length > 0 && `Te falta: ${missed.join('; ')}.`].filter(Boolean).join(' '),
+  },
+  study: {
+    saveError: 'No se pudo guardar el repaso.',
+    done: '¡Repaso del día completado!',
+    reviewed: (count: number) => `Has repasado ${count} tarjetas.`,
+    nothingDue: 'No tienes tarjetas pendientes por hoy.',
+    progress: (pending: number, reviewed: number) => `Pendientes: ${pending} · Repasadas: ${reviewed}`,
+    finishHint: 'Terminar repaso',
+    newCard: 'Nueva',
+    kinds: { cloze: 'Huecos', open: 'Abierta' },
+  },
+  grades: { AGAIN: 'Otra vez', HARD: 'Difícil', GOOD: 'Bien', EASY: 'Fácil' },
+  export: {
+    title: 'Exportar a Moodle / LMS / Anki',
+    error: 'Error al exportar el examen.',
+    inexactScoring: (count: number) => `En este formato, ${count} pregunta(s) con varias respuestas correctas darán puntos parciales en lugar de todo o nada, como en el examen. ¿Exportar igualmente?`,
+  },
+  paper: {
+    hint: 'Imprimir variantes en papel con hoja de respuestas y plantillas de corrección',
+    title: 'Examen en papel',
+    printTab: 'Imprimir',
+    gradeTab: 'Corregir hojas',
+    variants: 'Variantes',
+    shuffleQuestions: 'Barajar preguntas',
+    shuffleOptions: 'Barajar opciones',
+    seed: 'Serie',
+    seedHint: 'Con la misma serie se vuelven a obtener las mismas variantes',
+    newSeed: 'Nueva serie',
+    exams: 'Exámenes y hojas de respuestas',
+    keys: 'Plantillas de corrección',
+    print: 'Imprimir / PDF',
+    download: 'Descargar HTML',
+    pdfHint: 'Para obtener un PDF, elige "Guardar como PDF" en el diálogo de impresión.',
+    error: 'No se pudo preparar el examen en papel.',
+    tooManyOptions: (max: number) => `La hoja de respuestas admite como máximo ${max} opciones por pregunta.`,
+    tooManyQuestions: (max: number, options: number) => `La hoja de respuestas admite como máximo ${max} preguntas de ${options} opciones.`,
+    // Printed in the exam language
+    sheet: {
+      name: 'Nombre y apellidos',
+      date: 'Fecha',
+      group: 'Grupo',
+      variant: 'Variante',
+      series: 'Serie',
+      studentId: 'Nº de estudiante',
+      answerSheet: 'Hoja de respuestas',
+      answerKey: 'Plantilla de corrección',
+      instructions: 'Marca tus respuestas en la hoja de respuestas: solo se corrige la hoja.',
+      multipleCorrect: 'Algunas preguntas pueden tener más de una respuesta correcta; márcalas todas.',
+      scoring: (correct: string, wrong: string) => `Correcta: ${correct} p. · Incorrecta: ${wrong} p. · En blanco: 0 p.`,
+      points: (correct: string, wrong: string | null) => (wrong ? `(${correct} / ${wrong} p.)` : `(${correct} p.)`),
+      partialScoring: (floor: boolean) => `Cada opción correcta marcada suma su parte del punto y cada incorrecta resta · En blanco: 0 p. · Mínimo por pregunta: ${floor ? '0' : '-1'} p.`,
+      guessingScoring: 'Correcta: 1 p. · Incorrecta: -1/(n-1) p. con n opciones · En blanco: 0 p.',
+      fillHint: 'Rellena por completo el círculo con bolígrafo negro o azul y no hagas otras marcas en la hoja.',
+      question: 'Pregunta',
+      answer: 'Respuesta',
+      original: 'Nº original',
+      grade: (total: number) => `Nota = puntos × 10 / ${total}`,
+    },
+  },
+  grading: {
+    hint: 'Sube fotos o escaneos (imágenes o PDF) de las hojas de respuestas rellenadas. Se corrigen con la serie y las opciones de arriba, que deben ser las de la impresión.',
+    upload: 'Añadir fotos o escaneos',
+    reading: 'Leyendo...',
+    file: 'Archivo',
+    studentId: 'Nº de estudiante',
+    variant: 'Variante',
+    correct: 'Aciertos',
+    wrong: 'Fallos',
+    blank: 'En blanco',
+    points: 'Puntos',
+    grade: 'Nota',
+    answers: 'Respuestas',
+    doubtful: (questions: string) => `Marcas dudosas en las preguntas ${questions}`,
+    remove: 'Quitar',
+    exportCsv: 'Exportar CSV',
+    readError: 'No se pudo leer la hoja.',
+    errors: {
+      CORNERS_NOT_FOUND: 'No se encontraron las cuatro marcas de las esquinas. Fotografía la hoja entera, sin recortar y con buena luz.',
+      CORNERS_MISMATCH: 'Las marcas de las esquinas no coinciden. Fotografía la hoja entera sobre un fondo claro.',
+      CORNERS_ALIGNED: 'Las marcas de las esquinas están alineadas.',
+      WRONG_PROPORTIONS: 'Las marcas encontradas no tienen las proporciones de la hoja de respuestas.',
+    },
+    average: (grade: string, count: number) => `Media: ${grade} (${count} hojas)`,
+  },
+  progress: {
+    defaultProfile: 'Estudiante',
+    openHint: 'Ver mi progreso',
+    title: 'Mi progreso',
+    profile: 'Perfil',
+    newProfile: 'Nuevo perfil',
+    newProfilePrompt: 'Nombre del nuevo perfil:',
+    renameProfile: 'Renombrar perfil',
+    renamePrompt: 'Nuevo nombre del perfil:',
+    deleteProfile: 'Eliminar perfil',
+    deleteConfirm: (name: string) => `¿Eliminar el perfil "${name}" y todo su historial?`,
+    saveError: 'No se pudo guardar el perfil.',
+    empty: 'Todavía no hay intentos registrados. Termina un examen de test o de preguntas abiertas para empezar a ver tu progreso.',
+    attempts: 'Intentos',
+    accuracy: 'Acierto',
+    averageTime: 'Tiempo por pregunta',
+    streak: 'Racha',
+    days: (count: number) => `${count} ${count === 1 ? 'día' : 'días'}`,
+    longestStreak: (count: number) => `Mejor racha: ${count}`,
+    trend: 'Evolución del acierto',
+    difficulty: 'Progresión de dificultad',
+    weakDocuments: 'Documentos más flojos',
+    weakPages: 'Páginas más flojas',
+    page: (document: string, page: number) => `${document} · Pág. ${page}`,
+    noWeakSpots: 'Sin fallos con documento de origen.',
+    recent: 'Últimos intentos',
+  },
+  practice: {
+    start: 'Practicar puntos débiles',
+    startHint: 'Preguntas nuevas sobre las páginas y conceptos que más fallas, con la dificultad ajustada a tus respuestas',
+    label: 'Práctica',
+    title: 'Práctica de puntos débiles',
+    currentLevel: (level: string) => `Tu nivel estimado: ${level}`,
+    levelHint: 'La dificultad se ajusta a tus respuestas',
+    nothingToPractice: 'No hay fallos con página de origen en ningún examen guardado que se pueda practicar.',
+    preparing: 'Preparando preguntas a tu nivel...',
+    generationError: 'No se pudieron generar preguntas de práctica.',
+    noAnswers: 'No has respondido ninguna pregunta.',
+    completed: 'Práctica completada',
+    result: (correct: number, total: number) => `${correct} de ${total} preguntas correctas.`,
+    nextLevel: (level: string) => `La próxima práctica empezará en nivel ${level}.`,
+  },
+  // Oral exam simulation
+  oral: {
+    topic: (current: number, total: number) => `Tema ${current} de ${total}`,
+    followUp: (current: number, total: number) => `Repregunta ${current} de ${total}`,
+    examiner: 'Examinador',
+    repeat: 'Repetir la pregunta',
+    placeholder: 'Responde en voz alta o escribe tu respuesta...',
+    submit: 'Responder',
+    thinking: 'El examinador está pensando...',
+    grading: (done: number, total: number) => `Corrigiendo respuestas... (${done}/${total})`,
+    completed: 'Examen oral completado',
+    transcript: 'Transcripción',
+    noTurns: 'No has respondido a ninguna pregunta.',
+  },
+  // Read aloud in the exam language
+  speech: {
+    option: (number: number, text: string) => `Opción ${number}: ${text}`,
+    voiceSample: 'Hola, esta es una muestra de la voz seleccionada para la lectura de preguntas.',
+    correct: 'Correcto.',
+    incorrect: 'Incorrecto.',
+  },
+};
+
+export type Messages = typeof es;
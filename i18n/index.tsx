@@ -0,0 +1,70 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Language } from '../types';
+import { es, Messages } from './es';
+import { en } from './en';
+import { ca } from './ca';
+import { pt } from './pt';
+
+export type { Messages };
+
+// Offered both as interface and exam languages. `locale` drives dates and speech synthesis
+export const LANGUAGES: { code: Language; label: string; locale: string }[] = [
+  { code: 'es', label: 'Español', locale: 'es-ES' },
+  { code: 'en', label: 'English', locale: 'en-GB' },
+  { code: 'ca', label: 'Català', locale: 'ca-ES' },
+  { code: 'pt', label: 'Português', locale: 'pt-PT' },
+];
+
+const CATALOGS: Record<Language, Messages> = { es, en, ca, pt };
+
+const STORAGE_KEY = 'docuexam:language';
+
+const isLanguage = (value: string | null): value is Language => !!value && value in CATALOGS;
+
+// Stored choice, then the browser language, then Spanish
+const detectLanguage = (): Language => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLanguage(stored)) return stored;
+  const browser = navigator.language.slice(0, 2).toLowerCase();
+  return isLanguage(browser) ? browser : 'es';
+};
+
+// Texts outside the interface language, e.g. what is read aloud in the exam language
+export const getMessages = (language: Language = 'es'): Messages => CATALOGS[language];
+
+export const getLocale = (language: Language = 'es'): string =>
+  LANGUAGES.find(entry => entry.code === language)!.locale;
+
+interface I18nContextValue {
+  language: Language;
+  locale: string;
+  t: Messages;
+  setLanguage: (language: Language) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState<Language>(detectLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = (next: Language) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setLanguageState(next);
+  };
+
+  return (
+    <I18nContext.Provider value={{ language, locale: getLocale(language), t: CATALOGS[language], setLanguage }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useTranslation = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error('useTranslation must be used inside a LanguageProvider');
+  return context;
+};
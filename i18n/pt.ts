@@ -0,0 +1,430 @@
+import type { Messages } from './es';
+
+export const pt: Messages = {
+  common: {
+    examTypes: { TEST: 'Teste', CLOZE_FLASHCARD: 'Flashcards', OPEN_FLASHCARD: 'Aberta' },
+    finish: 'Terminar',
+    finishExamHint: 'Terminar o exame e ver os resultados',
+    next: 'Seguinte',
+    previous: 'Anterior',
+    back: 'Voltar',
+    restart: 'Reiniciar',
+    print: 'Imprimir',
+    read: 'Ler',
+    stop: 'PARAR',
+    pause: 'PAUSA',
+    resume: 'RETOMAR',
+    showSolution: 'Ver Solução',
+    source: 'Fonte',
+    finalGrade: 'Nota Final',
+    outOfTen: 'em 10',
+    timedOut: 'Tempo esgotado',
+    loading: 'A carregar...',
+    startExam: 'Começar Exame',
+  },
+  app: {
+    untitledExam: 'Exame sem título',
+    generatingTest: 'A gerar perguntas de escolha múltipla...',
+    generatingCloze: 'A criar cartões de memória e visualizações...',
+    generatingOpen: 'A formular perguntas abertas...',
+    generationError: 'Erro ao gerar o exame. Por favor, verifica a tua API Key ou tenta novamente.',
+    fullScreen: 'Ecrã inteiro',
+    exitFullScreen: 'Sair do ecrã inteiro',
+    darkMode: 'Modo escuro',
+    interfaceLanguage: 'Idioma da interface',
+    heroTitle: 'Exames a partir de PDF',
+    heroHighlight: 'com Inteligência Artificial',
+    heroSubtitle: 'Carrega o teu documento e gera testes, flashcards e avaliações num instante.',
+    analyzing: 'A analisar documentos...',
+    processing: 'A processar o conteúdo com IA...',
+  },
+  upload: {
+    analyzingFile: (fileName: string) => `A analisar ${fileName}...`,
+    analyzingPage: (fileName: string, page: number, total?: number) => `A analisar ${fileName} (pág. ${page}/${total})...`,
+    ocrProgress: (fileName: string, page: number, total: number | undefined, percent: number) =>
+      `A reconhecer texto digitalizado (OCR) em ${fileName}, pág. ${page}/${total}: ${percent}%`,
+    noText: 'Não foi possível extrair texto, nem sequer com reconhecimento ótico (OCR).',
+    analysisError: 'Erro ao analisar os documentos.',
+    unsupported: (fileName: string, formats: string) => `O ficheiro ${fileName} não tem um formato compatível (${formats}).`,
+    addMore: 'Adicionar mais ficheiros',
+    title: 'Carrega os teus documentos',
+    addMoreHint: 'Arrasta ou clica para adicionar',
+    formatsHint: 'PDF, Word, PowerPoint, EPUB, Markdown ou texto (seleção múltipla)',
+    selected: (count: number) => `Documentos selecionados (${count})`,
+    clearAll: 'Limpar tudo',
+    removeFile: 'Remover ficheiro',
+    analyze: (count: number) => `Analisar ${count} Documentos`,
+  },
+  importBank: {
+    types: { TEST: 'Teste', CLOZE_FLASHCARD: 'Flashcards de lacunas', OPEN_FLASHCARD: 'Perguntas abertas' },
+    readError: 'Não foi possível ler o ficheiro.',
+    hint: 'Usa as tuas próprias perguntas em JSON, CSV, GIFT ou Moodle XML',
+    button: 'Importar banco de perguntas (JSON, CSV, GIFT, Moodle XML)',
+    discard: 'Descartar importação',
+    skipped: (count: number) => `${count} entradas inválidas foram ignoradas`,
+    noneValid: 'Não foi encontrada nenhuma pergunta válida no ficheiro.',
+    true: 'Verdadeiro',
+    false: 'Falso',
+    locations: {
+      file: 'Ficheiro',
+      row: (row: number) => `Linha ${row}`,
+      item: (index: number) => `Elemento ${index}`,
+      question: (index: number) => `Pergunta ${index}`,
+      questionAtLine: (index: number, line: number) => `Pergunta ${index} (linha ${line})`,
+    },
+    errors: {
+      INVALID_JSON: (detail: string) => `JSON inválido: ${detail}`,
+      NOT_A_BANK: 'Esperava-se uma lista de perguntas ou um objeto com testQuestions, clozeCards ou openQuestions.',
+      NO_ITEM_LISTS: 'Não foi encontrado testQuestions, clozeCards nem openQuestions.',
+      NOT_AN_OBJECT: 'A entrada não é um objeto.',
+      UNKNOWN_KIND: 'O tipo de pergunta não é reconhecido.',
+      UNSUPPORTED_TYPE: (type: string) => `Tipo de pergunta não suportado: "${type}".`,
+      EMPTY_CSV: 'O CSV está vazio.',
+      MISSING_COLUMNS: 'O cabeçalho deve incluir uma coluna "question"/"pregunta" ou "fullText"/"texto".',
+      MISSING_ANSWERS: 'Falta o bloco de respostas {...}.',
+      UNSUPPORTED_GIFT_QUESTION: 'As perguntas numéricas e de correspondência não são suportadas.',
+      NO_GIFT_QUESTIONS: 'Não foram encontradas perguntas GIFT.',
+      INVALID_MOODLE_XML: 'XML inválido: esperava-se um documento <quiz> do Moodle.',
+      NO_MOODLE_QUESTIONS: 'O XML não contém perguntas.',
+      UNSUPPORTED_FORMAT: (accepted: string) => `Formato não suportado. Usa um de: ${accepted}`,
+    },
+  },
+  validation: {
+    MISSING_QUESTION: 'Falta o enunciado da pergunta.',
+    EMPTY_OPTION: 'Há opções vazias.',
+    TOO_FEW_OPTIONS: 'São necessárias pelo menos 2 opções.',
+    NO_CORRECT_OPTION: 'Não foi indicada nenhuma opção correta.',
+    CORRECT_OUT_OF_RANGE: (optionCount: number) => `Índice de resposta correta fora do intervalo (há ${optionCount} opções).`,
+    MISSING_TEXT: 'Falta o texto do cartão.',
+    NO_HIDDEN_WORDS: 'O cartão não tem palavras ocultas.',
+    HIDDEN_WORD_NOT_IN_TEXT: (word: string) => `A palavra oculta "${word}" não aparece no texto.`,
+    MISSING_MODEL_ANSWER: 'Falta a resposta modelo.',
+  },
+  library: {
+    deleteConfirm: (title: string) => `Eliminar "${title}" da biblioteca?`,
+    deleteError: 'Não foi possível eliminar o exame.',
+    title: (count: number) => `Os meus exames guardados (${count})`,
+    dailyReviewHint: 'Rever os cartões pendentes de todos os baralhos',
+    dailyReview: (count: number) => `Revisão diária (${count})`,
+    details: (type: string, items: number, documents: number, date: string) => `${type} · ${items} itens · ${documents} documentos · ${date}`,
+    retakeHint: 'Repetir este exame sem o gerar de novo',
+    retake: 'Repetir',
+    editHint: 'Rever e editar as perguntas',
+    openHint: 'Abrir os documentos e configurar um exame novo',
+    deleteHint: 'Eliminar da biblioteca',
+  },
+  settings: {
+    title: 'Configuração do Exame',
+    examLanguage: 'Idioma do exame',
+    examLanguageHint: 'As perguntas são geradas neste idioma mesmo que os documentos estejam escritos noutro',
+    difficulty: 'Dificuldade',
+    difficulties: { EASY: 'Fácil', MEDIUM: 'Médio', HARD: 'Difícil' },
+    questions: (count: number) => `Perguntas: ${count}`,
+    distribution: 'Distribuição',
+    manual: '(manual)',
+    byPages: '(por páginas)',
+    reset: 'Repor',
+    documentQuestionsHint: 'Perguntas deste documento',
+    options: 'Opções',
+    multipleCorrect: 'Multirresposta',
+    negativeMarking: 'Descontar erros',
+    scoring: 'Pontuação',
+    scoringSchemes: {
+      ALL_OR_NOTHING: 'Tudo ou nada',
+      PROPORTIONAL: 'Proporcional',
+      PROPORTIONAL_PENALTY: 'Proporcional com penalização',
+      GUESSING_CORRECTION: 'Correção do acaso',
+    },
+    scoringHints: {
+      ALL_OR_NOTHING: 'Só pontua a resposta exata.',
+      PROPORTIONAL: 'Cada opção correta soma a sua parte e cada errada desconta; nunca abaixo de 0.',
+      PROPORTIONAL_PENALTY: 'Como a proporcional, mas uma pergunta pode descontar até 1 ponto.',
+      GUESSING_CORRECTION: 'Um erro desconta 1/(n-1) com n opções, assim responder ao acaso não compensa.',
+    },
+    wrongPenalty: 'Desconto por erro',
+    regenerateUngrounded: 'Regenerar citações não verificadas',
+    regenerateUngroundedHint: 'As perguntas cuja citação não aparece no documento são geradas de novo',
+    blanks: (count: number) => `Lacunas: ${count}`,
+    benevolence: 'Benevolência',
+    benevolenceLevels: { STRICT: 'Rigoroso', NORMAL: 'Normal', BENEVOLENT: 'Benevolente' },
+    offlineGrading: 'Corrigir sem ligação',
+    offlineGradingHint: 'Corrige as respostas no navegador comparando palavras-chave com a resposta modelo, sem IA. Menos preciso; também é usado se a IA não responder.',
+    oralExam: 'Exame oral',
+    oralExamHint: 'O examinador lê cada pergunta em voz alta, ouve a tua resposta e faz até duas perguntas de seguimento sobre a mesma página. Tudo é corrigido no fim.',
+    autoRead: 'Leitura Auto',
+    speechRate: (rate: string) => `Velocidade: ${rate}×`,
+    speechPitch: (pitch: string) => `Tom: ${pitch}`,
+    readExplanation: 'Ler explicação',
+    readExplanationHint: 'Depois de cada resposta, lê em voz alta se está correta e a explicação ou a correção.',
+    voice: 'Voz de Leitura',
+    loadingVoices: 'A carregar vozes...',
+    previewVoice: 'Ouvir amostra de voz',
+    summary: 'Resumo',
+    showSource: 'Mostrar Fonte',
+    reviewBeforeExam: 'Rever antes de começar',
+    reviewBeforeExamHint: 'Editar, reordenar ou regenerar as perguntas antes de começar',
+    timeLimit: 'Limite (s)',
+    noTimeLimit: '0 = Sem limite',
+    documents: (count: number) => `Documentos (${count})`,
+    selectedPages: (ranges: string) => `Págs. ${ranges}`,
+    questionCount: (count: number) => `${count} perguntas`,
+  },
+  preview: {
+    selectDocument: 'Seleciona um documento para o pré-visualizar',
+    noTextOnPage: 'Sem texto nesta página',
+    pageAlt: (page: number) => `Página ${page}`,
+    pageOf: (page: number, total: number) => `Página ${page} de ${total}`,
+    loadingPage: 'A carregar a página...',
+    loadError: 'Não foi possível carregar',
+    previewError: 'Não foi possível carregar a pré-visualização',
+    pagesForExam: 'Páginas para o exame',
+    useWholeDocument: 'Usar o documento inteiro',
+    rangesPlaceholder: (total: number) => `Todas (1-${total}). Ex.: 1-3, 7`,
+    rangesError: (total: number) => `Usa intervalos como "1-3, 7, 10-12" entre 1 e ${total}.`,
+    chapters: 'Capítulos',
+    goToFirstPage: 'Ir para a primeira página',
+    pages: (start: number, end: number) => (start === end ? `p. ${start}` : `pp. ${start}-${end}`),
+  },
+  review: {
+    title: (count: number) => `Revisão de perguntas (${count})`,
+    statement: 'Enunciado',
+    optionsHint: 'Opções (assinala as corretas)',
+    correctAnswer: 'Resposta correta',
+    removeOption: 'Remover opção',
+    addOption: 'Adicionar opção',
+    explanation: 'Explicação',
+    quote: 'Citação do documento',
+    text: 'Texto',
+    hiddenWords: 'Palavras ocultas',
+    removeWord: 'Remover',
+    hiddenWordPlaceholder: 'Palavra do texto a ocultar',
+    addHiddenWord: 'Adicionar palavra oculta',
+    preview: 'Pré-visualização',
+    question: 'Pergunta',
+    modelAnswer: 'Resposta modelo',
+    rubric: 'Rubrica (pontos-chave e peso)',
+    keyPointPlaceholder: 'Ideia que deve aparecer na resposta',
+    weight: 'Peso',
+    removeKeyPoint: 'Remover ponto-chave',
+    addKeyPoint: 'Adicionar ponto-chave',
+    regenerateError: 'Não foi possível regenerar a pergunta. Tenta novamente.',
+    empty: 'Não resta nenhuma pergunta.',
+    ungrounded: 'Citação não verificada',
+    ungroundedHint: 'A citação não aparece no documento',
+    moveUp: 'Subir',
+    moveDown: 'Descer',
+    regenerate: 'Regenerar com IA',
+    noDocument: 'Sem documento a partir do qual regenerar',
+    delete: 'Eliminar',
+    withErrors: (count: number) => `${count} com erros`,
+    start: (count: number) => `Começar Exame (${count})`,
+  },
+  test: {
+    resultsTitle: 'Resultados do Exame',
+    completed: 'Exame Concluído!',
+    needsImprovement: 'Precisas de melhorar!',
+    perfect: 'Perfeito!',
+    points: 'Pontos',
+    correct: 'Acertos',
+    wrong: 'Erros',
+    hideBreakdown: 'Ocultar detalhe',
+    showBreakdown: 'Ver detalhe das respostas',
+    answersSummary: 'Resumo das Respostas',
+    yourAnswer: 'A tua Resposta',
+    correctAnswer: 'Resposta Correta',
+    newExam: 'Novo Exame',
+    progress: (current: number, total: number) => `Pergunta: ${current}/${total}`,
+    explanation: 'Explicação',
+    quoteNotFound: 'Esta citação não foi encontrada no documento',
+    submit: 'Responder',
+    questionPoints: (points: string) => `${points} p.`,
+  },
+  cloze: {
+    completed: 'Revisão Concluída!',
+    progress: (current: number, total: number) => `Cartão ${current} de ${total}`,
+    finishHint: 'Terminar revisão',
+    keywords: 'Palavras-Chave',
+  },
+  open: {
+    noAnswer: 'Sem resposta',
+    evaluationError: 'Erro ao avaliar com IA.',
+    completed: 'Avaliação Concluída',
+    tryAgain: 'Tenta novamente!',
+    result: (points: string, total: number) => `Obtiveste ${points} pontos em ${total}.`,
+    answersDetail: 'Detalhe das Respostas',
+    yourAnswer: 'A tua resposta',
+    idealAnswer: 'Resposta Ideal',
+    progress: (current: number, total: number) => `PERGUNTA ${current} DE ${total}`,
+    points: (points: string) => `PONTOS: ${points}`,
+    placeholder: 'Escreve aqui a tua resposta (máx. 1 parágrafo) ou deixa em branco para ver a solução...',
+    correct: 'Correta / Suficiente',
+    incorrect: 'Incorreta / Insuficiente',
+    modelAnswer: 'Resposta Modelo',
+    check: 'Verificar',
+    showAnswer: 'Ver Resposta',
+    keyPoints: 'Pontos-chave',
+    covered: 'coberto',
+    missed: 'não coberto',
+    weight: 'Nota do ponto-chave · peso',
+    score: (score: string) => `${score}/10`,
+    dictate: 'Ditar resposta',
+    stopDictation: 'Terminar ditado',
+    listening: 'A ouvir… diz a tua resposta',
+    dictationError: 'Não foi possível usar o microfone para ditar a resposta.',
+    dictationErrors: {
+      NOT_SUPPORTED: 'O ditado não está disponível neste navegador.',
+      MIC_DENIED: 'Não há permissão para usar o microfone.',
+      NO_MICROPHONE: 'Não foi encontrado nenhum microfone disponível.',
+      RECOGNITION_FAILED: 'O reconhecimento de voz falhou.',
+      TRANSCRIPTION_FAILED: 'Não foi possível transcrever a gravação.',
+    },
+    heuristic: 'Correção heurística',
+    heuristicHint: 'Corrigida sem IA comparando palavras-chave com a resposta modelo; pode não ser precisa.',
+    heuristicWholeWords: 'Neste idioma comparam-se palavras inteiras, sem radicais nem sinónimos.',
+    heuristicFeedback: (covered: string[], missed: string[]) =>
+      [covered.length > 0 && `Mencionas: ${covered.join('; ')}.`, missed.length > 0 && `Falta-te: ${missed.join('; ')}.`].filter(Boolean).join(' '),
+  },
+  study: {
+    saveError: 'Não foi possível guardar a revisão.',
+    done: 'Revisão do dia concluída!',
+    reviewed: (count: number) => `Reviste ${count} cartões.`,
+    nothingDue: 'Não tens cartões pendentes para hoje.',
+    progress: (pending: number, reviewed: number) => `Pendentes: ${pending} · Revistos: ${reviewed}`,
+    finishHint: 'Terminar revisão',
+    newCard: 'Novo',
+    kinds: { cloze: 'Lacunas', open: 'Aberta' },
+  },
+  grades: { AGAIN: 'De novo', HARD: 'Difícil', GOOD: 'Bem', EASY: 'Fácil' },
+  export: {
+    title: 'Exportar para Moodle / LMS / Anki',
+    error: 'Erro ao exportar o exame.',
+    inexactScoring: (count: number) => `Neste formato, ${count} pergunta(s) com várias respostas corretas darão pontos parciais em vez de tudo ou nada, como no exame. Exportar mesmo assim?`,
+  },
+  paper: {
+    hint: 'Imprimir variantes em papel com folha de respostas e grelhas de correção',
+    title: 'Exame em papel',
+    printTab: 'Imprimir',
+    gradeTab: 'Corrigir folhas',
+    variants: 'Variantes',
+    shuffleQuestions: 'Baralhar perguntas',
+    shuffleOptions: 'Baralhar opções',
+    seed: 'Série',
+    seedHint: 'Com a mesma série obtêm-se de novo as mesmas variantes',
+    newSeed: 'Nova série',
+    exams: 'Exames e folhas de respostas',
+    keys: 'Grelhas de correção',
+    print: 'Imprimir / PDF',
+    download: 'Descarregar HTML',
+    pdfHint: 'Para obter um PDF, escolhe "Guardar como PDF" na caixa de impressão.',
+    error: 'Não foi possível preparar o exame em papel.',
+    tooManyOptions: (max: number) => `A folha de respostas admite no máximo ${max} opções por pergunta.`,
+    tooManyQuestions: (max: number, options: number) => `A folha de respostas admite no máximo ${max} perguntas de ${options} opções.`,
+    sheet: {
+      name: 'Nome completo',
+      date: 'Data',
+      group: 'Turma',
+      variant: 'Versão',
+      series: 'Série',
+      studentId: 'N.º de estudante',
+      answerSheet: 'Folha de respostas',
+      answerKey: 'Grelha de correção',
+      instructions: 'Assinala as respostas na folha de respostas: só a folha é corrigida.',
+      multipleCorrect: 'Algumas perguntas podem ter mais de uma resposta correta; assinala-as todas.',
+      scoring: (correct: string, wrong: string) => `Correta: ${correct} p. · Errada: ${wrong} p. · Em branco: 0 p.`,
+      points: (correct: string, wrong: string | null) => (wrong ? `(${correct} / ${wrong} p.)` : `(${correct} p.)`),
+      partialScoring: (floor: boolean) => `Cada opção correta marcada soma a sua parte do ponto e cada errada desconta · Em branco: 0 p. · Mínimo por pergunta: ${floor ? '0' : '-1'} p.`,
+      guessingScoring: 'Correta: 1 p. · Errada: -1/(n-1) p. com n opções · Em branco: 0 p.',
+      fillHint: 'Preenche totalmente o círculo com caneta preta ou azul e não faças outras marcas na folha.',
+      question: 'Pergunta',
+      answer: 'Resposta',
+      original: 'N.º original',
+      grade: (total: number) => `Nota = pontos × 10 / ${total}`,
+    },
+  },
+  grading: {
+    hint: 'Carrega fotografias ou digitalizações (imagens ou PDF) das folhas de respostas preenchidas. São corrigidas com a série e as opções acima, que têm de ser as da impressão.',
+    upload: 'Adicionar fotografias ou digitalizações',
+    reading: 'A ler...',
+    file: 'Ficheiro',
+    studentId: 'N.º de estudante',
+    variant: 'Versão',
+    correct: 'Acertos',
+    wrong: 'Erros',
+    blank: 'Em branco',
+    points: 'Pontos',
+    grade: 'Nota',
+    answers: 'Respostas',
+    doubtful: (questions: string) => `Marcas duvidosas nas perguntas ${questions}`,
+    remove: 'Remover',
+    exportCsv: 'Exportar CSV',
+    readError: 'Não foi possível ler a folha.',
+    errors: {
+      CORNERS_NOT_FOUND: 'Não foram encontradas as quatro marcas dos cantos. Fotografa a folha inteira, sem cortar e com boa luz.',
+      CORNERS_MISMATCH: 'As marcas dos cantos não coincidem. Fotografa a folha inteira sobre um fundo claro.',
+      CORNERS_ALIGNED: 'As marcas dos cantos estão alinhadas.',
+      WRONG_PROPORTIONS: 'As marcas encontradas não têm as proporções da folha de respostas.',
+    },
+    average: (grade: string, count: number) => `Média: ${grade} (${count} folhas)`,
+  },
+  progress: {
+    defaultProfile: 'Estudante',
+    openHint: 'Ver o meu progresso',
+    title: 'O meu progresso',
+    profile: 'Perfil',
+    newProfile: 'Novo perfil',
+    newProfilePrompt: 'Nome do novo perfil:',
+    renameProfile: 'Mudar o nome do perfil',
+    renamePrompt: 'Novo nome do perfil:',
+    deleteProfile: 'Eliminar perfil',
+    deleteConfirm: (name: string) => `Eliminar o perfil "${name}" e todo o seu histórico?`,
+    saveError: 'Não foi possível guardar o perfil.',
+    empty: 'Ainda não há tentativas registadas. Termine um exame de escolha múltipla ou de perguntas abertas para começar a acompanhar o seu progresso.',
+    attempts: 'Tentativas',
+    accuracy: 'Acerto',
+    averageTime: 'Tempo por pergunta',
+    streak: 'Sequência',
+    days: (count: number) => `${count} ${count === 1 ? 'dia' : 'dias'}`,
+    longestStreak: (count: number) => `Melhor sequência: ${count}`,
+    trend: 'Evolução do acerto',
+    difficulty: 'Progressão de dificuldade',
+    weakDocuments: 'Documentos mais fracos',
+    weakPages: 'Páginas mais fracas',
+    page: (document: string, page: number) => `${document} · Pág. ${page}`,
+    noWeakSpots: 'Sem erros com documento de origem.',
+    recent: 'Últimas tentativas',
+  },
+  practice: {
+    start: 'Praticar pontos fracos',
+    startHint: 'Perguntas novas sobre as páginas e os conceitos em que mais falha, com a dificuldade ajustada às suas respostas',
+    label: 'Prática',
+    title: 'Prática de pontos fracos',
+    currentLevel: (level: string) => `O seu nível estimado: ${level}`,
+    levelHint: 'A dificuldade ajusta-se às suas respostas',
+    nothingToPractice: 'Não há erros com página de origem em nenhum exame guardado que se possa praticar.',
+    preparing: 'A preparar perguntas ao seu nível...',
+    generationError: 'Não foi possível gerar perguntas de prática.',
+    noAnswers: 'Não respondeu a nenhuma pergunta.',
+    completed: 'Prática concluída',
+    result: (correct: number, total: number) => `${correct} de ${total} perguntas certas.`,
+    nextLevel: (level: string) => `A próxima prática começará no nível ${level}.`,
+  },
+  oral: {
+    topic: (current: number, total: number) => `Tema ${current} de ${total}`,
+    followUp: (current: number, total: number) => `Pergunta de seguimento ${current} de ${total}`,
+    examiner: 'Examinador',
+    repeat: 'Repetir a pergunta',
+    placeholder: 'Responde em voz alta ou escreve a tua resposta...',
+    submit: 'Responder',
+    thinking: 'O examinador está a pensar...',
+    grading: (done: number, total: number) => `A corrigir respostas... (${done}/${total})`,
+    completed: 'Exame oral concluído',
+    transcript: 'Transcrição',
+    noTurns: 'Não respondeste a nenhuma pergunta.',
+  },
+  speech: {
+    option: (number: number, text: string) => `Opção ${number}: ${text}`,
+    voiceSample: 'Olá, esta é uma amostra da voz selecionada para ler as perguntas.',
+    correct: 'Correto.',
+    incorrect: 'Incorreto.',
+  },
+};
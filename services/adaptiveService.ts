@@ -0,0 +1,115 @@
+import { Difficulty, ExamAttempt, ExamSettings, ExamType, PageRange, SavedExam } from '../types';
+import { parseDocumentPages } from './chunkingService';
+import { formatPageRanges, normalizePageRanges } from './pageSelection';
+import { getWeakSpots, parseSourceFile } from './learnerService';
+
+// Adaptive weak-spot practice. The learner's ability is a Rasch (1PL IRT)
+// estimate updated Elo-style after every answer: each difficulty has a fixed
+// item difficulty on the same logit scale, and the next questions are asked
+// at the level the learner is expected to get right about 70% of the time.
+
+const ITEM_DIFFICULTY: Record<Difficulty, number> = { EASY: -1, MEDIUM: 0, HARD: 1 };
+const LEVELS = Object.keys(ITEM_DIFFICULTY) as Difficulty[];
+const K_FACTOR = 0.3;
+const TARGET_ACCURACY = 0.7;
+
+export const PRACTICE_QUESTIONS = 10;
+// Questions generated per request, so the difficulty can change within a session
+export const PRACTICE_BATCH = 2;
+const MAX_PRACTICE_PAGES = 8;
+const MAX_MISSED_QUESTIONS = 10;
+
+export interface PracticePlan {
+  exam: SavedExam;
+  settings: ExamSettings; // Limited to the weak pages; difficulty is the starting one
+  missedQuestions: string[]; // Concepts to aim the new questions at, latest first
+  targets: string[]; // Practised documents and pages, for display ("file.pdf: 3, 7-8")
+  ability: number;
+}
+
+// Probability of answering an item of `difficulty` right
+export const expectedAccuracy = (ability: number, difficulty: Difficulty): number =>
+  1 / (1 + Math.exp(ITEM_DIFFICULTY[difficulty] - ability));
+
+export const updateAbility = (ability: number, difficulty: Difficulty, correct: boolean): number =>
+  ability + K_FACTOR * ((correct ? 1 : 0) - expectedAccuracy(ability, difficulty));
+
+export const pickDifficulty = (ability: number): Difficulty =>
+  LEVELS.reduce((best, level) =>
+    Math.abs(expectedAccuracy(ability, level) - TARGET_ACCURACY) < Math.abs(expectedAccuracy(ability, best) - TARGET_ACCURACY) ? level : best
+  );
+
+// Replays every recorded answer, oldest first, starting from an average learner
+export const estimateAbility = (attempts: ExamAttempt[]): number =>
+  attempts.reduce(
+    (ability, attempt) => attempt.questions.reduce(
+      (current, question) => updateAbility(current, question.difficulty ?? attempt.settings.difficulty, question.correct),
+      ability
+    ),
+    0
+  );
+
+/**
+ * Picks the saved exam whose documents hold most of the learner's mistakes and
+ * limits it to the pages with the lowest accuracy. Returns null when no missed
+ * question can be traced back to a saved exam with its document text.
+ */
+export const buildPracticePlan = (attempts: ExamAttempt[], exams: SavedExam[]): PracticePlan | null => {
+  const candidates = exams
+    .filter(exam => exam.pdfText)
+    .map(exam => {
+      const examAttempts = attempts.filter(a => a.examId === exam.id);
+      const missed = examAttempts.flatMap(a => a.questions).filter(q => !q.correct && q.sourceFile);
+      return { exam, examAttempts, missed };
+    })
+    .filter(candidate => candidate.missed.length > 0)
+    .sort((a, b) => b.missed.length - a.missed.length);
+
+  const best = candidates[0];
+  if (!best) return null;
+
+  // Documents left out of the selection would be used whole, so every document is listed
+  const pageSelection: Record<string, PageRange[]> = {};
+  parseDocumentPages(best.exam.pdfText).forEach(page => {
+    if (page.docName !== null) pageSelection[page.docName] = [];
+  });
+
+  getWeakSpots(best.examAttempts, true)
+    .filter(spot => spot.accuracy < 1 && spot.document in pageSelection)
+    .slice(0, MAX_PRACTICE_PAGES)
+    .forEach(spot => pageSelection[spot.document].push({ start: spot.page!, end: spot.page! }));
+
+  // Mistakes without a page number point at the whole document
+  const targets: string[] = [];
+  best.missed.forEach(q => {
+    const { document, page } = parseSourceFile(q.sourceFile!);
+    if (page === undefined && document in pageSelection) {
+      delete pageSelection[document];
+      targets.push(document);
+    }
+  });
+
+  Object.entries(pageSelection).forEach(([document, ranges]) => {
+    pageSelection[document] = normalizePageRanges(ranges);
+    if (ranges.length > 0) targets.push(`${document}: ${formatPageRanges(ranges)}`);
+  });
+  if (targets.length === 0) return null;
+
+  const ability = estimateAbility(attempts);
+  return {
+    exam: best.exam,
+    settings: {
+      ...best.exam.settings,
+      type: ExamType.TEST,
+      questionCount: PRACTICE_BATCH,
+      difficulty: pickDifficulty(ability),
+      pageSelection,
+      documentCounts: undefined,
+      showSourceFile: true,
+      timeLimit: 0,
+    },
+    missedQuestions: [...new Set(best.missed.map(q => q.question).reverse())].slice(0, MAX_MISSED_QUESTIONS),
+    targets,
+    ability,
+  };
+};
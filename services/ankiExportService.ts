@@ -0,0 +1,228 @@
+import JSZip from 'jszip';
+import initSqlJs from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { ClozeCard, OpenQuestion } from '../types';
+import { parseClozeCard } from './clozeUtils';
+import type { ExamExportData } from './exportService';
+
+// Builds an Anki package (.apkg): a zip holding the SQLite collection
+// (schema version 11, which every current Anki release still imports) and
+// the media manifest. Cloze cards become Cloze notes and open questions
+// become Basic notes; both carry the source document as an extra field.
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Anki separates note fields with the unit separator character
+const FIELD_SEPARATOR = '\x1f';
+
+const MODEL_CSS = `.card {
+  font-family: Arial, sans-serif;
+  font-size: 20px;
+  text-align: center;
+  color: black;
+  background-color: white;
+}
+.cloze { font-weight: bold; color: #4f46e5; }
+.source { margin-top: 16px; font-size: 12px; color: #94a3b8; }`;
+
+const SOURCE_BLOCK = '{{#Fuente}}<div class="source">Fuente: {{Fuente}}</div>{{/Fuente}}';
+
+interface AnkiNote {
+  modelId: number;
+  fields: string[];
+  // Card ordinals generated by the note (template index or cloze number - 1)
+  ords: number[];
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Anki tags cannot contain spaces
+const toTag = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+const buildTags = (title: string): string => {
+  const tags = ['DocuExam', toTag(title)].filter(Boolean);
+  // Stored with surrounding spaces so Anki can match " tag " substrings
+  return ` ${tags.join(' ')} `;
+};
+
+// Each hidden word becomes its own deletion (c1, c2...), so Anki schedules one card per blank.
+const toClozeNote = (card: ClozeCard, modelId: number): AnkiNote | null => {
+  const words = card.hiddenWords.map(w => w.trim().toLowerCase());
+  const used = new Set<number>();
+
+  const text = parseClozeCard(card)
+    .map(part => {
+      if (!part.hidden) return escapeHtml(part.text);
+      const clozeNumber = Math.max(words.indexOf(part.text.toLowerCase()), 0) + 1;
+      used.add(clozeNumber);
+      return `{{c${clozeNumber}::${escapeHtml(part.text)}}}`;
+    })
+    .join('');
+
+  if (used.size === 0) return null;
+  return {
+    modelId,
+    fields: [text, '', escapeHtml(card.sourceFile || '')],
+    ords: [...used].sort((a, b) => a - b).map(n => n - 1),
+  };
+};
+
+const toBasicNote = (question: OpenQuestion, modelId: number): AnkiNote => ({
+  modelId,
+  fields: [escapeHtml(question.question), escapeHtml(question.modelAnswer), escapeHtml(question.sourceFile || '')],
+  ords: [0],
+});
+
+const field = (name: string, ord: number) => ({
+  name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [],
+});
+
+const template = (name: string, ord: number, qfmt: string, afmt: string) => ({
+  name, ord, qfmt, afmt, did: null, bqfmt: '', bafmt: '',
+});
+
+const buildModels = (basicId: number, clozeId: number, deckId: number, mod: number) => {
+  const common = {
+    mod, usn: -1, sortf: 0, did: deckId, css: MODEL_CSS, tags: [], vers: [],
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+  };
+
+  return {
+    [basicId]: {
+      ...common,
+      id: basicId,
+      name: 'DocuExam Básica',
+      type: 0,
+      flds: [field('Pregunta', 0), field('Respuesta', 1), field('Fuente', 2)],
+      tmpls: [template('Tarjeta 1', 0, '{{Pregunta}}', `{{FrontSide}}<hr id=answer>{{Respuesta}}${SOURCE_BLOCK}`)],
+      req: [[0, 'any', [0]]],
+    },
+    [clozeId]: {
+      ...common,
+      id: clozeId,
+      name: 'DocuExam Huecos',
+      type: 1,
+      flds: [field('Texto', 0), field('Extra', 1), field('Fuente', 2)],
+      tmpls: [template('Huecos', 0, '{{cloze:Texto}}', `{{cloze:Texto}}<br>{{Extra}}${SOURCE_BLOCK}`)],
+    },
+  };
+};
+
+const buildDecks = (deckId: number, title: string, mod: number) => {
+  const deck = (id: number, name: string) => ({
+    id, name, mod, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+    extendNew: 10, extendRev: 50, lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0],
+  });
+  return { 1: deck(1, 'Default'), [deckId]: deck(deckId, title) };
+};
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  },
+};
+
+const buildCollectionConfig = (deckId: number, modelId: number) => ({
+  nextPos: 1, estTimes: true, activeDecks: [deckId], sortType: 'noteFld', timeLim: 0, sortBackwards: false,
+  addToCur: true, curDeck: deckId, newBury: true, newSpread: 0, dueCounts: true, curModel: modelId, collapseTime: 1200,
+});
+
+const stripHtml = (value: string): string => value.replace(/<[^>]*>/g, '');
+
+// Anki's checksum: first 8 hex digits of the SHA-1 of the stripped sort field
+const fieldChecksum = async (value: string): Promise<number> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(stripHtml(value)));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4), b => b.toString(16).padStart(2, '0')).join('');
+  return parseInt(hex, 16);
+};
+
+const createGuid = (): string => crypto.randomUUID().replace(/-/g, '').slice(0, 10);
+
+export const toAnkiPackage = async (data: ExamExportData): Promise<Blob> => {
+  const SQL = await initSqlJs({ locateFile: () => sqlWasmUrl });
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA);
+
+    const nowMs = Date.now();
+    const now = Math.floor(nowMs / 1000);
+    // Anki uses millisecond timestamps as ids; offset them so nothing collides
+    const deckId = nowMs;
+    const basicModelId = nowMs + 1;
+    const clozeModelId = nowMs + 2;
+    const tags = buildTags(data.title);
+
+    const notes: AnkiNote[] = [
+      ...data.clozeCards.map(card => toClozeNote(card, clozeModelId)).filter((n): n is AnkiNote => n !== null),
+      ...data.openQuestions.map(q => toBasicNote(q, basicModelId)),
+    ];
+
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      now,
+      nowMs,
+      nowMs,
+      JSON.stringify(buildCollectionConfig(deckId, notes[0]?.modelId ?? clozeModelId)),
+      JSON.stringify(buildModels(basicModelId, clozeModelId, deckId, now)),
+      JSON.stringify(buildDecks(deckId, data.title, now)),
+      JSON.stringify(DECK_CONFIG),
+      '{}',
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')');
+    let nextId = nowMs + 10;
+
+    try {
+      for (const [position, note] of notes.entries()) {
+        const noteId = nextId++;
+        insertNote.run([
+          noteId,
+          createGuid(),
+          note.modelId,
+          now,
+          tags,
+          note.fields.join(FIELD_SEPARATOR),
+          stripHtml(note.fields[0]),
+          await fieldChecksum(note.fields[0]),
+        ]);
+        // New cards keep the exam order through their due position
+        note.ords.forEach(ord => insertCard.run([nextId++, noteId, deckId, ord, now, position + 1]));
+      }
+    } finally {
+      insertNote.free();
+      insertCard.free();
+    }
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+  } finally {
+    db.close();
+  }
+};
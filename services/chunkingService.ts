@@ -0,0 +1,235 @@
+// Splits the text produced by extractTextFromFiles into prompt-sized chunks,
+// following the "--- Inicio del documento ---" / "--- [Página X] ---" markers,
+// and decides how many questions each chunk has to produce.
+
+export const MAX_CHUNK_CHARS = 30000;
+
+export interface DocumentPage {
+  docName: string | null; // null when the text has no document delimiters
+  totalPages: number;
+  pageNumber: number;
+  text: string;
+}
+
+export interface TextChunk {
+  text: string;
+  pages: DocumentPage[];
+  // Questions requested from each document contained in the chunk
+  docCounts: { docName: string; count: number }[];
+  count: number;
+}
+
+const DOC_REGEX = /--- Inicio del documento: (.*?)(?: \| Páginas: (\d+))? ---\n([\s\S]*?)\n--- Fin del documento ---/g;
+const PAGE_MARKER_REGEX = /--- \[Página (\d+)\] ---\n/g;
+
+export const parseDocumentPages = (text: string): DocumentPage[] => {
+  const pages: DocumentPage[] = [];
+  let docMatch;
+
+  DOC_REGEX.lastIndex = 0;
+  while ((docMatch = DOC_REGEX.exec(text)) !== null) {
+    const docName = docMatch[1];
+    const body = docMatch[3];
+    const markers = [...body.matchAll(PAGE_MARKER_REGEX)];
+    const totalPages = docMatch[2] ? parseInt(docMatch[2], 10) : Math.max(markers.length, 1);
+
+    if (markers.length === 0) {
+      pages.push({ docName, totalPages, pageNumber: 1, text: body.trim() });
+      continue;
+    }
+
+    markers.forEach((marker, i) => {
+      const start = marker.index! + marker[0].length;
+      const end = i + 1 < markers.length ? markers[i + 1].index! : body.length;
+      pages.push({ docName, totalPages, pageNumber: parseInt(marker[1], 10), text: body.slice(start, end).trim() });
+    });
+  }
+
+  if (pages.length === 0 && text.trim()) {
+    pages.push({ docName: null, totalPages: 1, pageNumber: 1, text: text.trim() });
+  }
+
+  return pages;
+};
+
+export interface OutlineEntry {
+  docName: string | null;
+  pageNumber: number;
+  level: number; // 1 = top-level section
+  title: string;
+}
+
+// Extractors mark section titles Markdown-style ("# Title", "## Subtitle")
+const HEADING_LINE_REGEX = /^(#{1,6}) (.+)$/gm;
+
+export const getDocumentOutline = (text: string): OutlineEntry[] =>
+  parseDocumentPages(text).flatMap(page =>
+    [...page.text.matchAll(HEADING_LINE_REGEX)].map(match => ({
+      docName: page.docName,
+      pageNumber: page.pageNumber,
+      level: match[1].length,
+      title: match[2].trim(),
+    }))
+  );
+
+// Renders pages back into the same delimited format the prompts describe.
+export const renderPages = (pages: DocumentPage[]): string => {
+  let result = '';
+  let i = 0;
+  while (i < pages.length) {
+    const docName = pages[i].docName;
+    let body = '';
+    while (i < pages.length && pages[i].docName === docName) {
+      body += docName === null ? `${pages[i].text}\n` : `--- [Página ${pages[i].pageNumber}] ---\n${pages[i].text}\n`;
+      i++;
+    }
+    result += docName === null
+      ? body
+      : `--- Inicio del documento: ${docName} | Páginas: ${pages[i - 1].totalPages} ---\n${body}\n--- Fin del documento ---\n\n`;
+  }
+  return result;
+};
+
+// Pages longer than a whole chunk are cut at paragraph (or hard) boundaries.
+const splitOversizedPage = (page: DocumentPage, maxChars: number): DocumentPage[] => {
+  if (page.text.length <= maxChars) return [page];
+
+  const pieces: DocumentPage[] = [];
+  let rest = page.text;
+  while (rest.length > maxChars) {
+    let cut = rest.lastIndexOf('\n', maxChars);
+    if (cut < maxChars / 2) cut = rest.lastIndexOf(' ', maxChars);
+    if (cut < maxChars / 2) cut = maxChars;
+    pieces.push({ ...page, text: rest.slice(0, cut).trim() });
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) pieces.push({ ...page, text: rest.trim() });
+  return pieces;
+};
+
+// Spreads `total` over `weights` using cumulative rounding, so small totals
+// are sampled evenly across the whole list instead of piling up at the start.
+export const distributeByWeight = (weights: number[], total: number): number[] => {
+  const sum = weights.reduce((acc, w) => acc + w, 0);
+  if (sum === 0) return weights.map((_, i) => (i === 0 ? total : 0));
+
+  let cumulative = 0;
+  let assigned = 0;
+  return weights.map(weight => {
+    cumulative += weight;
+    const target = Math.round((cumulative / sum) * total);
+    const count = target - assigned;
+    assigned = target;
+    return count;
+  });
+};
+
+/**
+ * Packs the pages of `text` into chunks of at most `maxChars` characters and
+ * assigns each chunk its share of questions. `docCounts` is the per-document
+ * distribution (see getQuestionCountsPerDocument), which every document
+ * should be in: one missing from it gets no questions. Without it,
+ * `totalQuestions` is shared over all pages by length.
+ */
+export const planChunks = (
+  text: string,
+  totalQuestions: number,
+  docCounts: { docName: string; count: number }[] = [],
+  maxChars: number = MAX_CHUNK_CHARS
+): TextChunk[] => {
+  const pages = parseDocumentPages(text).flatMap(page => splitOversizedPage(page, maxChars));
+  if (pages.length === 0) return [];
+
+  // Questions per page: per document if a distribution exists, otherwise over everything
+  const pageCounts = new Array<number>(pages.length).fill(0);
+  const groups = new Map<string | null, number[]>();
+  pages.forEach((page, idx) => {
+    const key = docCounts.length > 0 ? page.docName : null;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(idx);
+  });
+  groups.forEach((indices, key) => {
+    const docTotal = key === null ? totalQuestions : (docCounts.find(d => d.docName === key)?.count ?? 0);
+    const counts = distributeByWeight(indices.map(idx => pages[idx].text.length), docTotal);
+    indices.forEach((idx, i) => { pageCounts[idx] = counts[i]; });
+  });
+
+  // Greedy packing in reading order
+  const chunks: TextChunk[] = [];
+  let current: number[] = [];
+  let currentSize = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const chunkPages = current.map(idx => pages[idx]);
+    const perDoc = new Map<string, number>();
+    current.forEach(idx => {
+      const name = pages[idx].docName ?? '';
+      perDoc.set(name, (perDoc.get(name) || 0) + pageCounts[idx]);
+    });
+    const chunkDocCounts = Array.from(perDoc.entries()).map(([docName, count]) => ({ docName, count }));
+    chunks.push({
+      text: renderPages(chunkPages),
+      pages: chunkPages,
+      docCounts: chunkDocCounts,
+      count: chunkDocCounts.reduce((acc, d) => acc + d.count, 0),
+    });
+    current = [];
+    currentSize = 0;
+  };
+
+  pages.forEach((page, idx) => {
+    // Marker overhead is small; reserve a little room for it
+    const size = page.text.length + 40;
+    if (currentSize + size > maxChars) flush();
+    current.push(idx);
+    currentSize += size;
+  });
+  flush();
+
+  return chunks;
+};
+
+// Runs `worker` over `items` with at most `limit` calls in flight.
+export const mapWithConcurrency = async <T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+const normalizeForComparison = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9ñ\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 2);
+
+const jaccard = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach(token => { if (b.has(token)) intersection++; });
+  return intersection / (a.size + b.size - intersection);
+};
+
+// Drops items whose key text is (nearly) the same as an earlier item's.
+export const dedupeByText = <T>(items: T[], getText: (item: T) => string, threshold = 0.8): T[] => {
+  const kept: { item: T; tokens: Set<string> }[] = [];
+  items.forEach(item => {
+    const tokens = new Set(normalizeForComparison(getText(item)));
+    if (!kept.some(k => jaccard(k.tokens, tokens) >= threshold)) {
+      kept.push({ item, tokens });
+    }
+  });
+  return kept.map(k => k.item);
+};
@@ -0,0 +1,40 @@
+import { ClozeCard } from '../types';
+
+export interface ClozePart {
+  text: string;
+  hidden: boolean;
+  word?: string;
+}
+
+const escapeRegExp = (string: string) => {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+// Splits the card text into visible parts and hidden (blank) parts.
+export const parseClozeCard = (card: ClozeCard): ClozePart[] => {
+  let parts: ClozePart[] = [{ text: card.fullText, hidden: false }];
+
+  card.hiddenWords.forEach(word => {
+    if (!word) return;
+    const newParts: ClozePart[] = [];
+    parts.forEach(part => {
+      if (part.hidden) {
+        newParts.push(part);
+      } else {
+        const safeWord = escapeRegExp(word.trim());
+        // Use case-insensitive matching
+        const regex = new RegExp(`(${safeWord})`, 'gi');
+        const split = part.text.split(regex);
+        split.forEach(s => {
+          if (s.toLowerCase() === word.trim().toLowerCase()) {
+            newParts.push({ text: s, hidden: true, word: s });
+          } else {
+            if (s) newParts.push({ text: s, hidden: false });
+          }
+        });
+      }
+    });
+    parts = newParts;
+  });
+  return parts;
+};
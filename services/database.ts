@@ -0,0 +1,73 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Bump DB_VERSION and extend `upgrade` when a new object store is needed.
+
+const DB_NAME = 'docuexam-ai';
+const DB_VERSION = 3;
+
+export const STORES = {
+  exams: 'exams',
+  reviews: 'reviews',
+  profiles: 'profiles',
+  attempts: 'attempts',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.exams, { keyPath: 'id' });
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.reviews, { keyPath: 'id' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.profiles, { keyPath: 'id' });
+    db.createObjectStore(STORES.attempts, { keyPath: 'id' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getRecord = async <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+export const getAllRecords = async <T>(storeName: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return promisifyRequest(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+};
+
+export const putRecord = async <T>(storeName: StoreName, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const deleteRecord = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await promisifyRequest(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
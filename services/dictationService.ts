@@ -0,0 +1,238 @@
+import { Language } from '../types';
+import { getLocale } from '../i18n';
+
+// Spoken answers. The browser's Web Speech recognition is used when it is
+// available; otherwise (or when it fails because it cannot reach its online
+// service) a local Whisper model can transcribe the microphone instead. No
+// Whisper build ships with the app: one is plugged in with setWhisperTranscriber,
+// e.g. a whisper.cpp WASM build or a transformers.js pipeline.
+
+export type DictationBackendId = 'webspeech' | 'whisper';
+
+// Transcribes 16 kHz mono audio in the given language
+export type WhisperTranscriber = (audio: Float32Array, language: Language) => Promise<string>;
+
+export type DictationErrorCode = 'NOT_SUPPORTED' | 'MIC_DENIED' | 'NO_MICROPHONE' | 'RECOGNITION_FAILED' | 'TRANSCRIPTION_FAILED';
+
+// What went wrong while dictating; the exam modes explain it in the interface language
+export class DictationError extends Error {
+  readonly code: DictationErrorCode;
+
+  constructor(code: DictationErrorCode, detail?: string) {
+    super(`Error de dictado: ${code}${detail ? ` (${detail})` : ''}`);
+    this.name = 'DictationError';
+    this.code = code;
+  }
+}
+
+export interface DictationCallbacks {
+  // Everything heard since the session started; `isFinal` once nothing of it will change
+  onTranscript: (text: string, isFinal: boolean) => void;
+  onEnd: () => void;
+  onError: (error: DictationError) => void;
+}
+
+export interface DictationSession {
+  backend: DictationBackendId;
+  stop: () => void;
+}
+
+// Just what is used of the Web Speech API, which lib.dom does not declare
+interface SpeechRecognitionAlternativeLike {
+  transcript: string;
+}
+
+interface SpeechRecognitionResultLike {
+  readonly isFinal: boolean;
+  readonly length: number;
+  [index: number]: SpeechRecognitionAlternativeLike;
+}
+
+interface SpeechRecognitionEventLike {
+  readonly results: { readonly length: number; [index: number]: SpeechRecognitionResultLike };
+}
+
+interface SpeechRecognitionLike {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => SpeechRecognitionLike;
+    webkitSpeechRecognition?: new () => SpeechRecognitionLike;
+  }
+}
+
+const WHISPER_SAMPLE_RATE = 16000;
+// How often the recording so far is transcribed again, for the live transcript
+const WHISPER_INTERVAL_MS = 3000;
+// Web Speech errors that mean its service cannot be used, rather than that nothing was said
+const UNAVAILABLE_ERRORS = ['network', 'service-not-allowed', 'language-not-supported'];
+
+let whisperTranscriber: WhisperTranscriber | null = null;
+
+export const setWhisperTranscriber = (transcriber: WhisperTranscriber | null) => {
+  whisperTranscriber = transcriber;
+};
+
+const getSpeechRecognition = () => window.SpeechRecognition ?? window.webkitSpeechRecognition;
+
+const canRecord = () => !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+export const getDictationBackend = (): DictationBackendId | null => {
+  if (getSpeechRecognition()) return 'webspeech';
+  if (whisperTranscriber && canRecord()) return 'whisper';
+  return null;
+};
+
+export const isDictationSupported = (): boolean => getDictationBackend() !== null;
+
+const WEB_SPEECH_ERRORS: Record<string, DictationErrorCode> = {
+  'not-allowed': 'MIC_DENIED',
+  'service-not-allowed': 'MIC_DENIED',
+  'audio-capture': 'NO_MICROPHONE',
+};
+
+// getUserMedia rejections, by DOMException name
+const toMicrophoneError = (error: unknown): DictationError => {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return new DictationError('MIC_DENIED', name);
+  if (name === 'NotFoundError' || name === 'NotReadableError') return new DictationError('NO_MICROPHONE', name);
+  return new DictationError('RECOGNITION_FAILED', error instanceof Error ? error.message : undefined);
+};
+
+const startWebSpeech = (language: Language, callbacks: DictationCallbacks, onUnavailable: (() => void) | null): DictationSession => {
+  const SpeechRecognition = getSpeechRecognition()!;
+  const recognition = new SpeechRecognition();
+  recognition.lang = getLocale(language);
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  let switched = false;
+  recognition.onresult = event => {
+    const results = Array.from({ length: event.results.length }, (_, i) => event.results[i]);
+    const text = results.map(result => result[0]?.transcript ?? '').join('').replace(/\s+/g, ' ').trim();
+    callbacks.onTranscript(text, results.every(result => result.isFinal));
+  };
+  recognition.onerror = event => {
+    // Silence and stopping by hand are not errors
+    if (event.error === 'no-speech' || event.error === 'aborted') return;
+    if (onUnavailable && UNAVAILABLE_ERRORS.includes(event.error)) {
+      switched = true;
+      onUnavailable();
+      return;
+    }
+    callbacks.onError(new DictationError(WEB_SPEECH_ERRORS[event.error] ?? 'RECOGNITION_FAILED', event.error));
+  };
+  recognition.onend = () => {
+    if (!switched) callbacks.onEnd();
+  };
+  recognition.start();
+
+  return { backend: 'webspeech', stop: () => recognition.stop() };
+};
+
+// Decodes the recording and resamples it to what Whisper expects
+const toWhisperAudio = async (recording: Blob): Promise<Float32Array> => {
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(await recording.arrayBuffer());
+    const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * WHISPER_SAMPLE_RATE)), WHISPER_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return (await offline.startRendering()).getChannelData(0);
+  } finally {
+    context.close();
+  }
+};
+
+const startWhisper = async (language: Language, callbacks: DictationCallbacks): Promise<DictationSession> => {
+  const transcribe = whisperTranscriber!;
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true }).catch(error => {
+    throw toMicrophoneError(error);
+  });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  let pending: Promise<void> | null = null;
+
+  const transcribeSoFar = async (isFinal: boolean) => {
+    if (chunks.length === 0) return;
+    const audio = await toWhisperAudio(new Blob(chunks, { type: recorder.mimeType }));
+    callbacks.onTranscript((await transcribe(audio, language)).replace(/\s+/g, ' ').trim(), isFinal);
+  };
+
+  // The whole recording is transcribed again each time, skipping a turn while the last run is busy
+  const timer = window.setInterval(() => {
+    if (pending) return;
+    pending = transcribeSoFar(false)
+      .catch(error => console.error('Live transcription failed', error))
+      .finally(() => { pending = null; });
+  }, WHISPER_INTERVAL_MS);
+
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.onstop = async () => {
+    clearInterval(timer);
+    stream.getTracks().forEach(track => track.stop());
+    try {
+      await pending;
+      await transcribeSoFar(true);
+    } catch (error) {
+      callbacks.onError(new DictationError('TRANSCRIPTION_FAILED', error instanceof Error ? error.message : undefined));
+    } finally {
+      callbacks.onEnd();
+    }
+  };
+  recorder.start(1000);
+
+  return { backend: 'whisper', stop: () => { if (recorder.state !== 'inactive') recorder.stop(); } };
+};
+
+/**
+ * Starts listening in the exam language. With Web Speech, a failure to reach
+ * its service moves the session to Whisper when a transcriber is plugged in;
+ * `stop` keeps working on whichever backend is active.
+ */
+export const startDictation = async (language: Language, callbacks: DictationCallbacks): Promise<DictationSession> => {
+  const backend = getDictationBackend();
+  if (!backend) throw new DictationError('NOT_SUPPORTED');
+  if (backend === 'whisper') return startWhisper(language, callbacks);
+
+  let whisperSession: DictationSession | null = null;
+  let isStopped = false;
+  const fallback = whisperTranscriber && canRecord()
+    ? () => {
+      startWhisper(language, callbacks)
+        .then(session => {
+          whisperSession = session;
+          // Stopped while the microphone was being opened
+          if (isStopped) session.stop();
+        })
+        .catch(error => {
+          callbacks.onError(error instanceof DictationError ? error : toMicrophoneError(error));
+          callbacks.onEnd();
+        });
+    }
+    : null;
+
+  const webSpeech = startWebSpeech(language, callbacks, fallback);
+  return {
+    backend: 'webspeech',
+    stop: () => {
+      isStopped = true;
+      if (whisperSession) whisperSession.stop();
+      else webSpeech.stop();
+    },
+  };
+};
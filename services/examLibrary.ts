@@ -0,0 +1,32 @@
+import { SavedExam } from '../types';
+import { STORES, getRecord, getAllRecords, putRecord, deleteRecord } from './database';
+
+export type NewSavedExam = Omit<SavedExam, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const getItemCount = (exam: Pick<SavedExam, 'testQuestions' | 'clozeCards' | 'openQuestions'>): number =>
+  exam.testQuestions.length + exam.clozeCards.length + exam.openQuestions.length;
+
+export const saveExam = async (exam: NewSavedExam): Promise<SavedExam> => {
+  const now = Date.now();
+  const saved: SavedExam = { ...exam, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  await putRecord(STORES.exams, saved);
+  return saved;
+};
+
+export const updateExam = async (id: string, changes: Partial<NewSavedExam>): Promise<SavedExam | undefined> => {
+  const existing = await getRecord<SavedExam>(STORES.exams, id);
+  if (!existing) return undefined;
+  const updated: SavedExam = { ...existing, ...changes, id, updatedAt: Date.now() };
+  await putRecord(STORES.exams, updated);
+  return updated;
+};
+
+export const getExam = (id: string): Promise<SavedExam | undefined> => getRecord<SavedExam>(STORES.exams, id);
+
+// Most recent first
+export const listExams = async (): Promise<SavedExam[]> => {
+  const exams = await getAllRecords<SavedExam>(STORES.exams);
+  return exams.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteExam = (id: string): Promise<void> => deleteRecord(STORES.exams, id);
@@ -0,0 +1,374 @@
+import JSZip from 'jszip';
+import { ClozeCard, ExamSettings, OpenQuestion, TestQuestion } from '../types';
+import { allowsNegativeScore, getOptionWeights, getWrongAnswerPoints, hasExactOptionWeights } from './scoringService';
+
+// Serializes a generated exam to LMS question-bank formats:
+// Moodle XML, GIFT and IMS QTI 2.1 (zipped content package).
+// Anki decks are built in ankiExportService, loaded on demand with SQLite.
+
+export interface ExamExportData {
+  title: string;
+  settings: ExamSettings;
+  testQuestions: TestQuestion[];
+  clozeCards: ClozeCard[];
+  openQuestions: OpenQuestion[];
+}
+
+export type ExportFormat = 'MOODLE_XML' | 'GIFT' | 'QTI' | 'ANKI';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string }[] = [
+  { id: 'MOODLE_XML', label: 'Moodle XML', extension: 'xml' },
+  { id: 'GIFT', label: 'GIFT', extension: 'gift.txt' },
+  { id: 'QTI', label: 'IMS QTI 2.1', extension: 'zip' },
+  { id: 'ANKI', label: 'Anki (.apkg)', extension: 'apkg' },
+];
+
+// Anki decks only hold flashcards, so test-only exams cannot be exported there
+export const getAvailableFormats = (data: ExamExportData) =>
+  EXPORT_FORMATS.filter(f => f.id !== 'ANKI' || data.clozeCards.length + data.openQuestions.length > 0);
+
+// Moodle XML and GIFT can only weight each option, so all-or-nothing
+// multi-answer questions get partial credit there: how many are affected
+export const countInexactlyScored = (data: ExamExportData, format: ExportFormat): number =>
+  format === 'MOODLE_XML' || format === 'GIFT'
+    ? data.testQuestions.filter(q => !hasExactOptionWeights(q, data.settings)).length
+    : 0;
+
+// Moodle only accepts a fixed list of fractions; snap to the nearest one.
+const MOODLE_FRACTIONS = [100, 90, 83.33333, 80, 75, 70, 66.66667, 60, 50, 40, 33.33333, 30, 25, 20, 16.66667, 14.28571, 12.5, 11.11111, 10, 5, 0];
+
+const toMoodleFraction = (weight: number): number => {
+  const target = Math.abs(weight * 100);
+  const nearest = MOODLE_FRACTIONS.reduce((best, f) => (Math.abs(f - target) < Math.abs(best - target) ? f : best), 0);
+  return weight < 0 ? -nearest : nearest;
+};
+
+const formatFraction = (fraction: number): string => String(Number(fraction.toFixed(5)));
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const slugify = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'examen';
+
+const shortTitle = (text: string): string => (text.length > 60 ? `${text.slice(0, 57)}...` : text);
+
+const questionName = (text: string, index: number): string => `${String(index + 1).padStart(2, '0')} ${shortTitle(text)}`;
+
+// Splits a cloze card into text segments and blanks, in reading order.
+const getClozeSegments = (card: ClozeCard): { text: string; blank?: string }[] => {
+  const words = card.hiddenWords.map(w => w.trim()).filter(Boolean);
+  if (words.length === 0) return [{ text: card.fullText }];
+
+  const pattern = new RegExp(`(${words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return card.fullText.split(pattern).filter(Boolean).map(part =>
+    words.some(w => w.toLowerCase() === part.toLowerCase()) ? { text: '', blank: part } : { text: part }
+  );
+};
+
+// ---------- Moodle XML ----------
+
+const moodleText = (value: string) => `<text><![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]></text>`;
+
+const moodleTestQuestion = (question: TestQuestion, index: number, settings: ExamSettings): string => {
+  const weights = getOptionWeights(question, settings);
+  const answers = question.options.map((option, idx) => `
+    <answer fraction="${formatFraction(toMoodleFraction(weights[idx]))}" format="html">
+      ${moodleText(option)}
+    </answer>`).join('');
+
+  return `
+  <question type="multichoice">
+    <name>${moodleText(questionName(question.question, index))}</name>
+    <questiontext format="html">${moodleText(question.question)}</questiontext>
+    <generalfeedback format="html">${moodleText(question.explanation)}</generalfeedback>
+    <defaultgrade>1</defaultgrade>
+    <single>${question.correctIndices.length > 1 ? 'false' : 'true'}</single>
+    <shuffleanswers>true</shuffleanswers>
+    <answernumbering>abc</answernumbering>${answers}
+  </question>`;
+};
+
+const moodleClozeCard = (card: ClozeCard, index: number): string => {
+  const text = getClozeSegments(card)
+    .map(segment => segment.blank ? `{1:SHORTANSWER:=${segment.blank.replace(/([}#~/"\\])/g, '\\$1')}}` : segment.text)
+    .join('');
+
+  return `
+  <question type="cloze">
+    <name>${moodleText(questionName(card.fullText, index))}</name>
+    <questiontext format="html">${moodleText(text)}</questiontext>
+    <generalfeedback format="html">${moodleText(card.sourceFile ? `Fuente: ${card.sourceFile}` : '')}</generalfeedback>
+  </question>`;
+};
+
+const moodleOpenQuestion = (question: OpenQuestion, index: number): string => `
+  <question type="essay">
+    <name>${moodleText(questionName(question.question, index))}</name>
+    <questiontext format="html">${moodleText(question.question)}</questiontext>
+    <generalfeedback format="html">${moodleText(question.modelAnswer)}</generalfeedback>
+    <defaultgrade>1</defaultgrade>
+    <responseformat>editor</responseformat>
+    <responserequired>1</responserequired>
+    <responsefieldlines>10</responsefieldlines>
+    <graderinfo format="html">${moodleText(question.modelAnswer)}</graderinfo>
+  </question>`;
+
+export const toMoodleXML = (data: ExamExportData): string => {
+  const questions = [
+    ...data.testQuestions.map((q, i) => moodleTestQuestion(q, i, data.settings)),
+    ...data.clozeCards.map((c, i) => moodleClozeCard(c, i)),
+    ...data.openQuestions.map((q, i) => moodleOpenQuestion(q, i)),
+  ].join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category>${moodleText(`$course$/top/${data.title}`)}</category>
+  </question>
+${questions}
+</quiz>
+`;
+};
+
+// ---------- GIFT ----------
+
+const escapeGift = (value: string): string => value.replace(/([~=#{}:\\])/g, '\\$1').replace(/\n+/g, ' ');
+
+const giftWeight = (weight: number): string => {
+  const fraction = toMoodleFraction(weight);
+  return `%${formatFraction(fraction)}%`;
+};
+
+const giftTestQuestion = (question: TestQuestion, index: number, settings: ExamSettings): string => {
+  const weights = getOptionWeights(question, settings);
+  const isSingle = question.correctIndices.length <= 1;
+  const answers = question.options.map((option, idx) => {
+    const text = escapeGift(option);
+    // Single-answer questions use the short "=" / "~" syntax when possible
+    if (isSingle && weights[idx] === 1) return `=${text}`;
+    if (weights[idx] === 0) return `~${text}`;
+    return `~${giftWeight(weights[idx])}${text}`;
+  });
+
+  return `::${escapeGift(questionName(question.question, index))}:: ${escapeGift(question.question)} {\n  ${answers.join('\n  ')}\n  ####${escapeGift(question.explanation)}\n}`;
+};
+
+// GIFT "missing word" questions only support one blank, so each blank becomes a question
+const giftClozeCard = (card: ClozeCard, index: number): string[] => {
+  const segments = getClozeSegments(card);
+  return segments
+    .map((segment, blankIdx) => ({ segment, blankIdx }))
+    .filter(({ segment }) => segment.blank)
+    .map(({ blankIdx }, n) => {
+      const text = segments
+        .map((segment, idx) => {
+          if (!segment.blank) return escapeGift(segment.text);
+          return idx === blankIdx ? `{=${escapeGift(segment.blank)}}` : escapeGift(segment.blank);
+        })
+        .join('');
+      return `::${escapeGift(questionName(card.fullText, index))}${n > 0 ? ` (${n + 1})` : ''}:: ${text}`;
+    });
+};
+
+const giftOpenQuestion = (question: OpenQuestion, index: number): string =>
+  `::${escapeGift(questionName(question.question, index))}:: ${escapeGift(question.question)} {\n  ####${escapeGift(question.modelAnswer)}\n}`;
+
+export const toGIFT = (data: ExamExportData): string => {
+  const questions = [
+    ...data.testQuestions.map((q, i) => giftTestQuestion(q, i, data.settings)),
+    ...data.clozeCards.flatMap((c, i) => giftClozeCard(c, i)),
+    ...data.openQuestions.map((q, i) => giftOpenQuestion(q, i)),
+  ];
+
+  return `// ${data.title}\n$CATEGORY: $course$/top/${escapeGift(data.title)}\n\n${questions.join('\n\n')}\n`;
+};
+
+// ---------- IMS QTI 2.1 ----------
+
+const QTI_NAMESPACES = 'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"';
+
+const qtiScoreOutcome = `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>`;
+
+const qtiSetScore = (value: number) =>
+  `<setOutcomeValue identifier="SCORE"><baseValue baseType="float">${formatFraction(value)}</baseValue></setOutcomeValue>`;
+
+// All or nothing, as scoreAnswer marks it: blank 0, the exact set 1, anything else the wrong-answer points
+const qtiAllOrNothingProcessing = (wrongPoints: number) => `<responseProcessing>
+    <responseCondition>
+      <responseIf><isNull><variable identifier="RESPONSE"/></isNull>${qtiSetScore(0)}</responseIf>
+      <responseElseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>${qtiSetScore(1)}</responseElseIf>
+      <responseElse>${qtiSetScore(wrongPoints)}</responseElse>
+    </responseCondition>
+  </responseProcessing>`;
+
+const qtiTestItem = (question: TestQuestion, id: string, settings: ExamSettings): string => {
+  const weights = getOptionWeights(question, settings);
+  const isMulti = question.correctIndices.length > 1;
+  const cardinality = isMulti ? 'multiple' : 'single';
+  const choiceId = (idx: number) => `choice_${idx + 1}`;
+  const processing = hasExactOptionWeights(question, settings)
+    ? '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response"/>'
+    : qtiAllOrNothingProcessing(getWrongAnswerPoints(question, settings) ?? 0);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem ${QTI_NAMESPACES} identifier="${id}" title="${escapeXml(shortTitle(question.question))}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">
+    <correctResponse>
+${question.correctIndices.map(idx => `      <value>${choiceId(idx)}</value>`).join('\n')}
+    </correctResponse>
+    <mapping defaultValue="0"${allowsNegativeScore(settings) ? '' : ' lowerBound="0"'} upperBound="1">
+${weights.map((w, idx) => `      <mapEntry mapKey="${choiceId(idx)}" mappedValue="${formatFraction(w)}"/>`).join('\n')}
+    </mapping>
+  </responseDeclaration>
+  ${qtiScoreOutcome}
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="true" maxChoices="${isMulti ? 0 : 1}">
+      <prompt>${escapeXml(question.question)}</prompt>
+${question.options.map((option, idx) => `      <simpleChoice identifier="${choiceId(idx)}">${escapeXml(option)}</simpleChoice>`).join('\n')}
+    </choiceInteraction>
+  </itemBody>
+  ${processing}
+  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="hide">${escapeXml(question.explanation)}</modalFeedback>
+</assessmentItem>
+`;
+};
+
+const qtiClozeItem = (card: ClozeCard, id: string): string => {
+  const segments = getClozeSegments(card);
+  const blanks = segments.filter(s => s.blank).map(s => s.blank!);
+
+  let blankIdx = 0;
+  const body = segments.map(segment => {
+    if (!segment.blank) return escapeXml(segment.text);
+    blankIdx++;
+    return `<textEntryInteraction responseIdentifier="RESPONSE_${blankIdx}" expectedLength="${Math.max(segment.blank.length, 8)}"/>`;
+  }).join('');
+
+  const declarations = blanks.map((blank, idx) => `  <responseDeclaration identifier="RESPONSE_${idx + 1}" cardinality="single" baseType="string">
+    <correctResponse><value>${escapeXml(blank)}</value></correctResponse>
+    <mapping defaultValue="0"><mapEntry mapKey="${escapeXml(blank)}" mappedValue="1" caseSensitive="false"/></mapping>
+  </responseDeclaration>`).join('\n');
+
+  // No standard template covers several interactions: add up one point per blank
+  const processing = blanks.map((_, idx) => `    <setOutcomeValue identifier="SCORE"><sum><variable identifier="SCORE"/><mapResponse identifier="RESPONSE_${idx + 1}"/></sum></setOutcomeValue>`).join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem ${QTI_NAMESPACES} identifier="${id}" title="${escapeXml(shortTitle(card.fullText))}" adaptive="false" timeDependent="false">
+${declarations}
+  ${qtiScoreOutcome}
+  <itemBody>
+    <p>${body}</p>
+  </itemBody>
+  <responseProcessing>
+${processing}
+  </responseProcessing>
+</assessmentItem>
+`;
+};
+
+// Key points with their weights, for whoever marks the essay by hand
+const qtiRubricList = (question: OpenQuestion): string =>
+  question.rubric ? `<ul>${question.rubric.map(c => `<li>${escapeXml(c.point)} (×${c.weight})</li>`).join('')}</ul>` : '';
+
+const qtiOpenItem = (question: OpenQuestion, id: string): string => `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem ${QTI_NAMESPACES} identifier="${id}" title="${escapeXml(shortTitle(question.question))}" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>
+  ${qtiScoreOutcome}
+  <itemBody>
+    <rubricBlock view="scorer"><p>${escapeXml(question.modelAnswer)}</p>${qtiRubricList(question)}</rubricBlock>
+    <extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="8">
+      <prompt>${escapeXml(question.question)}</prompt>
+    </extendedTextInteraction>
+  </itemBody>
+</assessmentItem>
+`;
+
+export const toQTIPackage = async (data: ExamExportData): Promise<Blob> => {
+  const items: { id: string; xml: string }[] = [
+    ...data.testQuestions.map((q, i) => ({ id: `test_${i + 1}`, xml: qtiTestItem(q, `test_${i + 1}`, data.settings) })),
+    ...data.clozeCards.map((c, i) => ({ id: `cloze_${i + 1}`, xml: qtiClozeItem(c, `cloze_${i + 1}`) })),
+    ...data.openQuestions.map((q, i) => ({ id: `open_${i + 1}`, xml: qtiOpenItem(q, `open_${i + 1}`) })),
+  ];
+
+  const testXml = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest ${QTI_NAMESPACES} identifier="test" title="${escapeXml(data.title)}">
+  <testPart identifier="part_1" navigationMode="nonlinear" submissionMode="simultaneous">
+    <assessmentSection identifier="section_1" title="${escapeXml(data.title)}" visible="true">
+${items.map(item => `      <assessmentItemRef identifier="${item.id}" href="items/${item.id}.xml"/>`).join('\n')}
+    </assessmentSection>
+  </testPart>
+</assessmentTest>
+`;
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" identifier="manifest_${slugify(data.title)}" xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="test" type="imsqti_test_xmlv2p1" href="test.xml">
+      <file href="test.xml"/>
+${items.map(item => `      <dependency identifierref="${item.id}"/>`).join('\n')}
+    </resource>
+${items.map(item => `    <resource identifier="${item.id}" type="imsqti_item_xmlv2p1" href="items/${item.id}.xml">
+      <file href="items/${item.id}.xml"/>
+    </resource>`).join('\n')}
+  </resources>
+</manifest>
+`;
+
+  const zip = new JSZip();
+  zip.file('imsmanifest.xml', manifest);
+  zip.file('test.xml', testXml);
+  items.forEach(item => zip.file(`items/${item.id}.xml`, item.xml));
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+// ---------- Download ----------
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportExam = async (data: ExamExportData, format: ExportFormat): Promise<void> => {
+  const { extension } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const filename = `${slugify(data.title)}.${extension}`;
+
+  switch (format) {
+    case 'MOODLE_XML':
+      downloadBlob(new Blob([toMoodleXML(data)], { type: 'application/xml' }), filename);
+      break;
+    case 'GIFT':
+      downloadBlob(new Blob([toGIFT(data)], { type: 'text/plain;charset=utf-8' }), filename);
+      break;
+    case 'QTI':
+      downloadBlob(await toQTIPackage(data), filename);
+      break;
+    case 'ANKI': {
+      const { toAnkiPackage } = await import('./ankiExportService');
+      downloadBlob(await toAnkiPackage(data), filename);
+      break;
+    }
+  }
+};
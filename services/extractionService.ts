@@ -0,0 +1,90 @@
+import { createOcrSession, OcrSession } from './ocrService';
+import { pdfExtractor } from './extractors/pdfExtractor';
+import { docxExtractor } from './extractors/docxExtractor';
+import { pptxExtractor } from './extractors/pptxExtractor';
+import { epubExtractor } from './extractors/epubExtractor';
+import { markdownExtractor, plainTextExtractor } from './extractors/textExtractor';
+
+// Turns every supported source file into the delimited text the generators
+// expect ("--- Inicio del documento: name | Páginas: N ---" + one
+// "--- [Página X] ---" block per page). Each extractor decides what a "page"
+// is for its format: PDF pages, slides, chapters or document sections.
+
+export interface ExtractionProgress {
+  fileName: string;
+  pageNumber?: number;
+  totalPages?: number;
+  ocrProgress?: number; // 0..1, only while the page is being recognized with OCR
+}
+
+export interface ExtractionContext {
+  onProgress?: (progress: ExtractionProgress) => void;
+  // Shared Tesseract worker, started the first time a scanned page shows up
+  getOcrSession: () => Promise<OcrSession>;
+}
+
+export interface SourceExtractor {
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  // Text of each page, in order
+  extract: (file: File, context: ExtractionContext) => Promise<string[]>;
+}
+
+const EXTRACTORS: SourceExtractor[] = [
+  pdfExtractor,
+  docxExtractor,
+  pptxExtractor,
+  epubExtractor,
+  markdownExtractor,
+  plainTextExtractor,
+];
+
+export const SOURCE_ACCEPT = EXTRACTORS.flatMap(extractor => extractor.extensions.map(ext => `.${ext}`)).join(',');
+
+export const SUPPORTED_SOURCES_LABEL = EXTRACTORS.map(extractor => extractor.label).join(', ');
+
+const getExtension = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const getSourceExtractor = (file: File): SourceExtractor | undefined =>
+  EXTRACTORS.find(extractor => extractor.extensions.includes(getExtension(file.name))) ||
+  EXTRACTORS.find(extractor => !!file.type && extractor.mimeTypes.includes(file.type));
+
+// Only the browser's PDF viewer understands #page=N; other formats would just be downloaded
+export const isPdfSource = (file: File): boolean => getSourceExtractor(file) === pdfExtractor;
+
+export const formatDocument = (name: string, pages: string[]): string => {
+  // Keep at least one page so the document still shows up in the distribution
+  const content = pages.length > 0 ? pages : [''];
+  const body = content.map((text, i) => `--- [Página ${i + 1}] ---\n${text.trim()}\n`).join('');
+  return `--- Inicio del documento: ${name} | Páginas: ${content.length} ---\n${body}\n--- Fin del documento ---\n\n`;
+};
+
+export const extractTextFromFiles = async (files: File[], onProgress?: (progress: ExtractionProgress) => void): Promise<string> => {
+  let combinedText = '';
+  let ocrSession: Promise<OcrSession> | null = null;
+  const context: ExtractionContext = {
+    onProgress,
+    getOcrSession: () => (ocrSession = ocrSession || createOcrSession()),
+  };
+
+  try {
+    for (const file of files) {
+      const extractor = getSourceExtractor(file);
+      if (!extractor) throw new Error(`Formato no soportado: ${file.name}`);
+
+      onProgress?.({ fileName: file.name });
+      try {
+        combinedText += formatDocument(file.name, await extractor.extract(file, context));
+      } catch (e) {
+        console.error(`Extraction failed for ${file.name}`, e);
+        throw new Error(`No se pudo leer ${file.name}`);
+      }
+    }
+  } finally {
+    ocrSession?.then(ocr => ocr.terminate()).catch(() => undefined);
+  }
+
+  console.log("Extracted Text Preview:", combinedText.slice(0, 500));
+  return combinedText;
+};
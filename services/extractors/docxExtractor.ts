@@ -0,0 +1,142 @@
+import type { SourceExtractor } from '../extractionService';
+import { childElements, descendants, loadZip, parseXml, readZipText } from './extractorUtils';
+
+// Word documents have no fixed pages, so we use the page breaks Word stored
+// when the file was last saved (they match what the student sees). Documents
+// without them are split at their top-level headings instead.
+
+interface Block {
+  text: string;
+  headingLevel: number | null;
+  pageBreakBefore: boolean;
+}
+
+// w:outlineLvl is 0-based and 9 means body text
+const toHeadingLevel = (outlineLevel: string | null | undefined): number | null => {
+  const level = outlineLevel ? parseInt(outlineLevel, 10) : NaN;
+  return level >= 0 && level < 9 ? level + 1 : null;
+};
+
+// Style id -> outline level, from built-in "heading N" styles or explicit w:outlineLvl
+const readHeadingStyles = (stylesXml: string | null): Map<string, number> => {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  descendants(parseXml(stylesXml), 'w:style').forEach(style => {
+    const id = style.getAttribute('w:styleId');
+    const name = style.getElementsByTagName('w:name')[0]?.getAttribute('w:val') || '';
+    const heading = /^heading (\d)$/i.exec(name);
+    const level = heading ? parseInt(heading[1], 10) : toHeadingLevel(style.getElementsByTagName('w:outlineLvl')[0]?.getAttribute('w:val'));
+    if (id && level) levels.set(id, level);
+  });
+  return levels;
+};
+
+const getHeadingLevel = (paragraph: Element, headingStyles: Map<string, number>): number | null => {
+  const properties = childElements(paragraph, 'w:pPr')[0];
+  if (!properties) return null;
+  const outline = toHeadingLevel(childElements(properties, 'w:outlineLvl')[0]?.getAttribute('w:val'));
+  if (outline) return outline;
+  const styleId = childElements(properties, 'w:pStyle')[0]?.getAttribute('w:val');
+  return (styleId && headingStyles.get(styleId)) || null;
+};
+
+const collectBlocks = (body: Element, headingStyles: Map<string, number>): Block[] => {
+  const blocks: Block[] = [];
+  let pendingBreak = false;
+
+  const pushText = (text: string, headingLevel: number | null = null) => {
+    const clean = text.replace(/[ \t]+/g, ' ').trim();
+    if (!clean) return;
+    const marker = headingLevel ? `${'#'.repeat(Math.min(headingLevel, 6))} ` : '';
+    blocks.push({ text: marker + clean, headingLevel, pageBreakBefore: pendingBreak });
+    pendingBreak = false;
+  };
+
+  const readParagraph = (paragraph: Element) => {
+    const headingLevel = getHeadingLevel(paragraph, headingStyles);
+    const breakBefore = paragraph.getElementsByTagName('w:pageBreakBefore')[0];
+    if (breakBefore && !['0', 'false'].includes(breakBefore.getAttribute('w:val') || '')) pendingBreak = true;
+
+    let text = '';
+    const walk = (el: Element) => {
+      switch (el.nodeName) {
+        case 'w:t':
+          text += el.textContent || '';
+          break;
+        case 'w:tab':
+          text += ' ';
+          break;
+        case 'w:br':
+        case 'w:lastRenderedPageBreak':
+          if (el.nodeName === 'w:br' && el.getAttribute('w:type') !== 'page') {
+            text += '\n';
+          } else {
+            // The paragraph continues on the next page
+            pushText(text, headingLevel);
+            text = '';
+            pendingBreak = true;
+          }
+          break;
+        case 'w:pPr':
+        case 'w:rPr':
+        case 'w:instrText':
+        case 'w:delText':
+          break;
+        default:
+          childElements(el).forEach(walk);
+      }
+    };
+    childElements(paragraph).forEach(walk);
+    pushText(text, headingLevel);
+  };
+
+  const readTable = (table: Element) => {
+    descendants(table, 'w:tr').forEach(row => {
+      const cells = childElements(row, 'w:tc').map(cell => descendants(cell, 'w:t').map(t => t.textContent).join('').trim());
+      pushText(cells.filter(Boolean).join(' | '));
+    });
+  };
+
+  const readContainer = (container: Element) => {
+    childElements(container).forEach(el => {
+      if (el.nodeName === 'w:p') readParagraph(el);
+      else if (el.nodeName === 'w:tbl') readTable(el);
+      else if (el.nodeName === 'w:sdt') childElements(el, 'w:sdtContent').forEach(readContainer);
+    });
+  };
+
+  readContainer(body);
+  return blocks;
+};
+
+const splitIntoPages = (blocks: Block[]): string[] => {
+  const hasPageBreaks = blocks.some((block, i) => i > 0 && block.pageBreakBefore);
+  const headingLevels = blocks.map(block => block.headingLevel).filter((level): level is number => level !== null);
+  const topLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : null;
+
+  const pages: string[][] = [];
+  blocks.forEach((block, i) => {
+    const startsPage = hasPageBreaks ? block.pageBreakBefore : topLevel !== null && block.headingLevel === topLevel;
+    if (i === 0 || startsPage) pages.push([]);
+    pages[pages.length - 1].push(block.text);
+  });
+
+  return pages.map(lines => lines.join('\n')).filter(page => page.trim());
+};
+
+export const docxExtractor: SourceExtractor = {
+  label: 'Word (.docx)',
+  extensions: ['docx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+
+  async extract(file) {
+    const zip = await loadZip(file);
+    const documentXml = await readZipText(zip, 'word/document.xml');
+    if (!documentXml) throw new Error('El archivo no es un documento de Word válido');
+
+    const body = parseXml(documentXml).getElementsByTagName('w:body')[0];
+    if (!body) return [];
+    return splitIntoPages(collectBlocks(body, readHeadingStyles(await readZipText(zip, 'word/styles.xml'))));
+  },
+};
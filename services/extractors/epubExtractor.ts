@@ -0,0 +1,47 @@
+import type { SourceExtractor } from '../extractionService';
+import { descendants, htmlToText, loadZip, parseXml, readZipText, resolveZipPath } from './extractorUtils';
+
+// One "page" per chapter (XHTML file of the spine), in reading order.
+
+const XHTML_TYPES = ['application/xhtml+xml', 'text/html'];
+
+const parseChapter = (content: string): Element | null => {
+  try {
+    return parseXml(content, 'application/xhtml+xml').getElementsByTagName('body')[0] || null;
+  } catch {
+    // Some books ship HTML that is not well-formed XML
+    return new DOMParser().parseFromString(content, 'text/html').body;
+  }
+};
+
+export const epubExtractor: SourceExtractor = {
+  label: 'EPUB',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+
+  async extract(file, { onProgress }) {
+    const zip = await loadZip(file);
+    const containerXml = await readZipText(zip, 'META-INF/container.xml');
+    const packagePath = containerXml ? descendants(parseXml(containerXml), 'rootfile')[0]?.getAttribute('full-path') : null;
+    const packageXml = packagePath ? await readZipText(zip, packagePath) : null;
+    if (!packagePath || !packageXml) throw new Error('El archivo no es un EPUB válido');
+
+    const opf = parseXml(packageXml);
+    const manifest = new Map(descendants(opf, 'item').map(item => [item.getAttribute('id') || '', item]));
+    const chapterPaths = descendants(opf, 'itemref')
+      .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+      .filter(item => item && XHTML_TYPES.includes(item.getAttribute('media-type') || ''))
+      .map(item => resolveZipPath(packagePath, item!.getAttribute('href') || ''));
+
+    const pages: string[] = [];
+    for (let i = 0; i < chapterPaths.length; i++) {
+      onProgress?.({ fileName: file.name, pageNumber: i + 1, totalPages: chapterPaths.length });
+      const content = await readZipText(zip, chapterPaths[i]);
+      const body = content ? parseChapter(content) : null;
+      const text = body ? htmlToText(body) : '';
+      // Covers and other image-only spine items
+      if (text) pages.push(text);
+    }
+    return pages;
+  },
+};
@@ -0,0 +1,86 @@
+import JSZip from 'jszip';
+
+// Helpers shared by the ZIP + XML based formats (DOCX, PPTX, EPUB).
+
+export const loadZip = async (file: File): Promise<JSZip> => JSZip.loadAsync(await file.arrayBuffer());
+
+export const readZipText = async (zip: JSZip, path: string): Promise<string | null> => {
+  const entry = zip.file(path);
+  return entry ? entry.async('string') : null;
+};
+
+export const parseXml = (content: string, type: DOMParserSupportedType = 'application/xml'): Document => {
+  const doc = new DOMParser().parseFromString(content, type);
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('XML no válido');
+  return doc;
+};
+
+// Children by qualified name ("w:p", "a:t"...), which is how OOXML is always written
+export const childElements = (parent: Element, name?: string): Element[] =>
+  Array.from(parent.children).filter(el => !name || el.nodeName === name);
+
+export const descendants = (parent: Element | Document, name: string): Element[] =>
+  Array.from(parent.getElementsByTagName(name));
+
+// Resolves a relationship/manifest target against the folder of the part that references it
+export const resolveZipPath = (basePath: string, target: string): string => {
+  const decoded = decodeURIComponent(target.split('#')[0]);
+  if (decoded.startsWith('/')) return decoded.slice(1);
+
+  const parts = basePath.split('/').slice(0, -1);
+  decoded.split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+// Reads an OOXML .rels part into a map of relationship id -> { target path, type }
+export const readRelationships = async (zip: JSZip, partPath: string): Promise<Map<string, { path: string; type: string }>> => {
+  const folder = partPath.split('/').slice(0, -1).join('/');
+  const fileName = partPath.split('/').pop();
+  const content = await readZipText(zip, `${folder ? `${folder}/` : ''}_rels/${fileName}.rels`);
+  const relationships = new Map<string, { path: string; type: string }>();
+  if (!content) return relationships;
+
+  descendants(parseXml(content), 'Relationship').forEach(rel => {
+    if (rel.getAttribute('TargetMode') === 'External') return;
+    relationships.set(rel.getAttribute('Id') || '', {
+      path: resolveZipPath(partPath, rel.getAttribute('Target') || ''),
+      type: rel.getAttribute('Type') || '',
+    });
+  });
+  return relationships;
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'aside', 'header', 'footer', 'blockquote', 'pre',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'dt', 'dd', 'tr', 'table', 'figcaption', 'br',
+]);
+
+// Plain text of an (X)HTML body: one line per block element, " | " between
+// table cells and "#" markers on headings
+export const htmlToText = (root: Element): string => {
+  let text = '';
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const tag = (node as Element).localName.toLowerCase();
+    if (tag === 'script' || tag === 'style') return;
+    if (tag === 'td' || tag === 'th') text += ' | ';
+    if (/^h[1-6]$/.test(tag)) text += `\n${'#'.repeat(parseInt(tag[1], 10))} `;
+    node.childNodes.forEach(walk);
+    if (BLOCK_TAGS.has(tag)) text += '\n';
+  };
+  walk(root);
+
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*\|\s*/, '').replace(/\s+/g, ' ').trim())
+    .filter(line => line && !/^#+$/.test(line))
+    .join('\n');
+};
@@ -0,0 +1,70 @@
+import type { SourceExtractor } from '../extractionService';
+import { buildPageLayout, PageLayout, PdfTextItem, renderDocumentLayout } from './pdfLayout';
+
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+// Pages whose text layer has fewer characters than this are treated as scanned images
+const MIN_TEXT_CHARS = 20;
+// Render scanned pages at 2x so Tesseract gets roughly 150 dpi
+const OCR_RENDER_SCALE = 2;
+
+const renderPageToCanvas = async (page: any): Promise<HTMLCanvasElement> => {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+  return canvas;
+};
+
+export const pdfExtractor: SourceExtractor = {
+  label: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+
+  async extract(file, { onProgress, getOcrSession }) {
+    const arrayBuffer = await file.arrayBuffer();
+
+    // Using the pdfjsLib loaded via CDN in index.html
+    const loadingTask = window.pdfjsLib.getDocument({ data: arrayBuffer });
+    const pdf = await loadingTask.promise;
+
+    const pages: (PageLayout | string)[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const progress = { fileName: file.name, pageNumber: i, totalPages: pdf.numPages };
+      onProgress?.(progress);
+
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      // Marked content and other entries without text are skipped
+      const items: PdfTextItem[] = textContent.items.filter((item: any) => typeof item.str === 'string');
+      const textLength = items.reduce((sum, item) => sum + item.str.replace(/\s/g, '').length, 0);
+
+      if (textLength < MIN_TEXT_CHARS) {
+        try {
+          const ocr = await getOcrSession();
+          const recognized = await ocr.recognize(await renderPageToCanvas(page), ocrProgress => onProgress?.({ ...progress, ocrProgress }));
+          if (recognized.length > textLength) {
+            pages.push(recognized.replace(/\n{3,}/g, '\n\n'));
+            continue;
+          }
+        } catch (e) {
+          console.error(`OCR failed for ${file.name}, page ${i}`, e);
+        }
+      }
+
+      // Coordinates relative to the page box, so margins are comparable across pages
+      const [x0, y0, x1, y1] = page.view;
+      const relativeItems = items.map(item => {
+        const [a, b, c, d, e, f] = item.transform;
+        return { ...item, transform: [a, b, c, d, e - x0, f - y0] };
+      });
+      pages.push(buildPageLayout(relativeItems, x1 - x0, y1 - y0));
+    }
+    return renderDocumentLayout(pages);
+  },
+};
@@ -0,0 +1,272 @@
+// Rebuilds readable text from the positioned items pdf.js returns: lines and
+// paragraphs from coordinates, two-column reading order, tables as
+// "cell | cell" rows, headings (marked with "#") from font sizes, and
+// running headers/footers removed. Works in two passes because body font
+// size and repeated headers are only known once every page has been read.
+
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface Cell {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+interface Row {
+  y: number; // baseline, PDF space (grows upwards)
+  fontSize: number;
+  cells: Cell[];
+}
+
+export interface PageLayout {
+  width: number;
+  height: number;
+  rows: Row[]; // already in reading order
+}
+
+// Horizontal gap (in ems) that separates table cells or columns instead of words
+const CELL_GAP_EMS = 1.2;
+// Top and bottom share of the page where running headers and footers live
+const MARGIN_BAND = 0.1;
+// A header/footer must repeat on this share of the pages to be dropped
+const REPEATED_SHARE = 0.4;
+// Lines this much larger than the body text are headings
+const HEADING_RATIO = 1.15;
+const MAX_HEADING_CHARS = 150;
+const MAX_HEADING_LEVEL = 3;
+
+const roundSize = (size: number): number => Math.round(size * 2) / 2;
+
+const cellWidth = (cell: Cell): number => cell.x1 - cell.x0;
+
+const rowText = (row: Row, separator = ' '): string => row.cells.map(cell => cell.text).join(separator);
+
+// ---------- Pass 1: one page ----------
+
+const groupRows = (items: PdfTextItem[]): Row[] => {
+  const positioned = items
+    .filter(item => item.str.trim())
+    .map(item => ({
+      text: item.str,
+      x0: item.transform[4],
+      x1: item.transform[4] + item.width,
+      y: item.transform[5],
+      fontSize: item.height || Math.hypot(item.transform[2], item.transform[3]) || 10,
+    }))
+    .sort((a, b) => b.y - a.y || a.x0 - b.x0);
+
+  // Items sharing a baseline (within half an em) form a line
+  const lines: (typeof positioned)[] = [];
+  positioned.forEach(item => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= Math.max(line[0].fontSize, item.fontSize) * 0.5) line.push(item);
+    else lines.push([item]);
+  });
+
+  return lines.map(line => {
+    line.sort((a, b) => a.x0 - b.x0);
+    const fontSize = Math.max(...line.map(item => item.fontSize));
+    const cells: Cell[] = [];
+    line.forEach(item => {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x0 - cell.x1 : Infinity;
+      if (gap > fontSize * CELL_GAP_EMS) {
+        cells.push({ text: item.text.trim(), x0: item.x0, x1: item.x1 });
+        return;
+      }
+      const needsSpace = gap > fontSize * 0.1 && !/\s$/.test(cell.text) && !/^\s/.test(item.text);
+      cell.text = (cell.text + (needsSpace ? ' ' : '') + item.text).replace(/\s+/g, ' ');
+      cell.x1 = Math.max(cell.x1, item.x1);
+    });
+    return { y: line[0].y, fontSize, cells: cells.map(cell => ({ ...cell, text: cell.text.trim() })) };
+  });
+};
+
+/**
+ * Vertical gap near the middle of the page that no text crosses, with
+ * paragraph-wide text on both sides (narrow table cells do not count).
+ */
+const findGutter = (rows: Row[], width: number): number | null => {
+  const cells = rows.flatMap(row => row.cells);
+  if (cells.length < 6) return null;
+
+  let best: { x: number; crossing: number } | null = null;
+  for (let x = width * 0.3; x <= width * 0.7; x += width / 100) {
+    const crossing = cells.filter(cell => cell.x0 < x && cell.x1 > x).length;
+    if (!best || crossing < best.crossing || (crossing === best.crossing && Math.abs(x - width / 2) < Math.abs(best.x - width / 2))) {
+      best = { x, crossing };
+    }
+  }
+  if (!best || best.crossing > cells.length * 0.1) return null;
+
+  const gutter = best.x;
+  const sides = [cells.filter(cell => cell.x1 <= gutter), cells.filter(cell => cell.x0 >= gutter)];
+  const isColumn = (side: Cell[]) => {
+    const wide = side.filter(cell => cellWidth(cell) > width * 0.25);
+    const total = side.reduce((sum, cell) => sum + cellWidth(cell), 0);
+    return wide.length >= 3 && wide.reduce((sum, cell) => sum + cellWidth(cell), 0) >= total * 0.5;
+  };
+  return sides.every(isColumn) ? gutter : null;
+};
+
+// Crosses the gutter, or is a table row (several narrow cells on both sides)
+const spansColumns = (row: Row, gutter: number, width: number): boolean =>
+  row.cells.some(cell => cell.x0 < gutter && cell.x1 > gutter) ||
+  (row.cells.length >= 3 &&
+    row.cells.some(cell => cell.x1 <= gutter) &&
+    row.cells.some(cell => cell.x0 >= gutter) &&
+    row.cells.every(cell => cellWidth(cell) <= width * 0.25));
+
+// Left column, then right column, between lines that span the whole width
+const orderColumns = (rows: Row[], gutter: number, width: number): Row[] => {
+  const ordered: Row[] = [];
+  let left: Row[] = [];
+  let right: Row[] = [];
+  const flush = () => {
+    ordered.push(...left, ...right);
+    left = [];
+    right = [];
+  };
+
+  rows.forEach(row => {
+    if (spansColumns(row, gutter, width)) {
+      flush();
+      ordered.push(row);
+      return;
+    }
+    const leftCells = row.cells.filter(cell => cell.x1 <= gutter);
+    const rightCells = row.cells.filter(cell => cell.x0 >= gutter);
+    if (leftCells.length > 0) left.push({ ...row, cells: leftCells });
+    if (rightCells.length > 0) right.push({ ...row, cells: rightCells });
+  });
+  flush();
+  return ordered;
+};
+
+export const buildPageLayout = (items: PdfTextItem[], width: number, height: number): PageLayout => {
+  const rows = groupRows(items);
+  const gutter = findGutter(rows, width);
+  return { width, height, rows: gutter === null ? rows : orderColumns(rows, gutter, width) };
+};
+
+// ---------- Pass 2: whole document ----------
+
+const normalizeRepeated = (text: string): string => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+const isInMargin = (row: Row, layout: PageLayout): boolean =>
+  row.y > layout.height * (1 - MARGIN_BAND) || row.y < layout.height * MARGIN_BAND;
+
+// Body-sized lines in the top/bottom band that repeat across pages (page numbers included)
+const findRepeatedMargins = (layouts: PageLayout[], bodySize: number): Set<string> => {
+  const pagesWith = new Map<string, number>();
+  layouts.forEach(layout => {
+    const margins = layout.rows.filter(row => isInMargin(row, layout) && row.fontSize < bodySize * HEADING_RATIO);
+    new Set(margins.map(row => normalizeRepeated(rowText(row)))).forEach(key =>
+      pagesWith.set(key, (pagesWith.get(key) || 0) + 1)
+    );
+  });
+
+  const minPages = Math.max(2, Math.ceil(layouts.length * REPEATED_SHARE));
+  return new Set([...pagesWith.entries()].filter(([, count]) => layouts.length >= 3 && count >= minPages).map(([key]) => key));
+};
+
+// Font size covering most characters
+const findBodyFontSize = (rows: Row[]): number => {
+  const chars = new Map<number, number>();
+  rows.forEach(row => {
+    const size = roundSize(row.fontSize);
+    chars.set(size, (chars.get(size) || 0) + rowText(row).length);
+  });
+  return [...chars.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 10;
+};
+
+const isHeading = (row: Row, bodySize: number): boolean =>
+  row.cells.length === 1 && row.fontSize >= bodySize * HEADING_RATIO && rowText(row).length <= MAX_HEADING_CHARS;
+
+const joinLines = (previous: string, next: string): string =>
+  /[a-záéíóúñ]-$/i.test(previous) && /^[a-záéíóúñ]/.test(next) ? previous.slice(0, -1) + next : `${previous} ${next}`;
+
+const renderPage = (rows: Row[], bodySize: number, headingLevels: Map<number, number>): string => {
+  const blocks: string[] = [];
+  let paragraph: { text: string; last: Row; right: number } | null = null;
+  let table: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph) blocks.push(paragraph.text);
+    paragraph = null;
+  };
+  const flushTable = () => {
+    // A single wide-gapped line is not a table, just spaced-out text
+    if (table.length === 1) blocks.push(table[0].replace(/ \| /g, ' '));
+    else if (table.length > 1) blocks.push(...table);
+    table = [];
+  };
+
+  rows.forEach((row, i) => {
+    if (row.cells.length > 1) {
+      flushParagraph();
+      table.push(rowText(row, ' | '));
+      return;
+    }
+    flushTable();
+
+    const text = rowText(row);
+    if (isHeading(row, bodySize)) {
+      const previous = rows[i - 1];
+      const level = headingLevels.get(roundSize(row.fontSize)) || MAX_HEADING_LEVEL;
+      const marker = `${'#'.repeat(level)} `;
+      // Headings broken over two lines
+      if (previous && isHeading(previous, bodySize) && roundSize(previous.fontSize) === roundSize(row.fontSize) && blocks[blocks.length - 1]?.startsWith(marker)) {
+        blocks[blocks.length - 1] += ` ${text}`;
+      } else {
+        flushParagraph();
+        blocks.push(marker + text);
+      }
+      return;
+    }
+
+    const cell = row.cells[0];
+    if (paragraph) {
+      const { last, right } = paragraph;
+      const gap = last.y - row.y;
+      const sameStyle = Math.abs(last.fontSize - row.fontSize) <= last.fontSize * 0.1;
+      // A short line ending a sentence closes the paragraph
+      const endedEarly = /[.:!?]$/.test(paragraph.text) && last.cells[0].x1 < right - (right - cell.x0) * 0.15;
+      if (gap > 0 && gap <= row.fontSize * 1.8 && sameStyle && !endedEarly) {
+        paragraph = { text: joinLines(paragraph.text, text), last: row, right: Math.max(right, cell.x1) };
+        return;
+      }
+      flushParagraph();
+    }
+    paragraph = { text, last: row, right: cell.x1 };
+  });
+  flushParagraph();
+  flushTable();
+
+  return blocks.join('\n');
+};
+
+/**
+ * Renders every page of a document. Pages given as plain strings (OCR
+ * output) are passed through, but still count for header detection.
+ */
+export const renderDocumentLayout = (pages: (PageLayout | string)[]): string[] => {
+  const layouts = pages.filter((page): page is PageLayout => typeof page !== 'string');
+  const bodySize = findBodyFontSize(layouts.flatMap(layout => layout.rows));
+  const repeated = findRepeatedMargins(layouts, bodySize);
+  const isRepeated = (row: Row, layout: PageLayout) =>
+    isInMargin(row, layout) && row.fontSize < bodySize * HEADING_RATIO && repeated.has(normalizeRepeated(rowText(row)));
+  const cleaned = new Map(layouts.map(layout => [layout, layout.rows.filter(row => !isRepeated(row, layout))]));
+
+  const allRows = [...cleaned.values()].flat();
+  // Largest heading size is level 1, next one level 2...
+  const headingSizes = [...new Set(allRows.filter(row => isHeading(row, bodySize)).map(row => roundSize(row.fontSize)))].sort((a, b) => b - a);
+  const headingLevels = new Map(headingSizes.map((size, i) => [size, Math.min(i + 1, MAX_HEADING_LEVEL)]));
+
+  return pages.map(page => (typeof page === 'string' ? page : renderPage(cleaned.get(page)!, bodySize, headingLevels)));
+};
@@ -0,0 +1,83 @@
+import type { SourceExtractor } from '../extractionService';
+import { childElements, descendants, loadZip, parseXml, readRelationships, readZipText } from './extractorUtils';
+
+// One "page" per slide, in presentation order, followed by its speaker notes.
+
+const PRESENTATION_PATH = 'ppt/presentation.xml';
+const NOTES_RELATIONSHIP = /\/notesSlide$/;
+
+// Text of every paragraph in a shape tree, one line per paragraph
+const readParagraphs = (root: Element): string[] => {
+  const lines: string[] = [];
+  descendants(root, 'a:p').forEach(paragraph => {
+    let text = '';
+    const walk = (el: Element) => {
+      if (el.nodeName === 'a:t') text += el.textContent || '';
+      else if (el.nodeName === 'a:br') text += ' ';
+      else childElements(el).forEach(walk);
+    };
+    childElements(paragraph).forEach(walk);
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (clean) lines.push(clean);
+  });
+  return lines;
+};
+
+// Table rows are kept together as "cell | cell" lines
+const readSlide = (slide: Document): string[] => {
+  const lines: string[] = [];
+  const walk = (el: Element) => {
+    if (el.nodeName === 'a:tbl') {
+      descendants(el, 'a:tr').forEach(row => {
+        const cells = childElements(row, 'a:tc').map(cell => readParagraphs(cell).join(' '));
+        if (cells.some(Boolean)) lines.push(cells.join(' | '));
+      });
+    } else if (el.nodeName === 'p:txBody') {
+      lines.push(...readParagraphs(el));
+    } else {
+      childElements(el).forEach(walk);
+    }
+  };
+  walk(slide.documentElement);
+  return lines;
+};
+
+// Only the notes body: the notes page also holds the slide image and its number
+const readNotes = (notes: Document): string[] =>
+  descendants(notes, 'p:sp')
+    .filter(shape => shape.getElementsByTagName('p:ph')[0]?.getAttribute('type') === 'body')
+    .flatMap(shape => readParagraphs(shape));
+
+export const pptxExtractor: SourceExtractor = {
+  label: 'PowerPoint (.pptx)',
+  extensions: ['pptx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+
+  async extract(file, { onProgress }) {
+    const zip = await loadZip(file);
+    const presentationXml = await readZipText(zip, PRESENTATION_PATH);
+    if (!presentationXml) throw new Error('El archivo no es una presentación de PowerPoint válida');
+
+    const relationships = await readRelationships(zip, PRESENTATION_PATH);
+    const slidePaths = descendants(parseXml(presentationXml), 'p:sldId')
+      .map(slide => relationships.get(slide.getAttribute('r:id') || '')?.path)
+      .filter((path): path is string => !!path);
+
+    const pages: string[] = [];
+    for (let i = 0; i < slidePaths.length; i++) {
+      onProgress?.({ fileName: file.name, pageNumber: i + 1, totalPages: slidePaths.length });
+
+      const slideXml = await readZipText(zip, slidePaths[i]);
+      const lines = slideXml ? readSlide(parseXml(slideXml)) : [];
+
+      const notesPath = [...(await readRelationships(zip, slidePaths[i])).values()].find(rel => NOTES_RELATIONSHIP.test(rel.type))?.path;
+      const notesXml = notesPath ? await readZipText(zip, notesPath) : null;
+      const notes = notesXml ? readNotes(parseXml(notesXml)) : [];
+      if (notes.length > 0) lines.push(`Notas: ${notes.join('\n')}`);
+
+      // Empty slides still count so numbering matches the presentation
+      pages.push(lines.join('\n'));
+    }
+    return pages;
+  },
+};
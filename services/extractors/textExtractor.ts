@@ -0,0 +1,96 @@
+import type { SourceExtractor } from '../extractionService';
+
+// Plain text has no pages: form feeds are honoured when present, otherwise
+// paragraphs are grouped into pages of roughly one printed sheet. Markdown is
+// split at its top-level headings instead.
+
+const PAGE_CHARS = 3000;
+
+// Most notes are UTF-8, but files saved by older Windows editors are not
+const readText = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+};
+
+const normalizeNewlines = (text: string): string => text.replace(/^﻿/, '').replace(/\r\n?/g, '\n');
+
+const paginate = (text: string): string[] => {
+  if (text.includes('\f')) return text.split('\f').map(page => page.trim()).filter(Boolean);
+
+  const pages: string[] = [];
+  let current = '';
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    const clean = paragraph.trim();
+    if (!clean) return;
+    if (current && current.length + clean.length > PAGE_CHARS) {
+      pages.push(current);
+      current = '';
+    }
+    current += (current ? '\n\n' : '') + clean;
+  });
+  if (current) pages.push(current);
+  return pages;
+};
+
+// Keeps the readable text of links, images and emphasis; drops the syntax.
+// Heading markers stay, as in the PDF and Word output.
+const stripMarkdown = (line: string): string =>
+  line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s*>\s?/, '')
+    .replace(/(\*\*|__|~~|`)/g, '')
+    .replace(/^\s*[-*+]\s+/, '- ');
+
+const FENCE_REGEX = /^\s*(```|~~~)/;
+const HEADING_REGEX = /^(#{1,6})\s/;
+
+const splitMarkdownSections = (text: string): string[] => {
+  // Lines starting with "#" inside fenced code blocks are not headings
+  let inCode = false;
+  const lines = text.split('\n').map(line => {
+    if (FENCE_REGEX.test(line)) {
+      inCode = !inCode;
+      return { text: '', level: null };
+    }
+    if (inCode) return { text: line, level: null };
+    return { text: stripMarkdown(line), level: HEADING_REGEX.exec(line)?.[1].length ?? null };
+  });
+
+  const headingLevels = lines.map(line => line.level).filter((level): level is number => level !== null);
+  if (headingLevels.length === 0) return paginate(lines.map(line => line.text).join('\n'));
+
+  const topLevel = Math.min(...headingLevels);
+  const sections: string[][] = [[]];
+  lines.forEach(line => {
+    if (line.level === topLevel && sections[sections.length - 1].some(Boolean)) sections.push([]);
+    sections[sections.length - 1].push(line.text);
+  });
+
+  return sections.map(section => section.join('\n').replace(/\n{3,}/g, '\n\n').trim()).filter(Boolean);
+};
+
+export const markdownExtractor: SourceExtractor = {
+  label: 'Markdown',
+  extensions: ['md', 'markdown'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+
+  async extract(file) {
+    return splitMarkdownSections(normalizeNewlines(await readText(file)));
+  },
+};
+
+export const plainTextExtractor: SourceExtractor = {
+  label: 'texto (.txt)',
+  extensions: ['txt'],
+  mimeTypes: ['text/plain'],
+
+  async extract(file) {
+    return paginate(normalizeNewlines(await readText(file)));
+  },
+};
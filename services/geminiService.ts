@@ -1,12 +1,10 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { ExamSettings, ExamType, TestQuestion, ClozeCard, OpenQuestion } from "../types";
-
-const getAiClient = () => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing");
-  }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
+import { ExamSettings, TestQuestion, ClozeCard, OpenQuestion, Language, OpenAnswerEvaluation, OralTurn, RubricCriterion } from "../types";
+import { getLLMProvider, JsonSchema } from "./llmProvider";
+import { planChunks, mapWithConcurrency, dedupeByText, distributeByWeight, TextChunk } from "./chunkingService";
+import { createGroundingIndex, groundTestQuestion } from "./groundingService";
+import { selectPages } from "./pageSelection";
+import { asRubric } from "./itemValidation";
+import { getRubricScore } from "./scoringService";
 
 const getDifficultyPrompt = (difficulty: string) => {
   switch (difficulty) {
@@ -20,7 +18,26 @@ const getDifficultyPrompt = (difficulty: string) => {
   }
 };
 
-export const getQuestionCountsPerDocument = (text: string, totalQuestions: number): { docName: string; count: number }[] => {
+// How each exam language is named inside the (Spanish) prompts
+const LANGUAGE_NAMES: Record<Language, string> = {
+  es: "ESPAÑOL",
+  en: "INGLÉS (English)",
+  ca: "CATALÁN (Català)",
+  pt: "PORTUGUÉS DE PORTUGAL (Português)",
+};
+
+const DEFAULT_TITLES: Record<Language, string> = {
+  es: "Conocimientos Generales",
+  en: "General Knowledge",
+  ca: "Coneixements Generals",
+  pt: "Conhecimentos Gerais",
+};
+
+// The exam language is independent of the language the documents are written in
+const getLanguagePrompt = (language: Language = "es") =>
+  `Todo en ${LANGUAGE_NAMES[language]}, aunque el texto del documento esté en otro idioma (traduce el contenido si hace falta)`;
+
+const getProportionalCounts = (text: string, totalQuestions: number): { docName: string; count: number }[] => {
   // Updated regex to capture page count: --- Inicio del documento: [name] | Páginas: [pages] ---
   const docRegex = /--- Inicio del documento: (.*?) \| Páginas: (\d+) ---\n([\s\S]*?)\n--- Fin del documento ---/g;
   let match;
@@ -86,40 +103,284 @@ export const getQuestionCountsPerDocument = (text: string, totalQuestions: numbe
   return result;
 };
 
-const calculateQuestionDistribution = (text: string, totalQuestions: number): string => {
-  const distribution = getQuestionCountsPerDocument(text, totalQuestions);
-  if (distribution.length === 0) return "";
+// Questions per document: proportional to page count, unless Settings has a
+// manual count for the document (see ExamSettings.documentCounts)
+export const getQuestionCountsPerDocument = (
+  text: string,
+  totalQuestions: number,
+  manualCounts?: Record<string, number>
+): { docName: string; count: number }[] => {
+  const proportional = getProportionalCounts(text, totalQuestions);
+  if (!manualCounts) return proportional;
+  return proportional.map(doc => ({ docName: doc.docName, count: manualCounts[doc.docName] ?? doc.count }));
+};
+
+const CHUNK_CONCURRENCY = 3;
+const MAX_AVOID_ITEMS = 40;
+
+const buildDistributionInstruction = (distribution: { docName: string; count: number }[]): string => {
+  const namedDocs = distribution.filter(item => item.docName);
+  if (namedDocs.length <= 1) return "";
 
   let distributionPrompt = "INSTRUCCIÓN DE DISTRIBUCIÓN OBLIGATORIA:\n";
-  distribution.forEach(item => {
+  namedDocs.forEach(item => {
     distributionPrompt += `- Genera EXACTAMENTE ${item.count} preguntas/items del documento "${item.docName}".\n`;
   });
 
   return distributionPrompt;
 };
 
+const buildAvoidInstruction = (avoid: string[]): string => {
+  if (avoid.length === 0) return "";
+  const listed = avoid.slice(-MAX_AVOID_ITEMS).map(item => `- ${item.slice(0, 150)}`).join("\n");
+  return `NO repitas ninguno de estos contenidos ya generados:\n${listed}`;
+};
+
+interface ChunkRequest {
+  text: string;
+  count: number;
+  distributionInstruction: string;
+  avoidInstruction: string;
+}
+
+// Restricts a top-up request to one document of a multi-document chunk
+const buildSingleDocumentInstruction = (docName: string, count: number): string =>
+  `INSTRUCCIÓN DE DISTRIBUCIÓN OBLIGATORIA:\n- Genera EXACTAMENTE ${count} preguntas/items, todas del documento "${docName}".\n`;
+
+// Document an item belongs to: the one named in its sourceFile when it is part
+// of the chunk, otherwise the chunk's only document.
+const attributeDocument = (sourceFile: string | undefined, chunk: TextChunk): string | null => {
+  const docNames = [...new Set(chunk.pages.map(page => page.docName).filter((name): name is string => name !== null))];
+  const named = sourceFile?.replace(/\s*\(Pág\.\s*\d+\)$/, '').trim();
+  if (named && docNames.includes(named)) return named;
+  return docNames.length === 1 ? docNames[0] : null;
+};
+
+// Fills every document's quota first and spends the free slots on the rest,
+// keeping the generation order.
+const pickWithinQuotas = <T>(items: T[], docCounts: { docName: string; count: number }[], documentOf: Map<T, string | null>, total: number): T[] => {
+  const remaining = new Map(docCounts.map(doc => [doc.docName, doc.count]));
+  const inQuota = new Set<T>();
+  items.forEach(item => {
+    const docName = documentOf.get(item);
+    const left = docName ? remaining.get(docName) ?? 0 : 0;
+    if (left > 0) {
+      inQuota.add(item);
+      remaining.set(docName!, left - 1);
+    }
+  });
+
+  remaining.forEach((left, docName) => {
+    if (left > 0) console.warn(`Document "${docName}" is ${left} items short of its requested count`);
+  });
+
+  let free = total - inQuota.size;
+  return items.filter(item => inQuota.has(item) || free-- > 0);
+};
+
+// Map-reduce over the whole document: each chunk generates its share of items,
+// results are merged and deduplicated, documents that fell short of their
+// requested count are topped up from their own pages, and any remaining
+// shortfall is topped up once across all chunks.
+const generateAcrossChunks = async <T extends { sourceFile?: string }>(
+  text: string,
+  totalCount: number,
+  documentCounts: Record<string, number> | undefined,
+  generateChunk: (request: ChunkRequest) => Promise<T[]>,
+  getKey: (item: T) => string
+): Promise<T[]> => {
+  const docCounts = getQuestionCountsPerDocument(text, totalCount, documentCounts);
+  const chunks = planChunks(text, totalCount, docCounts);
+  const documentOf = new Map<T, string | null>();
+  let firstError: unknown = null;
+
+  const safeGenerate = async (chunk: TextChunk, request: ChunkRequest, targetDoc: string | null = null): Promise<T[]> => {
+    try {
+      const items = (await generateChunk(request)).slice(0, request.count);
+      items.forEach(item => documentOf.set(item, attributeDocument(item.sourceFile, chunk) ?? targetDoc));
+      return items;
+    } catch (e) {
+      console.error("Chunk generation failed", e);
+      firstError = firstError || e;
+      return [];
+    }
+  };
+
+  const perChunk = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, chunk =>
+    chunk.count > 0
+      ? safeGenerate(chunk, {
+        text: chunk.text,
+        count: chunk.count,
+        distributionInstruction: buildDistributionInstruction(chunk.docCounts),
+        avoidInstruction: "",
+      })
+      : Promise.resolve([])
+  );
+
+  let merged = dedupeByText(perChunk.flat(), getKey);
+  if (merged.length === 0 && firstError) throw firstError;
+
+  // Validate the per-document counts against what was requested
+  if (docCounts.length > 1) {
+    const produced = new Map<string, number>();
+    merged.forEach(item => {
+      const docName = documentOf.get(item);
+      if (docName) produced.set(docName, (produced.get(docName) || 0) + 1);
+    });
+
+    const requests = docCounts.flatMap(({ docName, count }) => {
+      const missing = count - (produced.get(docName) || 0);
+      if (missing <= 0) return [];
+      const docChunks = chunks.filter(chunk => chunk.pages.some(page => page.docName === docName));
+      const perChunkCounts = distributeByWeight(docChunks.map(chunk => chunk.pages.filter(page => page.docName === docName).length), missing);
+      return docChunks.map((chunk, i) => ({ chunk, docName, count: perChunkCounts[i] })).filter(request => request.count > 0);
+    });
+
+    if (requests.length > 0) {
+      const avoidInstruction = buildAvoidInstruction(merged.map(getKey));
+      const extra = await mapWithConcurrency(requests, CHUNK_CONCURRENCY, ({ chunk, docName, count }) =>
+        safeGenerate(chunk, { text: chunk.text, count, distributionInstruction: buildSingleDocumentInstruction(docName, count), avoidInstruction }, docName)
+      );
+      merged = dedupeByText([...merged, ...extra.flat()], getKey);
+    }
+  }
+
+  const shortfall = totalCount - merged.length;
+  if (shortfall > 0) {
+    const topUpCounts = distributeByWeight(chunks.map(chunk => chunk.count), shortfall);
+    const avoidInstruction = buildAvoidInstruction(merged.map(getKey));
+    const extra = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, i) =>
+      topUpCounts[i] > 0
+        ? safeGenerate(chunk, { text: chunk.text, count: topUpCounts[i], distributionInstruction: "", avoidInstruction })
+        : Promise.resolve([])
+    );
+    merged = dedupeByText([...merged, ...extra.flat()], getKey);
+  }
+
+  return docCounts.length > 1 ? pickWithinQuotas(merged, docCounts, documentOf, totalCount) : merged.slice(0, totalCount);
+};
+
+// Picks the chunk an item came from ("file.pdf (Pág. 5)"), falling back to
+// the document or to a random chunk when the source is unknown.
+const findSourceChunk = (chunks: TextChunk[], sourceFile?: string): TextChunk | undefined => {
+  const match = sourceFile?.match(/^(.*?)(?: \(Pág\. (\d+)\))?$/);
+  const docName = match?.[1].trim();
+  const page = match?.[2] ? parseInt(match[2], 10) : null;
+
+  return chunks.find(chunk => chunk.pages.some(p => p.docName === docName && (page === null || p.pageNumber === page)))
+    || chunks.find(chunk => chunk.pages.some(p => p.docName === docName))
+    || chunks[Math.floor(Math.random() * chunks.length)];
+};
+
+// Generates one replacement for `current`, from the same part of the document
+// and different from every item already in the exam.
+const regenerateItem = async <T>(
+  text: string,
+  current: T,
+  others: T[],
+  sourceFile: string | undefined,
+  generateChunk: (request: ChunkRequest) => Promise<T[]>,
+  getKey: (item: T) => string
+): Promise<T> => {
+  const chunk = findSourceChunk(planChunks(text, 1), sourceFile);
+  if (!chunk) throw new Error("No hay texto del documento para regenerar");
+
+  const existing = [current, ...others];
+  const items = await generateChunk({
+    text: chunk.text,
+    count: 1,
+    distributionInstruction: "",
+    avoidInstruction: buildAvoidInstruction(existing.map(getKey)),
+  });
+
+  // dedupeByText keeps first occurrences, so a repeated item is the one dropped
+  const fresh = items.find(item => dedupeByText([...existing, item], getKey).includes(item));
+  if (!fresh) throw new Error("No se pudo generar un elemento nuevo");
+  return fresh;
+};
+
+// Public generators receive the whole upload and narrow it to the pages
+// selected in Settings (see pageSelection.ts)
+
+export const regenerateTestQuestion = async (text: string, settings: ExamSettings, current: TestQuestion, others: TestQuestion[]): Promise<TestQuestion> => {
+  const source = selectPages(text, settings.pageSelection);
+  const question = await regenerateItem(source, current, others, current.sourceFile, chunk => generateTestQuestionsForChunk(chunk, settings), q => q.question);
+  return groundTestQuestion(question, createGroundingIndex(source), !!settings.showSourceFile);
+};
+
+export const regenerateClozeCard = (text: string, settings: ExamSettings, current: ClozeCard, others: ClozeCard[]): Promise<ClozeCard> =>
+  regenerateItem(selectPages(text, settings.pageSelection), current, others, current.sourceFile, chunk => generateClozeCardsForChunk(chunk, settings), c => c.fullText);
+
+export const regenerateOpenQuestion = (text: string, settings: ExamSettings, current: OpenQuestion, others: OpenQuestion[]): Promise<OpenQuestion> =>
+  regenerateItem(selectPages(text, settings.pageSelection), current, others, current.sourceFile, chunk => generateOpenQuestionsForChunk(chunk, settings), q => q.question);
+
 export const generateTestQuestions = async (text: string, settings: ExamSettings): Promise<TestQuestion[]> => {
-  const ai = getAiClient();
-  const distributionInstruction = calculateQuestionDistribution(text, settings.questionCount);
+  const source = selectPages(text, settings.pageSelection);
+  const questions = await generateAcrossChunks(source, settings.questionCount, settings.documentCounts, chunk => generateTestQuestionsForChunk(chunk, settings), q => q.question);
+  return verifyTestQuestions(source, settings, questions);
+};
+
+// Adaptive practice (see adaptiveService.ts): new questions on the pages selected in
+// `settings`, aimed at the concepts behind the questions the learner got wrong.
+// `asked` are the questions already shown in the session.
+export const generatePracticeQuestions = async (text: string, settings: ExamSettings, missedQuestions: string[], asked: string[]): Promise<TestQuestion[]> => {
+  const source = selectPages(text, settings.pageSelection);
+  const focusInstruction = missedQuestions.length > 0
+    ? `El estudiante falló estas preguntas. Genera preguntas NUEVAS que evalúen los mismos conceptos desde otro ángulo:\n${missedQuestions.map(q => `- ${q.slice(0, 150)}`).join("\n")}`
+    : "";
+  const askedInstruction = buildAvoidInstruction([...missedQuestions, ...asked]);
+
+  const questions = await generateAcrossChunks(source, settings.questionCount, undefined, request => generateTestQuestionsForChunk({
+    ...request,
+    distributionInstruction: [request.distributionInstruction, focusInstruction].filter(Boolean).join("\n"),
+    avoidInstruction: [askedInstruction, request.avoidInstruction].filter(Boolean).join("\n"),
+  }, settings), q => q.question);
+  return verifyTestQuestions(source, settings, questions);
+};
 
-  const schema: Schema = {
-    type: Type.ARRAY,
+// Checks every sourceQuote against the document. Questions whose quote cannot be
+// found are flagged, or replaced once when the settings ask for it.
+const verifyTestQuestions = async (text: string, settings: ExamSettings, questions: TestQuestion[]): Promise<TestQuestion[]> => {
+  const index = createGroundingIndex(text);
+  const verified = questions.map(q => groundTestQuestion(q, index, !!settings.showSourceFile));
+  if (!settings.regenerateUngrounded) return verified;
+
+  // Sequential, so each replacement also avoids the ones generated before it
+  for (let i = 0; i < verified.length; i++) {
+    if (!verified[i].ungrounded) continue;
+    try {
+      const others = verified.filter((_, j) => j !== i);
+      const fresh = await regenerateItem(text, verified[i], others, verified[i].sourceFile, chunk => generateTestQuestionsForChunk(chunk, settings), q => q.question);
+      const grounded = groundTestQuestion(fresh, index, !!settings.showSourceFile);
+      if (!grounded.ungrounded) verified[i] = grounded;
+    } catch (e) {
+      console.error("Could not replace ungrounded question", e);
+    }
+  }
+  return verified;
+};
+
+const generateTestQuestionsForChunk = async ({ text, count, distributionInstruction, avoidInstruction }: ChunkRequest, settings: ExamSettings): Promise<TestQuestion[]> => {
+  const llm = getLLMProvider();
+
+  const schema: JsonSchema = {
+    type: 'array',
     items: {
-      type: Type.OBJECT,
+      type: 'object',
       properties: {
-        question: { type: Type.STRING },
-        options: { type: Type.ARRAY, items: { type: Type.STRING } },
-        correctIndices: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Zero-based indices of correct options" },
-        explanation: { type: Type.STRING },
-        sourceQuote: { type: Type.STRING, description: "Direct quote from text supporting the answer" },
-        sourceFile: { type: Type.STRING, description: "Name of the file where the content was found, extracted from the delimiters." },
+        question: { type: 'string' },
+        options: { type: 'array', items: { type: 'string' } },
+        correctIndices: { type: 'array', items: { type: 'integer' }, description: "Zero-based indices of correct options" },
+        explanation: { type: 'string' },
+        sourceQuote: { type: 'string', description: "Direct quote from text supporting the answer" },
+        sourceFile: { type: 'string', description: "Name of the file where the content was found, extracted from the delimiters." },
       },
       required: ["question", "options", "correctIndices", "explanation", "sourceQuote"],
     },
   };
 
   const prompt = `
-    INSTRUCCIÓN CRÍTICA: Genera ${settings.questionCount} preguntas de tipo test basadas ESTRICTAMENTE en el texto proporcionado a continuación.
+    INSTRUCCIÓN CRÍTICA: Genera ${count} preguntas de tipo test basadas ESTRICTAMENTE en el texto proporcionado a continuación.
     
     REGLAS OBLIGATORIAS:
     1. Cada pregunta DEBE basarse en información que aparece EXPLÍCITAMENTE en el texto
@@ -128,199 +389,326 @@ export const generateTestQuestions = async (text: string, settings: ExamSettings
     4. Las opciones incorrectas pueden usar conocimiento general pero deben ser claramente incorrectas según el texto
     5. Si el texto no tiene suficiente información, genera MENOS preguntas (no inventes contenido)
     
-    El texto contiene múltiples documentos delimitados por "--- Inicio del documento: [nombre] | Páginas: [num] ---" y marcadores de página "--- [Página X] ---".
+    El texto contiene múltiples documentos delimitados por "--- Inicio del documento: [nombre] | Páginas: [num] ---" y marcadores de página "--- [Página X] ---". Las líneas que empiezan por "#" son títulos de sección y las filas con celdas separadas por " | " son tablas.
     ${settings.showSourceFile ? "Para cada pregunta, identifica de qué documento y página proviene. Asigna 'NombreArchivo (Pág. X)' al campo 'sourceFile'." : ""}
     
     ${distributionInstruction}
+    ${avoidInstruction}
 
     REQUISITOS:
-    - Todo en ESPAÑOL
+    - ${getLanguagePrompt(settings.examLanguage)}
     - ${getDifficultyPrompt(settings.difficulty)}
     - ${settings.optionsCount || 4} opciones por pregunta
     - ${settings.allowMultipleCorrect ? "Pueden haber múltiples respuestas correctas" : "Una sola respuesta correcta"}
     - Incluye una explicación que cite el texto
-    - Proporciona una cita TEXTUAL del documento que respalde la respuesta
+    - Proporciona una cita TEXTUAL del documento que respalde la respuesta, copiada en su idioma original SIN traducir
     
     TEXTO DEL DOCUMENTO:
-    ${text.slice(0, 30000)}
+    ${text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-    },
+  const questions = await llm.generateJSON<TestQuestion[] | null>({
+    task: 'testQuestions',
+    prompt,
+    schema,
+    expectedCount: count,
   });
 
-  return JSON.parse(response.text || "[]") as TestQuestion[];
+  return questions || [];
 };
 
 export const generateClozeCards = async (text: string, settings: ExamSettings): Promise<ClozeCard[]> => {
-  const ai = getAiClient();
-  const distributionInstruction = calculateQuestionDistribution(text, settings.questionCount);
+  return generateAcrossChunks(selectPages(text, settings.pageSelection), settings.questionCount, settings.documentCounts, chunk => generateClozeCardsForChunk(chunk, settings), c => c.fullText);
+};
+
+const generateClozeCardsForChunk = async ({ text, count, distributionInstruction, avoidInstruction }: ChunkRequest, settings: ExamSettings): Promise<ClozeCard[]> => {
+  const llm = getLLMProvider();
 
-  const schema: Schema = {
-    type: Type.ARRAY,
+  const schema: JsonSchema = {
+    type: 'array',
     items: {
-      type: Type.OBJECT,
+      type: 'object',
       properties: {
-        fullText: { type: Type.STRING, description: "Una frase o párrafo corto con hechos clave en ESPAÑOL." },
-        hiddenWords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Términos clave encontrados en el texto completo que deben ocultarse." },
-        sourceFile: { type: Type.STRING, description: "Name of the file where the content was found." },
+        fullText: { type: 'string', description: `Una frase o párrafo corto con hechos clave en ${LANGUAGE_NAMES[settings.examLanguage || "es"]}.` },
+        hiddenWords: { type: 'array', items: { type: 'string' }, description: "Términos clave encontrados en el texto completo que deben ocultarse." },
+        sourceFile: { type: 'string', description: "Name of the file where the content was found." },
       },
       required: ["fullText", "hiddenWords"],
     },
   };
 
   const prompt = `
-    Crea ${settings.questionCount} tarjetas didácticas (flashcards) de rellenar huecos basadas en el siguiente texto.
+    Crea ${count} tarjetas didácticas (flashcards) de rellenar huecos basadas en el siguiente texto.
 
     IMPORTANTE:
     - Usa información del texto proporcionado
     - Cada tarjeta debe contener conceptos clave del texto
     - Los términos ocultos deben ser palabras importantes que aparecen en el texto
 
-    El texto contiene múltiples documentos delimitados por "--- Inicio del documento: [nombre] | Páginas: [num] ---" y marcadores de página "--- [Página X] ---".
+    El texto contiene múltiples documentos delimitados por "--- Inicio del documento: [nombre] | Páginas: [num] ---" y marcadores de página "--- [Página X] ---". Las líneas que empiezan por "#" son títulos de sección y las filas con celdas separadas por " | " son tablas.
     ${settings.showSourceFile ? "Para cada tarjeta, identifica de qué documento y página proviene. Asigna 'NombreArchivo (Pág. X)' al campo 'sourceFile'." : ""}
 
     ${distributionInstruction}
+    ${avoidInstruction}
 
     REQUISITOS:
-    - Todo en ESPAÑOL
+    - ${getLanguagePrompt(settings.examLanguage)}
     - ${getDifficultyPrompt(settings.difficulty)}
     - Hasta ${settings.maxClozeBlanks || 3} términos clave ocultos por tarjeta
 
     TEXTO:
-    ${text.slice(0, 30000)}
+    ${text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-    },
+  const cards = await llm.generateJSON<ClozeCard[] | null>({
+    task: 'clozeCards',
+    prompt,
+    schema,
+    expectedCount: count,
   });
 
-  return JSON.parse(response.text || "[]") as ClozeCard[];
+  return cards || [];
 };
 
 export const generateOpenQuestions = async (text: string, settings: ExamSettings): Promise<OpenQuestion[]> => {
-  const ai = getAiClient();
-  const distributionInstruction = calculateQuestionDistribution(text, settings.questionCount);
+  return generateAcrossChunks(selectPages(text, settings.pageSelection), settings.questionCount, settings.documentCounts, chunk => generateOpenQuestionsForChunk(chunk, settings), q => q.question);
+};
+
+const generateOpenQuestionsForChunk = async ({ text, count, distributionInstruction, avoidInstruction }: ChunkRequest, settings: ExamSettings): Promise<OpenQuestion[]> => {
+  const llm = getLLMProvider();
 
-  const schema: Schema = {
-    type: Type.ARRAY,
+  const schema: JsonSchema = {
+    type: 'array',
     items: {
-      type: Type.OBJECT,
+      type: 'object',
       properties: {
-        question: { type: Type.STRING, description: "Una pregunta abierta que requiera una respuesta de párrafo corto en ESPAÑOL." },
-        modelAnswer: { type: Type.STRING, description: "La respuesta correcta ideal en ESPAÑOL." },
-        sourceFile: { type: Type.STRING, description: "Name of the file where the content was found." },
+        question: { type: 'string', description: `Una pregunta abierta que requiera una respuesta de párrafo corto en ${LANGUAGE_NAMES[settings.examLanguage || "es"]}.` },
+        modelAnswer: { type: 'string', description: `La respuesta correcta ideal en ${LANGUAGE_NAMES[settings.examLanguage || "es"]}.` },
+        rubric: {
+          type: 'array',
+          description: "Puntos clave que debe contener una respuesta completa.",
+          items: {
+            type: 'object',
+            properties: {
+              point: { type: 'string', description: `Una idea concreta de la respuesta modelo en ${LANGUAGE_NAMES[settings.examLanguage || "es"]}.` },
+              weight: { type: 'integer', description: "Importancia del punto: 1, 2 o 3." },
+            },
+            required: ["point", "weight"],
+          },
+        },
+        sourceFile: { type: 'string', description: "Name of the file where the content was found." },
       },
-      required: ["question", "modelAnswer"],
+      required: ["question", "modelAnswer", "rubric"],
     },
   };
 
   const prompt = `
-    Genera ${settings.questionCount} preguntas de estudio abiertas basadas en el siguiente texto.
+    Genera ${count} preguntas de estudio abiertas basadas en el siguiente texto.
 
     IMPORTANTE:
     - Usa principalmente información del texto proporcionado
     - Las preguntas deben ser respondibles con el contenido del texto
     - Las respuestas modelo deben basarse en el texto
 
-    El texto contiene múltiples documentos delimitados por "--- Inicio del documento: [nombre] | Páginas: [num] ---" y marcadores de página "--- [Página X] ---".
+    El texto contiene múltiples documentos delimitados por "--- Inicio del documento: [nombre] | Páginas: [num] ---" y marcadores de página "--- [Página X] ---". Las líneas que empiezan por "#" son títulos de sección y las filas con celdas separadas por " | " son tablas.
     ${settings.showSourceFile ? "Para cada pregunta, identifica de qué documento y página proviene. Asigna 'NombreArchivo (Pág. X)' al campo 'sourceFile'." : ""}
 
     ${distributionInstruction}
+    ${avoidInstruction}
 
     REQUISITOS:
-    - Todo en ESPAÑOL
+    - ${getLanguagePrompt(settings.examLanguage)}
     - ${getDifficultyPrompt(settings.difficulty)}
     - Preguntas CORTAS y CONCISAS
     - Respuestas de 1-2 oraciones máximo
+    - Una rúbrica de 2 a 4 puntos clave por pregunta, que juntos cubran la respuesta modelo, con peso 3 para la idea principal y 1 para los detalles
 
     TEXTO:
-    ${text.slice(0, 30000)}
+    ${text}
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema,
-    },
+  const questions = await llm.generateJSON<OpenQuestion[] | null>({
+    task: 'openQuestions',
+    prompt,
+    schema,
+    expectedCount: count,
   });
 
-  return JSON.parse(response.text || "[]") as OpenQuestion[];
+  return (questions || []).map(q => ({ ...q, rubric: asRubric(q.rubric) }));
 };
 
-export const evaluateOpenAnswer = async (question: string, modelAnswer: string, userAnswer: string, benevolence: 'STRICT' | 'NORMAL' | 'BENEVOLENT' = 'NORMAL'): Promise<{ score: number; feedback: string }> => {
-  const ai = getAiClient();
+/**
+ * Grades an open answer 0-10 on each key point of the question's rubric and
+ * returns their weighted mean. Questions without a rubric (older or imported
+ * exams) are graded on key points taken from the model answer, all weighing the same.
+ */
+export const evaluateOpenAnswer = async (question: OpenQuestion, userAnswer: string, benevolence: 'STRICT' | 'NORMAL' | 'BENEVOLENT' = 'NORMAL', language: Language = 'es'): Promise<OpenAnswerEvaluation> => {
+  const llm = getLLMProvider();
 
   let benevolenceInstruction = "";
   switch (benevolence) {
     case 'STRICT':
-      benevolenceInstruction = "CRITERIOS DE EVALUACIÓN: Sé ESTRICTO. La respuesta debe ser precisa y completa. Penaliza imprecisiones o falta de detalle clave. Si es vaga, marca 0.";
+      benevolenceInstruction = "CRITERIOS DE EVALUACIÓN: Sé ESTRICTO. Un punto clave solo está cubierto si se explica con precisión y completo. Si se menciona de forma vaga, no pases de 3.";
       break;
     case 'BENEVOLENT':
-      benevolenceInstruction = "CRITERIOS DE EVALUACIÓN: Sé MUY BENEVOLENTE. Si la respuesta tiene CUALQUIER relación con la correcta o demuestra una mínima comprensión, marca 1. Ignora errores de expresión.";
+      benevolenceInstruction = "CRITERIOS DE EVALUACIÓN: Sé MUY BENEVOLENTE. Si la respuesta tiene CUALQUIER relación con un punto clave o demuestra una mínima comprensión de él, dale al menos 5. Ignora errores de expresión.";
       break;
     case 'NORMAL':
     default:
-      benevolenceInstruction = "CRITERIOS DE EVALUACIÓN: Sé FLEXIBLE pero RAZONABLE. Si captura la idea principal, marca 1. Si es claramente incorrecta o irrelevante, marca 0.";
+      benevolenceInstruction = "CRITERIOS DE EVALUACIÓN: Sé FLEXIBLE pero RAZONABLE. Si la respuesta captura la idea de un punto clave, dale al menos 5 aunque falten matices. Si no lo menciona o es incorrecta, 0.";
       break;
   }
 
+  const rubric = question.rubric;
+  const rubricInstruction = rubric
+    ? `Puntos clave de la rúbrica, en este orden:\n${rubric.map((c, i) => `${i + 1}. ${c.point}`).join('\n')}\nDevuelve en 'criteria' exactamente un elemento por punto clave, en el mismo orden y con el mismo texto.`
+    : "Extrae de la respuesta modelo entre 2 y 4 puntos clave y devuelve uno por elemento de 'criteria'.";
+
   const prompt = `
-        Actúa como un profesor evaluando una respuesta de examen.
+        Actúa como un profesor evaluando una respuesta de examen con una rúbrica.
         Evalúa la respuesta del usuario frente a la respuesta modelo para la pregunta dada.
-        Responde SIEMPRE en JSON y en ESPAÑOL.
+        Responde SIEMPRE en JSON y en ${LANGUAGE_NAMES[language]}.
         
-        Pregunta: ${question}
-        Respuesta Modelo: ${modelAnswer}
+        Pregunta: ${question.question}
+        Respuesta Modelo: ${question.modelAnswer}
         Respuesta Usuario: ${userAnswer}
 
-        El 'score' debe ser 1 si es correcta/suficiente, 0 si es incorrecta/insuficiente.
-        'feedback' debe ser una breve explicación en español.
+        ${rubricInstruction}
+        Puntúa cada punto clave de 0 (no aparece o es incorrecto) a 10 (explicado de forma completa y correcta).
+        'feedback' debe ser una breve explicación en ${LANGUAGE_NAMES[language]} que nombre los puntos clave cubiertos y los que faltan.
         
         ${benevolenceInstruction}
     `;
 
-  const schema: Schema = {
-    type: Type.OBJECT,
+  const schema: JsonSchema = {
+    type: 'object',
     properties: {
-      score: { type: Type.INTEGER, description: "1 para correcto, 0 para incorrecto" },
-      feedback: { type: Type.STRING }
+      criteria: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            point: { type: 'string' },
+            score: { type: 'number', description: "De 0 a 10" },
+          },
+          required: ["point", "score"],
+        },
+      },
+      feedback: { type: 'string' }
     },
-    required: ["score", "feedback"]
+    required: ["criteria", "feedback"]
   };
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: schema
-    }
+  const result = await llm.generateJSON<{ criteria: { point: string; score: number }[]; feedback: string } | null>({
+    task: 'evaluateOpenAnswer',
+    prompt,
+    schema
   });
 
-  return JSON.parse(response.text || '{"score": 0, "feedback": "Error evaluando"}');
+  if (!result) throw new Error('No se pudo evaluar la respuesta.');
+
+  const toScore = (value: unknown) => Math.min(10, Math.max(0, Number(value) || 0));
+  const graded = result.criteria ?? [];
+  // Weights come from the rubric, not the model: points it left out score 0
+  const keyPoints: RubricCriterion[] = rubric ?? graded.map(c => ({ point: String(c.point), weight: 1 }));
+  const criteria = keyPoints.map((criterion, idx) => ({ ...criterion, score: toScore(graded[idx]?.score) }));
+
+  return { score: getRubricScore(criteria), feedback: result.feedback, criteria };
+}
+
+export interface FollowUpQuestion {
+  comment: string;
+  question: OpenQuestion;
 }
 
+/**
+ * Next question of an oral exam on the same topic, probing the student's last
+ * answers and grounded in `context` (the page the topic comes from). Null when
+ * the examiner has heard enough to move on.
+ */
+export const generateFollowUpQuestion = async (context: string, turns: OralTurn[], settings: ExamSettings): Promise<FollowUpQuestion | null> => {
+  const llm = getLLMProvider();
+  const language = LANGUAGE_NAMES[settings.examLanguage || "es"];
+
+  const transcript = turns
+    .map(turn => `Examinador: ${turn.question.question}\nEstudiante: ${turn.answer || "(sin respuesta)"}`)
+    .join('\n');
+
+  const prompt = `
+    Actúa como un profesor en un examen oral. Acabas de escuchar la respuesta del estudiante y haces una pregunta de seguimiento antes de pasar al siguiente tema.
+
+    IMPORTANTE:
+    - La pregunta debe poder responderse SOLO con el CONTEXTO, que es la página del documento de la que sale el tema
+    - Si la última respuesta tiene errores u omisiones, pregunta por ellos; si es buena, profundiza (causas, consecuencias, ejemplos, relaciones)
+    - No repitas ninguna pregunta de la conversación
+    - 'comment' es una frase breve y natural sobre la última respuesta, sin revelar la respuesta correcta
+    - ${turns.length < 2 ? "Es la primera pregunta de seguimiento del tema: 'enough' debe ser false" : "Pon 'enough' a true solo si la conversación ya demuestra que el estudiante domina el tema"}
+
+    REQUISITOS:
+    - ${getLanguagePrompt(settings.examLanguage)}
+    - ${getDifficultyPrompt(settings.difficulty)}
+    - Pregunta CORTA, respuesta modelo de 1-2 oraciones
+    - Una rúbrica de 1 a 3 puntos clave, con peso 3 para la idea principal y 1 para los detalles
+
+    CONVERSACIÓN:
+    ${transcript}
+
+    CONTEXTO:
+    ${context}
+  `;
+
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      enough: { type: 'boolean' },
+      comment: { type: 'string', description: `Comentario del examinador en ${language}.` },
+      question: { type: 'string', description: `La pregunta de seguimiento en ${language}.` },
+      modelAnswer: { type: 'string', description: `La respuesta correcta ideal en ${language}.` },
+      rubric: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            point: { type: 'string' },
+            weight: { type: 'integer', description: "Importancia del punto: 1, 2 o 3." },
+          },
+          required: ["point", "weight"],
+        },
+      },
+    },
+    required: ["enough", "comment", "question", "modelAnswer", "rubric"],
+  };
+
+  const result = await llm.generateJSON<{ enough: boolean; comment: string; question: string; modelAnswer: string; rubric: unknown } | null>({
+    task: 'followUpQuestion',
+    prompt,
+    schema,
+  });
+
+  if (!result) throw new Error('No se pudo generar la pregunta de seguimiento.');
+  // At least one follow-up per topic, whatever the model says
+  if ((result.enough && turns.length > 1) || !result.question?.trim() || !result.modelAnswer?.trim()) return null;
+
+  return {
+    comment: result.comment?.trim() ?? '',
+    question: {
+      question: result.question.trim(),
+      modelAnswer: result.modelAnswer.trim(),
+      rubric: asRubric(result.rubric),
+      // Follow-ups come from the page of the question that opened the topic
+      sourceFile: turns[0]?.question.sourceFile,
+    },
+  };
+};
+
 export const generateThematicBackground = async (text: string): Promise<string | null> => {
-  const ai = getAiClient();
+  const llm = getLLMProvider();
 
   try {
     // Step 1: Get a prompt description for the background
-    const promptResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `
+    const imagePrompt = await llm.generateText({
+      task: 'backgroundPrompt',
+      prompt: `
                 Analyze the following text and write a prompt for an image generator.
                 The prompt should describe an "abstract, artistic, subtle background wallpaper" that represents the main topic of the text.
                 It should be suitable for a web application background (not too busy, good contrast for overlay text).
@@ -331,27 +719,9 @@ export const generateThematicBackground = async (text: string): Promise<string |
             `
     });
 
-    const imagePrompt = promptResponse.text;
-
-    // Step 2: Generate the image
-    const imageResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: imagePrompt }],
-      },
-      config: {
-        imageConfig: {
-          aspectRatio: "16:9",
-        }
-      }
-    });
-
-    for (const part of imageResponse.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    return null;
+    // Step 2: Generate the image (only some providers support it)
+    if (!llm.generateImage || !imagePrompt) return null;
+    return await llm.generateImage(imagePrompt);
 
   } catch (e) {
     console.error("Background generation failed", e);
@@ -359,8 +729,8 @@ export const generateThematicBackground = async (text: string): Promise<string |
   }
 };
 
-export const generateExamTitle = async (text: string): Promise<string> => {
-  const ai = getAiClient();
+export const generateExamTitle = async (text: string, language: Language = "es"): Promise<string> => {
+  const llm = getLLMProvider();
 
   try {
     const prompt = `
@@ -368,7 +738,7 @@ export const generateExamTitle = async (text: string): Promise<string> => {
       El título debe:
       - Ser conciso (máximo 8 palabras)
       - Reflejar el tema principal del contenido
-      - Estar en español
+      - Estar en ${LANGUAGE_NAMES[language]}
       - Ser apropiado para un examen académico
       - NO incluir la palabra "Examen" (se añadirá automáticamente)
       
@@ -377,14 +747,11 @@ export const generateExamTitle = async (text: string): Promise<string> => {
       Responde SOLO con el título, sin comillas ni puntuación adicional.
     `;
 
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
+    const title = await llm.generateText({ task: 'examTitle', prompt });
 
-    return response.text?.trim() || "Conocimientos Generales";
+    return title.trim() || DEFAULT_TITLES[language];
   } catch (e) {
     console.error("Title generation failed", e);
-    return "Conocimientos Generales";
+    return DEFAULT_TITLES[language];
   }
 };
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { TestQuestion } from '../types';
+import { parseDocumentPages } from './chunkingService';
+
+// Checks that the verbatim `sourceQuote` of each test question really appears
+// in the extracted text, and resolves the document and page it comes from
+// using the "--- [Página X] ---" markers.
+
+// Share of the quote's words that must appear together in the document
+export const GROUNDING_THRESHOLD = 0.85;
+
+// Extra words allowed inside the matching window (small omissions, PDF noise)
+const WINDOW_SLACK = 0.2;
+
+interface IndexedDocument {
+  docName: string | null;
+  tokens: string[];
+  pageOfToken: number[];
+}
+
+export interface GroundingIndex {
+  documents: IndexedDocument[];
+}
+
+export interface QuoteMatch {
+  score: number; // 0..1 share of quote words found in the best window
+  docName: string | null;
+  pageNumber: number;
+}
+
+const tokenize = (value: string): string[] =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9ñ]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+// Tokenizes the document once so many quotes can be checked against it
+export const createGroundingIndex = (text: string): GroundingIndex => {
+  const documents: IndexedDocument[] = [];
+  parseDocumentPages(text).forEach(page => {
+    let doc = documents[documents.length - 1];
+    if (!doc || doc.docName !== page.docName) {
+      doc = { docName: page.docName, tokens: [], pageOfToken: [] };
+      documents.push(doc);
+    }
+    tokenize(page.text).forEach(token => {
+      doc.tokens.push(token);
+      doc.pageOfToken.push(page.pageNumber);
+    });
+  });
+  return { documents };
+};
+
+// Page holding most of the tokens in [start, end)
+const dominantPage = (doc: IndexedDocument, start: number, end: number): number => {
+  const counts = new Map<number, number>();
+  for (let i = start; i < end; i++) counts.set(doc.pageOfToken[i], (counts.get(doc.pageOfToken[i]) || 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * Best fuzzy location of `quote`: slides a window slightly longer than the
+ * quote over each document and counts how many quote words it contains
+ * (bag of words, so reordering by the PDF extractor does not matter).
+ */
+export const locateQuote = (index: GroundingIndex, quote: string): QuoteMatch | null => {
+  const quoteTokens = tokenize(quote);
+  const n = quoteTokens.length;
+  if (n === 0) return null;
+
+  const wanted = new Map<string, number>();
+  quoteTokens.forEach(token => wanted.set(token, (wanted.get(token) || 0) + 1));
+  // Very short quotes must match exactly
+  const windowSize = n < 4 ? n : n + Math.floor(n * WINDOW_SLACK);
+
+  let best: QuoteMatch | null = null;
+  index.documents.forEach(doc => {
+    const inWindow = new Map<string, number>();
+    let overlap = 0;
+    let bestInDoc = -1;
+    let bestStart = 0;
+
+    for (let i = 0; i < doc.tokens.length; i++) {
+      const added = doc.tokens[i];
+      const addedCount = inWindow.get(added) || 0;
+      if (addedCount < (wanted.get(added) || 0)) overlap++;
+      inWindow.set(added, addedCount + 1);
+
+      const start = i - windowSize + 1;
+      if (start > 0) {
+        const removed = doc.tokens[start - 1];
+        const removedCount = inWindow.get(removed)! - 1;
+        inWindow.set(removed, removedCount);
+        if (removedCount < (wanted.get(removed) || 0)) overlap--;
+      }
+
+      if (overlap > bestInDoc) {
+        bestInDoc = overlap;
+        bestStart = Math.max(start, 0);
+        if (overlap === n) break;
+      }
+    }
+
+    const score = bestInDoc / n;
+    if (bestInDoc > 0 && (!best || score > best.score)) {
+      const end = Math.min(bestStart + windowSize, doc.tokens.length);
+      best = { score, docName: doc.docName, pageNumber: dominantPage(doc, bestStart, end) };
+    }
+  });
+
+  return best;
+};
+
+export const formatSourceFile = (docName: string, pageNumber: number): string => `${docName} (Pág. ${pageNumber})`;
+
+/**
+ * Flags a question whose quote cannot be found and, when it is found,
+ * replaces the model-reported source with the real document and page.
+ */
+export const groundTestQuestion = (question: TestQuestion, index: GroundingIndex, fixSourceFile = true): TestQuestion => {
+  const match = locateQuote(index, question.sourceQuote);
+  const { ungrounded: _previous, ...rest } = question;
+
+  if (!match || match.score < GROUNDING_THRESHOLD) return { ...rest, ungrounded: true };
+  if (fixSourceFile && match.docName !== null) return { ...rest, sourceFile: formatSourceFile(match.docName, match.pageNumber) };
+  return rest;
+};
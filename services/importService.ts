@@ -0,0 +1,605 @@
+import { ClozeCard, ExamSettings, ExamType, Language, OpenQuestion, TestQuestion } from '../types';
+import { ItemProblem, ItemValidationError, RawItem, asString, getItemProblemMessage, validateClozeCard, validateOpenQuestion, validateTestQuestion } from './itemValidation';
+import { Messages, getMessages } from '../i18n';
+
+// Parses teacher-authored question banks (JSON, CSV, GIFT and Moodle XML) into
+// the item types used by the exam players. Invalid entries are skipped and
+// reported one by one, so a single bad row does not reject the whole bank.
+
+// Where an entry was found; `list` names the JSON list it came from, e.g. "testQuestions"
+export type ImportLocation =
+  | { kind: 'FILE' }
+  | { kind: 'ROW'; row: number }
+  | { kind: 'ITEM'; index: number; list?: string }
+  | { kind: 'QUESTION'; index: number; line?: number };
+
+export type ImportProblem =
+  | ItemProblem
+  | { code: 'NOT_AN_OBJECT' | 'UNKNOWN_KIND' | 'NOT_A_BANK' | 'NO_ITEM_LISTS' | 'EMPTY_CSV' | 'MISSING_COLUMNS' | 'MISSING_ANSWERS' | 'UNSUPPORTED_GIFT_QUESTION' | 'NO_GIFT_QUESTIONS' | 'INVALID_MOODLE_XML' | 'NO_MOODLE_QUESTIONS' }
+  | { code: 'INVALID_JSON'; detail: string }
+  | { code: 'UNSUPPORTED_TYPE'; type: string }
+  | { code: 'UNSUPPORTED_FORMAT'; accepted: string };
+
+export interface ImportIssue {
+  location: ImportLocation;
+  problem: ImportProblem;
+}
+
+export interface ImportedBank {
+  title: string;
+  testQuestions: TestQuestion[];
+  clozeCards: ClozeCard[];
+  openQuestions: OpenQuestion[];
+}
+
+export interface ImportResult {
+  bank: ImportedBank;
+  errors: ImportIssue[];
+}
+
+export const IMPORT_ACCEPT = '.json,.csv,.gift,.txt,.xml';
+
+type ItemKind = 'test' | 'cloze' | 'open';
+
+// Collects valid items and per-entry errors while a file is parsed.
+// `messages` gives the texts items are created with, e.g. true/false options.
+interface BankBuilder extends ImportResult {
+  messages: Messages;
+  add: (location: ImportLocation, kind: ItemKind, raw: RawItem) => void;
+  fail: (location: ImportLocation, problem: ImportProblem) => void;
+}
+
+const FILE: ImportLocation = { kind: 'FILE' };
+
+const createBuilder = (title: string, language: Language): BankBuilder => {
+  const bank: ImportedBank = { title, testQuestions: [], clozeCards: [], openQuestions: [] };
+  const errors: ImportIssue[] = [];
+  const fail = (location: ImportLocation, problem: ImportProblem) => errors.push({ location, problem });
+
+  return {
+    bank,
+    errors,
+    messages: getMessages(language),
+    fail,
+    add: (location, kind, raw) => {
+      try {
+        if (kind === 'test') bank.testQuestions.push(validateTestQuestion(raw));
+        else if (kind === 'cloze') bank.clozeCards.push(validateClozeCard(raw));
+        else bank.openQuestions.push(validateOpenQuestion(raw));
+      } catch (error) {
+        if (!(error instanceof ItemValidationError)) throw error;
+        fail(location, error.problem);
+      }
+    },
+  };
+};
+
+// Items without an explicit type are recognised by their fields
+const detectKind = (raw: RawItem): ItemKind | null => {
+  if ('options' in raw || 'correctIndices' in raw) return 'test';
+  if ('fullText' in raw || 'hiddenWords' in raw) return 'cloze';
+  if ('modelAnswer' in raw) return 'open';
+  return null;
+};
+
+// ---------- JSON ----------
+
+const JSON_LISTS: { key: string; kind: ItemKind }[] = [
+  { key: 'testQuestions', kind: 'test' },
+  { key: 'clozeCards', kind: 'cloze' },
+  { key: 'openQuestions', kind: 'open' },
+];
+
+const addJsonItem = (builder: BankBuilder, location: ImportLocation, value: unknown, kind?: ItemKind | null) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    builder.fail(location, { code: 'NOT_AN_OBJECT' });
+    return;
+  }
+  const resolved = kind ?? detectKind(value as RawItem);
+  if (!resolved) builder.fail(location, { code: 'UNKNOWN_KIND' });
+  else builder.add(location, resolved, value as RawItem);
+};
+
+// Accepts a plain array of items or an object shaped like a saved/exported exam
+const parseJsonBank = (content: string, builder: BankBuilder) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    builder.fail(FILE, { code: 'INVALID_JSON', detail: (error as Error).message });
+    return;
+  }
+
+  if (Array.isArray(data)) {
+    data.forEach((item, idx) => addJsonItem(builder, { kind: 'ITEM', index: idx + 1 }, item));
+    return;
+  }
+  if (!data || typeof data !== 'object') {
+    builder.fail(FILE, { code: 'NOT_A_BANK' });
+    return;
+  }
+
+  const record = data as RawItem;
+  if (asString(record.title)) builder.bank.title = asString(record.title);
+  const lists = JSON_LISTS.filter(({ key }) => Array.isArray(record[key]));
+  if (lists.length === 0) {
+    builder.fail(FILE, { code: 'NO_ITEM_LISTS' });
+    return;
+  }
+  lists.forEach(({ key, kind }) =>
+    (record[key] as unknown[]).forEach((item, idx) => addJsonItem(builder, { kind: 'ITEM', index: idx + 1, list: key }, item, kind))
+  );
+};
+
+// ---------- CSV ----------
+
+const normalizeHeader = (value: string): string =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  type: ['type', 'tipo'],
+  question: ['question', 'pregunta', 'enunciado'],
+  options: ['options', 'opciones'],
+  correct: ['correct', 'correcta', 'correctas', 'correctindices'],
+  explanation: ['explanation', 'explicacion'],
+  sourceQuote: ['sourcequote', 'cita'],
+  sourceFile: ['sourcefile', 'fuente'],
+  fullText: ['fulltext', 'texto'],
+  hiddenWords: ['hiddenwords', 'ocultas', 'palabrasocultas'],
+  modelAnswer: ['modelanswer', 'respuesta', 'respuestamodelo'],
+};
+
+const CSV_TYPES: Record<string, ItemKind> = {
+  test: 'test', cloze: 'cloze', huecos: 'cloze', flashcard: 'cloze', open: 'open', abierta: 'open',
+};
+
+// List cells separate values with "|"
+const splitList = (value: string): string[] => value.split('|').map(v => v.trim()).filter(Boolean);
+
+// RFC 4180 records, keeping the line where each record starts for error messages
+const parseCsv = (content: string): { line: number; cells: string[] }[] => {
+  const firstLine = content.split('\n', 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(c => c.trim())) records.push({ line: recordLine, cells });
+    cells = [];
+    cell = '';
+    recordLine = line + 1;
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRecord();
+      line++;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRecord();
+  return records;
+};
+
+// Correct answers may be 1-based numbers ("1|3") or letters ("A|C")
+const parseCorrectAnswers = (value: string): number[] =>
+  splitList(value.replace(/[,;]/g, '|')).map(token =>
+    /^[a-z]$/i.test(token) ? token.toUpperCase().charCodeAt(0) - 65 : Number(token) - 1
+  );
+
+const parseCsvBank = (content: string, builder: BankBuilder) => {
+  const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (!header) {
+    builder.fail(FILE, { code: 'EMPTY_CSV' });
+    return;
+  }
+
+  const headers = header.cells.map(normalizeHeader);
+  const column = (name: string) => headers.findIndex(h => CSV_COLUMNS[name].includes(h));
+  // Options may also come as one column per option: option1, opcion2...
+  const optionColumns = headers
+    .map((h, idx) => ({ idx, match: /^(option|opcion)(\d+)$/.exec(h) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match![2]) - Number(b.match![2]))
+    .map(({ idx }) => idx);
+
+  if (column('question') < 0 && column('fullText') < 0) {
+    builder.fail({ kind: 'ROW', row: 1 }, { code: 'MISSING_COLUMNS' });
+    return;
+  }
+
+  rows.forEach(({ line, cells }) => {
+    const get = (name: string) => {
+      const idx = column(name);
+      return idx >= 0 ? (cells[idx] ?? '').trim() : '';
+    };
+    const options = column('options') >= 0
+      ? splitList(get('options'))
+      : optionColumns.map(idx => (cells[idx] ?? '').trim()).filter(Boolean);
+
+    const raw: RawItem = {
+      question: get('question'),
+      options,
+      correctIndices: parseCorrectAnswers(get('correct')),
+      explanation: get('explanation'),
+      sourceQuote: get('sourceQuote'),
+      sourceFile: get('sourceFile'),
+      fullText: get('fullText'),
+      hiddenWords: splitList(get('hiddenWords')),
+      modelAnswer: get('modelAnswer'),
+    };
+
+    const typeValue = normalizeHeader(get('type'));
+    const kind = typeValue
+      ? CSV_TYPES[typeValue]
+      : options.length > 0 ? 'test' : raw.fullText ? 'cloze' : raw.modelAnswer ? 'open' : undefined;
+
+    const location: ImportLocation = { kind: 'ROW', row: line };
+    if (!kind) builder.fail(location, typeValue ? { code: 'UNSUPPORTED_TYPE', type: get('type') } : { code: 'UNKNOWN_KIND' });
+    else builder.add(location, kind, raw);
+  });
+};
+
+// ---------- GIFT ----------
+
+const unescapeGift = (value: string): string =>
+  value.replace(/\\n/g, '\n').replace(/\\([~=#{}:\\])/g, '$1').trim();
+
+// Index of the first unescaped occurrence of any of the given characters
+const findUnescaped = (value: string, chars: string, from = 0): number => {
+  for (let i = from; i < value.length; i++) {
+    if (value[i] === '\\') i++;
+    else if (chars.includes(value[i])) return i;
+  }
+  return -1;
+};
+
+// Same, for a multi-character sequence such as "::" or "####"
+const indexOfUnescaped = (value: string, sequence: string, from = 0): number => {
+  for (let i = from; i <= value.length - sequence.length; i++) {
+    if (value[i] === '\\') i++;
+    else if (value.startsWith(sequence, i)) return i;
+  }
+  return -1;
+};
+
+const splitUnescaped = (value: string, separator: string): string[] => {
+  const idx = indexOfUnescaped(value, separator);
+  return idx < 0 ? [value] : [value.slice(0, idx), value.slice(idx + separator.length)];
+};
+
+interface GiftAnswer {
+  correct: boolean;
+  text: string;
+  feedback: string;
+}
+
+// Splits "=right#fb ~wrong ~%50%partial" into answers
+const parseGiftAnswers = (body: string): GiftAnswer[] => {
+  const answers: GiftAnswer[] = [];
+  let start = findUnescaped(body, '=~');
+  while (start >= 0) {
+    const end = findUnescaped(body, '=~', start + 1);
+    const token = body.slice(start + 1, end < 0 ? undefined : end);
+    const weight = /^%(-?[\d.]+)%/.exec(token);
+    const [text, feedback = ''] = splitUnescaped(token.slice(weight ? weight[0].length : 0), '#');
+    answers.push({
+      correct: body[start] === '=' || (!!weight && Number(weight[1]) > 0),
+      text: unescapeGift(text),
+      feedback: unescapeGift(feedback),
+    });
+    start = end;
+  }
+  return answers;
+};
+
+const parseGiftQuestion = (block: string, location: ImportLocation, builder: BankBuilder) => {
+  let text = block.trim();
+  // Optional "::name::" prefix
+  if (text.startsWith('::')) {
+    const end = indexOfUnescaped(text, '::', 2);
+    if (end > 0) text = text.slice(end + 2).trim();
+  }
+  text = text.replace(/^\[(html|moodle|plain|markdown)\]/, '');
+
+  const open = findUnescaped(text, '{');
+  const close = open < 0 ? -1 : findUnescaped(text, '}', open);
+  if (open < 0 || close < 0) {
+    builder.fail(location, { code: 'MISSING_ANSWERS' });
+    return;
+  }
+
+  const before = unescapeGift(text.slice(0, open));
+  const after = unescapeGift(text.slice(close + 1));
+  const [answerBody, generalFeedback = ''] = splitUnescaped(text.slice(open + 1, close).trim(), '####');
+  const explanation = unescapeGift(generalFeedback);
+  const body = answerBody.trim();
+
+  if (body.startsWith('#') || body.includes('->')) {
+    builder.fail(location, { code: 'UNSUPPORTED_GIFT_QUESTION' });
+    return;
+  }
+
+  // Essay: the general feedback holds the model answer
+  if (!body) {
+    builder.add(location, 'open', { question: before, modelAnswer: explanation });
+    return;
+  }
+
+  const trueFalse = /^(T|TRUE|F|FALSE)(#.*)?$/i.exec(body);
+  if (trueFalse) {
+    const isTrue = trueFalse[1].toUpperCase().startsWith('T');
+    builder.add(location, 'test', {
+      question: before,
+      options: [builder.messages.importBank.true, builder.messages.importBank.false],
+      correctIndices: [isTrue ? 0 : 1],
+      explanation: explanation || unescapeGift((trueFalse[2] || '').slice(1)),
+    });
+    return;
+  }
+
+  const answers = parseGiftAnswers(body);
+  const isShortAnswer = answers.length > 0 && answers.every(a => a.correct) && !body.includes('~');
+
+  if (isShortAnswer && after) {
+    // Missing word: the blank sits between the text before and after the braces
+    const word = answers[0].text;
+    builder.add(location, 'cloze', { fullText: `${before} ${word} ${after}`.replace(/\s+([.,;:!?])/g, '$1').trim(), hiddenWords: [word] });
+  } else if (isShortAnswer) {
+    builder.add(location, 'open', { question: before, modelAnswer: answers[0].text });
+  } else {
+    builder.add(location, 'test', {
+      question: `${before}${after ? ` ___ ${after}` : ''}`,
+      options: answers.map(a => a.text),
+      correctIndices: answers.flatMap((a, idx) => (a.correct ? [idx] : [])),
+      explanation: explanation || answers.find(a => a.correct && a.feedback)?.feedback || '',
+    });
+  }
+};
+
+const parseGiftBank = (content: string, builder: BankBuilder) => {
+  let block: string[] = [];
+  let blockLine = 1;
+  let count = 0;
+
+  const flush = () => {
+    const text = block.join('\n').trim();
+    block = [];
+    if (!text) return;
+    count++;
+    parseGiftQuestion(text, { kind: 'QUESTION', index: count, line: blockLine }, builder);
+  };
+
+  content.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((line, idx) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('//')) return;
+    if (trimmed.startsWith('$CATEGORY:')) {
+      const category = trimmed.slice('$CATEGORY:'.length).trim().split('/').pop();
+      if (category) builder.bank.title = unescapeGift(category);
+      return;
+    }
+    if (!trimmed) {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = idx + 1;
+    block.push(line);
+  });
+  flush();
+
+  if (count === 0 && builder.errors.length === 0) builder.fail(FILE, { code: 'NO_GIFT_QUESTIONS' });
+};
+
+// ---------- Moodle XML ----------
+
+const htmlToText = (html: string): string =>
+  (new DOMParser().parseFromString(html, 'text/html').body.textContent || '').replace(/\s+/g, ' ').trim();
+
+const childText = (element: Element, path: string): string => {
+  const node = element.querySelector(`:scope > ${path} > text`);
+  return node ? htmlToText(node.textContent || '') : '';
+};
+
+// Embedded answers of Moodle cloze questions: {1:SHORTANSWER:=word~%50%other}
+const EMBEDDED_ANSWER = /\{\d*:[A-Z_]+:((?:\\.|[^\\}])*)\}/g;
+
+const parseEmbeddedAnswer = (body: string): string => {
+  const answers = parseGiftAnswers(body.startsWith('=') || body.startsWith('~') || body.startsWith('%') ? body : `=${body}`);
+  const best = answers.find(a => a.correct) || answers[0];
+  return best ? best.text.replace(/\\([}#~/"\\])/g, '$1') : '';
+};
+
+const parseMoodleQuestion = (question: Element, location: ImportLocation, builder: BankBuilder) => {
+  const type = question.getAttribute('type');
+  const generalFeedback = childText(question, 'generalfeedback');
+  const answers = Array.from(question.querySelectorAll(':scope > answer')).map(answer => ({
+    fraction: Number(answer.getAttribute('fraction') || 0),
+    text: htmlToText(answer.querySelector(':scope > text')?.textContent || ''),
+    feedback: childText(answer, 'feedback'),
+  }));
+
+  switch (type) {
+    case 'multichoice':
+    case 'truefalse': {
+      const { importBank } = builder.messages;
+      const options = type === 'truefalse'
+        ? answers.map(a => (a.text.toLowerCase() === 'true' ? importBank.true : a.text.toLowerCase() === 'false' ? importBank.false : a.text))
+        : answers.map(a => a.text);
+      builder.add(location, 'test', {
+        question: childText(question, 'questiontext'),
+        options,
+        correctIndices: answers.flatMap((a, idx) => (a.fraction > 0 ? [idx] : [])),
+        explanation: generalFeedback || answers.find(a => a.fraction > 0 && a.feedback)?.feedback || '',
+      });
+      break;
+    }
+    case 'essay':
+      builder.add(location, 'open', {
+        question: childText(question, 'questiontext'),
+        modelAnswer: childText(question, 'graderinfo') || generalFeedback,
+      });
+      break;
+    case 'shortanswer': {
+      const best = [...answers].sort((a, b) => b.fraction - a.fraction)[0];
+      builder.add(location, 'open', { question: childText(question, 'questiontext'), modelAnswer: best?.text || '' });
+      break;
+    }
+    case 'cloze': {
+      // Replace each embedded answer with its correct text before stripping the HTML
+      const rawText = question.querySelector(':scope > questiontext > text')?.textContent || '';
+      const hiddenWords: string[] = [];
+      const fullText = htmlToText(rawText.replace(EMBEDDED_ANSWER, (_, body: string) => {
+        const word = parseEmbeddedAnswer(body);
+        if (word) hiddenWords.push(word);
+        return word;
+      }));
+      const source = /^Fuente:\s*(.+)$/.exec(generalFeedback);
+      builder.add(location, 'cloze', { fullText, hiddenWords, sourceFile: source?.[1] });
+      break;
+    }
+    default:
+      builder.fail(location, { code: 'UNSUPPORTED_TYPE', type: type ?? '' });
+  }
+};
+
+const parseMoodleBank = (content: string, builder: BankBuilder) => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.nodeName !== 'quiz') {
+    builder.fail(FILE, { code: 'INVALID_MOODLE_XML' });
+    return;
+  }
+
+  let count = 0;
+  Array.from(doc.documentElement.children)
+    .filter(el => el.nodeName === 'question')
+    .forEach(question => {
+      if (question.getAttribute('type') === 'category') {
+        const category = question.querySelector('category > text')?.textContent?.split('/').pop()?.trim();
+        if (category) builder.bank.title = category;
+        return;
+      }
+      count++;
+      parseMoodleQuestion(question, { kind: 'QUESTION', index: count }, builder);
+    });
+
+  if (count === 0 && builder.errors.length === 0) builder.fail(FILE, { code: 'NO_MOODLE_QUESTIONS' });
+};
+
+// ---------- Public API ----------
+
+const getExtension = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() || '';
+
+// True/false questions get their options in `language`, the exam language of the bank
+export const parseQuestionBank = (content: string, fileName: string, language: Language): ImportResult => {
+  const builder = createBuilder(fileName.replace(/\.[^.]+$/, ''), language);
+
+  switch (getExtension(fileName)) {
+    case 'json':
+      parseJsonBank(content, builder);
+      break;
+    case 'csv':
+      parseCsvBank(content, builder);
+      break;
+    case 'xml':
+      parseMoodleBank(content, builder);
+      break;
+    case 'gift':
+    case 'txt':
+      parseGiftBank(content, builder);
+      break;
+    default:
+      builder.fail(FILE, { code: 'UNSUPPORTED_FORMAT', accepted: IMPORT_ACCEPT });
+  }
+
+  return { bank: builder.bank, errors: builder.errors };
+};
+
+export const importQuestionBank = async (file: File, language: Language): Promise<ImportResult> =>
+  parseQuestionBank(await file.text(), file.name, language);
+
+// Where and what, in the interface language
+export const getImportLocationText = (location: ImportLocation, t: Messages): string => {
+  const { locations } = t.importBank;
+  switch (location.kind) {
+    case 'FILE':
+      return locations.file;
+    case 'ROW':
+      return locations.row(location.row);
+    case 'ITEM':
+      return location.list ? `${location.list} ${location.index}` : locations.item(location.index);
+    case 'QUESTION':
+      return location.line ? locations.questionAtLine(location.index, location.line) : locations.question(location.index);
+  }
+};
+
+export const getImportProblemMessage = (problem: ImportProblem, t: Messages): string => {
+  const { errors } = t.importBank;
+  switch (problem.code) {
+    case 'INVALID_JSON':
+      return errors.INVALID_JSON(problem.detail);
+    case 'UNSUPPORTED_TYPE':
+      return errors.UNSUPPORTED_TYPE(problem.type);
+    case 'UNSUPPORTED_FORMAT':
+      return errors.UNSUPPORTED_FORMAT(problem.accepted);
+    case 'NOT_AN_OBJECT':
+    case 'UNKNOWN_KIND':
+    case 'NOT_A_BANK':
+    case 'NO_ITEM_LISTS':
+    case 'EMPTY_CSV':
+    case 'MISSING_COLUMNS':
+    case 'MISSING_ANSWERS':
+    case 'UNSUPPORTED_GIFT_QUESTION':
+    case 'NO_GIFT_QUESTIONS':
+    case 'INVALID_MOODLE_XML':
+    case 'NO_MOODLE_QUESTIONS':
+      return errors[problem.code];
+    default:
+      return getItemProblemMessage(problem, t);
+  }
+};
+
+export const getBankCounts = (bank: ImportedBank): Record<ExamType, number> => ({
+  [ExamType.TEST]: bank.testQuestions.length,
+  [ExamType.CLOZE_FLASHCARD]: bank.clozeCards.length,
+  [ExamType.OPEN_FLASHCARD]: bank.openQuestions.length,
+});
+
+// Settings that describe the imported items, so the players behave as if they had generated them
+export const getImportedSettings = (bank: ImportedBank, type: ExamType, examLanguage: Language): ExamSettings => ({
+  type,
+  examLanguage,
+  questionCount: getBankCounts(bank)[type],
+  difficulty: 'MEDIUM',
+  optionsCount: Math.max(2, ...bank.testQuestions.map(q => q.options.length)),
+  allowMultipleCorrect: bank.testQuestions.some(q => q.correctIndices.length > 1),
+  negativeMarking: false,
+  maxClozeBlanks: Math.max(1, ...bank.clozeCards.map(c => c.hiddenWords.length)),
+  benevolence: 'NORMAL',
+  autoRead: false,
+  timeLimit: 0,
+  showSummary: true,
+  showSourceFile: true,
+});
@@ -0,0 +1,113 @@
+import { ClozeCard, OpenQuestion, RubricCriterion, TestQuestion } from '../types';
+import type { Messages } from '../i18n';
+
+// Validation shared by the question-bank importer and the review editor.
+// Each validator returns a normalised copy of the item or throws an
+// ItemValidationError, explained to the user with getItemProblemMessage.
+
+export type RawItem = Record<string, unknown>;
+
+export type ItemProblem =
+  | { code: 'MISSING_QUESTION' | 'EMPTY_OPTION' | 'TOO_FEW_OPTIONS' | 'NO_CORRECT_OPTION' | 'MISSING_TEXT' | 'NO_HIDDEN_WORDS' | 'MISSING_MODEL_ANSWER' }
+  | { code: 'CORRECT_OUT_OF_RANGE'; optionCount: number }
+  | { code: 'HIDDEN_WORD_NOT_IN_TEXT'; word: string };
+
+export class ItemValidationError extends Error {
+  readonly problem: ItemProblem;
+
+  constructor(problem: ItemProblem) {
+    super(`Elemento no válido: ${problem.code}`);
+    this.name = 'ItemValidationError';
+    this.problem = problem;
+  }
+}
+
+const invalid = (problem: ItemProblem) => new ItemValidationError(problem);
+
+// In the interface language
+export const getItemProblemMessage = (problem: ItemProblem, t: Messages): string => {
+  switch (problem.code) {
+    case 'CORRECT_OUT_OF_RANGE':
+      return t.validation.CORRECT_OUT_OF_RANGE(problem.optionCount);
+    case 'HIDDEN_WORD_NOT_IN_TEXT':
+      return t.validation.HIDDEN_WORD_NOT_IN_TEXT(problem.word);
+    default:
+      return t.validation[problem.code];
+  }
+};
+
+export const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+export const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const optional = (value: unknown): string | undefined => asString(value) || undefined;
+
+export const validateTestQuestion = (raw: RawItem): TestQuestion => {
+  const question = asString(raw.question);
+  if (!question) throw invalid({ code: 'MISSING_QUESTION' });
+
+  const options = Array.isArray(raw.options) ? raw.options.map(asString) : [];
+  if (options.some(option => !option)) throw invalid({ code: 'EMPTY_OPTION' });
+  if (options.length < 2) throw invalid({ code: 'TOO_FEW_OPTIONS' });
+
+  const indices = Array.isArray(raw.correctIndices) ? raw.correctIndices : [];
+  if (indices.length === 0) throw invalid({ code: 'NO_CORRECT_OPTION' });
+  if (indices.some(i => !Number.isInteger(i) || i < 0 || i >= options.length)) {
+    throw invalid({ code: 'CORRECT_OUT_OF_RANGE', optionCount: options.length });
+  }
+
+  return {
+    question,
+    options,
+    correctIndices: [...new Set(indices as number[])].sort((a, b) => a - b),
+    explanation: asString(raw.explanation),
+    sourceQuote: asString(raw.sourceQuote),
+    sourceFile: optional(raw.sourceFile),
+    // Grounding result of generation, kept so the exam still warns about the quote
+    ...(raw.ungrounded === true ? { ungrounded: true } : {}),
+  };
+};
+
+export const validateClozeCard = (raw: RawItem): ClozeCard => {
+  const fullText = asString(raw.fullText);
+  if (!fullText) throw invalid({ code: 'MISSING_TEXT' });
+
+  const hiddenWords = asStringList(raw.hiddenWords);
+  if (hiddenWords.length === 0) throw invalid({ code: 'NO_HIDDEN_WORDS' });
+  const missing = hiddenWords.find(word => !fullText.toLowerCase().includes(word.toLowerCase()));
+  if (missing) throw invalid({ code: 'HIDDEN_WORD_NOT_IN_TEXT', word: missing });
+
+  return { fullText, hiddenWords, imagePrompt: asString(raw.imagePrompt), sourceFile: optional(raw.sourceFile) };
+};
+
+// Key points with their text; weights that are not positive numbers count as 1
+export const asRubric = (value: unknown): RubricCriterion[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const rubric = value
+    .map((item): RawItem => (item && typeof item === 'object' ? item as RawItem : { point: item }))
+    .map(item => ({ point: asString(item.point), weight: Number(item.weight) > 0 ? Number(item.weight) : 1 }))
+    .filter(criterion => criterion.point);
+  return rubric.length > 0 ? rubric : undefined;
+};
+
+export const validateOpenQuestion = (raw: RawItem): OpenQuestion => {
+  const question = asString(raw.question);
+  if (!question) throw invalid({ code: 'MISSING_QUESTION' });
+  const modelAnswer = asString(raw.modelAnswer);
+  if (!modelAnswer) throw invalid({ code: 'MISSING_MODEL_ANSWER' });
+
+  return { question, modelAnswer, rubric: asRubric(raw.rubric), sourceFile: optional(raw.sourceFile) };
+};
+
+// First problem found in an item, or null when it is valid
+export const getValidationProblem = <T>(validate: (raw: RawItem) => T, item: object): ItemProblem | null => {
+  try {
+    validate(item as RawItem);
+    return null;
+  } catch (error) {
+    if (error instanceof ItemValidationError) return error.problem;
+    throw error;
+  }
+};
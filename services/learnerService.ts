@@ -0,0 +1,186 @@
+import { Difficulty, ExamAttempt, LearnerProfile } from '../types';
+import { STORES, getAllRecords, putRecord, deleteRecord } from './database';
+
+// Local learner profiles, their recorded exam attempts and the progress statistics built from them.
+
+const ACTIVE_PROFILE_KEY = 'docuexam:profile';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type NewExamAttempt = Omit<ExamAttempt, 'id' | 'finishedAt'>;
+
+// What an exam player reports when it finishes; the app adds the profile, exam and settings
+export type AttemptResult = Pick<ExamAttempt, 'startedAt' | 'questions' | 'score' | 'maxScore' | 'grade'>;
+
+export interface AccuracyStat {
+  correct: number;
+  total: number;
+  accuracy: number; // 0-1
+}
+
+export interface DailyAccuracy extends AccuracyStat {
+  day: number; // Local midnight
+}
+
+export interface WeakSpot extends AccuracyStat {
+  document: string;
+  page?: number;
+}
+
+export interface DifficultyPoint {
+  finishedAt: number;
+  difficulty: Difficulty;
+  accuracy: number;
+}
+
+export interface Streaks {
+  current: number; // Days in a row up to today (or yesterday, if not practised yet today)
+  longest: number;
+}
+
+// Oldest first
+export const listProfiles = async (): Promise<LearnerProfile[]> => {
+  const profiles = await getAllRecords<LearnerProfile>(STORES.profiles);
+  return profiles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createProfile = async (name: string): Promise<LearnerProfile> => {
+  const profile: LearnerProfile = { id: crypto.randomUUID(), name: name.trim(), createdAt: Date.now() };
+  await putRecord(STORES.profiles, profile);
+  return profile;
+};
+
+export const renameProfile = async (profile: LearnerProfile, name: string): Promise<LearnerProfile> => {
+  const renamed = { ...profile, name: name.trim() };
+  await putRecord(STORES.profiles, renamed);
+  return renamed;
+};
+
+export const deleteProfile = async (id: string): Promise<void> => {
+  const attempts = await listAttempts(id);
+  await Promise.all(attempts.map(attempt => deleteRecord(STORES.attempts, attempt.id)));
+  await deleteRecord(STORES.profiles, id);
+  if (localStorage.getItem(ACTIVE_PROFILE_KEY) === id) localStorage.removeItem(ACTIVE_PROFILE_KEY);
+};
+
+export const setActiveProfile = (id: string) => localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+
+// Shared by concurrent calls (e.g. StrictMode running the app's effect twice), so only one default profile is created
+let pendingActiveProfile: Promise<LearnerProfile> | null = null;
+
+const loadActiveProfile = async (defaultName: string): Promise<LearnerProfile> => {
+  const profiles = await listProfiles();
+  const stored = localStorage.getItem(ACTIVE_PROFILE_KEY);
+  const profile = profiles.find(p => p.id === stored) ?? profiles[0] ?? await createProfile(defaultName);
+  setActiveProfile(profile.id);
+  return profile;
+};
+
+/**
+ * The profile attempts are recorded under: the last one selected, else the oldest one.
+ * A first profile named `defaultName` is created on first use, so results are never lost.
+ */
+export const getActiveProfile = (defaultName: string): Promise<LearnerProfile> => {
+  if (!pendingActiveProfile) {
+    pendingActiveProfile = loadActiveProfile(defaultName).finally(() => {
+      pendingActiveProfile = null;
+    });
+  }
+  return pendingActiveProfile;
+};
+
+export const recordAttempt = async (attempt: NewExamAttempt): Promise<ExamAttempt> => {
+  const saved: ExamAttempt = { ...attempt, id: crypto.randomUUID(), finishedAt: Date.now() };
+  await putRecord(STORES.attempts, saved);
+  return saved;
+};
+
+// Oldest first
+export const listAttempts = async (profileId: string): Promise<ExamAttempt[]> => {
+  const attempts = await getAllRecords<ExamAttempt>(STORES.attempts);
+  return attempts.filter(a => a.profileId === profileId).sort((a, b) => a.finishedAt - b.finishedAt);
+};
+
+// Splits "file.pdf (Pág. 5)" into document and page
+export const parseSourceFile = (sourceFile: string): { document: string; page?: number } => {
+  const match = sourceFile.match(/^(.+?)\s*\(Pág\.\s*(\d+)\)$/);
+  return match ? { document: match[1].trim(), page: Number(match[2]) } : { document: sourceFile.trim() };
+};
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Rounded, so days made 23 or 25 hours long by daylight saving still count as one
+const daysBetween = (from: number, to: number): number => Math.round((to - from) / DAY_MS);
+
+const toStat = (correct: number, total: number): AccuracyStat => ({ correct, total, accuracy: total > 0 ? correct / total : 0 });
+
+export const getOverallAccuracy = (attempts: ExamAttempt[]): AccuracyStat => {
+  const questions = attempts.flatMap(a => a.questions);
+  return toStat(questions.filter(q => q.correct).length, questions.length);
+};
+
+// Mean time per answered question, in ms
+export const getAverageTime = (attempts: ExamAttempt[]): number => {
+  const questions = attempts.flatMap(a => a.questions);
+  return questions.length > 0 ? questions.reduce((sum, q) => sum + q.timeSpent, 0) / questions.length : 0;
+};
+
+export const getAccuracyTrend = (attempts: ExamAttempt[]): DailyAccuracy[] => {
+  const byDay = new Map<number, { correct: number; total: number }>();
+  attempts.forEach(attempt => {
+    const day = startOfDay(attempt.finishedAt);
+    const entry = byDay.get(day) ?? { correct: 0, total: 0 };
+    entry.correct += attempt.questions.filter(q => q.correct).length;
+    entry.total += attempt.questions.length;
+    byDay.set(day, entry);
+  });
+  return [...byDay.entries()]
+    .filter(([, entry]) => entry.total > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([day, entry]) => ({ day, ...toStat(entry.correct, entry.total) }));
+};
+
+/**
+ * Documents, or single pages with `byPage`, ordered from the lowest accuracy.
+ * Questions without a source (imported banks) are left out.
+ */
+export const getWeakSpots = (attempts: ExamAttempt[], byPage = false): WeakSpot[] => {
+  const spots = new Map<string, WeakSpot>();
+  attempts.flatMap(a => a.questions).forEach(question => {
+    if (!question.sourceFile) return;
+    const { document, page } = parseSourceFile(question.sourceFile);
+    if (byPage && page === undefined) return;
+    const key = byPage ? `${document}#${page}` : document;
+    const spot = spots.get(key) ?? { document, page: byPage ? page : undefined, correct: 0, total: 0, accuracy: 0 };
+    spot.total += 1;
+    if (question.correct) spot.correct += 1;
+    spot.accuracy = spot.correct / spot.total;
+    spots.set(key, spot);
+  });
+  return [...spots.values()].sort((a, b) => a.accuracy - b.accuracy || b.total - a.total);
+};
+
+export const getDifficultyProgression = (attempts: ExamAttempt[]): DifficultyPoint[] =>
+  attempts
+    .filter(a => a.questions.length > 0)
+    .map(a => ({
+      finishedAt: a.finishedAt,
+      difficulty: a.settings.difficulty,
+      accuracy: a.questions.filter(q => q.correct).length / a.questions.length,
+    }));
+
+export const getStreaks = (attempts: ExamAttempt[], now: number = Date.now()): Streaks => {
+  const days = [...new Set(attempts.map(a => startOfDay(a.finishedAt)))].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, idx) => {
+    run = idx > 0 && daysBetween(days[idx - 1], day) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  const lastDay = days[days.length - 1];
+  const current = lastDay !== undefined && daysBetween(lastDay, startOfDay(now)) <= 1 ? run : 0;
+  return { current, longest };
+};
@@ -0,0 +1,94 @@
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+// Provider-neutral subset of JSON Schema used to describe structured responses.
+// Each backend translates it to its own format (Gemini Schema, OpenAI json_schema...).
+export interface JsonSchema {
+  type: 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object';
+  description?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+// Identifies what a request is for, so backends (mainly the mock) can react per task.
+export type LLMTask =
+  | 'testQuestions'
+  | 'clozeCards'
+  | 'openQuestions'
+  | 'evaluateOpenAnswer'
+  | 'followUpQuestion'
+  | 'examTitle'
+  | 'backgroundPrompt';
+
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+  // Number of items the prompt asks for, when the response is a list.
+  expectedCount?: number;
+}
+
+export interface LLMJsonRequest extends LLMRequest {
+  schema: JsonSchema;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  generateText(request: LLMRequest): Promise<string>;
+  generateJSON<T>(request: LLMJsonRequest): Promise<T>;
+  // Optional: not every backend can produce images. Returns a data URL.
+  generateImage?(prompt: string): Promise<string | null>;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMProviderConfig {
+  provider: LLMProviderId;
+  apiKey?: string;
+  baseUrl?: string;
+  model?: string;
+}
+
+// Reads the provider configuration injected by Vite (see vite.config.ts).
+export const getProviderConfigFromEnv = (): LLMProviderConfig => {
+  const provider = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  return {
+    provider: provider === 'openai' || provider === 'mock' ? provider : 'gemini',
+    apiKey: process.env.LLM_API_KEY || process.env.API_KEY,
+    baseUrl: process.env.LLM_BASE_URL,
+    model: process.env.LLM_MODEL,
+  };
+};
+
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(config);
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(getProviderConfigFromEnv());
+  }
+  return activeProvider;
+};
+
+// Overrides the provider built from the environment (pass null to reset).
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider;
+};
+
+// Models sometimes wrap JSON in markdown fences even when asked not to.
+export const parseJsonResponse = <T>(raw: string): T => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  return JSON.parse(cleaned) as T;
+};
@@ -0,0 +1,72 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreSimdUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import spaDataUrl from '@tesseract.js-data/spa/4.0.0_best_int/spa.traineddata.gz?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+// Local OCR for scanned pages. Tesseract runs in its own Web Worker and every
+// asset (worker script, WASM core, Spanish and English models) is bundled by
+// Vite, so nothing is downloaded from a CDN.
+
+export interface OcrSession {
+  recognize: (image: HTMLCanvasElement, onProgress?: (progress: number) => void) => Promise<string>;
+  terminate: () => Promise<void>;
+}
+
+const LANGUAGES = [
+  { code: 'spa', url: spaDataUrl },
+  { code: 'eng', url: engDataUrl },
+];
+
+// Smallest module using a SIMD instruction (same probe as wasm-feature-detect)
+const SIMD_PROBE = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11]);
+
+const supportsSimd = (): boolean => {
+  try {
+    return WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    return false;
+  }
+};
+
+const loadLanguageData = async (url: string): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`No se pudo cargar el modelo de OCR (${response.status})`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Starts a Tesseract worker for Spanish + English. Creating it loads ~5 MB of
+ * models, so callers keep one session for a whole extraction.
+ */
+export const createOcrSession = async (): Promise<OcrSession> => {
+  const { createWorker, OEM } = await import('tesseract.js');
+  const langs = await Promise.all(LANGUAGES.map(async ({ code, url }) => ({ code, data: await loadLanguageData(url) })));
+
+  // The logger is shared by every job, so route progress to the current one
+  let reportProgress: ((progress: number) => void) | undefined;
+  const worker: TesseractWorker = await createWorker(langs, OEM.LSTM_ONLY, {
+    workerPath: workerUrl,
+    corePath: supportsSimd() ? coreSimdUrl : coreUrl,
+    cacheMethod: 'none',
+    logger: message => {
+      if (message.status === 'recognizing text') reportProgress?.(message.progress);
+    },
+  });
+
+  return {
+    recognize: async (image, onProgress) => {
+      reportProgress = onProgress;
+      try {
+        const { data } = await worker.recognize(image);
+        return data.text.trim();
+      } finally {
+        reportProgress = undefined;
+      }
+    },
+    terminate: async () => {
+      await worker.terminate();
+    },
+  };
+};
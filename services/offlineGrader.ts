@@ -0,0 +1,186 @@
+import { CriterionScore, ExamSettings, Language, OpenAnswerEvaluation, OpenQuestion, RubricCriterion } from '../types';
+import { getMessages } from '../i18n';
+import { getRubricScore, isOpenAnswerPassed } from './scoringService';
+import { evaluateOpenAnswer } from './geminiService';
+
+// Grades open answers without the LLM, for when it cannot be reached or the
+// exam is set to offline grading. Each key point of the rubric (or each
+// sentence of the model answer) is reduced to its keywords: accents and case
+// removed, stopwords of the exam language dropped and, in Spanish, words
+// stemmed and synonyms folded onto one form. The point scores by the share of its keywords found in the
+// answer, with names, acronyms and numbers counting double. It cannot tell a
+// wrong statement that uses the right words, hence the "heuristic" label.
+
+type Benevolence = NonNullable<ExamSettings['benevolence']>;
+
+// Keyword coverage that earns a full 10 for a key point
+const FULL_MARKS_COVERAGE: Record<Benevolence, number> = { STRICT: 1, NORMAL: 0.75, BENEVOLENT: 0.5 };
+const ENTITY_WEIGHT = 2;
+// Stems at least this long also match longer words built on them (mitocondria, mitocondrial)
+const MIN_PREFIX_MATCH = 5;
+
+const wordSet = (words: string) => new Set(words.trim().split(/\s+/));
+
+// Without accents, as they are compared after normalize()
+const STOPWORDS: Record<Language, Set<string>> = {
+  es: wordSet(`
+  a al algo algun alguna algunas alguno algunos ante antes aquel aquella aquellas aquellos aqui asi aun aunque
+  bajo bien cada casi como con contra cual cuales cuando cuanto de del desde donde dos durante e el ella ellas
+  ellos en entre era eran es esa esas ese eso esos esta estaba estan estar estas este esto estos fue fueron ha
+  han hasta hay la las le les lo los mas me mi mientras mismo mucho muy ni no nos o otra otras otro otros para
+  pero poco por porque que quien se sea segun ser si sido sin sobre son su sus tambien tan tanto te tiene tienen
+  todo todos tras tu u un una unas uno unos y ya yo
+`),
+  en: wordSet(`
+  a about after all also an and any are as at be because been before being between both but by can could did do
+  does during each for from had has have he her here his how i if in into is it its may more most much must no
+  not of on only or other our out over she should so some such than that the their them then there these they
+  this those through to under until up very was we were what when where which while who why will with would you
+  your
+`),
+  ca: wordSet(`
+  a al als amb aquell aquella aquelles aquells aqui aixi aixo ben cada com contra de del dels des dins
+  durant el ella elles ells els en entre era eren es esta estan estava estaven fins ha han hi ho i la les li lo
+  mentre mes molt molta molts no nosaltres o on pel pels per perque pero poc que qui se segons sense ser si
+  sobre son sota tambe tan tant te tenen tot tota tots un una unes uns va van ja jo
+`),
+  pt: wordSet(`
+  a ao aos aquela aquelas aquele aqueles aquilo as ate com como contra da das de dela dele deles depois do dos
+  durante e ela elas ele eles em entre era eram essa essas esse esses esta estao estas este estes eu foi foram
+  ha isso isto ja lhe mais mas me mesmo muito muitos na nao nas nem no nos o os ou para pela pelas pelo pelos
+  por porque qual quando que quem se segundo sem ser seu seus so sobre sua suas tambem tem tendo ter um uma
+  umas uns
+`),
+};
+
+// Stemming and synonyms only exist for Spanish; other languages compare whole words
+export const hasStemming = (language: Language): boolean => language === 'es';
+
+// Spanish suffixes, longest match wins; what is left must keep at least 3 letters
+const SUFFIXES = [
+  'amientos', 'imientos', 'aciones', 'uciones', 'amiento', 'imiento', 'idades', 'mente', 'acion', 'ucion',
+  'ancia', 'encia', 'istas', 'ables', 'ibles', 'adora', 'ador', 'idad', 'ista', 'able', 'ible', 'osos', 'osas',
+  'ivos', 'ivas', 'ando', 'iendo', 'ados', 'adas', 'idos', 'idas', 'aron', 'ieron', 'aba', 'ado', 'ada', 'ido',
+  'ida', 'oso', 'osa', 'ivo', 'iva', 'ar', 'er', 'ir', 'an', 'en', 'es', 'as', 'os', 'a', 'o', 'e', 's',
+].sort((a, b) => b.length - a.length);
+
+// Words that count as the same keyword; stemmed like everything else
+const SYNONYMS = [
+  ['producir', 'generar', 'crear', 'fabricar', 'sintetizar', 'elaborar'],
+  ['aumentar', 'incrementar', 'crecer', 'subir', 'elevar'],
+  ['disminuir', 'reducir', 'bajar', 'descender', 'decrecer', 'menguar'],
+  ['causa', 'motivo', 'razon', 'origen'],
+  ['consecuencia', 'efecto', 'resultado'],
+  ['importante', 'relevante', 'fundamental', 'esencial', 'clave', 'principal'],
+  ['usar', 'utilizar', 'emplear'],
+  ['mostrar', 'indicar', 'senalar', 'demostrar'],
+  ['permitir', 'posibilitar', 'facilitar'],
+  ['evitar', 'impedir', 'prevenir'],
+  ['tener', 'poseer', 'contener', 'disponer'],
+  ['formar', 'componer', 'constituir'],
+  ['funcion', 'papel', 'cometido', 'tarea'],
+  ['transformar', 'convertir', 'cambiar'],
+  ['obtener', 'conseguir', 'lograr'],
+  ['eliminar', 'suprimir', 'quitar', 'expulsar'],
+  ['almacenar', 'guardar', 'acumular', 'reservar'],
+  ['transportar', 'llevar', 'trasladar'],
+  ['comenzar', 'empezar', 'iniciar'],
+  ['terminar', 'acabar', 'finalizar', 'concluir'],
+  ['necesario', 'imprescindible', 'indispensable'],
+  ['grande', 'enorme', 'amplio', 'extenso'],
+  ['pequeno', 'diminuto', 'minusculo'],
+  ['rapido', 'veloz'],
+  ['similitud', 'semejanza', 'parecido'],
+  ['diferencia', 'distincion'],
+  ['ley', 'norma', 'regla'],
+];
+
+interface Keyword {
+  stem: string;
+  weight: number;
+}
+
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const stem = (word: string): string => {
+  const suffix = SUFFIXES.find(s => word.endsWith(s) && word.length - s.length >= 3);
+  return suffix ? word.slice(0, -suffix.length) : word;
+};
+
+const SYNONYM_STEMS = new Map<string, string>(
+  SYNONYMS.flatMap(group => group.map(word => [stem(word), stem(group[0])] as [string, string]))
+);
+
+const toStem = (word: string, language: Language): string => {
+  if (!hasStemming(language)) return word;
+  const stemmed = stem(word);
+  return SYNONYM_STEMS.get(stemmed) ?? stemmed;
+};
+
+// Capitalised words after the first one, acronyms and numbers
+const isEntity = (word: string, index: number): boolean =>
+  /\d/.test(word) || /^[A-ZÁÉÍÓÚÑ]{2,}$/.test(word) || (index > 0 && /^[A-ZÁÉÍÓÚÑ]/.test(word));
+
+const extractKeywords = (text: string, language: Language): Keyword[] => {
+  const words = text.match(/[\p{L}\p{N}]+/gu) ?? [];
+  const keywords = new Map<string, Keyword>();
+  words.forEach((word, index) => {
+    const normalized = normalize(word);
+    if (STOPWORDS[language].has(normalized) || (normalized.length < 3 && !/\d/.test(normalized))) return;
+    const keyword = { stem: toStem(normalized, language), weight: isEntity(word, index) ? ENTITY_WEIGHT : 1 };
+    keywords.set(keyword.stem, { ...keyword, weight: Math.max(keyword.weight, keywords.get(keyword.stem)?.weight ?? 0) });
+  });
+  return [...keywords.values()];
+};
+
+const matches = (keyword: string, answerStems: string[]): boolean =>
+  answerStems.some(answer =>
+    answer === keyword ||
+    (Math.min(answer.length, keyword.length) >= MIN_PREFIX_MATCH && (answer.startsWith(keyword) || keyword.startsWith(answer)))
+  );
+
+// Share of the weighted keywords of `text` found in the answer (0-1)
+export const getKeywordCoverage = (text: string, answer: string, language: Language = 'es'): number => {
+  const keywords = extractKeywords(text, language);
+  const total = keywords.reduce((sum, k) => sum + k.weight, 0);
+  if (total === 0) return 0;
+  const answerStems = extractKeywords(answer, language).map(k => k.stem);
+  return keywords.filter(k => matches(k.stem, answerStems)).reduce((sum, k) => sum + k.weight, 0) / total;
+};
+
+// Without a rubric, every sentence of the model answer is a key point
+const getKeyPoints = (question: OpenQuestion, language: Language): RubricCriterion[] => {
+  const keyPoints = question.rubric ?? question.modelAnswer
+    .split(/(?<=[.;:!?])\s+/)
+    .map(point => ({ point: point.trim(), weight: 1 }));
+  const withKeywords = keyPoints.filter(c => extractKeywords(c.point, language).length > 0);
+  return withKeywords.length > 0 ? withKeywords : [{ point: question.modelAnswer, weight: 1 }];
+};
+
+export const gradeOpenAnswerOffline = (question: OpenQuestion, userAnswer: string, benevolence: Benevolence = 'NORMAL', language: Language = 'es'): OpenAnswerEvaluation => {
+  const fullMarks = FULL_MARKS_COVERAGE[benevolence];
+  const criteria: CriterionScore[] = getKeyPoints(question, language).map(criterion => ({
+    ...criterion,
+    score: Math.round(Math.min(1, getKeywordCoverage(criterion.point, userAnswer, language) / fullMarks) * 10),
+  }));
+
+  const m = getMessages(language).open;
+  // Without the final stop, as the feedback lists them in a sentence
+  const label = (c: CriterionScore) => c.point.replace(/[.;:!?]+$/, '');
+  const covered = criteria.filter(c => isOpenAnswerPassed(c.score)).map(label);
+  const missed = criteria.filter(c => !isOpenAnswerPassed(c.score)).map(label);
+  return { score: getRubricScore(criteria), feedback: m.heuristicFeedback(covered, missed), criteria, heuristic: true };
+};
+
+// The LLM grade, or the heuristic one with offline grading or when the LLM fails (no connection, API errors)
+export const gradeOpenAnswer = async (question: OpenQuestion, userAnswer: string, settings?: ExamSettings): Promise<OpenAnswerEvaluation> => {
+  const language = settings?.examLanguage ?? 'es';
+  if (settings?.offlineGrading) return gradeOpenAnswerOffline(question, userAnswer, settings.benevolence, language);
+  try {
+    return await evaluateOpenAnswer(question, userAnswer, settings?.benevolence, language);
+  } catch (error) {
+    console.error(error);
+    return gradeOpenAnswerOffline(question, userAnswer, settings?.benevolence, language);
+  }
+};
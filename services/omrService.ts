@@ -0,0 +1,376 @@
+import {
+  AnswerSheetLayout,
+  MAX_VARIANTS,
+  PaperVariant,
+  Point,
+  SHEET,
+} from './paperExamService';
+import { ExamSettings } from '../types';
+import { isExactAnswer, roundPoints, scoreAnswer, toGrade } from './scoringService';
+
+// Reads the answer sheets printed by paperExamService from photos or scans,
+// entirely in the browser: adaptive thresholding, the four corner squares
+// located as solid blobs, a perspective transform from sheet millimetres to
+// image pixels and the darkness inside every bubble.
+
+declare global {
+  interface Window {
+    pdfjsLib: any;
+  }
+}
+
+export type SheetErrorCode = 'CORNERS_NOT_FOUND' | 'CORNERS_MISMATCH' | 'CORNERS_ALIGNED' | 'WRONG_PROPORTIONS';
+
+// Why a sheet could not be read; SheetGrading explains it in the interface language
+export class SheetReadError extends Error {
+  readonly code: SheetErrorCode;
+
+  constructor(code: SheetErrorCode) {
+    super(`No se pudo leer la hoja: ${code}`);
+    this.name = 'SheetReadError';
+    this.code = code;
+  }
+}
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // Luminance, one byte per pixel
+}
+
+export interface SheetImage {
+  name: string;
+  image: GrayImage;
+}
+
+export interface SheetReading {
+  variantIndex: number | null; // null when no single variant bubble is filled
+  studentId: string; // '?' for digits with no single mark
+  answers: number[][]; // Options marked per question, in printed order
+  doubtful: number[]; // 0-based questions with half-filled bubbles
+}
+
+export interface SheetGrade {
+  correct: number;
+  wrong: number;
+  blank: number;
+  points: number;
+  maxPoints: number;
+  grade: number; // 0-10, rounded as in ExamTestMode
+}
+
+// Longest side photos are scaled to before processing
+const MAX_IMAGE_SIZE = 2000;
+// Share of a bubble's inside that must be dark to count as marked, or as doubtful
+const FILLED_RATIO = 0.5;
+const DOUBTFUL_RATIO = 0.25;
+// Bradley-Roth thresholding: darker than the local mean by this fraction
+const THRESHOLD = 0.2;
+
+// ---------- Loading ----------
+
+const toGrayImage = (source: CanvasImageSource, width: number, height: number): GrayImage => {
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = new Uint8ClampedArray(canvas.width * canvas.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width: canvas.width, height: canvas.height, data: gray };
+};
+
+// Images give one sheet; PDF scans give one sheet per page
+export const loadSheetImages = async (file: File): Promise<SheetImage[]> => {
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+    const pdf = await window.pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    const sheets: SheetImage[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: MAX_IMAGE_SIZE / Math.max(base.width, base.height) });
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+      sheets.push({ name: pdf.numPages > 1 ? `${file.name} (Pág. ${i})` : file.name, image: toGrayImage(canvas, canvas.width, canvas.height) });
+    }
+    return sheets;
+  }
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    return [{ name: file.name, image: toGrayImage(bitmap, bitmap.width, bitmap.height) }];
+  } finally {
+    bitmap.close();
+  }
+};
+
+// ---------- Image processing ----------
+
+const binarize = ({ width, height, data }: GrayImage): Uint8Array => {
+  // Integral image so every local mean costs four lookups
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  // The window must be wider than the corner squares so they stay solid
+  const half = Math.max(Math.round(Math.max(width, height) / 16), 8);
+  const dark = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(y - half, 0);
+    const y1 = Math.min(y + half, height - 1) + 1;
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(x - half, 0);
+      const x1 = Math.min(x + half, width - 1) + 1;
+      const area = (x1 - x0) * (y1 - y0);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      if (data[y * width + x] * area < sum * (1 - THRESHOLD)) dark[y * width + x] = 1;
+    }
+  }
+  return dark;
+};
+
+interface Blob {
+  area: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  center: Point;
+}
+
+// 4-connected components of dark pixels
+const findBlobs = (dark: Uint8Array, width: number, height: number, minArea: number): Blob[] => {
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  const blobs: Blob[] = [];
+
+  for (let start = 0; start < dark.length; start++) {
+    if (!dark[start] || visited[start]) continue;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+    let area = 0, sumX = 0, sumY = 0;
+    let minX = width, maxX = 0, minY = height, maxY = 0;
+
+    while (top > 0) {
+      const idx = stack[--top];
+      const x = idx % width;
+      const y = (idx - x) / width;
+      area++;
+      sumX += x;
+      sumY += y;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      const neighbours = [x > 0 ? idx - 1 : -1, x < width - 1 ? idx + 1 : -1, y > 0 ? idx - width : -1, y < height - 1 ? idx + width : -1];
+      for (const next of neighbours) {
+        if (next >= 0 && dark[next] && !visited[next]) {
+          visited[next] = 1;
+          stack[top++] = next;
+        }
+      }
+    }
+
+    if (area >= minArea) blobs.push({ area, minX, maxX, minY, maxY, center: { x: sumX / area, y: sumY / area } });
+  }
+  return blobs;
+};
+
+const distance = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Corner squares in clockwise order as seen in the image (top-left first).
+ * Candidates are solid, roughly square blobs; the one closest to each image
+ * corner wins, and the four must have similar sizes.
+ */
+const findFiducials = (blobs: Blob[], width: number, height: number): Point[] => {
+  const size = Math.max(width, height);
+  const candidates = blobs.filter(blob => {
+    const w = blob.maxX - blob.minX + 1;
+    const h = blob.maxY - blob.minY + 1;
+    // A tilted square fills less of its bounding box, hence the loose fill ratio
+    return w >= size * 0.01 && w <= size * 0.1 && w / h > 0.5 && w / h < 2 && blob.area / (w * h) >= 0.6;
+  });
+
+  const corners: Point[] = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const chosen = corners.map(corner =>
+    candidates.reduce<Blob | null>((best, blob) => (!best || distance(blob.center, corner) < distance(best.center, corner) ? blob : best), null)
+  );
+
+  if (chosen.some(blob => !blob) || new Set(chosen).size < 4) {
+    throw new SheetReadError('CORNERS_NOT_FOUND');
+  }
+  const areas = chosen.map(blob => blob!.area).sort((a, b) => a - b);
+  if (areas[3] > areas[0] * 3) {
+    throw new SheetReadError('CORNERS_MISMATCH');
+  }
+  return chosen.map(blob => blob!.center);
+};
+
+// ---------- Perspective ----------
+
+type Homography = number[];
+
+// Solves A·x = b by Gaussian elimination with partial pivoting
+const solve = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    if (Math.abs(m[col][col]) < 1e-12) throw new SheetReadError('CORNERS_ALIGNED');
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+};
+
+// Maps 4 source points onto 4 destination points
+const getHomography = (from: Point[], to: Point[]): Homography => {
+  const a: number[][] = [];
+  const b: number[] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  });
+  return solve(a, b);
+};
+
+const project = (h: Homography, { x, y }: Point): Point => {
+  const d = h[6] * x + h[7] * y + 1;
+  return { x: (h[0] * x + h[1] * y + h[2]) / d, y: (h[3] * x + h[4] * y + h[5]) / d };
+};
+
+// Sample points (sheet mm, relative to the centre) inside a bubble, clear of its outline
+const SAMPLE_OFFSETS: Point[] = (() => {
+  const radius = SHEET.bubbleDiameter * 0.35;
+  const offsets: Point[] = [];
+  for (let i = -3; i <= 3; i++) {
+    for (let j = -3; j <= 3; j++) {
+      if (i * i + j * j <= 9) offsets.push({ x: (i * radius) / 3, y: (j * radius) / 3 });
+    }
+  }
+  return offsets;
+})();
+
+const createSampler = (dark: Uint8Array, width: number, height: number, h: Homography) => (center: Point): number => {
+  let filled = 0;
+  for (const offset of SAMPLE_OFFSETS) {
+    const { x, y } = project(h, { x: center.x + offset.x, y: center.y + offset.y });
+    const px = Math.round(x);
+    const py = Math.round(y);
+    if (px >= 0 && py >= 0 && px < width && py < height && dark[py * width + px]) filled++;
+  }
+  return filled / SAMPLE_OFFSETS.length;
+};
+
+const markedIndices = (ratios: number[]): number[] => ratios.flatMap((ratio, idx) => (ratio >= FILLED_RATIO ? [idx] : []));
+
+// ---------- Reading ----------
+
+/**
+ * Reads a filled answer sheet. `variantCount` is how many variants were
+ * printed; the pre-filled variant bubble also tells which way up the sheet is.
+ */
+export const readAnswerSheet = (image: GrayImage, layout: AnswerSheetLayout, variantCount: number): SheetReading => {
+  const { width, height } = image;
+  const dark = binarize(image);
+  const minArea = Math.round((Math.max(width, height) * 0.005) ** 2);
+  const imageCorners = findFiducials(findBlobs(dark, width, height, minArea), width, height);
+
+  // Sheet corners in clockwise order, matching imageCorners
+  const [tl, tr, bl, br] = SHEET.fiducials;
+  const sheetCorners = [tl, tr, br, bl];
+  const sheetRatio = distance(tl, tr) / distance(tl, bl);
+
+  // Try the four ways the sheet can lie in the picture; keep those with the right proportions
+  const orientations = [0, 1, 2, 3]
+    .map(turn => imageCorners.map((_, i) => imageCorners[(i + turn) % 4]))
+    .filter(corners => {
+      const ratio = (distance(corners[0], corners[1]) + distance(corners[3], corners[2])) / (distance(corners[0], corners[3]) + distance(corners[1], corners[2]));
+      return Math.abs(ratio - sheetRatio) < sheetRatio * 0.35;
+    })
+    .map(corners => {
+      const sample = createSampler(dark, width, height, getHomography(sheetCorners, corners));
+      const variants = markedIndices(layout.variantBubbles.slice(0, Math.min(variantCount, MAX_VARIANTS)).map(sample));
+      return { sample, variants };
+    });
+
+  if (orientations.length === 0) {
+    throw new SheetReadError('WRONG_PROPORTIONS');
+  }
+  // Upright first: it is the first candidate with the right proportions
+  const { sample, variants } = orientations.find(o => o.variants.length === 1) ?? orientations[0];
+
+  const doubtful: number[] = [];
+  const answers = layout.answerBubbles.map((options, question) => {
+    const ratios = options.map(sample);
+    if (ratios.some(ratio => ratio >= DOUBTFUL_RATIO && ratio < FILLED_RATIO)) doubtful.push(question);
+    return markedIndices(ratios);
+  });
+
+  const studentId = layout.studentIdBubbles
+    .map(digits => {
+      const marked = markedIndices(digits.map(sample));
+      if (marked.length === 0) return '';
+      return marked.length === 1 ? String(marked[0]) : '?';
+    })
+    .join('');
+
+  return { variantIndex: variants.length === 1 ? variants[0] : null, studentId, answers, doubtful };
+};
+
+// ---------- Grading ----------
+
+// Same scoring scheme as the on-screen test; partially right answers count as wrong but keep their credit
+export const gradeSheet = (answers: number[][], variant: PaperVariant, settings: ExamSettings): SheetGrade => {
+  const result = { correct: 0, wrong: 0, blank: 0, points: 0 };
+
+  variant.questions.forEach(({ question }, idx) => {
+    const marked = answers[idx] ?? [];
+    if (marked.length === 0) {
+      result.blank++;
+      return;
+    }
+    if (isExactAnswer(marked, question)) result.correct++;
+    else result.wrong++;
+    result.points += scoreAnswer(marked, question, settings);
+  });
+
+  const maxPoints = variant.questions.length;
+  return { ...result, points: roundPoints(result.points), maxPoints, grade: toGrade(result.points, maxPoints) };
+};
+
+// ---------- CSV ----------
+
+const escapeCsv = (value: string | number): string => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number)[][]): string =>
+  `\uFEFF${rows.map(row => row.map(escapeCsv).join(',')).join('\r\n')}\r\n`;
@@ -0,0 +1,38 @@
+import { OpenQuestion, OralTurn } from '../types';
+import { parseDocumentPages } from './chunkingService';
+import { parseSourceFile } from './learnerService';
+
+// Oral exam simulation: each exam question opens a topic, the examiner asks up
+// to MAX_FOLLOW_UPS more questions on the same page, and the transcript is
+// graded when the exam ends.
+
+export const MAX_FOLLOW_UPS = 2;
+// An exam question counts twice as much as each of its follow-ups
+const MAIN_WEIGHT = 2;
+const FOLLOW_UP_WEIGHT = 1;
+// Enough for a page or two of context without making every follow-up request huge
+const MAX_CONTEXT_CHARS = 6000;
+
+/**
+ * Text the follow-ups of a topic are grounded in: the page its question came
+ * from, else its whole document. Without either (no source, imported banks)
+ * only the question and its model answer are known.
+ */
+export const getSourceContext = (pdfText: string, question: OpenQuestion): string => {
+  const fallback = `${question.question}\n${question.modelAnswer}`;
+  if (!question.sourceFile || !pdfText) return fallback;
+
+  const { document, page } = parseSourceFile(question.sourceFile);
+  const pages = parseDocumentPages(pdfText).filter(p => p.docName === document);
+  const sourcePage = page !== undefined ? pages.find(p => p.pageNumber === page) : undefined;
+  const text = sourcePage ? sourcePage.text : pages.map(p => p.text).join('\n');
+  return text.trim() ? text.slice(0, MAX_CONTEXT_CHARS) : fallback;
+};
+
+export const getTurnWeight = (turn: OralTurn): number => (turn.followUp ? FOLLOW_UP_WEIGHT : MAIN_WEIGHT);
+
+// Weighted points of the graded turns (a turn is worth its weight at 10/10) and what they could reach
+export const getOralScore = (turns: OralTurn[]): { score: number; maxScore: number } => ({
+  score: turns.reduce((sum, turn) => sum + getTurnWeight(turn) * (turn.evaluation?.score ?? 0) / 10, 0),
+  maxScore: turns.reduce((sum, turn) => sum + getTurnWeight(turn), 0),
+});
@@ -0,0 +1,158 @@
+import { PageRange } from '../types';
+import { getDocumentOutline, parseDocumentPages, renderPages } from './chunkingService';
+
+// Restricts generation to part of the uploaded documents: page ranges typed
+// by the user or chapters taken from the PDF bookmarks (or, when there are
+// none, from the headings found during extraction).
+
+export interface Chapter {
+  title: string;
+  level: number; // 1 = top level
+  startPage: number;
+  endPage: number;
+}
+
+// Chapters deeper than this are not offered
+const MAX_CHAPTER_LEVEL = 2;
+
+// Sorted, without overlaps, adjacent ranges merged
+export const normalizePageRanges = (ranges: PageRange[]): PageRange[] => {
+  const sorted = ranges
+    .map(range => ({ start: Math.min(range.start, range.end), end: Math.max(range.start, range.end) }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: PageRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end + 1) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  });
+  return merged;
+};
+
+export const removePageRange = (ranges: PageRange[], removed: PageRange): PageRange[] =>
+  normalizePageRanges(ranges).flatMap(range => {
+    if (removed.end < range.start || removed.start > range.end) return [range];
+    const pieces: PageRange[] = [];
+    if (range.start < removed.start) pieces.push({ start: range.start, end: removed.start - 1 });
+    if (range.end > removed.end) pieces.push({ start: removed.end + 1, end: range.end });
+    return pieces;
+  });
+
+export const isPageInRanges = (pageNumber: number, ranges: PageRange[]): boolean =>
+  ranges.some(range => pageNumber >= range.start && pageNumber <= range.end);
+
+export const countSelectedPages = (ranges: PageRange[]): number =>
+  normalizePageRanges(ranges).reduce((sum, range) => sum + range.end - range.start + 1, 0);
+
+export const formatPageRanges = (ranges: PageRange[]): string =>
+  normalizePageRanges(ranges)
+    .map(range => (range.start === range.end ? `${range.start}` : `${range.start}-${range.end}`))
+    .join(', ');
+
+/**
+ * Parses "1-3, 7, 10-12". Returns null when the input is not valid or
+ * points outside the document.
+ */
+export const parsePageRanges = (input: string, totalPages: number): PageRange[] | null => {
+  const parts = input.split(/[,;]/).map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const ranges: PageRange[] = [];
+  for (const part of parts) {
+    const match = /^(\d+)\s*(?:[-–]\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (Math.min(start, end) < 1 || Math.max(start, end) > totalPages) return null;
+    ranges.push({ start, end });
+  }
+  return normalizePageRanges(ranges);
+};
+
+/**
+ * Keeps only the selected pages of each document. Documents missing from
+ * `selection` are kept whole. Page numbers are preserved, so sourceFile
+ * references still point at the original pages, while "Páginas: N" becomes
+ * the number of selected pages for the per-document distribution.
+ */
+export const selectPages = (text: string, selection?: Record<string, PageRange[]>): string => {
+  if (!selection || Object.keys(selection).length === 0) return text;
+
+  const kept = parseDocumentPages(text).filter(page => {
+    const ranges = page.docName !== null ? selection[page.docName] : undefined;
+    return !ranges || isPageInRanges(page.pageNumber, ranges);
+  });
+
+  const pagesPerDoc = new Map<string | null, number>();
+  kept.forEach(page => pagesPerDoc.set(page.docName, (pagesPerDoc.get(page.docName) || 0) + 1));
+  return renderPages(kept.map(page => ({ ...page, totalPages: pagesPerDoc.get(page.docName)! })));
+};
+
+// Each entry runs until the next entry of the same or a higher level
+const toChapters = (entries: { title: string; level: number; pageNumber: number }[], totalPages: number): Chapter[] =>
+  entries
+    .filter(entry => entry.level <= MAX_CHAPTER_LEVEL)
+    .map((entry, i, list) => {
+      const next = list.slice(i + 1).find(other => other.level <= entry.level);
+      return {
+        title: entry.title,
+        level: entry.level,
+        startPage: entry.pageNumber,
+        endPage: next ? Math.max(entry.pageNumber, next.pageNumber - 1) : totalPages,
+      };
+    });
+
+// Flattens the pdf.js outline (bookmarks) resolving each destination to a page
+const readPdfBookmarks = async (file: File): Promise<{ entries: { title: string; level: number; pageNumber: number }[]; totalPages: number }> => {
+  const pdf = await window.pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  const outline: any[] = (await pdf.getOutline()) || [];
+  const entries: { title: string; level: number; pageNumber: number }[] = [];
+
+  const resolvePage = async (dest: any): Promise<number | null> => {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    const target = Array.isArray(explicit) ? explicit[0] : null;
+    if (target === null || target === undefined) return null;
+    return (typeof target === 'number' ? target : await pdf.getPageIndex(target)) + 1;
+  };
+
+  const walk = async (items: any[], level: number) => {
+    for (const item of items) {
+      try {
+        const pageNumber = await resolvePage(item.dest);
+        if (pageNumber !== null) entries.push({ title: String(item.title).trim(), level, pageNumber });
+      } catch (e) {
+        console.warn('Unresolved bookmark', item.title, e);
+      }
+      if (level < MAX_CHAPTER_LEVEL && item.items?.length) await walk(item.items, level + 1);
+    }
+  };
+  await walk(outline, 1);
+
+  return { entries: entries.sort((a, b) => a.pageNumber - b.pageNumber), totalPages: pdf.numPages };
+};
+
+/**
+ * Chapters of an uploaded file: PDF bookmarks when the file has them,
+ * otherwise the headings marked in the extracted text.
+ */
+export const loadChapters = async (file: File, pdfText: string): Promise<Chapter[]> => {
+  if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+    try {
+      const { entries, totalPages } = await readPdfBookmarks(file);
+      if (entries.length > 0) return toChapters(entries, totalPages);
+    } catch (e) {
+      console.error('Could not read the PDF outline', e);
+    }
+  }
+
+  const pages = parseDocumentPages(pdfText).filter(page => page.docName === file.name);
+  if (pages.length === 0) return [];
+  const headings = getDocumentOutline(pdfText).filter(entry => entry.docName === file.name);
+  // The shallowest heading level found becomes level 1
+  const topLevel = Math.min(...headings.map(entry => entry.level));
+  return toChapters(
+    headings.map(entry => ({ ...entry, level: entry.level - topLevel + 1 })),
+    pages[0].totalPages
+  );
+};
@@ -0,0 +1,399 @@
+import { PaperExamOptions, TestQuestion } from '../types';
+import { Messages, getLocale, getMessages } from '../i18n';
+import { ExamExportData, downloadBlob, slugify } from './exportService';
+import { getScoringScheme, getWrongAnswerPoints } from './scoringService';
+
+// Printable paper exams built from the test questions: shuffled variants, each
+// with its question booklet and an answer sheet that can be read optically,
+// plus a separate answer key per variant. Variants come from a seeded shuffle,
+// so the same series number always rebuilds the same booklets and keys.
+// Sheet coordinates are millimetres on an A4 page, measured from its top-left corner.
+
+export const MAX_VARIANTS = 8;
+export const MAX_SHEET_OPTIONS = 6;
+export const STUDENT_ID_DIGITS = 6;
+
+export interface PaperQuestion {
+  question: TestQuestion; // Options in printed order, correctIndices remapped to it
+  sourceIndex: number; // Position in the original exam
+  optionOrder: number[]; // optionOrder[printed] = original option index
+}
+
+export interface PaperVariant {
+  code: string; // 'A', 'B'...
+  questions: PaperQuestion[];
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface AnswerSheetLayout {
+  optionCount: number;
+  columns: number;
+  rowsPerColumn: number;
+  questionLabels: Point[]; // Right edge of each question number
+  answerBubbles: Point[][]; // [question][option]
+  optionHeaders: Point[][]; // [column][option], letters above each column
+  studentIdBubbles: Point[][]; // [digit position][digit 0-9]
+  variantBubbles: Point[]; // [variant], one per possible variant even when fewer are printed
+}
+
+export const SHEET = {
+  width: 210,
+  height: 297,
+  fiducialSize: 7,
+  // Centres of the solid squares in the corners: top-left, top-right, bottom-left, bottom-right
+  fiducials: [
+    { x: 12, y: 12 },
+    { x: 198, y: 12 },
+    { x: 12, y: 285 },
+    { x: 198, y: 285 },
+  ] as Point[],
+  bubbleDiameter: 4,
+};
+
+const ANSWER_AREA = { left: 20, right: 190, top: 124, maxRows: 25, rowPitch: 6 };
+const OPTION_PITCH = 5.5;
+const LABEL_WIDTH = 8;
+const COLUMN_GAP = 5;
+const STUDENT_ID = { left: 26, top: 66, columnPitch: 6, rowPitch: 5.2 };
+const VARIANT_ROW = { left: 114, top: 66, pitch: 6 };
+
+export const toLetter = (index: number): string => String.fromCharCode(65 + index);
+
+export const createRandomSeed = (): number => Math.floor(1000 + Math.random() * 9000);
+
+// Deterministic PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const getOrder = (length: number, random: () => number, shuffle: boolean): number[] => {
+  const order = Array.from({ length }, (_, i) => i);
+  if (!shuffle) return order;
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+export const buildVariants = (questions: TestQuestion[], options: PaperExamOptions): PaperVariant[] => {
+  const random = createRandom(options.seed);
+  const count = Math.min(Math.max(options.variantCount, 1), MAX_VARIANTS);
+
+  return Array.from({ length: count }, (_, v) => ({
+    code: toLetter(v),
+    questions: getOrder(questions.length, random, options.shuffleQuestions).map(sourceIndex => {
+      const source = questions[sourceIndex];
+      const optionOrder = getOrder(source.options.length, random, options.shuffleOptions);
+      return {
+        sourceIndex,
+        optionOrder,
+        question: {
+          ...source,
+          options: optionOrder.map(idx => source.options[idx]),
+          correctIndices: optionOrder.flatMap((idx, printed) => (source.correctIndices.includes(idx) ? [printed] : [])),
+        },
+      };
+    }),
+  }));
+};
+
+// The exam does not fit on the answer sheet; PaperExamDialog explains it in the interface language
+export class AnswerSheetLimitError extends Error {
+  readonly limit: 'OPTIONS' | 'QUESTIONS';
+  readonly max: number;
+  readonly optionCount: number;
+
+  constructor(limit: 'OPTIONS' | 'QUESTIONS', max: number, optionCount: number) {
+    super(`La hoja de respuestas no admite el examen: ${limit} > ${max}`);
+    this.name = 'AnswerSheetLimitError';
+    this.limit = limit;
+    this.max = max;
+    this.optionCount = optionCount;
+  }
+}
+
+export const getAnswerSheetLayout = (questionCount: number, optionCount: number): AnswerSheetLayout => {
+  if (optionCount > MAX_SHEET_OPTIONS) {
+    throw new AnswerSheetLimitError('OPTIONS', MAX_SHEET_OPTIONS, optionCount);
+  }
+
+  const areaWidth = ANSWER_AREA.right - ANSWER_AREA.left;
+  const columnWidth = LABEL_WIDTH + optionCount * OPTION_PITCH + COLUMN_GAP;
+  const maxColumns = Math.floor(areaWidth / columnWidth);
+  const columns = Math.max(Math.ceil(questionCount / ANSWER_AREA.maxRows), 1);
+  if (columns > maxColumns) {
+    throw new AnswerSheetLimitError('QUESTIONS', maxColumns * ANSWER_AREA.maxRows, optionCount);
+  }
+
+  const rowsPerColumn = Math.ceil(questionCount / columns);
+  // Spread the columns over the whole width
+  const columnSpacing = areaWidth / columns;
+  const columnLeft = (column: number) => ANSWER_AREA.left + column * columnSpacing;
+  const optionX = (column: number, option: number) => columnLeft(column) + LABEL_WIDTH + OPTION_PITCH / 2 + option * OPTION_PITCH;
+  const rowY = (row: number) => ANSWER_AREA.top + row * ANSWER_AREA.rowPitch;
+
+  const positions = Array.from({ length: questionCount }, (_, q) => ({ column: Math.floor(q / rowsPerColumn), row: q % rowsPerColumn }));
+
+  return {
+    optionCount,
+    columns,
+    rowsPerColumn,
+    questionLabels: positions.map(({ column, row }) => ({ x: columnLeft(column) + LABEL_WIDTH - 1.5, y: rowY(row) })),
+    answerBubbles: positions.map(({ column, row }) =>
+      Array.from({ length: optionCount }, (_, o) => ({ x: optionX(column, o), y: rowY(row) }))
+    ),
+    optionHeaders: Array.from({ length: columns }, (_, column) =>
+      Array.from({ length: optionCount }, (_, o) => ({ x: optionX(column, o), y: ANSWER_AREA.top - 5 }))
+    ),
+    studentIdBubbles: Array.from({ length: STUDENT_ID_DIGITS }, (_, position) =>
+      Array.from({ length: 10 }, (_, digit) => ({
+        x: STUDENT_ID.left + position * STUDENT_ID.columnPitch,
+        y: STUDENT_ID.top + digit * STUDENT_ID.rowPitch,
+      }))
+    ),
+    variantBubbles: Array.from({ length: MAX_VARIANTS }, (_, v) => ({ x: VARIANT_ROW.left + v * VARIANT_ROW.pitch, y: VARIANT_ROW.top })),
+  };
+};
+
+// ---------- HTML ----------
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatPoints = (value: number, locale: string): string => value.toLocaleString(locale, { maximumFractionDigits: 2 });
+
+// Marking rules printed on booklets and answer keys, from the exam's scoring scheme
+const describeScoring = (data: ExamExportData, locale: string, m: Messages['paper']['sheet']): string => {
+  const scheme = getScoringScheme(data.settings);
+  if (scheme === 'PROPORTIONAL' || scheme === 'PROPORTIONAL_PENALTY') return m.partialScoring(scheme === 'PROPORTIONAL');
+  // The guessing correction depends on the number of options, which may differ between questions
+  const wrongPoints = new Set(data.testQuestions.map(q => getWrongAnswerPoints(q, data.settings)!));
+  return wrongPoints.size === 1 ? m.scoring(formatPoints(1, locale), formatPoints([...wrongPoints][0], locale)) : m.guessingScoring;
+};
+
+const mm = (value: number): string => `${Number(value.toFixed(2))}mm`;
+
+const PRINT_CSS = `
+@page { size: A4; margin: 15mm 18mm; }
+@page sheet { size: A4; margin: 0; }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: Arial, Helvetica, sans-serif; font-size: 11pt; color: #000; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+.booklet { break-after: page; }
+.sheet { page: sheet; position: relative; width: 210mm; height: 297mm; overflow: hidden; break-after: page; font-size: 9pt; }
+.sheet .abs { position: absolute; white-space: nowrap; }
+.sheet .center { transform: translate(-50%, -50%); }
+.sheet .right { transform: translate(-100%, -50%); }
+.fiducial { position: absolute; background: #000; }
+.bubble { position: absolute; width: ${mm(SHEET.bubbleDiameter)}; height: ${mm(SHEET.bubbleDiameter)}; border: 0.3mm solid #000; border-radius: 50%; transform: translate(-50%, -50%); }
+.bubble.filled { background: #000; }
+.digit-box { position: absolute; width: 5mm; height: 6mm; border: 0.3mm solid #000; transform: translateX(-50%); }
+.write-line { position: absolute; border-bottom: 0.3mm solid #000; height: 7mm; font-size: 8pt; }
+h1 { font-size: 16pt; margin: 0; }
+h2 { font-size: 13pt; margin: 0; }
+.exam-header { border-bottom: 0.5mm solid #000; padding-bottom: 4mm; margin-bottom: 6mm; }
+.title-row { display: flex; justify-content: space-between; align-items: baseline; gap: 8mm; }
+.badge { border: 0.4mm solid #000; padding: 1mm 3mm; font-weight: bold; white-space: nowrap; }
+.fields { display: flex; gap: 6mm; margin: 5mm 0 3mm; }
+.field { flex: 1; border-bottom: 0.3mm solid #000; padding-top: 5mm; font-size: 8pt; }
+.field.short { flex: 0 0 35mm; }
+.instructions { margin: 1mm 0; font-size: 9pt; }
+.questions { padding-left: 7mm; margin: 0; }
+.question { break-inside: avoid; margin-bottom: 5mm; }
+.question-points { font-size: 8pt; color: #444; white-space: nowrap; }
+.options { list-style: none; padding-left: 2mm; margin: 2mm 0 0; }
+.options li { margin: 1mm 0; }
+.letter { font-weight: bold; margin-right: 2mm; }
+.key { break-after: page; }
+.key table { width: 100%; border-collapse: collapse; margin-top: 5mm; font-size: 10pt; }
+.key th, .key td { border: 0.3mm solid #000; padding: 1.2mm 2mm; text-align: left; }
+.key th { background: #eee; }
+@media screen {
+  body { background: #e2e8f0; padding: 10mm 0; }
+  .booklet, .key { width: 210mm; margin: 0 auto 10mm; padding: 15mm 18mm; background: #fff; }
+  .sheet { margin: 0 auto 10mm; background: #fff; }
+}
+`;
+
+const renderDocument = (title: string, language: string, body: string): string => `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_CSS}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const hasMultipleCorrect = (data: ExamExportData): boolean =>
+  !!data.settings.allowMultipleCorrect || data.testQuestions.some(q => q.correctIndices.length > 1);
+
+export const getSheetOptionCount = (data: ExamExportData): number => Math.max(...data.testQuestions.map(q => q.options.length), 1);
+
+const renderBooklet = (data: ExamExportData, variant: PaperVariant, seed: number): string => {
+  const language = data.settings.examLanguage ?? 'es';
+  const locale = getLocale(language);
+  const m = getMessages(language).paper.sheet;
+
+  const questions = variant.questions.map(({ question }) => {
+    const wrong = getWrongAnswerPoints(question, data.settings);
+    return `
+    <li class="question">
+      <div>${escapeHtml(question.question)} <span class="question-points">${m.points(formatPoints(1, locale), wrong ? formatPoints(wrong, locale) : null)}</span></div>
+      <ol class="options">
+        ${question.options.map((option, idx) => `<li><span class="letter">${toLetter(idx)})</span>${escapeHtml(option)}</li>`).join('\n        ')}
+      </ol>
+    </li>`;
+  }).join('');
+
+  return `
+<section class="booklet">
+  <header class="exam-header">
+    <div class="title-row">
+      <h1>${escapeHtml(data.title)}</h1>
+      <span class="badge">${m.variant} ${variant.code} · ${m.series} ${seed}</span>
+    </div>
+    <div class="fields">
+      <div class="field">${m.name}</div>
+      <div class="field short">${m.date}</div>
+      <div class="field short">${m.group}</div>
+    </div>
+    <p class="instructions">${m.instructions}${hasMultipleCorrect(data) ? ` ${m.multipleCorrect}` : ''}</p>
+    <p class="instructions">${describeScoring(data, locale, m)}</p>
+  </header>
+  <ol class="questions">${questions}
+  </ol>
+</section>`;
+};
+
+const text = (value: string, point: Point, align: 'center' | 'right' | 'left' = 'center', style = ''): string =>
+  `<div class="abs${align === 'left' ? '' : ` ${align}`}" style="left:${mm(point.x)};top:${mm(point.y)};${style}">${value}</div>`;
+
+const bubble = (point: Point, filled = false): string =>
+  `<div class="bubble${filled ? ' filled' : ''}" style="left:${mm(point.x)};top:${mm(point.y)}"></div>`;
+
+const renderAnswerSheet = (data: ExamExportData, variant: PaperVariant, variantCount: number, seed: number): string => {
+  const language = data.settings.examLanguage ?? 'es';
+  const m = getMessages(language).paper.sheet;
+  const layout = getAnswerSheetLayout(variant.questions.length, getSheetOptionCount(data));
+  const variantIndex = variant.code.charCodeAt(0) - 65;
+  const half = SHEET.fiducialSize / 2;
+
+  const fiducials = SHEET.fiducials.map(({ x, y }) =>
+    `<div class="fiducial" style="left:${mm(x - half)};top:${mm(y - half)};width:${mm(SHEET.fiducialSize)};height:${mm(SHEET.fiducialSize)}"></div>`
+  );
+
+  const studentId = layout.studentIdBubbles.flatMap((digits, position) => [
+    `<div class="digit-box" style="left:${mm(digits[0].x)};top:${mm(digits[0].y - 10)}"></div>`,
+    ...digits.map(point => bubble(point)),
+    ...(position === 0 ? digits.map((point, digit) => text(String(digit), { x: point.x - 4, y: point.y }, 'right', 'font-size:7pt')) : []),
+  ]);
+
+  // The variant is pre-filled, so the reader knows which key to apply
+  const variants = layout.variantBubbles.slice(0, variantCount).flatMap((point, v) => [
+    text(toLetter(v), { x: point.x, y: point.y - 5 }, 'center', 'font-size:8pt'),
+    bubble(point, v === variantIndex),
+  ]);
+
+  const answers = [
+    ...layout.optionHeaders.flatMap(headers => headers.map((point, o) => text(toLetter(o), point, 'center', 'font-weight:bold'))),
+    ...layout.questionLabels.map((point, q) => text(String(q + 1), point, 'right')),
+    ...layout.answerBubbles.flatMap(options => options.map(point => bubble(point))),
+  ];
+
+  return `
+<section class="sheet">
+  ${fiducials.join('\n  ')}
+  ${text(`<h2>${m.answerSheet}</h2>`, { x: 22, y: 22 }, 'left', 'transform:translateY(-50%)')}
+  ${text(`${escapeHtml(data.title)} · <b>${m.variant} ${variant.code}</b> · ${m.series} ${seed}`, { x: 22, y: 30 }, 'left', 'transform:translateY(-50%);max-width:160mm;overflow:hidden;text-overflow:ellipsis')}
+  <div class="write-line" style="left:22mm;top:34mm;width:166mm">${m.name}</div>
+  <div class="write-line" style="left:22mm;top:44mm;width:60mm">${m.date}</div>
+  <div class="write-line" style="left:90mm;top:44mm;width:40mm">${m.group}</div>
+  ${text(m.studentId, { x: 22, y: 54 }, 'left', 'font-weight:bold;transform:translateY(-50%)')}
+  ${studentId.join('\n  ')}
+  ${text(m.variant, { x: VARIANT_ROW.left - 4, y: 54 }, 'left', 'font-weight:bold;transform:translateY(-50%)')}
+  ${variants.join('\n  ')}
+  ${text(m.fillHint, { x: 110, y: 90 }, 'left', 'white-space:normal;width:78mm;transform:translateY(-50%);font-size:8pt')}
+  ${answers.join('\n  ')}
+</section>`;
+};
+
+const renderAnswerKey = (data: ExamExportData, variant: PaperVariant, seed: number): string => {
+  const language = data.settings.examLanguage ?? 'es';
+  const locale = getLocale(language);
+  const m = getMessages(language).paper.sheet;
+
+  const rows = variant.questions.map(({ question, sourceIndex }, idx) => `
+      <tr><td>${idx + 1}</td><td><b>${question.correctIndices.map(toLetter).join(', ')}</b></td><td>${sourceIndex + 1}</td><td>${escapeHtml(question.question)}</td></tr>`).join('');
+
+  return `
+<section class="key">
+  <div class="title-row">
+    <h1>${escapeHtml(data.title)}</h1>
+    <span class="badge">${m.variant} ${variant.code} · ${m.series} ${seed}</span>
+  </div>
+  <h2 style="margin-top:3mm">${m.answerKey}</h2>
+  <p class="instructions">${describeScoring(data, locale, m)} · ${m.grade(variant.questions.length)}</p>
+  <table>
+    <thead><tr><th>#</th><th>${m.answer}</th><th>${m.original}</th><th>${m.question}</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+</section>`;
+};
+
+// Each variant's booklet followed by its answer sheet
+export const renderPaperExams = (data: ExamExportData, options: PaperExamOptions): string => {
+  const variants = buildVariants(data.testQuestions, options);
+  const body = variants
+    .map(variant => renderBooklet(data, variant, options.seed) + renderAnswerSheet(data, variant, variants.length, options.seed))
+    .join('\n');
+  return renderDocument(data.title, data.settings.examLanguage ?? 'es', body);
+};
+
+// Kept in a separate document so it is never handed out with the exams
+export const renderAnswerKeys = (data: ExamExportData, options: PaperExamOptions): string => {
+  const variants = buildVariants(data.testQuestions, options);
+  const language = data.settings.examLanguage ?? 'es';
+  const body = variants.map(variant => renderAnswerKey(data, variant, options.seed)).join('\n');
+  return renderDocument(`${data.title} · ${getMessages(language).paper.sheet.answerKey}`, language, body);
+};
+
+// ---------- Output ----------
+
+// Prints a standalone document from a hidden iframe; the print dialog can also save it as PDF
+export const printHtml = (html: string) => {
+  const iframe = document.createElement('iframe');
+  iframe.style.position = 'fixed';
+  iframe.style.right = '0';
+  iframe.style.bottom = '0';
+  iframe.style.width = '0';
+  iframe.style.height = '0';
+  iframe.style.border = '0';
+
+  iframe.onload = () => {
+    iframe.contentWindow?.focus();
+    iframe.contentWindow?.print();
+    // Cleanup after print dialog closes (or reasonably soon)
+    setTimeout(() => document.body.removeChild(iframe), 1000);
+  };
+  iframe.srcdoc = html;
+  document.body.appendChild(iframe);
+};
+
+export const downloadHtml = (html: string, title: string, suffix: string) =>
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${slugify(title)}-${suffix}.html`);
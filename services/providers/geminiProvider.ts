@@ -0,0 +1,84 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import type { JsonSchema, LLMJsonRequest, LLMProvider, LLMProviderConfig, LLMRequest } from "../llmProvider";
+import { parseJsonResponse } from "../llmProvider";
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  integer: Type.INTEGER,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => {
+  const result: Schema = { type: TYPE_MAP[schema.type] };
+  if (schema.description) result.description = schema.description;
+  if (schema.items) result.items = toGeminiSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+export const createGeminiProvider = (config: LLMProviderConfig): LLMProvider => {
+  const model = config.model || DEFAULT_MODEL;
+
+  const getAiClient = () => {
+    if (!config.apiKey) {
+      throw new Error("API Key is missing");
+    }
+    return new GoogleGenAI({ apiKey: config.apiKey });
+  };
+
+  return {
+    id: 'gemini',
+
+    async generateText(request: LLMRequest) {
+      const response = await getAiClient().models.generateContent({
+        model,
+        contents: request.prompt,
+      });
+      return response.text || "";
+    },
+
+    async generateJSON<T>(request: LLMJsonRequest) {
+      const response = await getAiClient().models.generateContent({
+        model,
+        contents: request.prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema),
+        },
+      });
+      return parseJsonResponse<T>(response.text || "null");
+    },
+
+    async generateImage(prompt: string) {
+      const imageResponse = await getAiClient().models.generateContent({
+        model: IMAGE_MODEL,
+        contents: {
+          parts: [{ text: prompt }],
+        },
+        config: {
+          imageConfig: {
+            aspectRatio: "16:9",
+          }
+        }
+      });
+
+      for (const part of imageResponse.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) {
+          return `data:image/png;base64,${part.inlineData.data}`;
+        }
+      }
+      return null;
+    },
+  };
+};
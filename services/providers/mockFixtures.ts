@@ -0,0 +1,90 @@
+import type { LLMTask } from "../llmProvider";
+import { ClozeCard, OpenQuestion, TestQuestion } from "../../types";
+
+// Canned responses returned by the mock provider, so the whole exam flow
+// can be exercised offline and without spending API quota.
+
+const testQuestions: TestQuestion[] = [
+  {
+    question: "¿Qué orgánulo celular se encarga de producir la mayor parte de la energía (ATP)?",
+    options: ["La mitocondria", "El ribosoma", "El aparato de Golgi", "El lisosoma"],
+    correctIndices: [0],
+    explanation: "El texto indica que la mitocondria es la central energética de la célula.",
+    sourceQuote: "La mitocondria es la central energética de la célula.",
+    sourceFile: "documento-de-prueba.pdf (Pág. 1)",
+  },
+  {
+    question: "¿Dónde se almacena el material genético en las células eucariotas?",
+    options: ["En el citoplasma", "En el núcleo", "En la membrana plasmática", "En la vacuola"],
+    correctIndices: [1],
+    explanation: "Según el texto, el ADN de las células eucariotas se encuentra en el núcleo.",
+    sourceQuote: "El ADN de las células eucariotas se encuentra en el núcleo.",
+    sourceFile: "documento-de-prueba.pdf (Pág. 1)",
+  },
+  {
+    question: "¿Cuáles de las siguientes estructuras están presentes en las células vegetales?",
+    options: ["Pared celular", "Cloroplastos", "Centriolos", "Flagelos"],
+    correctIndices: [0, 1],
+    explanation: "El texto menciona la pared celular y los cloroplastos como rasgos propios de las células vegetales.",
+    sourceQuote: "Las células vegetales poseen pared celular y cloroplastos.",
+    sourceFile: "documento-de-prueba.pdf (Pág. 2)",
+  },
+];
+
+const clozeCards: ClozeCard[] = [
+  {
+    fullText: "La mitocondria es la central energética de la célula.",
+    hiddenWords: ["mitocondria"],
+    imagePrompt: "",
+    sourceFile: "documento-de-prueba.pdf (Pág. 1)",
+  },
+  {
+    fullText: "Las células vegetales poseen pared celular y cloroplastos.",
+    hiddenWords: ["pared celular", "cloroplastos"],
+    imagePrompt: "",
+    sourceFile: "documento-de-prueba.pdf (Pág. 2)",
+  },
+];
+
+const openQuestions: OpenQuestion[] = [
+  {
+    question: "¿Qué función cumple la mitocondria?",
+    modelAnswer: "Produce la mayor parte de la energía de la célula en forma de ATP.",
+    rubric: [
+      { point: "Produce energía para la célula", weight: 3 },
+      { point: "La energía se obtiene en forma de ATP", weight: 1 },
+    ],
+    sourceFile: "documento-de-prueba.pdf (Pág. 1)",
+  },
+  {
+    question: "¿Qué diferencia a una célula vegetal de una animal?",
+    modelAnswer: "La célula vegetal tiene pared celular y cloroplastos, que la animal no posee.",
+    rubric: [
+      { point: "La célula vegetal tiene pared celular", weight: 2 },
+      { point: "La célula vegetal tiene cloroplastos", weight: 2 },
+    ],
+    sourceFile: "documento-de-prueba.pdf (Pág. 2)",
+  },
+];
+
+export const MOCK_FIXTURES: Record<LLMTask, unknown> = {
+  testQuestions,
+  clozeCards,
+  openQuestions,
+  evaluateOpenAnswer: {
+    criteria: [
+      { point: "Idea principal", score: 9 },
+      { point: "Detalle", score: 4 },
+    ],
+    feedback: "Respuesta simulada: cubre la idea principal pero le falta el detalle.",
+  },
+  followUpQuestion: {
+    enough: false,
+    comment: "Bien. Vamos a profundizar un poco más.",
+    question: "¿Por qué las células musculares tienen más mitocondrias?",
+    modelAnswer: "Porque necesitan mucha energía para contraerse.",
+    rubric: [{ point: "Las células musculares necesitan mucha energía", weight: 1 }],
+  },
+  examTitle: "Biología Celular Básica",
+  backgroundPrompt: "Abstract soft watercolor background with green and blue cell-like shapes",
+};
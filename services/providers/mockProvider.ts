@@ -0,0 +1,28 @@
+import type { LLMJsonRequest, LLMProvider, LLMRequest } from "../llmProvider";
+import { MOCK_FIXTURES } from "./mockFixtures";
+
+// Deterministic offline backend: always answers from MOCK_FIXTURES.
+// List fixtures are repeated or trimmed to match `expectedCount`.
+export const createMockProvider = (fixtures: typeof MOCK_FIXTURES = MOCK_FIXTURES): LLMProvider => {
+  const fixtureFor = (request: LLMRequest): unknown => {
+    const fixture = fixtures[request.task];
+    if (!Array.isArray(fixture) || request.expectedCount === undefined) {
+      return structuredClone(fixture);
+    }
+    if (fixture.length === 0) return [];
+    return Array.from({ length: request.expectedCount }, (_, i) => structuredClone(fixture[i % fixture.length]));
+  };
+
+  return {
+    id: 'mock',
+
+    async generateText(request: LLMRequest) {
+      const fixture = fixtureFor(request);
+      return typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+    },
+
+    async generateJSON<T>(request: LLMJsonRequest) {
+      return fixtureFor(request) as T;
+    },
+  };
+};
@@ -0,0 +1,56 @@
+import type { LLMJsonRequest, LLMProvider, LLMProviderConfig, LLMRequest } from "../llmProvider";
+import { parseJsonResponse } from "../llmProvider";
+
+// Works with OpenAI and with local servers exposing the same API
+// (llama.cpp `llama-server`, Ollama, LM Studio, vLLM...).
+const DEFAULT_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_MODEL = "llama3.1";
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+export const createOpenAICompatibleProvider = (config: LLMProviderConfig): LLMProvider => {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const model = config.model || DEFAULT_MODEL;
+
+  const chat = async (prompt: string, responseFormat?: object): Promise<string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually ignore the key, so it is optional here.
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM request failed (${response.status}): ${await response.text()}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    return data.choices?.[0]?.message?.content || "";
+  };
+
+  return {
+    id: 'openai',
+
+    generateText(request: LLMRequest) {
+      return chat(request.prompt);
+    },
+
+    async generateJSON<T>(request: LLMJsonRequest) {
+      const prompt = `${request.prompt}\n\nResponde ÚNICAMENTE con JSON válido que cumpla este esquema:\n${JSON.stringify(request.schema)}`;
+      const content = await chat(prompt, {
+        type: 'json_schema',
+        json_schema: { name: request.task, schema: request.schema },
+      });
+      return parseJsonResponse<T>(content || "null");
+    },
+  };
+};
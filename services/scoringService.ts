@@ -0,0 +1,107 @@
+import { CriterionScore, ExamSettings, ScoringScheme, TestQuestion } from '../types';
+
+// Marks for test answers, shared by the on-screen test, paper exams, answer
+// sheet grading and the LMS exports. A question is worth 1 point and a blank
+// answer always scores 0. Open answers are marked 0-10 per rubric key point
+// (see the end of the file).
+//
+//  - ALL_OR_NOTHING: 1 only for the exact set of correct options; a wrong answer
+//    scores 0, or loses `wrongPenalty` with negative marking.
+//  - PROPORTIONAL: each correct option marked adds 1/c, each wrong one marked
+//    takes 1/w away (c correct and w wrong options); never below 0.
+//  - PROPORTIONAL_PENALTY: the same, but a question can go down to -1.
+//  - GUESSING_CORRECTION: all or nothing, a wrong answer loses 1/(n-1) with n
+//    options, so random guessing averages 0.
+
+export const SCORING_SCHEMES: ScoringScheme[] = ['ALL_OR_NOTHING', 'PROPORTIONAL', 'PROPORTIONAL_PENALTY', 'GUESSING_CORRECTION'];
+
+export const DEFAULT_WRONG_PENALTY = 0.5;
+
+type ScoringSettings = Pick<ExamSettings, 'scoringScheme' | 'negativeMarking' | 'wrongPenalty'>;
+type ScoredQuestion = Pick<TestQuestion, 'options' | 'correctIndices'>;
+
+export const getScoringScheme = (settings: ScoringSettings): ScoringScheme => settings.scoringScheme ?? 'ALL_OR_NOTHING';
+
+const isPartialCredit = (scheme: ScoringScheme) => scheme === 'PROPORTIONAL' || scheme === 'PROPORTIONAL_PENALTY';
+
+export const isExactAnswer = (selected: number[], question: ScoredQuestion): boolean => {
+  const correct = new Set(question.correctIndices);
+  const marked = new Set(selected);
+  return correct.size === marked.size && [...correct].every(idx => marked.has(idx));
+};
+
+/**
+ * Points a wrong answer costs (as a negative number) under the all-or-nothing
+ * schemes. Null for the proportional ones, where it depends on what was marked.
+ */
+export const getWrongAnswerPoints = (question: ScoredQuestion, settings: ScoringSettings): number | null => {
+  switch (getScoringScheme(settings)) {
+    case 'GUESSING_CORRECTION':
+      return -1 / Math.max(question.options.length - 1, 1);
+    case 'ALL_OR_NOTHING':
+      return settings.negativeMarking ? -(settings.wrongPenalty ?? DEFAULT_WRONG_PENALTY) : 0;
+    default:
+      return null;
+  }
+};
+
+// Value of marking each option on its own, used by the proportional schemes and the LMS exports.
+// All-or-nothing multi-answer questions cannot be split that way: see hasExactOptionWeights.
+export const getOptionWeights = (question: ScoredQuestion, settings: ScoringSettings): number[] => {
+  const correct = new Set(question.correctIndices);
+  const correctCount = Math.max(correct.size, 1);
+  const wrongCount = Math.max(question.options.length - correct.size, 1);
+  const scheme = getScoringScheme(settings);
+  const penalised = scheme !== 'ALL_OR_NOTHING' || settings.negativeMarking;
+
+  return question.options.map((_, idx) => {
+    if (correct.has(idx)) return 1 / correctCount;
+    if (!penalised) return 0;
+    // A wrong single answer keeps its all-or-nothing penalty
+    if (scheme === 'ALL_OR_NOTHING' && correct.size <= 1) return -(settings.wrongPenalty ?? DEFAULT_WRONG_PENALTY);
+    return -1 / wrongCount;
+  });
+};
+
+// Whether adding up getOptionWeights for the marked options gives what scoreAnswer gives
+export const hasExactOptionWeights = (question: ScoredQuestion, settings: ScoringSettings): boolean =>
+  isPartialCredit(getScoringScheme(settings)) || question.correctIndices.length <= 1;
+
+// Whether a single question can take points away from the rest of the exam
+export const allowsNegativeScore = (settings: ScoringSettings): boolean => {
+  const scheme = getScoringScheme(settings);
+  return scheme === 'ALL_OR_NOTHING' ? !!settings.negativeMarking : scheme !== 'PROPORTIONAL';
+};
+
+export const scoreAnswer = (selected: number[], question: ScoredQuestion, settings: ScoringSettings): number => {
+  if (selected.length === 0) return 0;
+  const scheme = getScoringScheme(settings);
+
+  if (isPartialCredit(scheme)) {
+    const weights = getOptionWeights(question, settings);
+    const total = [...new Set(selected)].reduce((sum, idx) => sum + (weights[idx] ?? 0), 0);
+    return Math.max(scheme === 'PROPORTIONAL' ? 0 : -1, Math.min(1, total));
+  }
+
+  return isExactAnswer(selected, question) ? 1 : getWrongAnswerPoints(question, settings)!;
+};
+
+// 0-10 mark from the points of an exam where every question is worth 1
+export const toGrade = (points: number, questionCount: number): number =>
+  questionCount > 0 ? Math.round(Math.max(0, (points / questionCount) * 10)) : 0;
+
+// Rounded for display, so 1/3 credits do not show as 0.33333333
+export const roundPoints = (points: number): number => Math.round(points * 100) / 100;
+
+// Open answers are graded 0-10 against their rubric; from 5 up they count as right
+export const OPEN_PASS_SCORE = 5;
+
+// Weighted mean of the criterion scores, to one decimal
+export const getRubricScore = (criteria: CriterionScore[]): number => {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) return 0;
+  const score = criteria.reduce((sum, c) => sum + c.weight * c.score, 0) / totalWeight;
+  return Math.round(score * 10) / 10;
+};
+
+export const isOpenAnswerPassed = (score: number): boolean => score >= OPEN_PASS_SCORE;
@@ -0,0 +1,248 @@
+import { ExamSettings } from '../types';
+import { getLocale } from '../i18n';
+
+// Reading aloud, shared by every exam mode. What is read is queued as items
+// (a question, an option, an explanation...) split into sentences, so the UI
+// can highlight the sentence being spoken and pause between any two of them.
+// The browser's Web Speech synthesis is used unless another engine is plugged
+// in with setSpeechBackend, e.g. a local neural TTS such as Piper or Kokoro.
+
+export type SpeechSettings = Pick<ExamSettings, 'examLanguage' | 'voiceURI' | 'speechRate' | 'speechPitch'>;
+
+export const DEFAULT_SPEECH_RATE = 0.9; // Slightly slower than 1 sounds more natural
+export const DEFAULT_SPEECH_PITCH = 1;
+
+export interface SpeechItem {
+  id: string; // Reported while the item is read, to highlight it
+  text: string;
+  pauseAfter?: number; // ms of silence after the item, e.g. for cloze gaps
+}
+
+export type SpeechStatus = 'idle' | 'speaking' | 'paused';
+
+export interface SpeechState {
+  status: SpeechStatus;
+  itemId: string | null;
+  sentence: number; // Index in splitSentences(item.text) of the sentence being read
+}
+
+export interface SpeechUtterance {
+  text: string;
+  locale: string;
+  voiceURI?: string;
+  rate: number;
+  pitch: number;
+}
+
+/**
+ * A speech engine. It reads one sentence at a time and calls `onEnd` when it
+ * has finished it; `cancel` drops the sentence without calling either callback.
+ */
+export interface SpeechBackend {
+  id: string;
+  isAvailable: () => boolean;
+  speak: (utterance: SpeechUtterance, callbacks: { onEnd: () => void; onError: (error: Error) => void }) => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+}
+
+interface QueueEntry {
+  itemId: string;
+  sentence: number;
+  text: string;
+  pauseAfter: number;
+}
+
+const IDLE: SpeechState = { status: 'idle', itemId: null, sentence: 0 };
+// Chrome drops an utterance queued right after cancel()
+const START_DELAY_MS = 50;
+
+// Sentences end at . ! ? or ; followed by a space, or at line breaks
+export const splitSentences = (text: string): string[] =>
+  text.split(/(?<=[.!?;…])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+
+const findVoice = (voices: SpeechSynthesisVoice[], voiceURI: string | undefined, locale: string) =>
+  voices.find(v => v.voiceURI === voiceURI) ||
+  voices.find(v => v.lang.includes(locale)) ||
+  voices.find(v => v.lang.startsWith(locale.split('-')[0]));
+
+const webSpeechBackend = (): SpeechBackend => {
+  // Kept referenced while it plays: Chrome garbage-collects utterances and never fires their onend
+  let current: SpeechSynthesisUtterance | null = null;
+  return {
+    id: 'webspeech',
+    isAvailable: () => 'speechSynthesis' in window,
+    speak: ({ text, locale, voiceURI, rate, pitch }, { onEnd, onError }) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = locale;
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+      const voice = findVoice(window.speechSynthesis.getVoices(), voiceURI, locale);
+      if (voice) utterance.voice = voice;
+
+      utterance.onend = () => {
+        if (current !== utterance) return;
+        current = null;
+        onEnd();
+      };
+      utterance.onerror = event => {
+        if (current !== utterance) return;
+        current = null;
+        onError(new Error(`Error de síntesis de voz: ${event.error}`));
+      };
+      current = utterance;
+      window.speechSynthesis.speak(utterance);
+    },
+    pause: () => window.speechSynthesis.pause(),
+    resume: () => window.speechSynthesis.resume(),
+    cancel: () => {
+      current = null;
+      window.speechSynthesis.cancel();
+      // Otherwise a reading stopped while paused leaves the next one paused
+      window.speechSynthesis.resume();
+    },
+  };
+};
+
+const defaultBackend = webSpeechBackend();
+let customBackend: SpeechBackend | null = null;
+
+let state: SpeechState = IDLE;
+const listeners = new Set<() => void>();
+let queue: QueueEntry[] = [];
+let voiceOptions: Omit<SpeechUtterance, 'text'> | null = null;
+// Bumped by every speak and stop; callbacks of an older session are ignored
+let session = 0;
+let finishSession: ((finished: boolean) => void) | null = null;
+// What to do on resume when paused between sentences (or during a pauseAfter)
+let resumeQueue: (() => void) | null = null;
+let timer: number | undefined;
+
+export const setSpeechBackend = (backend: SpeechBackend | null) => {
+  stopSpeech();
+  customBackend = backend;
+};
+
+const getBackend = (): SpeechBackend | null => {
+  if (customBackend?.isAvailable()) return customBackend;
+  return defaultBackend.isAvailable() ? defaultBackend : null;
+};
+
+export const isSpeechSupported = (): boolean => getBackend() !== null;
+
+export const getSpeechState = (): SpeechState => state;
+
+// For useSyncExternalStore: `listener` is called whenever getSpeechState changes
+export const subscribeSpeech = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setState = (next: SpeechState) => {
+  if (next.status === state.status && next.itemId === state.itemId && next.sentence === state.sentence) return;
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const endSession = (finished: boolean) => {
+  clearTimeout(timer);
+  queue = [];
+  resumeQueue = null;
+  setState(IDLE);
+  const finish = finishSession;
+  finishSession = null;
+  finish?.(finished);
+};
+
+const playNext = (id: number) => {
+  if (id !== session) return;
+  if (state.status === 'paused') {
+    resumeQueue = () => playNext(id);
+    return;
+  }
+  const entry = queue.shift();
+  const backend = getBackend();
+  if (!entry || !backend || !voiceOptions) {
+    endSession(true);
+    return;
+  }
+
+  const next = () => {
+    if (id !== session) return;
+    if (entry.pauseAfter > 0) timer = window.setTimeout(() => playNext(id), entry.pauseAfter);
+    else playNext(id);
+  };
+  setState({ status: 'speaking', itemId: entry.itemId, sentence: entry.sentence });
+  if (!entry.text) {
+    next();
+    return;
+  }
+  backend.speak({ ...voiceOptions, text: entry.text }, {
+    onEnd: next,
+    onError: error => {
+      if (id !== session) return;
+      console.error(error);
+      endSession(false);
+    },
+  });
+};
+
+/**
+ * Reads the items in order, replacing whatever was being read. Resolves to
+ * true once everything has been read, or false when it was stopped, replaced
+ * or failed, so follow-up actions only run after a complete reading.
+ */
+export const speak = (items: SpeechItem[], settings: SpeechSettings): Promise<boolean> => {
+  stopSpeech();
+  if (!getBackend()) return Promise.resolve(false);
+
+  const id = session;
+  queue = items.flatMap(item => {
+    const sentences = splitSentences(item.text);
+    if (sentences.length === 0) sentences.push('');
+    return sentences.map((text, sentence) => ({
+      itemId: item.id,
+      sentence,
+      text,
+      pauseAfter: sentence === sentences.length - 1 ? item.pauseAfter ?? 0 : 0,
+    }));
+  });
+  voiceOptions = {
+    locale: getLocale(settings.examLanguage ?? 'es'),
+    voiceURI: settings.voiceURI,
+    rate: settings.speechRate ?? DEFAULT_SPEECH_RATE,
+    pitch: settings.speechPitch ?? DEFAULT_SPEECH_PITCH,
+  };
+  setState({ status: 'speaking', itemId: queue[0]?.itemId ?? null, sentence: 0 });
+
+  return new Promise(resolve => {
+    finishSession = resolve;
+    timer = window.setTimeout(() => playNext(id), START_DELAY_MS);
+  });
+};
+
+export const stopSpeech = () => {
+  session++;
+  const wasActive = state.status !== 'idle';
+  getBackend()?.cancel();
+  if (wasActive || finishSession) endSession(false);
+};
+
+export const pauseSpeech = () => {
+  if (state.status !== 'speaking') return;
+  getBackend()?.pause();
+  setState({ ...state, status: 'paused' });
+};
+
+export const resumeSpeech = () => {
+  if (state.status !== 'paused') return;
+  setState({ ...state, status: 'speaking' });
+  // The backend may have been paused just as a sentence ended, so it is resumed either way
+  getBackend()?.resume();
+  const next = resumeQueue;
+  resumeQueue = null;
+  next?.();
+};
@@ -0,0 +1,162 @@
+import { CardReviewState, ClozeCard, OpenQuestion, ReviewCardKind, ReviewGrade, SavedExam } from '../types';
+import { STORES, getRecord, getAllRecords, putRecord, deleteRecord } from './database';
+import { listExams } from './examLibrary';
+
+// SM-2 scheduler (Anki flavour) for cloze and open-question decks.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+export const NEW_CARDS_PER_DAY = 20;
+
+export type ReviewCard =
+  | { kind: 'cloze'; card: ClozeCard }
+  | { kind: 'open'; card: OpenQuestion };
+
+export type DueCard = ReviewCard & {
+  id: string;
+  examId: string;
+  examTitle: string;
+  state?: CardReviewState;
+};
+
+// Small stable string hash (FNV-1a), so edits to a card start a fresh schedule
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const getCardId = (examId: string, card: ReviewCard): string => {
+  const text = card.kind === 'cloze' ? card.card.fullText : card.card.question;
+  return `${examId}:${card.kind}:${hashText(text)}`;
+};
+
+const endOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+/**
+ * Computes the next review state after answering a card with `grade`.
+ * Pure function: pass `previous` undefined for a card seen for the first time.
+ */
+export const scheduleReview = (
+  id: string,
+  examId: string,
+  kind: ReviewCardKind,
+  previous: CardReviewState | undefined,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): CardReviewState => {
+  const state: CardReviewState = previous
+    ? { ...previous }
+    : { id, examId, kind, ease: DEFAULT_EASE, interval: 0, repetitions: 0, lapses: 0, due: now, lastReviewed: now, introduced: now };
+
+  state.lastReviewed = now;
+
+  if (grade === 'AGAIN') {
+    state.repetitions = 0;
+    state.interval = 0;
+    if (previous) state.lapses += 1;
+    state.ease = Math.max(MIN_EASE, state.ease - 0.2);
+    state.due = now + RELEARN_DELAY_MS;
+    return state;
+  }
+
+  if (state.repetitions === 0) {
+    state.interval = grade === 'EASY' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    state.interval = grade === 'HARD' ? 3 : grade === 'EASY' ? 8 : 6;
+  } else {
+    const factor = grade === 'HARD' ? 1.2 : grade === 'EASY' ? state.ease * 1.3 : state.ease;
+    state.interval = Math.max(state.interval + 1, Math.round(state.interval * factor));
+  }
+
+  if (grade === 'HARD') state.ease = Math.max(MIN_EASE, state.ease - 0.15);
+  if (grade === 'EASY') state.ease += 0.15;
+
+  state.repetitions += 1;
+  state.due = now + state.interval * DAY_MS;
+  return state;
+};
+
+// Human readable interval for the grade buttons ("10 min", "3 d"...)
+const formatUnit = (locale: string, value: number, unit: string, unitDisplay: 'short' | 'long') =>
+  new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay, maximumFractionDigits: 1 }).format(value);
+
+export const formatInterval = (state: CardReviewState, now: number = Date.now(), locale = 'es-ES'): string => {
+  const ms = state.due - now;
+  if (ms < DAY_MS) return formatUnit(locale, Math.max(1, Math.round(ms / 60000)), 'minute', 'short');
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return formatUnit(locale, days, 'day', 'short');
+  if (days < 365) return formatUnit(locale, Math.round(days / 30), 'month', 'long');
+  return formatUnit(locale, days / 365, 'year', 'long');
+};
+
+export const getReviewState = (id: string): Promise<CardReviewState | undefined> =>
+  getRecord<CardReviewState>(STORES.reviews, id);
+
+export const recordReview = async (examId: string, card: ReviewCard, grade: ReviewGrade): Promise<CardReviewState> => {
+  const id = getCardId(examId, card);
+  const previous = await getReviewState(id);
+  const next = scheduleReview(id, examId, card.kind, previous, grade);
+  await putRecord(STORES.reviews, next);
+  return next;
+};
+
+export const deleteReviewsForExam = async (examId: string): Promise<void> => {
+  const states = await getAllRecords<CardReviewState>(STORES.reviews);
+  await Promise.all(states.filter(s => s.examId === examId).map(s => deleteRecord(STORES.reviews, s.id)));
+};
+
+const getDeckCards = (exam: SavedExam): ReviewCard[] => [
+  ...exam.clozeCards.map(card => ({ kind: 'cloze' as const, card })),
+  ...exam.openQuestions.map(card => ({ kind: 'open' as const, card })),
+];
+
+/**
+ * Builds today's queue from every saved deck: cards due before the end of the day
+ * (oldest first) plus up to NEW_CARDS_PER_DAY unseen cards, interleaved across decks.
+ */
+export const getDueQueue = async (now: number = Date.now()): Promise<DueCard[]> => {
+  const [exams, states] = await Promise.all([listExams(), getAllRecords<CardReviewState>(STORES.reviews)]);
+  const stateById = new Map(states.map(s => [s.id, s]));
+  const introducedToday = states.filter(s => s.introduced > endOfDay(now) - DAY_MS).length;
+
+  const due: DueCard[] = [];
+  const newByDeck: DueCard[][] = [];
+
+  exams.forEach(exam => {
+    const newCards: DueCard[] = [];
+    getDeckCards(exam).forEach(reviewCard => {
+      const id = getCardId(exam.id, reviewCard);
+      const state = stateById.get(id);
+      const dueCard = { ...reviewCard, id, examId: exam.id, examTitle: exam.title, state } as DueCard;
+      if (!state) {
+        newCards.push(dueCard);
+      } else if (state.due <= endOfDay(now)) {
+        due.push(dueCard);
+      }
+    });
+    if (newCards.length > 0) newByDeck.push(newCards);
+  });
+
+  due.sort((a, b) => a.state!.due - b.state!.due);
+
+  // Round-robin over decks so new cards are mixed, not studied deck by deck
+  const newLimit = Math.max(0, NEW_CARDS_PER_DAY - introducedToday);
+  const newCards: DueCard[] = [];
+  for (let round = 0; newCards.length < newLimit && newByDeck.some(deck => round < deck.length); round++) {
+    newByDeck.forEach(deck => {
+      if (round < deck.length && newCards.length < newLimit) newCards.push(deck[round]);
+    });
+  }
+
+  return [...due, ...newCards];
+};
@@ -6,6 +6,12 @@ export enum ExamType {
 
 export type Difficulty = 'EASY' | 'MEDIUM' | 'HARD';
 
+// How test answers are marked (see scoringService.ts)
+export type ScoringScheme = 'ALL_OR_NOTHING' | 'PROPORTIONAL' | 'PROPORTIONAL_PENALTY' | 'GUESSING_CORRECTION';
+
+// Interface languages; any of them can also be the exam language
+export type Language = 'es' | 'en' | 'ca' | 'pt';
+
 export interface TestQuestion {
   question: string;
   options: string[];
@@ -13,6 +19,7 @@ export interface TestQuestion {
   explanation: string;
   sourceQuote: string;
   sourceFile?: string;
+  ungrounded?: boolean; // sourceQuote could not be found in the document text
 }
 
 export interface ClozeCard {
@@ -22,20 +29,58 @@ export interface ClozeCard {
   sourceFile?: string;
 }
 
+// Key point an open answer is expected to cover
+export interface RubricCriterion {
+  point: string;
+  weight: number; // Relative to the other points of the question
+}
+
 export interface OpenQuestion {
   question: string;
   modelAnswer: string;
+  rubric?: RubricCriterion[]; // Missing in exams saved or imported before rubrics existed
   sourceFile?: string;
 }
 
+export interface CriterionScore extends RubricCriterion {
+  score: number; // 0-10
+}
+
+export interface OpenAnswerEvaluation {
+  score: number; // 0-10, weighted mean of the criteria
+  feedback: string;
+  criteria: CriterionScore[];
+  heuristic?: boolean; // Graded offline by keyword overlap instead of the LLM
+}
+
+// One exchange of an oral exam: a question of the exam or a follow-up the examiner asked
+export interface OralTurn {
+  question: OpenQuestion;
+  answer: string;
+  followUp: boolean;
+  comment?: string; // What the examiner said about the previous answer before asking
+  timeSpent: number; // ms
+  evaluation?: OpenAnswerEvaluation; // Added when the exam is graded, at the end
+}
+
+// 1-based, inclusive
+export interface PageRange {
+  start: number;
+  end: number;
+}
+
 export interface ExamSettings {
   type: ExamType;
   questionCount: number;
   difficulty: Difficulty;
+  examLanguage?: Language; // Language of the generated items, whatever the documents are written in
   // Test Mode specific
   optionsCount?: number;
   allowMultipleCorrect?: boolean;
   negativeMarking?: boolean;
+  scoringScheme?: ScoringScheme; // ALL_OR_NOTHING when missing
+  wrongPenalty?: number; // Points a wrong answer costs with negativeMarking under ALL_OR_NOTHING, 0.5 when missing
+  regenerateUngrounded?: boolean; // Replace questions whose sourceQuote is not in the text
   // Cloze specific
   maxClozeBlanks?: number;
   // General
@@ -44,11 +89,29 @@ export interface ExamSettings {
   showSummary?: boolean;
   showSourceFile?: boolean;
   benevolence?: 'STRICT' | 'NORMAL' | 'BENEVOLENT';
+  offlineGrading?: boolean; // Grade open answers locally (offlineGrader) without calling the LLM
+  oralExam?: boolean; // Ask open questions as a spoken exam with follow-ups
   voiceURI?: string;
+  speechRate?: number; // 0.5-2, DEFAULT_SPEECH_RATE when missing
+  speechPitch?: number; // 0.5-2, 1 when missing
+  readExplanation?: boolean; // Read the explanation (or the grading feedback) aloud after each answer
+  reviewBeforeExam?: boolean; // Show the REVIEW editor between generation and the exam
+  // Pages to generate from, per file name. Files not listed are used whole
+  pageSelection?: Record<string, PageRange[]>;
+  // Questions per file set by hand, replacing the page-based share; questionCount is their sum
+  documentCounts?: Record<string, number>;
+}
+
+// How a set of paper variants was printed; the same options rebuild its answer keys
+export interface PaperExamOptions {
+  variantCount: number;
+  seed: number;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
 }
 
 export interface AppState {
-  step: 'UPLOAD' | 'SETTINGS' | 'LOADING' | 'EXAM' | 'RESULTS';
+  step: 'UPLOAD' | 'SETTINGS' | 'LOADING' | 'REVIEW' | 'EXAM' | 'RESULTS' | 'STUDY' | 'PROGRESS' | 'PRACTICE';
   pdfText: string;
   settings: ExamSettings;
   testQuestions: TestQuestion[];
@@ -56,4 +119,68 @@ export interface AppState {
   openQuestions: OpenQuestion[];
   generatedImages: Record<number, string>; // Map index to base64 image
   uploadedFiles?: Map<string, File>; // Map filename to File object
-}
\ No newline at end of file
+  examId?: string; // Id of the exam in the saved library, once persisted
+}
+export interface SavedExam {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  settings: ExamSettings;
+  pdfText: string;
+  files: File[]; // Stored as-is: IndexedDB can clone File objects
+  testQuestions: TestQuestion[];
+  clozeCards: ClozeCard[];
+  openQuestions: OpenQuestion[];
+  paperExam?: PaperExamOptions; // Last printed paper variants, reused to grade their answer sheets
+}
+
+export type ReviewGrade = 'AGAIN' | 'HARD' | 'GOOD' | 'EASY';
+
+export type ReviewCardKind = 'cloze' | 'open';
+
+// Spaced-repetition state of a single card (SM-2)
+export interface CardReviewState {
+  id: string; // `${examId}:${kind}:${hash of the card text}`
+  examId: string;
+  kind: ReviewCardKind;
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  due: number; // timestamp
+  lastReviewed: number;
+  introduced: number; // timestamp of the first review
+}
+
+// Local learner; every finished exam is recorded under the active profile
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface QuestionAttempt {
+  question: string;
+  correct: boolean;
+  points: number;
+  timeSpent: number; // ms
+  timedOut?: boolean;
+  sourceFile?: string; // "file.pdf (Pág. 5)", as generated
+  difficulty?: Difficulty; // Set in adaptive practice, where it changes from question to question
+}
+
+export interface ExamAttempt {
+  id: string;
+  profileId: string;
+  examId?: string;
+  examTitle: string;
+  settings: ExamSettings;
+  startedAt: number;
+  finishedAt: number;
+  questions: QuestionAttempt[]; // Only the answered ones when the exam was finished early
+  score: number;
+  maxScore: number;
+  grade: number; // 0-10, as shown on the results screen
+  practice?: boolean; // Adaptive weak-spot practice rather than a regular exam
+}